@@ -1,19 +1,22 @@
 import type { Page } from "playwright-crx";
-import { ConfigManager, ProviderConfig } from "../background/configManager";
+import { ConfigManager, ModelRole, ProviderConfig } from "../background/configManager";
 import { createProvider } from "../models/providers/factory";
 import { LLMProvider } from "../models/providers/types";
 import { ErrorHandler } from "./ErrorHandler";
-import { ExecutionEngine, ExecutionCallbacks } from "./ExecutionEngine";
+import { ExecutionEngine, ExecutionCallbacks, PromptOptions } from "./ExecutionEngine";
 import { MemoryManager } from "./MemoryManager";
 import { initializePageContext } from "./PageContextManager";
+import { PlanManager } from "./PlanManager";
 import { PromptManager } from "./PromptManager";
+import { createTokenCounter, TokenCounter } from "./TokenManager";
 import { ToolManager } from "./ToolManager";
-import { getAllTools } from "./tools/index";
-import { BrowserTool, ToolExecutionContext } from "./tools/types";
+import { getAllTools, updatePlan } from "./tools/index";
+import { BrowserTool, ToolExecutionContext, ToolInputSchema } from "./tools/types";
 // Define our own DynamicTool interface to avoid import issues
 interface DynamicTool {
   name: string;
   description: string;
+  inputSchema?: ToolInputSchema;
   func: (input: string) => Promise<string>;
 }
 
@@ -39,20 +42,31 @@ export class BrowserAgent {
   promptManager: PromptManager;
   private memoryManager: MemoryManager;
   private errorHandler: ErrorHandler;
+  private planManager: PlanManager;
   private executionEngine: ExecutionEngine;
 
   /**
    * Create a new BrowserAgent
    */
-  constructor(page: Page, config: ProviderConfig, provider?: LLMProvider) {
+  constructor(
+    page: Page,
+    config: ProviderConfig,
+    provider?: LLMProvider,
+    fallbackProviders: LLMProvider[] = [],
+    roleProviders: Partial<Record<ModelRole, LLMProvider>> = {},
+    tokenCounters: Map<LLMProvider, TokenCounter> = new Map()
+  ) {
     // Initialize the PageContextManager with the initial page
     initializePageContext(page);
 
     // Use the provided provider or create a new one
     this.llmProvider = provider!;
 
+    // The plan tool writes to this agent's plan rather than to the page
+    this.planManager = new PlanManager();
+
     // Get all tools from the tools module and convert them to BrowserTool objects
-    const rawTools = getAllTools(page);
+    const rawTools = [...getAllTools(page), updatePlan(this.planManager)];
     const browserTools = this.convertToBrowserTools(rawTools);
 
     // Initialize all the components
@@ -67,14 +81,24 @@ export class BrowserAgent {
       this.toolManager,
       this.promptManager,
       this.memoryManager,
-      this.errorHandler
+      this.errorHandler,
+      {
+        reserveTokens: config.contextReserveTokens,
+        tokenCounter: createTokenCounter(config.provider, this.llmProvider.getModel().id),
+        tokenCounters,
+        maxSteps: config.maxSteps,
+        planManager: this.planManager,
+        verifyTasks: config.verifyTasks,
+        fallbackProviders,
+        roleProviders,
+      }
     );
   }
 
   /**
    * Convert tools from DynamicTool to BrowserTool format
-   * This is needed because the tools are created using langchain's DynamicTool,
-   * but our ToolManager expects BrowserTool objects.
+   * This normalizes any tool-like object (name, description, func) into the
+   * BrowserTool objects our ToolManager expects, keeping its input schema.
    */
   private convertToBrowserTools(tools: any[]): BrowserTool[] {
     return tools.map(tool => {
@@ -83,6 +107,7 @@ export class BrowserAgent {
         return {
           name: tool.name,
           description: tool.description,
+          inputSchema: tool.inputSchema,
           func: async (input: string, _context?: ToolExecutionContext) => {
             // Call the original function, ignoring any extra parameters
             return await tool.func(input);
@@ -119,6 +144,21 @@ export class BrowserAgent {
     this.errorHandler.cancel();
   }
 
+  /**
+   * Pause the current execution before its next step
+   */
+  pause(): void {
+    this.errorHandler.pause();
+  }
+
+  /**
+   * Resume a paused execution
+   * @param instruction Optional extra instruction to add to the conversation
+   */
+  resume(instruction?: string): void {
+    this.errorHandler.resume(instruction);
+  }
+
   /**
    * Reset the cancel flag
    */
@@ -139,12 +179,14 @@ export class BrowserAgent {
   async executePromptWithFallback(
     prompt: string,
     callbacks: ExecutionCallbacks,
-    initialMessages: any[] = []
+    initialMessages: any[] = [],
+    options: PromptOptions = {}
   ): Promise<void> {
     return this.executionEngine.executePromptWithFallback(
       prompt,
       callbacks,
-      initialMessages
+      initialMessages,
+      options
     );
   }
 
@@ -205,16 +247,65 @@ export async function createBrowserAgent(
   }
 
   // Create the provider with the configuration
-  const provider = await createProvider(providerConfig.provider, {
-    apiKey: providerConfig.apiKey,
-    apiModelId: providerConfig.apiModelId,
-    baseUrl: providerConfig.baseUrl,
-    thinkingBudgetTokens: providerConfig.thinkingBudgetTokens,
-    dangerouslyAllowBrowser: true,
-  });
+  const provider = await createProviderFromConfig(providerConfig);
+
+  // Each model counts tokens with its own tokenizer
+  const tokenCounters = new Map<LLMProvider, TokenCounter>();
+
+  // Create the fallback providers, skipping any that can't be set up
+  const fallbackProviders: LLMProvider[] = [];
+  try {
+    for (const fallbackConfig of await configManager.getFallbackConfigs()) {
+      try {
+        const fallbackProvider = await createProviderFromConfig({
+          ...fallbackConfig,
+          apiKey: fallbackConfig.apiKey || 'dummy-key', // only Ollama may have no key
+        });
+        fallbackProviders.push(fallbackProvider);
+        tokenCounters.set(fallbackProvider, createTokenCounter(fallbackConfig.provider, fallbackProvider.getModel().id));
+      } catch (error) {
+        console.warn(`Failed to create fallback provider ${fallbackConfig.provider}/${fallbackConfig.apiModelId}:`, error);
+      }
+    }
+  } catch (error) {
+    console.warn('Failed to get fallback models, continuing without them:', error);
+  }
+
+  // Create the providers for the models chosen for particular roles
+  const roleProviders: Partial<Record<ModelRole, LLMProvider>> = {};
+  try {
+    for (const [role, roleConfig] of Object.entries(await configManager.getRoleConfigs())) {
+      try {
+        const roleProvider = await createProviderFromConfig({
+          ...roleConfig,
+          apiKey: roleConfig.apiKey || 'dummy-key', // only Ollama may have no key
+        });
+        roleProviders[role as ModelRole] = roleProvider;
+        tokenCounters.set(roleProvider, createTokenCounter(roleConfig.provider, roleProvider.getModel().id));
+      } catch (error) {
+        console.warn(`Failed to create the ${role} model ${roleConfig.provider}/${roleConfig.apiModelId}, using the selected model instead:`, error);
+      }
+    }
+  } catch (error) {
+    console.warn('Failed to get the models for each role, using the selected model for all steps:', error);
+  }
 
   // Create the agent with the provider configuration and provider
-  return new BrowserAgent(page, providerConfig, provider);
+  return new BrowserAgent(page, providerConfig, provider, fallbackProviders, roleProviders, tokenCounters);
+}
+
+/**
+ * Create an LLM provider from a stored provider configuration
+ */
+async function createProviderFromConfig(config: ProviderConfig): Promise<LLMProvider> {
+  return createProvider(config.provider, {
+    apiKey: config.apiKey,
+    apiModelId: config.apiModelId,
+    baseUrl: config.baseUrl,
+    thinkingBudgetTokens: config.thinkingBudgetTokens,
+    reasoning: config.reasoning,
+    dangerouslyAllowBrowser: true,
+  });
 }
 
 /**
@@ -262,7 +353,8 @@ export async function executePromptWithFallback(
   agent: BrowserAgent,
   prompt: string,
   callbacks: ExecutionCallbacks,
-  initialMessages: any[] = []
+  initialMessages: any[] = [],
+  options: PromptOptions = {}
 ): Promise<void> {
-  return agent.executePromptWithFallback(prompt, callbacks, initialMessages);
+  return agent.executePromptWithFallback(prompt, callbacks, initialMessages, options);
 }
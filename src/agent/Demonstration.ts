@@ -0,0 +1,234 @@
+/**
+ * Demonstration turns what the user does in a tab — clicks, typing, key presses
+ * and navigations — into the tool sequence of a memory, so a task can be taught
+ * by showing it once instead of having the LLM summarise a session.
+ */
+
+/**
+ * Something the user did while their actions were being recorded
+ */
+export type RecordedEvent =
+  | { type: "click"; selector: string; editable?: boolean; time: number }  // editable: a text field
+  | { type: "input"; selector: string; value: string; time: number }       // the field's value after the change
+  | { type: "select"; selector: string; option: string; time: number }     // the text of the option chosen in a <select>
+  | { type: "key"; key: string; time: number }                             // a key that isn't text, e.g. "Enter" or "Control+A"
+  | { type: "navigate"; url: string; time: number };                       // the tab's main frame loaded a new URL
+
+/**
+ * The steps of a finished recording, for the user to review before saving them as a memory
+ */
+export interface RecordedDemonstration {
+  domain: string;          // site of the memory, empty if the recording never left pages like about:blank
+  toolSequence: string[];
+  unreplayable: string[];  // things the user did that no tool can replay, e.g. choosing an option in a list
+}
+
+// Name of the function the recorder calls in the page to report an event
+export const RECORDER_BINDING = "__browserbeeRecordEvent";
+
+// A navigation this soon after a click or key press is taken to be caused by it
+const CAUSED_NAVIGATION_MS = 3000;
+
+// Longest selector, value or key the page may report; anything longer is dropped
+const MAX_REPORTED_TEXT_LENGTH = 5000;
+
+/**
+ * Listen for the user's actions in the page and report them through the recorder
+ * binding. The function is injected into pages as source, so it must not refer to
+ * anything outside its own body.
+ */
+export function installRecorder(bindingName: string): void {
+  const w = window as any;
+  if (w.__browserbeeRecorder || window !== window.top) return;
+  w.__browserbeeRecorder = true;
+
+  const isUnique = (selector: string): boolean => {
+    try {
+      return document.querySelectorAll(selector).length === 1;
+    } catch {
+      return false;
+    }
+  };
+  const quote = (value: string): string => JSON.stringify(value);
+
+  // Prefer attributes that survive page changes; fall back to a path of positions
+  const selectorFor = (element: Element): string => {
+    const tag = element.tagName.toLowerCase();
+    if (element.id && !/\d{3,}|[:]/.test(element.id) && isUnique(`#${CSS.escape(element.id)}`)) {
+      return `#${CSS.escape(element.id)}`;
+    }
+    for (const attribute of ["data-testid", "data-test", "data-qa", "name", "aria-label", "placeholder", "title"]) {
+      const value = element.getAttribute(attribute);
+      if (value && isUnique(`${tag}[${attribute}=${quote(value)}]`)) {
+        return `${tag}[${attribute}=${quote(value)}]`;
+      }
+    }
+    // Buttons and links can be clicked by their text, unless it would be read as a selector
+    const text = (element.textContent || "").trim().replace(/\s+/g, " ");
+    if (/^(a|button)$/.test(tag) && text && text.length <= 40 && !/[#.[]/.test(text)) {
+      const matches = Array.from(document.querySelectorAll("a, button"))
+        .filter(other => (other.textContent || "").trim().replace(/\s+/g, " ") === text);
+      if (matches.length === 1) return text;
+    }
+
+    const parts: string[] = [];
+    let current: Element | null = element;
+    while (current && current !== document.documentElement) {
+      const currentTag: string = current.tagName.toLowerCase();
+      if (current !== element && current.id && isUnique(`#${CSS.escape(current.id)}`)) {
+        parts.unshift(`#${CSS.escape(current.id)}`);
+        break;
+      }
+      const parent: Element | null = current.parentElement;
+      const siblings = parent ? Array.from(parent.children).filter(child => child.tagName === current!.tagName) : [];
+      parts.unshift(siblings.length > 1 ? `${currentTag}:nth-of-type(${siblings.indexOf(current) + 1})` : currentTag);
+      current = parent;
+    }
+    return parts.join(" > ");
+  };
+
+  const isEditable = (element: Element): boolean =>
+    element instanceof HTMLTextAreaElement ||
+    (element instanceof HTMLInputElement && !/^(button|submit|reset|checkbox|radio|file|image|range|color)$/.test(element.type)) ||
+    (element as HTMLElement).isContentEditable;
+
+  const emit = (event: Record<string, unknown>): void => {
+    const send = w[bindingName];
+    if (typeof send === "function") send({ ...event, time: Date.now() });
+  };
+
+  document.addEventListener("click", (event) => {
+    const target = event.target instanceof Element
+      ? event.target.closest("a, button, input, textarea, select, label, [role], [onclick], [contenteditable]") || event.target
+      : null;
+    if (target) emit({ type: "click", selector: selectorFor(target), editable: isEditable(target) });
+  }, true);
+
+  document.addEventListener("input", (event) => {
+    const target = event.target;
+    if (!(target instanceof Element) || !isEditable(target)) return;
+    // Passwords are never recorded; the step gets a placeholder to fill in on replay
+    const value = target instanceof HTMLInputElement && target.type === "password"
+      ? "[PASSWORD]"
+      : "value" in target ? String((target as HTMLInputElement).value) : target.textContent || "";
+    emit({ type: "input", selector: selectorFor(target), value });
+  }, true);
+
+  // Choosing an option doesn't fire a click on the option, so the choice is reported when the value changes
+  document.addEventListener("change", (event) => {
+    const target = event.target;
+    if (!(target instanceof HTMLSelectElement)) return;
+    const option = Array.from(target.selectedOptions).map(selected => (selected.textContent || "").trim()).join(", ");
+    emit({ type: "select", selector: selectorFor(target), option });
+  }, true);
+
+  document.addEventListener("keydown", (event) => {
+    const chord = event.ctrlKey || event.metaKey || event.altKey;
+    const special = /^(Enter|Escape|Tab|Backspace|Delete|Arrow\w+|Page\w+|Home|End|F\d+)$/.test(event.key);
+    if (!chord && !special) return;
+    if (/^(Control|Meta|Alt|Shift)$/.test(event.key)) return;
+    // Editing keys inside a field are covered by the typing step, which records the final value
+    if (event.target instanceof Element && isEditable(event.target) && !/^(Enter|Escape|Tab)$/.test(event.key)) return;
+    const modifiers = [event.ctrlKey && "Control", event.metaKey && "Meta", event.altKey && "Alt", event.shiftKey && chord && "Shift"]
+      .filter(Boolean);
+    emit({ type: "key", key: [...modifiers, event.key.length === 1 ? event.key.toUpperCase() : event.key].join("+") });
+  }, true);
+}
+
+/**
+ * Check an event reported by the recorder in the page. Any script in the page can call
+ * the binding, so only the shapes the recorder sends are accepted, and navigations are
+ * left to the browser to report.
+ * @param value What the page sent
+ * @param time When it arrived, rather than the page's own clock
+ * @returns The event, or null if it isn't one the recorder would send
+ */
+export function parseReportedEvent(value: unknown, time: number): RecordedEvent | null {
+  if (!value || typeof value !== "object") return null;
+  const event = value as Record<string, unknown>;
+  const text = (field: string): string | null => {
+    const fieldValue = event[field];
+    return typeof fieldValue === "string" && fieldValue.length <= MAX_REPORTED_TEXT_LENGTH ? fieldValue : null;
+  };
+
+  const selector = text("selector");
+  switch (event.type) {
+    case "click":
+      return selector ? { type: "click", selector, editable: event.editable === true, time } : null;
+    case "input": {
+      const inputValue = text("value");
+      return selector && inputValue !== null ? { type: "input", selector, value: inputValue, time } : null;
+    }
+    case "select": {
+      const option = text("option");
+      return selector && option !== null ? { type: "select", selector, option, time } : null;
+    }
+    case "key": {
+      const key = text("key");
+      return key ? { type: "key", key, time } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * The recorder as a script to inject into pages
+ */
+export function createRecorderScript(bindingName: string = RECORDER_BINDING): string {
+  return `(${installRecorder.toString()})(${JSON.stringify(bindingName)});`;
+}
+
+/**
+ * Turn recorded events into tool sequence lines like "browser_click | #submit"
+ * @param startUrl The page the recording started on, which the steps begin by opening
+ */
+export function toToolSequence(events: RecordedEvent[], startUrl?: string): string[] {
+  const lines: string[] = startUrl ? [`browser_navigate | ${startUrl}`] : [];
+  let lastUrl = startUrl;
+  let lastActionTime = -Infinity;
+
+  events.forEach((event, i) => {
+    const next = events[i + 1];
+    switch (event.type) {
+      case "click":
+        // Clicking into a field before typing in it is covered by the typing step
+        if (event.editable && next?.type === "input" && next.selector === event.selector) break;
+        lines.push(`browser_click | ${event.selector}`);
+        lastActionTime = event.time;
+        break;
+      case "input":
+        // Each keystroke reports the whole value, so only the last one of a run counts
+        if (next?.type === "input" && next.selector === event.selector) break;
+        lines.push(`browser_type | ${JSON.stringify({ selector: event.selector, text: event.value })}`);
+        break;
+      case "key":
+        lines.push(`browser_press_key | ${event.key}`);
+        lastActionTime = event.time;
+        break;
+      case "select":
+        // No tool chooses options, so the choice is listed by findUnreplayableSteps instead
+        break;
+      case "navigate":
+        if (event.url === lastUrl) break;
+        lastUrl = event.url;
+        // A page loaded by a click or key press only needs waiting for; others were opened by the user
+        if (event.time - lastActionTime <= CAUSED_NAVIGATION_MS) {
+          if (lines[lines.length - 1] !== "browser_wait_for_navigation | ") lines.push("browser_wait_for_navigation | ");
+        } else {
+          lines.push(`browser_navigate | ${event.url}`);
+        }
+        break;
+    }
+  });
+
+  return lines;
+}
+
+/**
+ * Describe the recorded actions that toToolSequence leaves out because no tool can replay them
+ * @returns One line per action, e.g. `Chose "Large" in select[name="size"]`
+ */
+export function findUnreplayableSteps(events: RecordedEvent[]): string[] {
+  return events.flatMap(event => event.type === "select" ? [`Chose ${JSON.stringify(event.option)} in ${event.selector}`] : []);
+}
@@ -0,0 +1,50 @@
+/**
+ * DryRun covers the agent's side of a dry run: tools that would change the
+ * page are not executed but recorded as planned actions, which the user can
+ * review and then have carried out for real.
+ */
+
+/**
+ * An action the agent would have taken
+ */
+export interface PlannedAction {
+  toolName: string;
+  toolInput: string;
+  requiresApproval: boolean;  // the agent asked for approval, which a real run will also do
+}
+
+/**
+ * Tell the agent that it is in a dry run
+ */
+export function formatDryRunInstructions(): string {
+  return `This is a dry run. Tools that only observe the page (reading text, snapshots, screenshots, queries) work normally. ` +
+    `Tools that would change something (clicking, typing, navigating, opening or closing tabs, saving memories) are not executed: ` +
+    `they are recorded as planned actions and answer with a simulated result. Plan the whole task as if each action succeeded, ` +
+    `then finish with a short summary of what you would do.`;
+}
+
+/**
+ * The result the agent gets for an action that wasn't executed
+ */
+export function formatSimulatedResult(toolName: string): string {
+  return `Dry run: ${toolName} was recorded but not executed. Assume it succeeded and continue. ` +
+    `The page has not actually changed, so observation tools still show it as it was.`;
+}
+
+/**
+ * Render planned actions as a numbered list, e.g. "1. browser_click #buy (needs approval)"
+ */
+export function formatPlannedActions(actions: PlannedAction[]): string {
+  return actions
+    .map((action, i) => `${i + 1}. ${action.toolName} ${action.toolInput}${action.requiresApproval ? ' (needs approval)' : ''}`)
+    .join('\n');
+}
+
+/**
+ * Ask the agent to carry out the actions it planned in a dry run
+ */
+export function formatFollowInstructions(actions: PlannedAction[]): string {
+  return `In a dry run you planned these actions for this task:\n${formatPlannedActions(actions)}\n` +
+    `The user has reviewed them. Carry them out for real now, in order. Element references from the dry run are no longer valid, ` +
+    `so find each element again first. If the page differs from what you expected, adapt the step rather than forcing it.`;
+}
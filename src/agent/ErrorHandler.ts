@@ -1,8 +1,16 @@
+import { LLMErrorCategory, toLLMError } from '../models/providers/errors';
+
+const MAX_RETRY_AFTER_MS = 60_000; // longest wait for a provider's Retry-After before giving up on it
+
 /**
- * ErrorHandler handles cancellation logic, error recovery, and rate limit handling.
+ * ErrorHandler handles cancellation and pause logic, error recovery, and rate limit handling.
  */
 export class ErrorHandler {
   private isCancelled: boolean = false;
+  private isPaused: boolean = false;
+  private resumeWaiters: Array<() => void> = [];
+  private cancelWaiters: Array<() => void> = [];
+  private pendingInstructions: string[] = [];
   
   constructor() {
     this.resetCancel();
@@ -13,6 +21,11 @@ export class ErrorHandler {
    */
   cancel(): void {
     this.isCancelled = true;
+    // Release a paused or backing-off execution so it can stop
+    this.releaseWaiters();
+    const cancelWaiters = this.cancelWaiters;
+    this.cancelWaiters = [];
+    cancelWaiters.forEach(wake => wake());
   }
   
   /**
@@ -28,38 +41,175 @@ export class ErrorHandler {
   isExecutionCancelled(): boolean {
     return this.isCancelled;
   }
+
+  /**
+   * Pause the current execution before its next LLM call or tool call
+   */
+  pause(): void {
+    this.isPaused = true;
+  }
+
+  /**
+   * Resume a paused execution
+   * @param instruction Optional extra instruction from the user to add to the conversation
+   */
+  resume(instruction?: string): void {
+    if (instruction?.trim()) {
+      this.pendingInstructions.push(instruction.trim());
+    }
+    this.isPaused = false;
+    this.releaseWaiters();
+  }
+
+  /**
+   * Clear the pause flag and any instructions that weren't picked up
+   */
+  resetPause(): void {
+    this.isPaused = false;
+    this.pendingInstructions = [];
+    this.releaseWaiters();
+  }
+
+  /**
+   * Check if the execution has been paused
+   */
+  isExecutionPaused(): boolean {
+    return this.isPaused;
+  }
+
+  /**
+   * Wait until the execution is resumed or cancelled
+   */
+  async waitForResume(): Promise<void> {
+    if (!this.isPaused || this.isCancelled) return;
+    await new Promise<void>(resolve => this.resumeWaiters.push(resolve));
+  }
+
+  /**
+   * Wait before retrying, waking early if the execution is cancelled
+   * @param ms Time to wait in milliseconds
+   */
+  async waitBeforeRetry(ms: number): Promise<void> {
+    if (this.isCancelled) return;
+    await new Promise<void>(resolve => {
+      const wake = () => {
+        clearTimeout(timer);
+        this.cancelWaiters = this.cancelWaiters.filter(waiter => waiter !== wake);
+        resolve();
+      };
+      const timer = setTimeout(wake, ms);
+      this.cancelWaiters.push(wake);
+    });
+  }
+
+  /**
+   * Take the instructions the user added while the execution was paused
+   */
+  takeInstructions(): string[] {
+    const instructions = this.pendingInstructions;
+    this.pendingInstructions = [];
+    return instructions;
+  }
+
+  private releaseWaiters(): void {
+    const waiters = this.resumeWaiters;
+    this.resumeWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
   
+  /**
+   * Get the provider-neutral category of an error. Providers throw LLMErrors;
+   * anything else is categorized from its shape and message.
+   */
+  getErrorCategory(error: any): LLMErrorCategory {
+    return toLLMError(error).category;
+  }
+
   /**
    * Check if an error is a rate limit error
    */
   isRateLimitError(error: any): boolean {
-    return error?.error?.type === 'rate_limit_error';
+    return this.getErrorCategory(error) === 'rate_limited';
   }
   
   /**
    * Check if an error is an overloaded error
    */
   isOverloadedError(error: any): boolean {
-    return error?.error?.type === 'overloaded_error';
+    return this.getErrorCategory(error) === 'overloaded';
+  }
+
+  /**
+   * Check if the provider rejected the API key or the key can't use the model
+   */
+  isAuthError(error: any): boolean {
+    return this.getErrorCategory(error) === 'auth';
+  }
+
+  /**
+   * Check if the provider couldn't be reached at all
+   */
+  isNetworkError(error: any): boolean {
+    return this.getErrorCategory(error) === 'network';
+  }
+
+  /**
+   * Check if the request didn't fit the model's context window
+   */
+  isContextTooLongError(error: any): boolean {
+    return this.getErrorCategory(error) === 'context_too_long';
   }
   
   /**
-   * Check if an error is a retryable error (rate limit or overloaded)
+   * Check if an error is a retryable error (rate limit, overloaded or unreachable)
    */
   isRetryableError(error: any): boolean {
-    return this.isRateLimitError(error) || this.isOverloadedError(error);
+    const category = this.getErrorCategory(error);
+    return category === 'rate_limited' || category === 'overloaded' || category === 'network';
+  }
+
+  /**
+   * Check if an error is one another provider might not have: rate limits,
+   * overload, a rejected key or an unreachable server
+   */
+  isFailoverError(error: any): boolean {
+    return this.isRetryableError(error) || this.isAuthError(error);
+  }
+
+  /**
+   * Check if the provider asked for a longer wait than is worth making,
+   * in which case switching to another provider is better than waiting
+   */
+  exceedsMaxRetryAfter(error: any): boolean {
+    const retryAfterMs = toLLMError(error).retryAfterMs;
+    return retryAfterMs !== undefined && retryAfterMs > MAX_RETRY_AFTER_MS;
+  }
+
+  /**
+   * Describe what went wrong with the provider, e.g. "is rate limited", for progress messages
+   */
+  describeFailoverError(error: any): string {
+    switch (this.getErrorCategory(error)) {
+      case 'rate_limited': return 'is rate limited';
+      case 'overloaded': return 'is overloaded';
+      case 'auth': return 'rejected the API key';
+      case 'network': return "can't be reached";
+      default: return 'keeps failing';
+    }
   }
   
   /**
    * Format an error message for display
    */
   formatErrorMessage(error: any): string {
+    const message = error?.error?.message ?? error?.message;
+
     if (this.isRateLimitError(error)) {
-      return `Rate limit error: ${error.error.message}`;
+      return `Rate limit error: ${message}`;
     }
     
     if (this.isOverloadedError(error)) {
-      return `Anthropic servers overloaded: ${error.error.message}. Retrying...`;
+      return `Anthropic servers overloaded: ${message}. Retrying...`;
     }
     
     return `Error: ${error instanceof Error ? error.message : String(error)}`;
@@ -69,9 +219,15 @@ export class ErrorHandler {
    * Calculate backoff time for retries based on error type and retry attempt
    * @param error The error that occurred
    * @param retryAttempt The current retry attempt (0-based)
-   * @returns Time to wait in milliseconds before retrying
+   * @returns Time to wait in milliseconds before retrying; the provider's Retry-After if it gave one, up to a minute
    */
   calculateBackoffTime(error: any, retryAttempt: number = 0): number {
+    // Wait as long as the provider asked, if it said
+    const retryAfterMs = toLLMError(error).retryAfterMs;
+    if (retryAfterMs !== undefined) {
+      return Math.min(retryAfterMs, MAX_RETRY_AFTER_MS);
+    }
+
     // Base backoff time
     let baseBackoff = 1000; // 1 second
     
@@ -1,15 +1,39 @@
-import { LLMProvider, StreamChunk } from "../models/providers/types";
-import { TokenTrackingService } from "../tracking/tokenTrackingService";
+import type { ModelRole } from "../background/configManager";
+import { LLMProvider, ToolCall } from "../models/providers/types";
+import type { PendingApproval } from "../tracking/checkpointService";
+import { ScreenshotManager } from "../tracking/screenshotManager";
+import { PlannedAction, formatDryRunInstructions, formatFollowInstructions, formatSimulatedResult } from "./DryRun";
 import { ErrorHandler } from "./ErrorHandler";
+import { LoopDetection, LoopDetector, formatLoopWarning } from "./LoopDetector";
+import { MacroReplay, MacroStepResult, bindParameters, formatReplayHandover, isFailedResult, parseToolSequence } from "./MacroReplay";
 import { MemoryManager } from "./MemoryManager";
+import { PlanManager, PlanStep } from "./PlanManager";
 import { PromptManager } from "./PromptManager";
-import { trimHistory } from "./TokenManager";
+import { FinalAnswer, JsonSchema, formatOutputErrors, formatOutputInstructions, parseFinalAnswer } from "./StructuredOutput";
+import { verifyTask } from "./TaskVerifier";
+import {
+  contextTokenCount,
+  EstimatingTokenCounter,
+  getContextBudget,
+  pruneImages,
+  summarizeHistory,
+  trackResponseUsage,
+  TokenCounter
+} from "./TokenManager";
 import { ToolManager } from "./ToolManager";
-import { requestApproval } from "./approvalManager";
+import { requestApproval, requestStepExtension, requestUserAnswer } from "./approvalManager";
+import { BrowserTool } from "./tools/types";
 
 // Constants
-const MAX_STEPS = 50;            // prevent infinite loops
+export const DEFAULT_MAX_STEPS = 50; // steps per task before asking the user to continue
+const MAX_CORRECTIVE_STEPS = 10; // steps the agent gets to fix a result that failed verification
+const MAX_LOOP_WARNINGS = 2;     // loop warnings sent to the agent before asking the user
+const STOP_TASK_OPTION = 'Stop the task';
+const MAX_OUTPUT_RETRIES = 3;    // times the agent is asked to fix a final answer that doesn't match the output schema
+const FAILOVER_ATTEMPTS = 2;     // failed LLM calls in a row before switching to the next fallback provider
+const MAX_COMPACTIONS = 2;       // times a step's history is compacted after the model says it's too long
 const MAX_OUTPUT_TOKENS = 1024;  // max tokens for LLM response
+const REPLAY_APPROVAL_REASON = 'Saved steps are replayed without the agent checking the page, so each action needs your approval.';
 
 /**
  * Callback interface for execution
@@ -17,13 +41,75 @@ const MAX_OUTPUT_TOKENS = 1024;  // max tokens for LLM response
 export interface ExecutionCallbacks {
   onLlmChunk?: (s: string) => void;
   onLlmOutput: (s: string) => void;
+  onReasoning?: (reasoning: string) => void;
   onToolOutput: (s: string) => void;
   onComplete: () => void;
   onError?: (error: any) => void;
   onToolStart?: (toolName: string, toolInput: string) => void;
   onToolEnd?: (result: string) => void;
+  onToolExecuted?: (toolName: string, toolInput: string, result: string) => void;  // only for tools that really ran
   onSegmentComplete?: (segment: string) => void;
   onFallbackStarted?: () => void;
+  onCheckpoint?: (checkpoint: ExecutionCheckpoint) => void;
+  onPlanUpdate?: (plan: PlanStep[]) => void;
+  onStructuredOutput?: (value: unknown) => void;
+  onDryRunComplete?: (actions: PlannedAction[]) => void;
+  onModelSwitch?: (model: { id: string; name: string }) => void;
+}
+
+/**
+ * The loop's state after a completed step, enough to resume the task later
+ */
+export interface ExecutionCheckpoint {
+  messages: any[];
+  step: number;
+  plan?: PlanStep[];                 // the agent's plan, if it made one
+  plannedActions?: PlannedAction[];  // actions recorded so far, in a dry run
+  pendingApproval?: PendingApproval; // set while waiting for the user
+}
+
+/**
+ * Engine settings taken from the user's configuration
+ */
+export interface EngineOptions {
+  reserveTokens?: number;      // held back from the context window for the system prompt and tools
+  tokenCounter?: TokenCounter; // counts tokens for the primary model
+  tokenCounters?: Map<LLMProvider, TokenCounter>; // counts tokens for the fallback and role models
+  maxSteps?: number;           // default step limit for each prompt
+  planManager?: PlanManager;   // holds the plan the update_plan tool writes to
+  verifyTasks?: boolean;       // check the result against the request before finishing
+  fallbackProviders?: LLMProvider[]; // tried in order when the active provider keeps failing
+  roleProviders?: Partial<Record<ModelRole, LLMProvider>>; // models for particular roles; the rest use the primary provider
+}
+
+/**
+ * Settings for a single prompt
+ */
+export interface PromptOptions {
+  maxSteps?: number;                    // overrides the configured step limit
+  resumeFrom?: ExecutionCheckpoint;     // continue an interrupted task instead of starting from the prompt
+  verify?: boolean;                     // overrides the configured verification setting
+  outputSchema?: JsonSchema;            // the task must end with a final answer matching this schema
+  dryRun?: boolean;                     // record mutating tool calls instead of executing them
+  followActions?: PlannedAction[];      // actions reviewed after a dry run, for the agent to carry out
+  reflection?: boolean;                 // a reflection on the session, run on the reflection model
+  replay?: MacroReplay;                 // a memory's steps to run without the LLM before the agent takes over
+}
+
+/**
+ * Read a per-prompt step limit from a leading `/steps N` directive,
+ * e.g. "/steps 120 compare prices on these five sites".
+ * @returns The prompt without the directive, and the step limit if one was given
+ */
+export function parseStepLimit(prompt: string): { prompt: string; maxSteps?: number } {
+  const match = prompt.match(/^\s*\/steps\s+(\d+)\b\s*/i);
+  if (!match) {
+    return { prompt };
+  }
+  const maxSteps = parseInt(match[1], 10);
+  return maxSteps > 0
+    ? { prompt: prompt.slice(match[0].length), maxSteps }
+    : { prompt: prompt.slice(match[0].length) };
 }
 
 /**
@@ -43,13 +129,20 @@ class CallbackAdapter {
     return {
       onLlmChunk: this.handleLlmChunk.bind(this),
       onLlmOutput: this.originalCallbacks.onLlmOutput,
+      onReasoning: this.originalCallbacks.onReasoning,
       onToolOutput: this.originalCallbacks.onToolOutput,
       onComplete: this.handleComplete.bind(this),
       onError: this.originalCallbacks.onError,
       onToolStart: this.originalCallbacks.onToolStart,
       onToolEnd: this.originalCallbacks.onToolEnd,
+      onToolExecuted: this.originalCallbacks.onToolExecuted,
       onSegmentComplete: this.originalCallbacks.onSegmentComplete,
-      onFallbackStarted: this.originalCallbacks.onFallbackStarted
+      onFallbackStarted: this.originalCallbacks.onFallbackStarted,
+      onCheckpoint: this.originalCallbacks.onCheckpoint,
+      onPlanUpdate: this.originalCallbacks.onPlanUpdate,
+      onStructuredOutput: this.originalCallbacks.onStructuredOutput,
+      onDryRunComplete: this.originalCallbacks.onDryRunComplete,
+      onModelSwitch: this.originalCallbacks.onModelSwitch
     };
   }
 
@@ -80,23 +173,58 @@ class CallbackAdapter {
  */
 export class ExecutionEngine {
   private llmProvider: LLMProvider;
+  private primaryProvider: LLMProvider;
+  private fallbackProviders: LLMProvider[];
+  private nextFallback = 0;   // index of the fallback provider to switch to next
+  private roleProviders: Partial<Record<ModelRole, LLMProvider>>;
   private toolManager: ToolManager;
   private promptManager: PromptManager;
   private memoryManager: MemoryManager;
   private errorHandler: ErrorHandler;
+  private contextReserveTokens?: number;
+  private tokenCounters: Map<LLMProvider, TokenCounter>;
+  private maxSteps: number;
+  private planManager: PlanManager;
+  private verifyTasks: boolean;
+  private loopDetector = new LoopDetector();
+  private plannedActions: PlannedAction[] | null = null; // set during a dry run
+  private replayed: { replay: MacroReplay; checkpoint: ExecutionCheckpoint } | null = null; // so a retry carries on after the replay
 
   constructor(
     llmProvider: LLMProvider,
     toolManager: ToolManager,
     promptManager: PromptManager,
     memoryManager: MemoryManager,
-    errorHandler: ErrorHandler
+    errorHandler: ErrorHandler,
+    options: EngineOptions = {}
   ) {
     this.llmProvider = llmProvider;
+    this.primaryProvider = llmProvider;
+    this.fallbackProviders = options.fallbackProviders ?? [];
+    this.roleProviders = options.roleProviders ?? {};
     this.toolManager = toolManager;
     this.promptManager = promptManager;
     this.memoryManager = memoryManager;
     this.errorHandler = errorHandler;
+    this.contextReserveTokens = options.reserveTokens;
+    this.tokenCounters = new Map(options.tokenCounters);
+    this.tokenCounters.set(llmProvider, options.tokenCounter ?? new EstimatingTokenCounter());
+    this.maxSteps = options.maxSteps && options.maxSteps > 0 ? options.maxSteps : DEFAULT_MAX_STEPS;
+    this.planManager = options.planManager ?? new PlanManager();
+    this.verifyTasks = options.verifyTasks ?? false;
+  }
+
+  /**
+   * The token counter for the active model. Models differ in their tokenizers,
+   * so each one has its own counter, calibrated against its own usage reports.
+   */
+  private get tokenCounter(): TokenCounter {
+    let counter = this.tokenCounters.get(this.llmProvider);
+    if (!counter) {
+      counter = new EstimatingTokenCounter();
+      this.tokenCounters.set(this.llmProvider, counter);
+    }
+    return counter;
   }
 
   /**
@@ -105,14 +233,15 @@ export class ExecutionEngine {
   async executePromptWithFallback(
     prompt: string,
     callbacks: ExecutionCallbacks,
-    initialMessages: any[] = []
+    initialMessages: any[] = [],
+    options: PromptOptions = {}
   ): Promise<void> {
     const streamingSupported = await this.errorHandler.isStreamingSupported();
     const isStreaming = streamingSupported && callbacks.onLlmChunk !== undefined;
 
     try {
       // Use the execution method with appropriate streaming mode
-      await this.executePrompt(prompt, callbacks, initialMessages, isStreaming);
+      await this.executePrompt(prompt, callbacks, initialMessages, isStreaming, options);
     } catch (error) {
       console.warn("Execution failed, attempting fallback:", error);
 
@@ -131,7 +260,7 @@ export class ExecutionEngine {
       }
 
       // Continue with fallback using non-streaming mode
-      await this.executePrompt(prompt, callbacks, initialMessages, false);
+      await this.executePrompt(prompt, callbacks, initialMessages, false, options);
     }
   }
 
@@ -170,86 +299,112 @@ export class ExecutionEngine {
   }
 
   /**
-   * Track token usage from stream chunks
+   * Render a native tool call in the XML tool-call format so the stored
+   * conversation history stays provider-neutral
    */
-  private trackTokenUsage(
-    chunk: StreamChunk,
-    inputTokens: number,
-    outputTokens: number,
-    tokenTracker: TokenTrackingService
-  ): { updatedInputTokens: number, updatedOutputTokens: number } {
-    let updatedInputTokens = inputTokens;
-    let updatedOutputTokens = outputTokens;
-
-    // Debug log to help diagnose token tracking issues
-    console.debug(`Token update: input=${chunk.inputTokens || 0}, output=${chunk.outputTokens || 0}, cacheWrite=${chunk.cacheWriteTokens || 0}, cacheRead=${chunk.cacheReadTokens || 0}`);
-
-    // Handle input tokens (only from message_start)
-    if (chunk.inputTokens) {
-      updatedInputTokens = chunk.inputTokens;
-      // Track input tokens with cache tokens if available
-      tokenTracker.trackInputTokens(
-        updatedInputTokens,
-        {
-          write: chunk.cacheWriteTokens,
-          read: chunk.cacheReadTokens
-        }
-      );
-    }
-
-    // Always track output tokens (from both message_start and message_delta)
-    if (chunk.outputTokens) {
-      const newOutputTokens = chunk.outputTokens;
-
-      // Only track the delta (new tokens)
-      if (newOutputTokens > updatedOutputTokens) {
-        const delta = newOutputTokens - updatedOutputTokens;
-        tokenTracker.trackOutputTokens(delta);
-        updatedOutputTokens = newOutputTokens;
-      }
-    }
-
-    return { updatedInputTokens, updatedOutputTokens };
+  private formatToolCall(toolCall: ToolCall): string {
+    return `<tool>${toolCall.name}</tool>\n<input>${toolCall.input}</input>\n<requires_approval>${toolCall.requiresApproval}</requires_approval>`;
   }
 
   /**
-   * Process the LLM stream and handle streaming chunks
+   * Process the LLM stream and handle streaming chunks.
+   * The model's reasoning is shown as it finishes but kept out of the returned text, so it is
+   * never parsed for tool calls or stored in the history. No provider needs it back: Anthropic
+   * only asks for thinking blocks next to tool_use blocks, and the history records tool calls as text.
    */
   private async processLlmStream(
     messages: any[],
     adaptedCallbacks: ExecutionCallbacks
-  ): Promise<{ accumulatedText: string, toolCallDetected: boolean }> {
+  ): Promise<{ accumulatedText: string, toolCallDetected: boolean, toolCall?: ToolCall, ignoredToolCalls?: string[] }> {
     let accumulatedText = "";
     let streamBuffer = "";
     let toolCallDetected = false;
+    let toolCall: ToolCall | undefined;
+    // Further native tool calls in the same response, which are not executed
+    const ignoredToolCalls: string[] = [];
+
+    // Reasoning comes before the answer; show it once the answer starts
+    let reasoning = "";
+    const flushReasoning = () => {
+      if (reasoning.trim() && adaptedCallbacks.onReasoning) {
+        adaptedCallbacks.onReasoning(reasoning.trim());
+      }
+      reasoning = "";
+    };
 
     // Get tools from the ToolManager
     const tools = this.toolManager.getTools();
 
+    // Models without vision get a note in place of screenshots taken for another model
+    if (!this.llmProvider.getModel().info.supportsImages) {
+      messages = pruneImages(messages, 0, "[Screenshot omitted: this model can't view images]");
+    }
+
     // Use provider interface instead of direct Anthropic API
+    const systemPrompt = this.promptManager.getSystemPrompt();
     const stream = this.llmProvider.createMessage(
-      this.promptManager.getSystemPrompt(),
+      systemPrompt,
       messages,
       tools
     );
 
-    // Track token usage
-    let inputTokens = 0;
-    let outputTokens = 0;
-    const tokenTracker = TokenTrackingService.getInstance();
+    // Our estimate of the request, to calibrate the token counter against the reported usage
+    const estimatedRequestTokens =
+      this.tokenCounter.count(systemPrompt) +
+      this.tokenCounter.count(JSON.stringify(tools.map(({ name, description, inputSchema }) => ({ name, description, inputSchema })))) +
+      contextTokenCount(messages, this.tokenCounter);
+
+    // Track token usage, priced at the rates of the model that was called
+    const trackUsage = trackResponseUsage(this.llmProvider.getModel());
 
     for await (const chunk of stream) {
       if (this.errorHandler.isExecutionCancelled()) break;
 
       // Track token usage
       if (chunk.type === 'usage') {
-        const result = this.trackTokenUsage(chunk, inputTokens, outputTokens, tokenTracker);
-        inputTokens = result.updatedInputTokens;
-        outputTokens = result.updatedOutputTokens;
+        trackUsage(chunk);
+
+        if (chunk.inputTokens) {
+          // Cached prompt tokens are reported separately from the rest of the input
+          const promptTokens = chunk.inputTokens + (chunk.cacheWriteTokens || 0) + (chunk.cacheReadTokens || 0);
+          this.tokenCounter.calibrate(estimatedRequestTokens, promptTokens);
+        }
+      }
+
+      if (chunk.type === 'reasoning' && chunk.reasoning) {
+        reasoning += chunk.reasoning;
+        continue;
+      }
+      if (chunk.type === 'text' || chunk.type === 'tool_call') {
+        flushReasoning();
+      }
+
+      // Handle native tool calls; only the first one in a response is executed
+      if (chunk.type === 'tool_call' && chunk.toolCall && toolCall) {
+        ignoredToolCalls.push(chunk.toolCall.name);
+        continue;
+      }
+      if (chunk.type === 'tool_call' && chunk.toolCall && !toolCallDetected) {
+        toolCallDetected = true;
+        toolCall = chunk.toolCall;
+
+        // Finalize the current segment
+        if (streamBuffer.trim() && adaptedCallbacks.onSegmentComplete) {
+          adaptedCallbacks.onSegmentComplete(streamBuffer);
+        }
+
+        // Signal that a tool call is starting
+        if (adaptedCallbacks.onToolStart) {
+          adaptedCallbacks.onToolStart(toolCall.name, toolCall.input);
+        }
+
+        // Keep draining the stream so trailing usage chunks are still tracked
+        streamBuffer = "";
+        continue;
       }
 
       // Handle text chunks
-      if (chunk.type === 'text' && chunk.text) {
+      if (chunk.type === 'text' && chunk.text && !toolCall) {
         const textChunk = chunk.text;
         accumulatedText += textChunk;
         streamBuffer += textChunk;
@@ -303,15 +458,439 @@ export class ExecutionEngine {
     }
 
     // After streaming completes, process the full response
+    flushReasoning();
     console.log("Streaming completed. Accumulated text length:", accumulatedText.length);
 
     // Decode any escaped HTML entities in the accumulated text
     accumulatedText = this.decodeHtmlEntities(accumulatedText);
     console.log("Decoded HTML entities in accumulated text");
 
+    // Record the native tool call alongside the text that preceded it
+    if (toolCall) {
+      accumulatedText = accumulatedText.trim()
+        ? `${accumulatedText}\n\n${this.formatToolCall(toolCall)}`
+        : this.formatToolCall(toolCall);
+    }
+
     adaptedCallbacks.onLlmOutput(accumulatedText);
 
-    return { accumulatedText, toolCallDetected };
+    return { accumulatedText, toolCallDetected, toolCall, ignoredToolCalls };
+  }
+
+  /**
+   * Call the LLM for the next step. A request that doesn't fit the context window
+   * is retried with a compacted history. When the active provider keeps failing with
+   * an error another provider might not have, switch to the next fallback provider and
+   * make the same call there, so the conversation carries on where it was.
+   * @param messages The history; compacted in place if it is too long
+   */
+  private async callLlm(
+    messages: any[],
+    adaptedCallbacks: ExecutionCallbacks
+  ): Promise<{ accumulatedText: string, toolCallDetected: boolean, toolCall?: ToolCall, ignoredToolCalls?: string[] }> {
+    let failures = 0;
+    let compactions = 0;
+    for (;;) {
+      try {
+        return await this.processLlmStream(this.withPlan(messages), adaptedCallbacks);
+      } catch (error) {
+        if (this.errorHandler.isExecutionCancelled()) throw error;
+
+        if (this.errorHandler.isContextTooLongError(error) && compactions < MAX_COMPACTIONS) {
+          compactions++;
+          if (await this.compactHistory(messages, adaptedCallbacks)) continue;
+        }
+
+        // Without a provider to switch to, the usual retry handling takes over
+        const next = this.fallbackProviders[this.nextFallback];
+        if (!next || !this.errorHandler.isFailoverError(error)) {
+          throw error;
+        }
+
+        // Give the provider another chance first, unless it rejected the key or asked for a long wait
+        failures++;
+        if (failures < FAILOVER_ATTEMPTS && !this.errorHandler.isAuthError(error) && !this.errorHandler.exceedsMaxRetryAfter(error)) {
+          console.warn(`LLM call failed (attempt ${failures} of ${FAILOVER_ATTEMPTS}), retrying:`, error);
+          await this.errorHandler.waitBeforeRetry(this.errorHandler.calculateBackoffTime(error, failures - 1));
+          if (this.errorHandler.isExecutionCancelled()) throw error;
+          continue;
+        }
+
+        const previous = this.llmProvider.getModel();
+        this.llmProvider = next;
+        this.nextFallback++;
+        failures = 0;
+
+        const model = next.getModel();
+        console.warn(`Switching from ${previous.id} to fallback model ${model.id} after:`, error);
+        adaptedCallbacks.onToolOutput(
+          `🔀 ${previous.info.name} ${this.errorHandler.describeFailoverError(error)}. Switching to ${model.info.name} and carrying on...`
+        );
+        if (adaptedCallbacks.onModelSwitch) {
+          adaptedCallbacks.onModelSwitch({ id: model.id, name: model.info.name });
+        }
+
+        // The new model's context window may be smaller
+        await this.fitHistory(messages);
+      }
+    }
+  }
+
+  /**
+   * Switch to the model for a role, or the primary provider if the role has none.
+   * Once the task has switched to a fallback provider, every step stays on it.
+   * @param messages The history; fitted in place to the new model's context window
+   */
+  private async useModelFor(role: ModelRole, messages: any[]): Promise<void> {
+    if (this.nextFallback > 0) return;
+    const provider = this.roleProviders[role] ?? this.primaryProvider;
+    if (provider === this.llmProvider) return;
+
+    this.llmProvider = provider;
+    await this.fitHistory(messages);
+  }
+
+  /**
+   * Fit the history into the active model's context budget, summarizing earlier steps if it has grown too long
+   * @param messages The history; replaced in place
+   */
+  private async fitHistory(messages: any[]): Promise<void> {
+    const fitted = await summarizeHistory(
+      pruneImages(messages),
+      this.llmProvider,
+      getContextBudget(this.llmProvider.getModel().info, this.contextReserveTokens),
+      this.tokenCounter
+    );
+    messages.splice(0, messages.length, ...fitted);
+  }
+
+  /**
+   * Shrink the history after the model rejected it as too long: drop old screenshots
+   * and summarize the earlier steps into half the space they take now
+   * @returns Whether the history got any shorter
+   */
+  private async compactHistory(messages: any[], adaptedCallbacks: ExecutionCallbacks): Promise<boolean> {
+    const before = contextTokenCount(messages, this.tokenCounter);
+    adaptedCallbacks.onToolOutput(
+      `🗜️ The conversation is too long for ${this.llmProvider.getModel().info.name}. Summarizing earlier steps and trying again...`
+    );
+
+    const compacted = await summarizeHistory(
+      pruneImages(messages, 1),
+      this.llmProvider,
+      Math.floor(before / 2),
+      this.tokenCounter
+    );
+    if (contextTokenCount(compacted, this.tokenCounter) >= before) {
+      return false;
+    }
+    messages.splice(0, messages.length, ...compacted);
+    return true;
+  }
+
+  /**
+   * Report the loop's state so the task can be resumed if the service worker stops
+   */
+  private checkpoint(
+    adaptedCallbacks: ExecutionCallbacks,
+    messages: any[],
+    step: number,
+    pendingApproval?: PendingApproval
+  ): void {
+    if (!adaptedCallbacks.onCheckpoint) return;
+    // Copy the history, since the loop keeps appending to it while the checkpoint is saved
+    const checkpoint: ExecutionCheckpoint = { messages: [...messages], step };
+    if (this.planManager.hasPlan()) {
+      checkpoint.plan = this.planManager.getPlan();
+    }
+    if (this.plannedActions) {
+      checkpoint.plannedActions = [...this.plannedActions];
+    }
+    if (pendingApproval) {
+      checkpoint.pendingApproval = pendingApproval;
+    }
+    adaptedCallbacks.onCheckpoint(checkpoint);
+  }
+
+  /**
+   * Wait while the task is paused
+   * @returns Instructions the user added while the task was paused
+   */
+  private async waitIfPaused(adaptedCallbacks: ExecutionCallbacks): Promise<string[]> {
+    if (!this.errorHandler.isExecutionPaused()) return [];
+
+    adaptedCallbacks.onToolOutput(`⏸️ Paused. Resume to continue, optionally with an extra instruction.`);
+    await this.errorHandler.waitForResume();
+    if (this.errorHandler.isExecutionCancelled()) return [];
+
+    adaptedCallbacks.onToolOutput(`▶️ Resumed.`);
+    return this.errorHandler.takeInstructions();
+  }
+
+  /**
+   * Add instructions from the user to the latest user turn, so that roles keep alternating
+   */
+  private addUserInstructions(messages: any[], instructions: string[]): void {
+    this.appendUserText(
+      messages,
+      instructions.map(instruction => `Additional instruction from the user: ${instruction}`).join("\n")
+    );
+  }
+
+  /**
+   * Show the current plan to the LLM at the end of the latest user turn.
+   * The plan is added to a copy, so it is never trimmed or summarized with the history.
+   */
+  private withPlan(messages: any[]): any[] {
+    if (!this.planManager.hasPlan()) return messages;
+    const withPlan = [...messages];
+    this.appendUserText(withPlan, this.planManager.formatForPrompt());
+    return withPlan;
+  }
+
+  /**
+   * Append text to the latest user turn, or add a user turn if the last one is the assistant's
+   */
+  private appendUserText(messages: any[], text: string): void {
+    const last = messages[messages.length - 1];
+
+    if (last?.role !== "user") {
+      messages.push({ role: "user", content: text });
+    } else if (typeof last.content === "string") {
+      messages[messages.length - 1] = { ...last, content: `${last.content}\n\n${text}` };
+    } else {
+      messages[messages.length - 1] = { ...last, content: [...last.content, { type: "text", text }] };
+    }
+  }
+
+  /**
+   * Ask the user for more steps once a task has used up its step limit.
+   * The loop's state is kept, so an approved task picks up where it stopped.
+   */
+  private async requestMoreSteps(
+    stepsUsed: number,
+    extraSteps: number,
+    adaptedCallbacks: ExecutionCallbacks
+  ): Promise<boolean> {
+    adaptedCallbacks.onToolOutput(`⏸️ Step limit reached after ${stepsUsed} steps. Waiting for approval to continue...`);
+
+    try {
+      const tabs = await chrome.tabs.query({ active: true, lastFocusedWindow: true });
+      const tabId = tabs[0]?.id || 0;
+      const granted = await requestStepExtension(tabId, stepsUsed, extraSteps);
+
+      // The user may have cancelled the task while the request was open
+      if (granted && !this.errorHandler.isExecutionCancelled()) {
+        adaptedCallbacks.onToolOutput(`▶️ Granted ${extraSteps} more steps. Continuing...`);
+        return true;
+      }
+    } catch (error) {
+      console.error(`Error requesting more steps:`, error);
+    }
+    return false;
+  }
+
+  /**
+   * Deal with a detected loop: warn the agent, or once it has been warned enough, ask the user how to go on
+   * @returns False if the task should stop
+   */
+  private async handleLoop(
+    loop: LoopDetection,
+    messages: any[],
+    step: number,
+    adaptedCallbacks: ExecutionCallbacks
+  ): Promise<boolean> {
+    const what = loop.kind === 'repeat'
+      ? `the same ${loop.attempts[0].toolName} call was made ${loop.attempts.length} times`
+      : `the page hasn't changed over ${loop.attempts.length} tool calls`;
+
+    if (this.loopDetector.addWarning() <= MAX_LOOP_WARNINGS) {
+      adaptedCallbacks.onToolOutput(`🔁 Loop detected: ${what}. Asking the agent to try something else...`);
+      this.appendUserText(messages, formatLoopWarning(loop));
+      return true;
+    }
+
+    const question = `The agent seems to be stuck: ${what}, after ${MAX_LOOP_WARNINGS} warnings. How should it continue?`;
+    adaptedCallbacks.onToolOutput(`⏸️ Loop detected: ${what}. Waiting for your input...`);
+    this.checkpoint(adaptedCallbacks, messages, step, {
+      kind: 'question',
+      toolName: 'Loop detected',
+      toolInput: question,
+      reason: ''
+    });
+
+    let answer: string | null = null;
+    try {
+      const tabs = await chrome.tabs.query({ active: true, lastFocusedWindow: true });
+      const tabId = tabs[0]?.id || 0;
+      answer = await requestUserAnswer(tabId, question, [STOP_TASK_OPTION]);
+    } catch (error) {
+      console.error(`Error asking the user about a loop:`, error);
+    }
+
+    if (!answer || answer === STOP_TASK_OPTION || this.errorHandler.isExecutionCancelled()) {
+      adaptedCallbacks.onToolOutput(`⏹️ Stopped: the agent was stuck repeating the same actions.`);
+      return false;
+    }
+
+    // The user has stepped in, so the agent gets a fresh set of warnings
+    this.loopDetector.reset();
+    this.appendUserText(messages, formatLoopWarning(loop));
+    this.addUserInstructions(messages, [answer]);
+    return true;
+  }
+
+  /**
+   * Check the result of a task the agent considers complete
+   * @returns Whether the result passed, or null if it couldn't be checked
+   */
+  private async verifyResult(
+    prompt: string,
+    finalAnswer: string,
+    adaptedCallbacks: ExecutionCallbacks
+  ): Promise<{ passed: boolean; reason: string } | null> {
+    adaptedCallbacks.onToolOutput(`🔎 Verifying the result...`);
+
+    try {
+      const verdict = await verifyTask(this.llmProvider, this.toolManager, prompt, finalAnswer);
+      adaptedCallbacks.onToolOutput(
+        verdict.passed ? `✅ Verified: ${verdict.reason}` : `❌ Verification failed: ${verdict.reason}`
+      );
+      return verdict;
+    } catch (error) {
+      console.error(`Error verifying the result:`, error);
+      adaptedCallbacks.onToolOutput(`⚠️ Could not verify the result: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+
+  /**
+   * Ask the user to approve a tool call, and run it if they do
+   * @param recordWait Checkpoints the task before it waits for the user, so it can be resumed if interrupted
+   * @returns The tool's result, and whether the tool ran
+   */
+  private async runWithApproval(
+    tool: BrowserTool,
+    toolInput: string,
+    reason: string,
+    adaptedCallbacks: ExecutionCallbacks,
+    recordWait: () => void
+  ): Promise<{ result: string, executed: boolean }> {
+    // Notify the user that approval is required
+    adaptedCallbacks.onToolOutput(`⚠️ This action requires approval: ${reason}`);
+    recordWait();
+
+    // Get the current tab ID from chrome.tabs API
+    const tabs = await chrome.tabs.query({ active: true, lastFocusedWindow: true });
+    const tabId = tabs[0]?.id || 0;
+
+    try {
+      // Request approval from the user
+      const approved = await requestApproval(tabId, tool.name, toolInput, reason);
+      if (!approved) {
+        adaptedCallbacks.onToolOutput(`❌ Action rejected by user.`);
+        return { result: "Action cancelled by user.", executed: false };
+      }
+
+      // User approved, execute the tool with the approval in its context
+      adaptedCallbacks.onToolOutput(`✅ Action approved by user. Executing...`);
+      const result = await tool.func(toolInput, { requiresApproval: true, approvalReason: reason });
+      return { result, executed: true };
+    } catch (approvalError) {
+      console.error(`Error in approval process:`, approvalError);
+      adaptedCallbacks.onToolOutput(`❌ Error in approval process: ${approvalError}`);
+      return { result: "Error in approval process. Action cancelled.", executed: false };
+    }
+  }
+
+  /**
+   * Run the steps of a saved memory directly, without the LLM. When a step fails, or can't be run,
+   * the agent is told how far the replay got so it can take over.
+   * @returns Whether every step ran successfully
+   */
+  private async replayMacro(
+    replay: MacroReplay,
+    messages: any[],
+    adaptedCallbacks: ExecutionCallbacks
+  ): Promise<boolean> {
+    const { steps, missing } = bindParameters(parseToolSequence(replay.toolSequence), replay.parameters);
+    const completed: MacroStepResult[] = [];
+    const handOver = (problem: string): false => {
+      adaptedCallbacks.onToolOutput(`↪️ ${problem} Handing over to the agent...`);
+      this.appendUserText(messages, formatReplayHandover(replay, completed, problem));
+      return false;
+    };
+
+    adaptedCallbacks.onToolOutput(`⏯️ Replaying ${steps.length} saved steps for "${replay.taskDescription}"...`);
+    if (missing.length > 0) {
+      return handOver(`No value was given for ${missing.map(name => `[${name}]`).join(", ")}, so the steps were not replayed.`);
+    }
+
+    for (const [index, { toolName, toolInput }] of steps.entries()) {
+      if (this.errorHandler.isExecutionCancelled()) return false;
+
+      // A new instruction may change what's left to do, so the agent carries on from here
+      const lateInstructions = await this.waitIfPaused(adaptedCallbacks);
+      if (this.errorHandler.isExecutionCancelled()) return false;
+      if (lateInstructions.length > 0) {
+        handOver(`The replay was paused before step ${index + 1}.`);
+        this.addUserInstructions(messages, lateInstructions);
+        return false;
+      }
+
+      const tool = this.toolManager.findTool(toolName);
+      if (!tool) {
+        return handOver(`Step ${index + 1} uses ${toolName}, which is not an available tool.`);
+      }
+
+      adaptedCallbacks.onToolOutput(`🕹️ tool: ${toolName} | args: ${toolInput}`);
+      if (adaptedCallbacks.onToolStart) {
+        adaptedCallbacks.onToolStart(toolName, toolInput);
+      }
+
+      let result: string;
+      if (this.plannedActions && this.toolManager.isMutatingTool(toolName)) {
+        this.plannedActions.push({ toolName, toolInput, requiresApproval: false });
+        result = formatSimulatedResult(toolName);
+        adaptedCallbacks.onToolOutput(`📝 Dry run: recorded ${toolName} without executing it.`);
+      } else {
+        let executed = true;
+        try {
+          const invalid = this.toolManager.validateToolInput(tool, toolInput);
+          if (invalid) {
+            result = invalid;
+          } else if (this.toolManager.isMutatingTool(toolName)) {
+            // Nobody reviewed what the saved steps do on today's page, so each action is approved by the user
+            ({ result, executed } = await this.runWithApproval(
+              tool, toolInput, REPLAY_APPROVAL_REASON, adaptedCallbacks, () => {
+                // If the task is interrupted here, the agent takes over from the last replayed step
+                const waiting = [...messages];
+                this.appendUserText(waiting, formatReplayHandover(replay, completed, `Step ${index + 1} (${toolName} ${toolInput}) was waiting for the user's approval.`));
+                this.checkpoint(adaptedCallbacks, waiting, 0 /* replays run before the first step */, { kind: 'tool', toolName, toolInput, reason: REPLAY_APPROVAL_REASON });
+              }
+            ));
+          } else {
+            result = await tool.func(toolInput);
+          }
+        } catch (error) {
+          result = `Error: ${error instanceof Error ? error.message : String(error)}`;
+        }
+        if (executed && adaptedCallbacks.onToolExecuted) {
+          adaptedCallbacks.onToolExecuted(toolName, toolInput, result);
+        }
+      }
+
+      if (adaptedCallbacks.onToolEnd) {
+        adaptedCallbacks.onToolEnd(result);
+      }
+      if (isFailedResult(result)) {
+        return handOver(`Step ${index + 1} (${toolName} ${toolInput}) failed: ${result}`);
+      }
+      completed.push({ toolName, toolInput, result });
+    }
+
+    adaptedCallbacks.onToolOutput(`✅ Replayed all ${steps.length} saved steps.`);
+    return true;
   }
 
   /**
@@ -321,166 +900,316 @@ export class ExecutionEngine {
     prompt: string,
     callbacks: ExecutionCallbacks,
     initialMessages: any[] = [],
-    isStreaming: boolean
+    isStreaming: boolean,
+    options: PromptOptions = {}
   ): Promise<void> {
     // Create adapter to handle streaming vs non-streaming
     const adapter = new CallbackAdapter(callbacks, isStreaming);
     const adaptedCallbacks = adapter.adaptedCallbacks;
 
-    // Reset cancel flag at the start of execution
+    // Reset cancel and pause flags at the start of execution
     this.errorHandler.resetCancel();
+    this.errorHandler.resetPause();
+
+    // Each task starts on the primary provider, in case it has recovered
+    this.llmProvider = this.primaryProvider;
+    this.nextFallback = 0;
     try {
-      // Initialize messages with the prompt
-      let messages = this.initializeMessages(prompt, initialMessages);
+      // Initialize messages with the prompt, or pick up an interrupted task where it stopped.
+      // A retry of a replayed task carries on after the replay instead of running the steps again.
+      const afterReplay = options.replay && this.replayed?.replay === options.replay ? this.replayed.checkpoint : undefined;
+      const resumeFrom = options.resumeFrom ?? afterReplay;
+      if (!afterReplay) {
+        this.replayed = null;
+      }
+      const messages = resumeFrom
+        ? [...resumeFrom.messages]
+        : this.initializeMessages(prompt, initialMessages);
 
       let done = false;
-      let step = 0;
+      let step = resumeFrom?.step ?? 0;
+      const stepBudget = options.maxSteps && options.maxSteps > 0 ? options.maxSteps : this.maxSteps;
+      let stepLimit = stepBudget;
+      while (stepLimit < step) {
+        stepLimit += stepBudget;
+      }
+      const verify = options.verify ?? this.verifyTasks;
+      let correctiveStepsLeft: number | null = null; // set once verification sends the agent back
+      const { outputSchema } = options;
+      let outputRetriesLeft = MAX_OUTPUT_RETRIES;
+      let replan = true; // the planner takes the first step, and the next one whenever something goes wrong
+
+      // A dry run keeps the actions it recorded before it was interrupted
+      this.plannedActions = options.dryRun ? [...(resumeFrom?.plannedActions ?? [])] : null;
+
+      // Tell the agent how to go about the task; an interrupted task already has this in its history
+      if (!resumeFrom) {
+        if (options.dryRun) {
+          this.appendUserText(messages, formatDryRunInstructions());
+        }
+        if (options.followActions && options.followActions.length > 0) {
+          this.appendUserText(messages, formatFollowInstructions(options.followActions));
+        }
+        if (outputSchema) {
+          this.appendUserText(messages, formatOutputInstructions(outputSchema));
+        }
+      }
+
+      this.loopDetector.reset();
+
+      // Each task starts with a fresh plan; an interrupted one picks up its own
+      this.planManager.setPlan(resumeFrom?.plan ?? []);
+      if (adaptedCallbacks.onPlanUpdate) {
+        adaptedCallbacks.onPlanUpdate(this.planManager.getPlan());
+      }
+
+      this.checkpoint(adaptedCallbacks, messages, step);
+
+      // A replayed memory only needs the LLM when one of its steps fails, or to give a structured result
+      if (options.replay && !resumeFrom) {
+        const replayed = await this.replayMacro(options.replay, messages, adaptedCallbacks);
+        if (replayed && !outputSchema) {
+          adaptedCallbacks.onLlmOutput(`Replayed the saved steps for "${options.replay.taskDescription}" without calling the LLM.`);
+          done = true;
+        } else if (replayed) {
+          this.appendUserText(messages, `The saved steps for "${options.replay.taskDescription}" were replayed successfully. Check the page and give the final answer.`);
+        }
+        this.checkpoint(adaptedCallbacks, messages, step);
+        this.replayed = {
+          replay: options.replay,
+          checkpoint: { messages: [...messages], step, plannedActions: this.plannedActions ? [...this.plannedActions] : undefined }
+        };
+      }
+
+      while (!done && !this.errorHandler.isExecutionCancelled()) {
+        // Out of steps: ask the user whether to keep going with the current state
+        if (step >= stepLimit) {
+          this.checkpoint(adaptedCallbacks, messages, step, {
+            kind: 'steps',
+            toolName: 'Step limit reached',
+            toolInput: `${step} steps used`,
+            reason: `The task has used all ${step} of its steps.`
+          });
+          if (!(await this.requestMoreSteps(step, stepBudget, adaptedCallbacks))) break;
+          stepLimit += stepBudget;
+        }
+
+        // A result that failed verification only gets a few steps to be fixed
+        if (correctiveStepsLeft !== null) {
+          if (correctiveStepsLeft === 0) {
+            adaptedCallbacks.onToolOutput(`⏹️ Stopped: the result still wasn't fixed after ${MAX_CORRECTIVE_STEPS} corrective steps.`);
+            break;
+          }
+          correctiveStepsLeft--;
+        }
+        step++;
 
-      while (!done && step++ < MAX_STEPS && !this.errorHandler.isExecutionCancelled()) {
         try {
           // Check for cancellation before each major step
           if (this.errorHandler.isExecutionCancelled()) break;
 
+          // Hold here while paused; instructions typed meanwhile go into the next LLM call
+          const instructions = await this.waitIfPaused(adaptedCallbacks);
+          if (this.errorHandler.isExecutionCancelled()) break;
+          if (instructions.length > 0) {
+            this.addUserInstructions(messages, instructions);
+            replan = true;
+          }
+
+          // Routine steps go to the executor; reflection has a model of its own
+          await this.useModelFor(options.reflection ? 'reflection' : replan ? 'planner' : 'executor', messages);
+          replan = false;
+
           // ── 1. Call LLM with streaming ───────────────────────────────────────
-          const { accumulatedText } = await this.processLlmStream(messages, adaptedCallbacks);
+          const { accumulatedText, toolCall: nativeToolCall, ignoredToolCalls } = await this.callLlm(messages, adaptedCallbacks);
 
           // Check for cancellation after LLM response
           if (this.errorHandler.isExecutionCancelled()) break;
 
-          // Check for incomplete or malformed tool calls
-          // This regex looks for tool calls that have <tool> and <input> but are missing <requires_approval>
-          const incompleteApprovalRegex = /<tool>(.*?)<\/tool>\s*<input>([\s\S]*?)<\/input>(?!\s*<requires_approval>)/;
-          const incompleteApprovalMatch = accumulatedText.match(incompleteApprovalRegex);
+          // ── 2. Resolve the tool invocation ───────────────────────────────────
+          // Native tool calls arrive structured; otherwise fall back to parsing the XML format
+          let toolCall = nativeToolCall;
 
-          // Check for interrupted tool calls (has input tag but interrupted during requires_approval)
-          const interruptedToolRegex = /<tool>(.*?)<\/tool>\s*<input>([\s\S]*?)<\/input>\s*<requires(_approval)?$/;
-          const interruptedToolMatch = accumulatedText.match(interruptedToolRegex);
+          if (!toolCall) {
+            // Check for incomplete or malformed tool calls
+            // This regex looks for tool calls that have <tool> and <input> but are missing <requires_approval>
+            const incompleteApprovalRegex = /<tool>(.*?)<\/tool>\s*<input>([\s\S]*?)<\/input>(?!\s*<requires_approval>)/;
+            const incompleteApprovalMatch = accumulatedText.match(incompleteApprovalRegex);
 
-          // Handle incomplete tool calls with missing requires_approval tag
-          if (incompleteApprovalMatch && !accumulatedText.includes("<requires_approval>")) {
-            const toolName = incompleteApprovalMatch[1].trim();
-            const toolInput = incompleteApprovalMatch[2].trim();
+            // Check for interrupted tool calls (has input tag but interrupted during requires_approval)
+            const interruptedToolRegex = /<tool>(.*?)<\/tool>\s*<input>([\s\S]*?)<\/input>\s*<requires(_approval)?$/;
+            const interruptedToolMatch = accumulatedText.match(interruptedToolRegex);
 
-            console.log("Detected incomplete tool call missing requires_approval tag:", incompleteApprovalMatch[0]);
+            // Handle incomplete tool calls with missing requires_approval tag
+            if (incompleteApprovalMatch && !accumulatedText.includes("<requires_approval>")) {
+              const toolName = incompleteApprovalMatch[1].trim();
+              const toolInput = incompleteApprovalMatch[2].trim();
 
-            // Add a message to prompt the LLM to use the complete format
-            messages.push(
-              { role: "assistant", content: accumulatedText },
-              {
-                role: "user",
-                content: `Error: Incomplete tool call format. You provided <tool>${toolName}</tool> and <input>${toolInput}</input> but no <requires_approval> tag. Please use the complete format with all three required tags:
+              console.log("Detected incomplete tool call missing requires_approval tag:", incompleteApprovalMatch[0]);
+
+              // Add a message to prompt the LLM to use the complete format
+              messages.push(
+                { role: "assistant", content: accumulatedText },
+                {
+                  role: "user",
+                  content: `Error: Incomplete tool call format. You provided <tool>${toolName}</tool> and <input>${toolInput}</input> but no <requires_approval> tag. Please use the complete format with all three required tags:
 
 <tool>tool_name</tool>
 <input>arguments here</input>
 <requires_approval>true or false</requires_approval>
 
 The <requires_approval> tag is mandatory. Set it to "true" for purchases, data deletion, messages visible to others, sensitive-data forms, or any risky action. If unsure, set it to "true".`
-              }
-            );
-            continue; // Continue to the next iteration
-          }
-          // Handle interrupted tool calls
-          else if (interruptedToolMatch &&
-              !interruptedToolMatch[0].includes("</requires_approval>") &&
-              (interruptedToolMatch[0].endsWith("<requires") ||
-               interruptedToolMatch[0].endsWith("<requires_approval"))) {
+                }
+              );
+              replan = true;
+              continue; // Continue to the next iteration
+            }
+            // Handle interrupted tool calls
+            else if (interruptedToolMatch &&
+                !interruptedToolMatch[0].includes("</requires_approval>") &&
+                (interruptedToolMatch[0].endsWith("<requires") ||
+                 interruptedToolMatch[0].endsWith("<requires_approval"))) {
 
-            const toolName = interruptedToolMatch[1].trim();
-            const toolInput = interruptedToolMatch[2].trim();
+              const toolName = interruptedToolMatch[1].trim();
+              const toolInput = interruptedToolMatch[2].trim();
 
-            console.log("Detected interrupted tool call with partial requires_approval tag:", interruptedToolMatch[0]);
+              console.log("Detected interrupted tool call with partial requires_approval tag:", interruptedToolMatch[0]);
 
-            // Instead of assuming approval, ask the LLM to complete the tool call properly
-            messages.push(
-              { role: "assistant", content: accumulatedText },
-              {
-                role: "user",
-                content: `Error: Your tool call was interrupted. Please provide the complete tool call with all three required tags:
+              // Instead of assuming approval, ask the LLM to complete the tool call properly
+              messages.push(
+                { role: "assistant", content: accumulatedText },
+                {
+                  role: "user",
+                  content: `Error: Your tool call was interrupted. Please provide the complete tool call with all three required tags:
 
 <tool>${toolName}</tool>
 <input>${toolInput}</input>
 <requires_approval>true or false</requires_approval>
 
 The <requires_approval> tag is mandatory. Set it to "true" for purchases, data deletion, messages visible to others, sensitive-data forms, or any risky action. If unsure, set it to "true".`
-              }
-            );
-            continue; // Continue to the next iteration
-          }
+                }
+              );
+              replan = true;
+              continue; // Continue to the next iteration
+            }
 
-          // ── 2. Parse for tool invocation ─────────────────────────────────────
-          // Only look for complete tool calls with all three required tags
-          const toolMatch = accumulatedText.match(
-            /<tool>(.*?)<\/tool>\s*<input>([\s\S]*?)<\/input>\s*<requires_approval>(.*?)<\/requires_approval>/
-          );
+            // Only look for complete tool calls with all three required tags
+            const toolMatch = accumulatedText.match(
+              /<tool>(.*?)<\/tool>\s*<input>([\s\S]*?)<\/input>\s*<requires_approval>(.*?)<\/requires_approval>/
+            );
 
-          // Check for various types of incomplete tool calls
-          // 1. Tool tag without input tag
-          const missingInputMatch = accumulatedText.match(/<tool>(.*?)<\/tool>(?!\s*<input>)/);
-          // 2. Tool and input tags without requires_approval tag
-          const missingApprovalMatch = accumulatedText.match(/<tool>(.*?)<\/tool>\s*<input>([\s\S]*?)<\/input>(?!\s*<requires_approval>)/);
+            // Check for various types of incomplete tool calls
+            // 1. Tool tag without input tag
+            const missingInputMatch = accumulatedText.match(/<tool>(.*?)<\/tool>(?!\s*<input>)/);
+            // 2. Tool and input tags without requires_approval tag
+            const missingApprovalMatch = accumulatedText.match(/<tool>(.*?)<\/tool>\s*<input>([\s\S]*?)<\/input>(?!\s*<requires_approval>)/);
 
-          if (missingInputMatch !== null && toolMatch === null) {
-            // Handle tool call missing input tag
-            const toolName = missingInputMatch[1].trim();
-            adaptedCallbacks.onToolOutput(`⚠️ Incomplete tool call detected: ${toolName} (missing input and requires_approval tags)`);
+            if (missingInputMatch !== null && toolMatch === null) {
+              // Handle tool call missing input tag
+              const toolName = missingInputMatch[1].trim();
+              adaptedCallbacks.onToolOutput(`⚠️ Incomplete tool call detected: ${toolName} (missing input and requires_approval tags)`);
 
-            // Add a message to prompt the LLM to complete the tool call with all required tags
-            messages.push(
-              { role: "assistant", content: accumulatedText },
-              {
-                role: "user",
-                content: `Error: Incomplete tool call. You provided <tool>${toolName}</tool> but are missing the <input> and <requires_approval> tags. Please provide the complete tool call with all three required tags:
+              // Add a message to prompt the LLM to complete the tool call with all required tags
+              messages.push(
+                { role: "assistant", content: accumulatedText },
+                {
+                  role: "user",
+                  content: `Error: Incomplete tool call. You provided <tool>${toolName}</tool> but are missing the <input> and <requires_approval> tags. Please provide the complete tool call with all three required tags:
 
 <tool>${toolName}</tool>
 <input>arguments here</input>
 <requires_approval>true or false</requires_approval>
 
 The <requires_approval> tag is mandatory. Set it to "true" for purchases, data deletion, messages visible to others, sensitive-data forms, or any risky action. If unsure, set it to "true".`
-              }
-            );
-            continue; // Continue to the next iteration
-          } else if (missingApprovalMatch !== null && toolMatch === null) {
-            // Handle tool call missing requires_approval tag
-            const toolName = missingApprovalMatch[1].trim();
-            const toolInput = missingApprovalMatch[2].trim();
-            adaptedCallbacks.onToolOutput(`⚠️ Incomplete tool call detected: ${toolName} (missing requires_approval tag)`);
-
-            // Add a message to prompt the LLM to complete the tool call with all required tags
-            messages.push(
-              { role: "assistant", content: accumulatedText },
-              {
-                role: "user",
-                content: `Error: Incomplete tool call. You provided <tool>${toolName}</tool> and <input>${toolInput}</input> but are missing the <requires_approval> tag. Please provide the complete tool call with all three required tags:
+                }
+              );
+              replan = true;
+              continue; // Continue to the next iteration
+            } else if (missingApprovalMatch !== null && toolMatch === null) {
+              // Handle tool call missing requires_approval tag
+              const toolName = missingApprovalMatch[1].trim();
+              const toolInput = missingApprovalMatch[2].trim();
+              adaptedCallbacks.onToolOutput(`⚠️ Incomplete tool call detected: ${toolName} (missing requires_approval tag)`);
+
+              // Add a message to prompt the LLM to complete the tool call with all required tags
+              messages.push(
+                { role: "assistant", content: accumulatedText },
+                {
+                  role: "user",
+                  content: `Error: Incomplete tool call. You provided <tool>${toolName}</tool> and <input>${toolInput}</input> but are missing the <requires_approval> tag. Please provide the complete tool call with all three required tags:
 
 <tool>${toolName}</tool>
 <input>${toolInput}</input>
 <requires_approval>true or false</requires_approval>
 
 The <requires_approval> tag is mandatory. Set it to "true" for purchases, data deletion, messages visible to others, sensitive-data forms, or any risky action. If unsure, set it to "true".`
+                }
+              );
+              replan = true;
+              continue; // Continue to the next iteration
+            }
+
+            if (!toolMatch) {
+              // no tool tag ⇒ the agent considers the task complete; check that first if asked to
+              let finalAnswer: FinalAnswer | null = null;
+              if (outputSchema) {
+                finalAnswer = parseFinalAnswer(accumulatedText, outputSchema);
+                if (finalAnswer.errors.length > 0 && outputRetriesLeft > 0) {
+                  outputRetriesLeft--;
+                  adaptedCallbacks.onToolOutput(`⚠️ The final answer doesn't match the output schema. Asking the agent to fix it...`);
+                  messages.push(
+                    { role: "assistant", content: accumulatedText },
+                    { role: "user", content: formatOutputErrors(finalAnswer.errors) }
+                  );
+                  replan = true;
+                  continue;
+                }
               }
-            );
-            continue; // Continue to the next iteration
-          }
 
-          if (!toolMatch) {
-            // no tool tag ⇒ task complete
-            done = true;
-            break;
-          }
+              if (verify) {
+                const verdict = await this.verifyResult(prompt, accumulatedText, adaptedCallbacks);
+                if (this.errorHandler.isExecutionCancelled()) break;
+
+                if (verdict && !verdict.passed) {
+                  if (correctiveStepsLeft === null) {
+                    correctiveStepsLeft = MAX_CORRECTIVE_STEPS;
+                  }
+                  adaptedCallbacks.onToolOutput(`🔁 Sending the agent back to fix it (up to ${correctiveStepsLeft} more steps)...`);
+                  messages.push(
+                    { role: "assistant", content: accumulatedText },
+                    {
+                      role: "user",
+                      content: `Verification: the task is not complete yet. ${verdict.reason}\nContinue working on the original request: "${prompt}". Fix what is missing or wrong, then give your final answer.`
+                    }
+                  );
+                  replan = true;
+                  continue;
+                }
+              }
 
-          // Extract tool information from the complete tool call
-          let toolName, toolInput, llmRequiresApproval;
+              if (finalAnswer) {
+                if (finalAnswer.errors.length > 0) {
+                  adaptedCallbacks.onToolOutput(
+                    `❌ The final answer still doesn't match the output schema:\n${finalAnswer.errors.map(error => `  • ${error}`).join('\n')}`
+                  );
+                } else if (adaptedCallbacks.onStructuredOutput) {
+                  adaptedCallbacks.onStructuredOutput(finalAnswer.value);
+                }
+              }
+
+              done = true;
+              break;
+            }
 
-          if (toolMatch) {
             const [, toolNameRaw, toolInputRaw, requiresApprovalRaw] = toolMatch;
-            toolName = toolNameRaw.trim();
-            toolInput = toolInputRaw.trim();
-            llmRequiresApproval = requiresApprovalRaw.trim().toLowerCase() === 'true';
-          } else {
-            // No valid tool call found, task is complete
-            done = true;
-            break;
+            toolCall = {
+              name: toolNameRaw.trim(),
+              input: toolInputRaw.trim(),
+              requiresApproval: requiresApprovalRaw.trim().toLowerCase() === 'true'
+            };
           }
+
+          const { name: toolName, input: toolInput, requiresApproval: llmRequiresApproval } = toolCall;
           const tool = this.toolManager.findTool(toolName);
 
           // Check if the LLM has marked this as requiring approval
@@ -497,60 +1226,77 @@ The <requires_approval> tag is mandatory. Set it to "true" for purchases, data d
                   .join(", ")}`,
               }
             );
+            replan = true;
+            continue;
+          }
+
+          // Reject inputs that don't match the tool's schema before asking for approval
+          const inputError = this.toolManager.validateToolInput(tool, toolInput);
+          if (inputError) {
+            adaptedCallbacks.onToolOutput(`⚠️ ${inputError}`);
+            messages.push(
+              { role: "assistant", content: accumulatedText },
+              { role: "user", content: `Tool result: ${inputError}` }
+            );
+            replan = true;
             continue;
           }
 
           // Check for cancellation before tool execution
           if (this.errorHandler.isExecutionCancelled()) break;
 
+          // Hold here while paused; a new instruction may change the plan, so skip this tool call
+          const lateInstructions = await this.waitIfPaused(adaptedCallbacks);
+          if (this.errorHandler.isExecutionCancelled()) break;
+          if (lateInstructions.length > 0) {
+            messages.push(
+              { role: "assistant", content: accumulatedText },
+              { role: "user", content: `Tool result: ${toolName} was not executed because the user paused the task.` }
+            );
+            this.addUserInstructions(messages, lateInstructions);
+            replan = true;
+            continue;
+          }
+
           // ── 3. Execute tool ──────────────────────────────────────────────────
           adaptedCallbacks.onToolOutput(`🕹️ tool: ${toolName} | args: ${toolInput}`);
 
           let result: string;
-
-          if (requiresApproval) {
-            // Notify the user that approval is required
-            adaptedCallbacks.onToolOutput(`⚠️ This action requires approval: ${reason}`);
-
-            // Get the current tab ID from chrome.tabs API
-            const tabs = await chrome.tabs.query({ active: true, lastFocusedWindow: true });
-            const tabId = tabs[0]?.id || 0;
-
-            try {
-              // Request approval from the user
-              const approved = await requestApproval(tabId, toolName, toolInput, reason);
-
-              if (approved) {
-                // User approved, execute the tool
-                adaptedCallbacks.onToolOutput(`✅ Action approved by user. Executing...`);
-
-                // Create a context object to pass to the tool
-                const context = {
-                  requiresApproval: true,
-                  approvalReason: reason
-                };
-
-                // Execute the tool with the context
-                result = await tool.func(toolInput, context);
-              } else {
-                // User rejected, skip execution
-                result = "Action cancelled by user.";
-                adaptedCallbacks.onToolOutput(`❌ Action rejected by user.`);
-              }
-            } catch (approvalError) {
-              console.error(`Error in approval process:`, approvalError);
-              result = "Error in approval process. Action cancelled.";
-              adaptedCallbacks.onToolOutput(`❌ Error in approval process: ${approvalError}`);
-            }
+          let executed = false;
+
+          if (this.plannedActions && this.toolManager.isMutatingTool(toolName)) {
+            // Dry run: record the action instead of taking it; approval is asked for when it runs for real
+            this.plannedActions.push({ toolName, toolInput, requiresApproval });
+            result = formatSimulatedResult(toolName);
+            adaptedCallbacks.onToolOutput(`📝 Dry run: recorded ${toolName} without executing it.`);
+          } else if (requiresApproval) {
+            // If the task is interrupted here, it resumes from the previous step and proposes the action again
+            ({ result, executed } = await this.runWithApproval(
+              tool, toolInput, reason, adaptedCallbacks, () => this.checkpoint(adaptedCallbacks, messages, step - 1, { kind: 'tool', toolName, toolInput, reason })
+            ));
           } else {
+            if (toolName === 'ask_user') {
+              // If the task is interrupted while waiting for the answer, it resumes by asking again
+              this.checkpoint(adaptedCallbacks, messages, step - 1, { kind: 'question', toolName, toolInput, reason: '' });
+            }
+
             // No approval required, execute the tool normally
             result = await tool.func(toolInput);
+            executed = true;
           }
 
           // Signal that tool execution is complete
           if (adaptedCallbacks.onToolEnd) {
             adaptedCallbacks.onToolEnd(result);
           }
+          if (executed && adaptedCallbacks.onToolExecuted) {
+            adaptedCallbacks.onToolExecuted(toolName, toolInput, result);
+          }
+
+          // Show the revised plan in the side panel
+          if (toolName === 'update_plan' && adaptedCallbacks.onPlanUpdate) {
+            adaptedCallbacks.onPlanUpdate(this.planManager.getPlan());
+          }
 
           // Check for cancellation after tool execution
           if (this.errorHandler.isExecutionCancelled()) break;
@@ -569,9 +1315,17 @@ The <requires_approval> tag is mandatory. Set it to "true" for purchases, data d
             if (parsedResult.type === "screenshotRef" && parsedResult.id) {
               // Create a message for the LLM with the screenshot reference
               // The actual screenshot display is handled by agentController.ts
+              // Annotated screenshots carry a legend mapping the drawn numbers to element refs
+              const legend = parsedResult.legend ? `\nLegend (number: element):\n${parsedResult.legend}\n` : '';
+              const text = `Tool result: Screenshot captured (${parsedResult.id}). ${parsedResult.note || ''}${legend} Based on this image, please answer the user's original question: "${prompt}". Don't just describe the image - focus on answering the specific question or completing the task the user asked for.`;
+
+              // Vision models get the image itself alongside the text
+              const image = this.llmProvider.getModel().info.supportsImages
+                ? ScreenshotManager.getInstance().getScreenshot(parsedResult.id)
+                : null;
               messages.push({
                 role: "user",
-                content: `Tool result: Screenshot captured (${parsedResult.id}). ${parsedResult.note || ''} Based on this image, please answer the user's original question: "${prompt}". Don't just describe the image - focus on answering the specific question or completing the task the user asked for.`
+                content: image ? [{ type: "text", text }, image] : text
               });
             } else {
               // For other JSON results, stringify them nicely
@@ -585,7 +1339,33 @@ The <requires_approval> tag is mandatory. Set it to "true" for purchases, data d
             messages.push({ role: "user", content: `Tool result: ${result}` });
           }
 
-          messages = trimHistory(messages);
+          // The model may have asked for several tools at once; say which ones didn't run
+          if (ignoredToolCalls && ignoredToolCalls.length > 0) {
+            this.appendUserText(
+              messages,
+              `Only the first tool call of a response is executed, so these were not run: ${ignoredToolCalls.join(", ")}. ` +
+              `Call them again, one per response, if they are still needed.`
+            );
+          }
+
+          // ── 5. Check for loops ───────────────────────────────────────────────
+          const loop = this.loopDetector.record({
+            toolName,
+            toolInput,
+            result,
+            // Nothing changes the page in a dry run, so only repeated calls count as a loop
+            pageState: this.plannedActions ? '' : await this.toolManager.getPageFingerprint(),
+            mutating: this.toolManager.isMutatingTool(toolName)
+          });
+          if (loop && !(await this.handleLoop(loop, messages, step, adaptedCallbacks))) break;
+
+          // A failed, rejected or looping tool call calls for a fresh look at the plan
+          replan = !!loop || result.startsWith("Error") || result === "Action cancelled by user.";
+
+          await this.fitHistory(messages);
+
+          // The step is complete: record the state so the task can be resumed from here
+          this.checkpoint(adaptedCallbacks, messages, step);
         } catch (error) {
           // If an error occurs during execution, check if it was due to cancellation
           if (this.errorHandler.isExecutionCancelled()) break;
@@ -597,11 +1377,16 @@ The <requires_approval> tag is mandatory. Set it to "true" for purchases, data d
         adaptedCallbacks.onLlmOutput(
           `\n\nExecution cancelled by user.`
         );
-      } else if (step >= MAX_STEPS) {
+      } else if (!done && step >= stepLimit) {
         adaptedCallbacks.onLlmOutput(
-          `Stopped: exceeded maximum of ${MAX_STEPS} steps.`
+          `Stopped: reached the limit of ${stepLimit} steps.`
         );
       }
+
+      // Hand the recorded actions over for review
+      if (this.plannedActions && !this.errorHandler.isExecutionCancelled() && adaptedCallbacks.onDryRunComplete) {
+        adaptedCallbacks.onDryRunComplete([...this.plannedActions]);
+      }
       adaptedCallbacks.onComplete();
     } catch (err: any) {
       // Check if this is a retryable error (rate limit or overloaded)
@@ -631,18 +1416,25 @@ The <requires_approval> tag is mandatory. Set it to "true" for purchases, data d
           // Calculate backoff time using the ErrorHandler
           const backoffTime = this.errorHandler.calculateBackoffTime(err, retryAttempt);
 
-          // Wait before retrying
-          await new Promise(resolve => setTimeout(resolve, backoffTime));
+          // Wait before retrying, unless the user stops the task meanwhile
+          await this.errorHandler.waitBeforeRetry(backoffTime);
+          if (this.errorHandler.isExecutionCancelled()) {
+            adaptedCallbacks.onLlmOutput(`\n\nExecution cancelled by user.`);
+            adaptedCallbacks.onComplete();
+            return;
+          }
 
           // Notify that we're retrying
-          const errorType = this.errorHandler.isOverloadedError(err) ? 'server overload' : 'rate limit';
+          const errorType = this.errorHandler.isOverloadedError(err)
+            ? 'server overload'
+            : this.errorHandler.isNetworkError(err) ? 'network' : 'rate limit';
           adaptedCallbacks.onToolOutput(`Retrying after ${errorType} error (attempt ${retryAttempt + 1} of ${MAX_RETRY_ATTEMPTS})...`);
 
           // Increment retry attempt for the next try
           (err as any).retryAttempt = retryAttempt + 1;
 
           // Recursive retry with the same parameters
-          return this.executePrompt(prompt, callbacks, initialMessages, isStreaming);
+          return this.executePrompt(prompt, callbacks, initialMessages, isStreaming, options);
         } else if (retryAttempt >= MAX_RETRY_ATTEMPTS) {
           // We've exceeded the maximum number of retry attempts
           adaptedCallbacks.onLlmOutput(
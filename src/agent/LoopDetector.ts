@@ -0,0 +1,116 @@
+/**
+ * LoopDetector spots an agent that is going round in circles: repeating the
+ * same tool call with the same outcome, or trying a few calls in turn while
+ * the page doesn't change.
+ */
+
+// Constants for loop detection
+const HISTORY_SIZE = 12;         // recent tool calls kept for comparison
+const REPEAT_THRESHOLD = 3;      // identical calls with identical outcomes that count as a loop
+const NO_PROGRESS_WINDOW = 6;    // calls in a row on an unchanged page that count as stagnation
+const MAX_RESULT_CHARS = 200;    // per-attempt cap on the result shown in the warning
+
+/**
+ * A tool call and what it led to
+ */
+export interface ToolCallRecord {
+  toolName: string;
+  toolInput: string;
+  result: string;
+  pageState: string;  // fingerprint of the page after the call, empty if unknown
+  mutating?: boolean; // whether the tool can change the page; defaults to true
+}
+
+/**
+ * A detected loop, with the attempts that make it up
+ */
+export interface LoopDetection {
+  kind: 'repeat' | 'no_progress';
+  attempts: ToolCallRecord[];
+}
+
+// Calls that differ only in whitespace are the same call
+const callKey = (call: ToolCallRecord) => `${call.toolName}|${call.toolInput.replace(/\s+/g, ' ').trim()}`;
+
+export class LoopDetector {
+  private history: ToolCallRecord[] = [];
+  private warnings = 0;
+
+  /**
+   * Record a tool call and check whether the agent is stuck
+   * @returns The loop, or null if the agent is making progress
+   */
+  record(call: ToolCallRecord): LoopDetection | null {
+    this.history = [...this.history, call].slice(-HISTORY_SIZE);
+
+    const detection = this.findRepeat(call) ?? this.findNoProgress();
+    if (detection) {
+      // Start over, so the same attempts aren't reported again on the next call
+      this.history = [];
+    }
+    return detection;
+  }
+
+  /**
+   * Count a warning sent to the agent about a loop
+   * @returns The number of warnings so far
+   */
+  addWarning(): number {
+    return ++this.warnings;
+  }
+
+  /**
+   * Get the number of warnings sent for the current task
+   */
+  getWarningCount(): number {
+    return this.warnings;
+  }
+
+  /**
+   * Forget recorded calls and warnings, e.g. when a new task starts or the user steps in
+   */
+  reset(): void {
+    this.history = [];
+    this.warnings = 0;
+  }
+
+  private findRepeat(call: ToolCallRecord): LoopDetection | null {
+    const key = callKey(call);
+    const repeats = this.history.filter(c =>
+      callKey(c) === key && c.result === call.result && c.pageState === call.pageState
+    );
+    return repeats.length >= REPEAT_THRESHOLD ? { kind: 'repeat', attempts: repeats } : null;
+  }
+
+  private findNoProgress(): LoopDetection | null {
+    // Looking at an unchanged page isn't stagnation; only actions that should have changed it count
+    const recent = this.history.filter(c => c.mutating !== false).slice(-NO_PROGRESS_WINDOW);
+    if (recent.length < NO_PROGRESS_WINDOW) return null;
+
+    // Without a page fingerprint there is nothing to compare
+    const pageState = recent[0].pageState;
+    if (!pageState || recent.some(c => c.pageState !== pageState)) return null;
+
+    // Cycling between a few calls, rather than working through different ones
+    const distinctCalls = new Set(recent.map(callKey)).size;
+    return distinctCalls <= NO_PROGRESS_WINDOW / 2 ? { kind: 'no_progress', attempts: recent } : null;
+  }
+}
+
+/**
+ * Describe a loop to the agent, listing the attempts that didn't work
+ */
+export function formatLoopWarning(detection: LoopDetection): string {
+  const attempts = detection.attempts.map(({ toolName, toolInput, result }) => {
+    const outcome = result.length > MAX_RESULT_CHARS ? `${result.substring(0, MAX_RESULT_CHARS)}...` : result;
+    return `- ${toolName} ${toolInput} → ${outcome}`;
+  });
+
+  const problem = detection.kind === 'repeat'
+    ? `You have made the same tool call ${detection.attempts.length} times with the same outcome.`
+    : `The page hasn't changed over your last ${detection.attempts.length} tool calls.`;
+
+  return `Loop detected: ${problem} These attempts did not work:\n${attempts.join('\n')}\n` +
+    `Do not repeat them. Observe the page again (e.g. browser_snapshot_dom or browser_screenshot) and try a different approach, ` +
+    `such as another selector, a keyboard or mouse tool, or a different route to the goal. If the task can't be done, say so.`;
+}
@@ -0,0 +1,143 @@
+/**
+ * MacroReplay runs a memory's tool sequence directly, without asking the LLM
+ * for each step. Placeholders such as "[search term]" are filled in from
+ * parameters the user gives; the LLM agent only takes over when a step fails.
+ */
+
+/**
+ * A memory to replay, with values for its placeholders
+ */
+export interface MacroReplay {
+  taskDescription: string;
+  toolSequence: string[];              // lines like "browser_click | textarea[name=\"q\"]"
+  parameters?: Record<string, string>; // placeholder name (without brackets) → value
+}
+
+/**
+ * One tool call of a tool sequence
+ */
+export interface MacroStep {
+  toolName: string;
+  toolInput: string;
+}
+
+/**
+ * What happened to a step that was run
+ */
+export interface MacroStepResult extends MacroStep {
+  result: string;
+}
+
+// A bracketed name that is a placeholder rather than a CSS attribute selector: it has a space,
+// e.g. "[search term]", or is written in capitals, e.g. "[CONTACT_NAME]"
+const PLACEHOLDER_PATTERN = /\[([A-Za-z][\w-]*(?: [\w-]+)+|[A-Z][A-Z0-9_]*)\]/g;
+
+// Tool results that mean the step didn't do what it was meant to
+const FAILED_RESULT_PATTERN = /^(Error|No elements found|No nodes matched|Action cancelled)/;
+
+/**
+ * Check whether a value can be replayed
+ */
+export function isMacroReplay(value: unknown): value is MacroReplay {
+  if (!value || typeof value !== "object") return false;
+  const replay = value as MacroReplay;
+  return typeof replay.taskDescription === "string" &&
+    Array.isArray(replay.toolSequence) &&
+    replay.toolSequence.every(line => typeof line === "string") &&
+    (replay.parameters === undefined || (typeof replay.parameters === "object" && replay.parameters !== null));
+}
+
+/**
+ * Split tool sequence lines into tool names and inputs; blank lines are skipped
+ */
+export function parseToolSequence(toolSequence: string[]): MacroStep[] {
+  return toolSequence
+    .filter(line => line.trim())
+    .map(line => {
+      const separator = line.indexOf("|");
+      return separator === -1
+        ? { toolName: line.trim(), toolInput: "" }
+        : { toolName: line.slice(0, separator).trim(), toolInput: line.slice(separator + 1).trim() };
+    });
+}
+
+/**
+ * List the placeholders of a tool sequence, in order of first use
+ */
+export function findPlaceholders(toolSequence: string[]): string[] {
+  const names = new Set<string>();
+  for (const line of toolSequence) {
+    for (const match of line.matchAll(PLACEHOLDER_PATTERN)) {
+      names.add(match[1]);
+    }
+  }
+  return [...names];
+}
+
+/**
+ * Apply a function to every string in a parsed JSON value
+ */
+function mapStrings(value: unknown, fn: (text: string) => string): unknown {
+  if (typeof value === "string") return fn(value);
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, fn));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, fn)]));
+  }
+  return value;
+}
+
+/**
+ * Fill in the placeholders of each step from the given parameters. In JSON inputs
+ * only string values are filled in, so values with quotes or backslashes stay valid JSON.
+ * @returns The bound steps, and the placeholders that were left without a value
+ */
+export function bindParameters(
+  steps: MacroStep[],
+  parameters: Record<string, string> = {}
+): { steps: MacroStep[]; missing: string[] } {
+  const missing = new Set<string>();
+  const fill = (text: string): string => text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    const value = parameters[name];
+    if (value === undefined || value === "") {
+      missing.add(name);
+      return placeholder;
+    }
+    return value;
+  });
+
+  const bound = steps.map(step => {
+    let json: unknown;
+    try {
+      json = /^[{[]/.test(step.toolInput.trim()) ? JSON.parse(step.toolInput) : undefined;
+    } catch {
+      json = undefined;
+    }
+    return {
+      ...step,
+      toolInput: json === undefined ? fill(step.toolInput) : JSON.stringify(mapStrings(json, fill))
+    };
+  });
+  return { steps: bound, missing: [...missing] };
+}
+
+/**
+ * Check whether a tool result means the step failed
+ */
+export function isFailedResult(result: string): boolean {
+  return FAILED_RESULT_PATTERN.test(result.trim());
+}
+
+/**
+ * Tell the agent how far a replay got before it needs to take over
+ * @param completed The steps that ran successfully
+ * @param problem Why the replay stopped, e.g. the failed step and its result
+ */
+export function formatReplayHandover(replay: MacroReplay, completed: MacroStepResult[], problem: string): string {
+  const done = completed.length > 0
+    ? `These steps were replayed successfully:\n${completed
+        .map((step, i) => `${i + 1}. ${step.toolName} ${step.toolInput} → ${step.result.slice(0, 200)}`)
+        .join("\n")}\n`
+    : "No steps were replayed.\n";
+  return `The saved steps for "${replay.taskDescription}" were being replayed without you. ${done}` +
+    `${problem}\nTake over from here: check the page, then finish the task, adapting the remaining steps as needed.`;
+}
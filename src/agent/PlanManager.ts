@@ -0,0 +1,69 @@
+/**
+ * Status of a single plan step
+ */
+export type PlanStepStatus = 'pending' | 'in_progress' | 'done' | 'failed' | 'skipped';
+
+export const PLAN_STEP_STATUSES: PlanStepStatus[] = ['pending', 'in_progress', 'done', 'failed', 'skipped'];
+
+/**
+ * One numbered step of the agent's plan
+ */
+export interface PlanStep {
+  title: string;
+  status: PlanStepStatus;
+  note?: string;  // e.g. why the step failed or was skipped
+}
+
+/**
+ * PlanManager holds the agent's plan for the current task.
+ *
+ * The plan is kept outside the message history, so trimming or summarizing
+ * the history never drops it; the engine shows it to the LLM on every call.
+ */
+export class PlanManager {
+  private steps: PlanStep[] = [];
+
+  /**
+   * Replace the plan with a new or revised one
+   */
+  setPlan(steps: PlanStep[]): void {
+    this.steps = steps.map(step => ({ ...step }));
+  }
+
+  /**
+   * Get a copy of the current plan
+   */
+  getPlan(): PlanStep[] {
+    return this.steps.map(step => ({ ...step }));
+  }
+
+  /**
+   * Check whether the agent has made a plan for the current task
+   */
+  hasPlan(): boolean {
+    return this.steps.length > 0;
+  }
+
+  /**
+   * Clear the plan, e.g. when a new task starts
+   */
+  reset(): void {
+    this.steps = [];
+  }
+
+  /**
+   * Render the plan as a numbered list, e.g. "1. [done] Open the search page"
+   */
+  formatPlan(): string {
+    return this.steps
+      .map((step, i) => `${i + 1}. [${step.status}] ${step.title}${step.note ? ` (${step.note})` : ''}`)
+      .join('\n');
+  }
+
+  /**
+   * Render the plan as a note for the LLM
+   */
+  formatForPrompt(): string {
+    return `Current plan (keep it up to date with update_plan):\n${this.formatPlan()}`;
+  }
+}
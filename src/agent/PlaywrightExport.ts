@@ -0,0 +1,200 @@
+/**
+ * PlaywrightExport turns the tool calls of a session into a `@playwright/test`
+ * spec, so a flow the agent worked out can be rerun headlessly, e.g. in CI.
+ * Actions become Playwright calls; observations become comments or assertions.
+ */
+
+import { isFailedResult } from "./MacroReplay";
+import { parseElementRef } from "./tools/elementRefs";
+import { parseToolInput } from "./tools/schema";
+
+/**
+ * A tool call that was executed, with its result
+ */
+export interface ExecutedToolCall {
+  toolName: string;
+  toolInput: string;
+  result: string;
+}
+
+// Observation tools, which don't change the page
+const OBSERVATION_TOOLS = new Set([
+  "browser_snapshot_dom",
+  "browser_query",
+  "browser_accessible_tree",
+  "browser_read_text",
+  "browser_screenshot",
+]);
+
+// Refs listed by snapshots, e.g. `[e12] button "Sign in"`
+const SNAPSHOT_REF_PATTERN = /^\[(e\d+)\] (\S+)(?: "(.*)")?$/gm;
+
+// Length of the names snapshots cut short: 77 characters and "..."
+const TRUNCATED_NAME_LENGTH = 80;
+
+// WAI-ARIA roles that can have a name, which getByRole matches; snapshots list elements without a role by their tag
+const ARIA_ROLES = new Set((
+  "alert alertdialog application article banner blockquote button cell checkbox columnheader combobox complementary " +
+  "contentinfo definition dialog directory document feed figure form grid gridcell group heading img link list " +
+  "listbox listitem log main marquee math meter menu menubar menuitem menuitemcheckbox menuitemradio navigation note " +
+  "option progressbar radio radiogroup region row rowgroup rowheader scrollbar search searchbox separator slider " +
+  "spinbutton status switch tab table tablist tabpanel term textbox timer toolbar tooltip tree treegrid treeitem"
+).split(" "));
+
+/**
+ * Read the named string parameters of a tool input, given as JSON or positionally
+ */
+function argsOf(input: string, ...names: string[]): Record<string, string | undefined> {
+  const properties = Object.fromEntries(names.map(name => [name, { type: "string" as const }]));
+  return parseToolInput(input, { type: "object", properties }).args;
+}
+
+/**
+ * Quote a value as a string literal
+ */
+function literal(value: string): string {
+  return JSON.stringify(value);
+}
+
+/**
+ * Fit a value on one comment line
+ */
+function comment(value: string): string {
+  return value.replace(/\s+/g, " ").slice(0, 200);
+}
+
+/**
+ * A locator for a ref that can't be turned into a stable one
+ * @param why What is known about the element, for the comment
+ */
+function refLocator(ref: string, why: string): string {
+  return `page.locator(${literal(`[data-bb-ref="${ref}"]`)}) /* ref=${ref} ${why}; replace it with a stable locator */`;
+}
+
+/**
+ * Turn a selector the agent used into a Playwright locator expression
+ * @param refs Role and name of the refs seen in snapshots so far
+ */
+function locatorFor(selector: string, refs: Map<string, { role: string; name?: string }>): string {
+  const ref = parseElementRef(selector);
+  if (ref) {
+    const known = refs.get(ref);
+    if (!known) {
+      return refLocator(ref, "came from a snapshot");
+    }
+    // Without a name, nothing tells the element apart from others with its role or tag
+    if (!known.name) {
+      return refLocator(ref, `is a ${known.role} without a name`);
+    }
+    // Snapshots cut long names short; the part that's left still matches as a substring
+    const truncated = known.name.length === TRUNCATED_NAME_LENGTH && known.name.endsWith("...");
+    const name = truncated ? known.name.slice(0, -3) : known.name;
+    if (!ARIA_ROLES.has(known.role)) {
+      // Elements without a role are listed by tag, which getByRole doesn't know; their name is usually their text
+      return `page.getByText(${literal(name)})`;
+    }
+    return `page.getByRole(${literal(known.role)}, { name: ${literal(name)}${truncated ? ", exact: false" : ""} })`;
+  }
+  // Like browser_click, anything that doesn't look like a CSS selector is text on the page
+  return /[#.[]/.test(selector) ? `page.locator(${literal(selector)})` : `page.getByText(${literal(selector)})`;
+}
+
+/**
+ * Turn one executed tool call into lines of the test body
+ * @returns The lines, or an empty list for calls that don't belong in a test
+ */
+function toStatements(call: ExecutedToolCall, refs: Map<string, { role: string; name?: string }>): string[] {
+  const { toolName, result } = call;
+  const toolInput = call.toolInput.trim();
+
+  switch (toolName) {
+    case "browser_navigate":
+      return [`await page.goto(${literal(argsOf(toolInput, "url").url ?? "")});`];
+    case "browser_wait_for_navigation": {
+      const strategy = argsOf(toolInput, "strategy").strategy?.trim().toLowerCase();
+      const state = strategy === "domcontentloaded" || strategy === "networkidle" ? strategy : "load";
+      return [`await page.waitForLoadState(${literal(state)});`];
+    }
+    case "browser_navigate_back":
+      return ["await page.goBack();"];
+    case "browser_navigate_forward":
+      return ["await page.goForward();"];
+    case "browser_click":
+      return [`await ${locatorFor(argsOf(toolInput, "selector").selector ?? "", refs)}.click();`];
+    case "browser_type": {
+      const { selector, text } = argsOf(toolInput, "selector", "text");
+      return [`await ${locatorFor(selector ?? "", refs)}.fill(${literal(text ?? "")});`];
+    }
+    case "browser_press_key":
+      return [`await page.keyboard.press(${literal((argsOf(toolInput, "key").key ?? "").trim())});`];
+    case "browser_keyboard_type":
+      return [`await page.keyboard.type(${literal(argsOf(toolInput, "text").text ?? "")});`];
+  }
+
+  // Mouse tools accept refs or coordinates; their results say where they actually acted
+  const point = /^(Clicked at|Mouse moved to) \((\d+), (\d+)\)/.exec(result);
+  if (point) {
+    return [`await page.mouse.${point[1] === "Clicked at" ? "click" : "move"}(${point[2]}, ${point[3]});`];
+  }
+  const drag = /^Dragged \((\d+),(\d+)\) → \((\d+),(\d+)\)/.exec(result);
+  if (drag) {
+    const [, sx, sy, ex, ey] = drag;
+    return [
+      `await page.mouse.move(${sx}, ${sy});`,
+      "await page.mouse.down();",
+      `await page.mouse.move(${ex}, ${ey});`,
+      "await page.mouse.up();",
+    ];
+  }
+
+  const title = /^Current page title: (.*)$/s.exec(result);
+  if (toolName === "browser_get_title" && title) {
+    return [`await expect(page).toHaveTitle(${literal(title[1])});`];
+  }
+  if (OBSERVATION_TOOLS.has(toolName)) {
+    return [`// The agent checked the page here (${[toolName, comment(toolInput)].filter(Boolean).join(" ")})`];
+  }
+  if (toolName.startsWith("browser_")) {
+    return [`// ${[toolName, comment(toolInput)].filter(Boolean).join(" ")} isn't exported; add it by hand if the test needs it`];
+  }
+  // Plans, memories and questions to the user are the agent's own bookkeeping
+  return [];
+}
+
+/**
+ * Build a `@playwright/test` spec from the tool calls of a session. Failed calls
+ * are left out, since they didn't change the page.
+ * @param title Name of the test, e.g. the task the session was given
+ */
+export function toPlaywrightSpec(calls: ExecutedToolCall[], title: string): string {
+  const refs = new Map<string, { role: string; name?: string }>();
+  const body: string[] = [];
+
+  for (const call of calls) {
+    if (isFailedResult(call.result)) continue;
+    body.push(...toStatements(call, refs));
+
+    // Later steps may pick elements by the refs this call listed
+    for (const [, ref, role, name] of call.result.matchAll(SNAPSHOT_REF_PATTERN)) {
+      refs.set(ref, { role, name });
+    }
+  }
+
+  const usesExpect = body.some(line => line.includes("expect("));
+  return [
+    `import { ${usesExpect ? "test, expect" : "test"} } from '@playwright/test';`,
+    "",
+    `test(${literal(title)}, async ({ page }) => {`,
+    ...(body.length > 0 ? body : ["// The session didn't execute any browser actions"]).map(line => `  ${line}`),
+    "});",
+    "",
+  ].join("\n");
+}
+
+/**
+ * A file name for a spec, e.g. "search-for-bees.spec.ts"
+ */
+export function specFileName(title: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 50).replace(/-+$/, "");
+  return `${slug || "browserbee-session"}.spec.ts`;
+}
@@ -1,3 +1,4 @@
+import { describeInputSchema } from "./tools/schema";
 import { BrowserTool } from "./tools/types";
 
 /**
@@ -33,7 +34,7 @@ Remember to follow the verification-first workflow: navigate → observe → ana
    */
   getSystemPrompt(): string {
     const toolDescriptions = this.tools
-      .map(t => `${t.name}: ${t.description}`)
+      .map(t => this.describeTool(t))
       .join("\n\n");
     
     // Include the current page context if available
@@ -92,7 +93,9 @@ Remember to follow the verification-first workflow: navigate → observe → ana
   
   4. **Observe** – Use browser_read_text, browser_snapshot_dom, or browser_screenshot to verify page state.
   
-  5. **Analyze → Act** – Plan the remainder of the task and execute further tools.
+  5. **Analyze → Act** – Plan the remainder of the task and execute further tools.  
+     • If it takes more than a couple of actions, first call <tool>update_plan</tool> with numbered steps.  
+     • Call it again as each step starts, completes or fails, and to revise the plan.
   
   ────────────────────────────────────────
   ### MEMORY FORMAT  (for Step 3)
@@ -120,16 +123,24 @@ Remember to follow the verification-first workflow: navigate → observe → ana
   
   ────────────────────────────────────────
   ## TOOL-CALL SYNTAX  
-  You **must** reply in this EXACT XML format with ALL three tags:
+  If native function calling is available, call tools through it, passing the tool's  
+  named parameters together with \`requires_approval\`.  
+  Otherwise you **must** reply in this EXACT XML format with ALL three tags:
   
   <tool>tool_name</tool>  
-  <input>arguments here</input>  
+  <input>{"param": "value"}</input>  
   <requires_approval>true or false</requires_approval>
   
+  The <input> is a JSON object matching the tool's Input signature (use {} when it  
+  takes no parameters). Tools with a single parameter also accept its bare value.
+  
   Set **requires_approval = true** for sensitive tasks like purchases, data deletion,  
   messages visible to others, sensitive-data forms, or any risky action.  
   If unsure, choose **true**.
 
+  If the request is ambiguous or needs information only the user has, ask with  
+  <tool>ask_user</tool> instead of guessing.
+
   Note: The user is on a ${navigator.userAgent.indexOf('Mac') !== -1 ? 'macOS' : navigator.userAgent.indexOf('Win') !== -1 ? 'Windows' : 'Linux'} system, so when using keyboard tools, use appropriate keyboard shortcuts (${navigator.userAgent.indexOf('Mac') !== -1 ? 'Command' : 'Control'} for modifier keys).
   
   ────────────────────────────────────────
@@ -137,6 +148,25 @@ Remember to follow the verification-first workflow: navigate → observe → ana
   Think step-by-step and finish with a concise summary.`;
   }
   
+  /**
+   * Describe a tool for the system prompt, including its input signature and parameters
+   */
+  private describeTool(tool: BrowserTool): string {
+    if (!tool.inputSchema) {
+      return `${tool.name}: ${tool.description}`;
+    }
+
+    const parameters = Object.entries(tool.inputSchema.properties)
+      .filter(([, param]) => param.description)
+      .map(([name, param]) => `    • ${name} – ${param.description}`);
+
+    return [
+      `${tool.name}: ${tool.description}`,
+      `  Input: ${describeInputSchema(tool.inputSchema)}`,
+      ...parameters,
+    ].join("\n");
+  }
+
   /**
    * Update the tools used by the PromptManager
    */
@@ -0,0 +1,187 @@
+/**
+ * StructuredOutput handles tasks that must end with JSON matching a
+ * user-supplied JSON Schema: it tells the agent how to give its final answer,
+ * reads the answer back and validates it.
+ *
+ * The validator covers the keywords commonly used to describe results (type,
+ * enum, const, properties, required, additionalProperties, items, anyOf,
+ * oneOf and the basic length, size and range limits). Other keywords are ignored.
+ */
+
+/**
+ * A JSON Schema, as supplied by the user
+ */
+export type JsonSchema = Record<string, any>;
+
+/**
+ * The agent's final answer, read from its response
+ */
+export interface FinalAnswer {
+  value?: unknown;
+  errors: string[];  // empty if the answer matches the schema
+}
+
+const FINAL_ANSWER_REGEX = /<final_answer>([\s\S]*?)<\/final_answer>/;
+
+/**
+ * Check whether a value can be used as an output schema
+ */
+export function isJsonSchema(value: unknown): value is JsonSchema {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Get the JSON type of a value, telling integers apart from other numbers
+ */
+function jsonType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = jsonType(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+// A pattern that isn't a valid regular expression can't be checked, so it doesn't reject anything
+function matchesPattern(value: string, pattern: string): boolean {
+  try {
+    return new RegExp(pattern).test(value);
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Validate a value against a JSON Schema
+ * @param value The value to validate
+ * @param schema The schema
+ * @param path Location of the value, used in error messages
+ * @returns One message per violation; empty if the value is valid
+ */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, path: string = "$"): string[] {
+  if (!isJsonSchema(schema)) return [];
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return [`${path}: expected ${types.join(" or ")}, got ${jsonType(value)}`];
+    }
+  }
+
+  const errors: string[] = [];
+
+  if (schema.enum && !schema.enum.some((option: unknown) => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(", ")}`);
+  }
+  if ("const" in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (schema.anyOf && !schema.anyOf.some((option: JsonSchema) => validateAgainstSchema(value, option, path).length === 0)) {
+    errors.push(`${path}: doesn't match any of the allowed schemas`);
+  }
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter((option: JsonSchema) => validateAgainstSchema(value, option, path).length === 0).length;
+    if (matches !== 1) {
+      errors.push(`${path}: must match exactly one of the allowed schemas, matches ${matches}`);
+    }
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters long`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters long`);
+    }
+    if (schema.pattern !== undefined && !matchesPattern(value, schema.pattern)) {
+      errors.push(`${path}: must match the pattern ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (isJsonSchema(schema.items)) {
+      value.forEach((item, i) => errors.push(...validateAgainstSchema(item, schema.items, `${path}[${i}]`)));
+    }
+  }
+
+  if (jsonType(value) === "object") {
+    const object = value as Record<string, unknown>;
+    const properties: Record<string, JsonSchema> = schema.properties ?? {};
+
+    for (const name of schema.required ?? []) {
+      if (!(name in object)) {
+        errors.push(`${path}.${name}: required property is missing`);
+      }
+    }
+    for (const [name, propertyValue] of Object.entries(object)) {
+      if (properties[name]) {
+        errors.push(...validateAgainstSchema(propertyValue, properties[name], `${path}.${name}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${name}: unknown property`);
+      } else if (isJsonSchema(schema.additionalProperties)) {
+        errors.push(...validateAgainstSchema(propertyValue, schema.additionalProperties, `${path}.${name}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Read the final answer from the agent's response and validate it
+ * @param text The agent's response
+ * @param schema The schema the answer must match
+ * @returns The answer, with errors if it is missing, not JSON or doesn't match the schema
+ */
+export function parseFinalAnswer(text: string, schema: JsonSchema): FinalAnswer {
+  const match = text.match(FINAL_ANSWER_REGEX);
+  if (!match) {
+    return { errors: ["no <final_answer> found in your response"] };
+  }
+
+  // Models often wrap JSON in a code fence
+  const json = match[1].trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    return { errors: [`the final answer is not valid JSON (${error instanceof Error ? error.message : String(error)})`] };
+  }
+
+  return { value, errors: validateAgainstSchema(value, schema) };
+}
+
+/**
+ * Tell the agent how to give its final answer
+ */
+export function formatOutputInstructions(schema: JsonSchema): string {
+  return `When the task is complete, give your final answer as JSON that conforms to this JSON Schema, inside <final_answer></final_answer> tags:\n${JSON.stringify(schema, null, 2)}\n` +
+    `Only the JSON inside the tags is used as the result, so include everything the user asked for in it.`;
+}
+
+/**
+ * Tell the agent what is wrong with its final answer
+ */
+export function formatOutputErrors(errors: string[]): string {
+  return `Your final answer doesn't match the required JSON Schema:\n${errors.map(error => `  • ${error}`).join("\n")}\n` +
+    `Fix it and give the complete final answer again inside <final_answer></final_answer> tags. If information is missing, gather it first.`;
+}
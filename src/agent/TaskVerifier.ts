@@ -0,0 +1,104 @@
+import { LLMProvider } from "../models/providers/types";
+import { ScreenshotManager } from "../tracking/screenshotManager";
+import { trackResponseUsage } from "./TokenManager";
+import { ToolManager } from "./ToolManager";
+
+/**
+ * TaskVerifier checks a finished task against the user's request: it looks at
+ * the page again and asks the LLM, in a separate call, whether the request was met.
+ */
+
+/**
+ * The verifier's verdict on a finished task
+ */
+export interface VerificationResult {
+  passed: boolean;
+  reason: string;
+}
+
+const VERIFICATION_SYSTEM_PROMPT = `You check whether a browser automation agent has completed the user's request.
+
+You get the original request, the agent's final answer, and the current state of the page. Judge only from this evidence: don't assume something was done unless the page or the answer shows it. A request for information is complete when the answer contains that information.
+
+Reply with "VERDICT: PASS" or "VERDICT: FAIL" on the first line, followed by one or two sentences explaining why. For a failure, say what is missing or wrong so the agent can fix it.`;
+
+/**
+ * Read the verdict from the verifier's reply
+ * @returns The verdict, or null if the reply doesn't contain one
+ */
+export function parseVerdict(text: string): VerificationResult | null {
+  const match = text.match(/VERDICT:\s*\**\s*(PASS|FAIL)\b\**[\s:.—–-]*([\s\S]*)/i);
+  if (!match) {
+    return null;
+  }
+  const passed = match[1].toUpperCase() === "PASS";
+  const reason = match[2].trim() || (passed ? "The result matches the request." : "No reason given.");
+  return { passed, reason };
+}
+
+/**
+ * Observe the page: its text, plus a screenshot for models that accept images
+ */
+async function observePage(
+  toolManager: ToolManager,
+  withScreenshot: boolean
+): Promise<{ text: string; image?: any }> {
+  const readText = toolManager.findTool("browser_read_text");
+  const text = readText ? await readText.func("{}") : "(page text not available)";
+
+  const screenshotTool = withScreenshot ? toolManager.findTool("browser_screenshot") : undefined;
+  if (!screenshotTool) {
+    return { text };
+  }
+
+  try {
+    const result = JSON.parse(await screenshotTool.func("{}"));
+    const image = result.type === "screenshotRef" && result.id
+      ? ScreenshotManager.getInstance().getScreenshot(result.id)
+      : null;
+    return image ? { text, image } : { text };
+  } catch {
+    // The screenshot failed; the page text is enough to go on
+    return { text };
+  }
+}
+
+/**
+ * Check the result of a finished task against the request
+ * @param provider The LLM provider to ask
+ * @param toolManager Tools used to observe the page
+ * @param request The user's request
+ * @param finalAnswer The agent's final response
+ * @returns The verdict
+ * @throws If the page can't be observed or the LLM gives no verdict
+ */
+export async function verifyTask(
+  provider: LLMProvider,
+  toolManager: ToolManager,
+  request: string,
+  finalAnswer: string
+): Promise<VerificationResult> {
+  const observation = await observePage(toolManager, provider.getModel().info.supportsImages === true);
+
+  const text = `Original request: ${request}\n\nThe agent's final answer:\n${finalAnswer}\n\nThe page now:\n${observation.text}`;
+  const stream = provider.createMessage(VERIFICATION_SYSTEM_PROMPT, [{
+    role: "user",
+    content: observation.image ? [{ type: "text", text }, observation.image] : text
+  }]);
+
+  let reply = "";
+  const trackUsage = trackResponseUsage(provider.getModel());
+  for await (const chunk of stream) {
+    if (chunk.type === "text" && chunk.text) {
+      reply += chunk.text;
+    } else if (chunk.type === "usage") {
+      trackUsage(chunk);
+    }
+  }
+
+  const verdict = parseVerdict(reply);
+  if (!verdict) {
+    throw new Error(`no verdict in the reply: ${reply.trim().substring(0, 200) || "(empty)"}`);
+  }
+  return verdict;
+}
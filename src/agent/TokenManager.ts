@@ -1,4 +1,9 @@
 import Anthropic from "@anthropic-ai/sdk";
+import { Tiktoken, TiktokenBPE } from "js-tiktoken/lite";
+import { isImageBlock } from "../models/providers/image-content";
+import { isReasoningOn } from "../models/providers/reasoning";
+import { LLMProvider, ModelInfo, StreamChunk } from "../models/providers/types";
+import { TokenTrackingService, TrackedModel } from "../tracking/tokenTrackingService";
 
 // Generic message interface for token counting
 interface GenericMessage {
@@ -7,24 +12,202 @@ interface GenericMessage {
 }
 
 /**
- * TokenManager handles token estimation, message history trimming,
- * and context window management.
+ * TokenManager handles token estimation, message history trimming and
+ * summarization, and context window management.
  */
 
 // Constants for token management
-const MAX_CONTEXT_TOKENS = 12_000; // rough cap for messages sent to the LLM
+const MAX_CONTEXT_TOKENS = 12_000; // cap for messages when the model's context window is unknown
+const MIN_CONTEXT_TOKENS = 4_000;  // never squeeze the history below this
+export const DEFAULT_CONTEXT_RESERVE_TOKENS = 8_000; // held back for the system prompt and tool definitions
+const IMAGE_TOKENS = 1_000;        // rough cost of one downscaled screenshot
+const MAX_IMAGES_IN_HISTORY = 2;   // only the most recent screenshots are sent as images
+const SUMMARY_THRESHOLD_RATIO = 0.75; // summarize older turns once the history passes this share of the budget
+const KEEP_RECENT_MESSAGES = 6;    // latest turns kept verbatim when summarizing
+const MAX_SUMMARY_INPUT_CHARS = 2_000; // per-message cap when building the summarization transcript
+
+/** Marks the summary of earlier turns, which follows the original request. */
+export const SUMMARY_PREFIX = "[Progress so far — summary of earlier steps]";
+
+const SUMMARY_SYSTEM_PROMPT = `You summarize the progress of a browser automation agent so it can continue its task with less context.
+
+Write a compact "progress so far" note in plain text:
+- What has been done, step by step, and the outcome of each step (including failures and what was learned from them)
+- Pages visited (with URLs) and where the agent currently is
+- Key facts extracted so far, verbatim: names, numbers, prices, dates, URLs, IDs, form values, element selectors or refs that worked
+- What still remains to be done
+
+If the original request is followed by an earlier summary, merge it into the new one. Do not invent anything that is not in the transcript. Keep it under 300 words.`;
 
 /** Very cheap "char/4" token estimator. */
 export const approxTokens = (text: string) => Math.ceil(text.length / 4);
 
+/**
+ * Counts tokens for a particular model family
+ */
+export interface TokenCounter {
+  /** Count the tokens in a piece of text */
+  count(text: string): number;
+  /** Adjust future counts given the input tokens the provider reported for a request this counter estimated */
+  calibrate(estimatedTokens: number, actualTokens: number): void;
+}
+
+/**
+ * chars/4 estimate, scaled by a ratio learned from the usage the provider reports.
+ * Used for models whose tokenizer isn't available in the browser.
+ */
+export class EstimatingTokenCounter implements TokenCounter {
+  private ratio = 1;
+
+  count(text: string): number {
+    return Math.ceil(approxTokens(text) * this.ratio);
+  }
+
+  calibrate(estimatedTokens: number, actualTokens: number): void {
+    if (estimatedTokens <= 0 || actualTokens <= 0) return;
+    // The estimate already includes the current ratio; move halfway towards the observed one
+    const observed = this.ratio * (actualTokens / estimatedTokens);
+    this.ratio = Math.min(3, Math.max(0.5, (this.ratio + observed) / 2));
+  }
+}
+
+/**
+ * Load the BPE vocabulary of an encoding. Each one is several megabytes,
+ * so only the one the selected model uses is loaded.
+ */
+function loadRanks(encoding: "o200k_base" | "cl100k_base"): Promise<TiktokenBPE> {
+  return encoding === "o200k_base"
+    ? import("js-tiktoken/ranks/o200k_base").then(module => module.default)
+    : import("js-tiktoken/ranks/cl100k_base").then(module => module.default);
+}
+
+/**
+ * Exact counts using the BPE vocabulary of OpenAI models. Until the vocabulary
+ * has loaded, or if it can't be, counts are calibrated estimates.
+ */
+export class BpeTokenCounter implements TokenCounter {
+  private encoder?: Tiktoken;
+  private estimate = new EstimatingTokenCounter();
+  /** Settles once the vocabulary has loaded or failed to */
+  readonly ready: Promise<void>;
+
+  constructor(encoding: "o200k_base" | "cl100k_base") {
+    this.ready = loadRanks(encoding)
+      .then(ranks => {
+        this.encoder = new Tiktoken(ranks);
+      })
+      .catch(error => {
+        console.warn(`Could not load the ${encoding} tokenizer, estimating token counts instead:`, error);
+      });
+  }
+
+  count(text: string): number {
+    if (!this.encoder) {
+      return this.estimate.count(text);
+    }
+    // Treat special-token text in page content as ordinary text rather than throwing
+    return this.encoder.encode(text, [], []).length;
+  }
+
+  calibrate(estimatedTokens: number, actualTokens: number): void {
+    // Exact counts have nothing to learn
+    if (!this.encoder) {
+      this.estimate.calibrate(estimatedTokens, actualTokens);
+    }
+  }
+}
+
+/**
+ * Pick the token counter for a provider and model: a BPE tokenizer for
+ * OpenAI-family models, a usage-calibrated estimate for everything else.
+ */
+export function createTokenCounter(provider: string, modelId: string): TokenCounter {
+  const id = modelId.toLowerCase();
+  const isOpenAIModel = /^(gpt-|o\d|chatgpt-)/.test(id);
+  if (provider === "openai" || (provider === "openai-compatible" && isOpenAIModel)) {
+    // gpt-4 and gpt-3.5 use cl100k; gpt-4o, gpt-4.1, gpt-5 and the o-series use o200k
+    const legacy = /^gpt-(3\.5|4)(-|$)/.test(id) && !id.startsWith("gpt-4o") && !id.startsWith("gpt-4.");
+    return new BpeTokenCounter(legacy ? "cl100k_base" : "o200k_base");
+  }
+  return new EstimatingTokenCounter();
+}
+
+/**
+ * Derive the token budget for the message history from the model's context window,
+ * leaving room for its response and the user-configured reserve.
+ * @param info The active model's info
+ * @param reserveTokens Tokens held back for the system prompt and tool definitions
+ */
+export function getContextBudget(
+  info: ModelInfo | undefined,
+  reserveTokens = DEFAULT_CONTEXT_RESERVE_TOKENS
+): number {
+  if (!info?.contextWindow) {
+    return MAX_CONTEXT_TOKENS;
+  }
+  const budget = info.contextWindow - (info.maxTokens ?? 0) - reserveTokens;
+  return Math.max(budget, MIN_CONTEXT_TOKENS);
+}
+
 /**
  * Calculate the total token count for a list of messages
  */
-export const contextTokenCount = (msgs: Anthropic.MessageParam[] | GenericMessage[]) =>
-  msgs.reduce((sum, m) => {
-    const content = typeof m.content === 'string' ? m.content : JSON.stringify(m.content);
-    return sum + approxTokens(content);
-  }, 0);
+export const contextTokenCount = (msgs: Anthropic.MessageParam[] | GenericMessage[], counter?: TokenCounter) =>
+  msgs.reduce((sum, m) => sum + contentTokenCount(m.content, counter), 0);
+
+/**
+ * Estimate the tokens of a message's content, counting each image at a flat rate
+ * rather than by the length of its base64 data
+ */
+const contentTokenCount = (content: any, counter?: TokenCounter): number => {
+  const count = (text: string) => counter ? counter.count(text) : approxTokens(text);
+  if (typeof content === 'string') {
+    return count(content);
+  }
+  if (Array.isArray(content)) {
+    const images = content.filter(isImageBlock).length;
+    const rest = content.filter(block => !isImageBlock(block));
+    return count(JSON.stringify(rest)) + images * IMAGE_TOKENS;
+  }
+  return count(JSON.stringify(content));
+};
+
+/**
+ * Replace all but the most recent images in the history with a short text note,
+ * so that old screenshots don't use up the context window.
+ * @param keep How many of the latest images to keep
+ * @param note The text that takes the place of each removed image
+ */
+export function pruneImages<T extends { role: string; content: any }>(
+  msgs: T[],
+  keep = MAX_IMAGES_IN_HISTORY,
+  note = "[Earlier screenshot removed to save context]"
+): T[] {
+  let remaining = keep;
+  const pruned = [...msgs];
+
+  for (let i = pruned.length - 1; i >= 0; i--) {
+    const content = pruned[i].content;
+    if (!Array.isArray(content) || !content.some(isImageBlock)) continue;
+
+    let changed = false;
+    const blocks = [...content].reverse().map(block => {
+      if (!isImageBlock(block)) return block;
+      if (remaining > 0) {
+        remaining--;
+        return block;
+      }
+      changed = true;
+      return { type: "text", text: note };
+    }).reverse();
+
+    if (changed) {
+      pruned[i] = { ...pruned[i], content: blocks };
+    }
+  }
+
+  return pruned;
+}
 
 /**
  * Intelligently trim message history while preserving all user messages.
@@ -34,10 +217,11 @@ export const contextTokenCount = (msgs: Anthropic.MessageParam[] | GenericMessag
  */
 export function trimHistory(
   msgs: Anthropic.MessageParam[],
-  maxTokens = MAX_CONTEXT_TOKENS
+  maxTokens = MAX_CONTEXT_TOKENS,
+  counter?: TokenCounter
 ) {
   // If we're under the limit or have very few messages, no need to trim
-  if (contextTokenCount(msgs) <= maxTokens || msgs.length <= 2) {
+  if (contextTokenCount(msgs, counter) <= maxTokens || msgs.length <= 2) {
     return msgs;
   }
   
@@ -58,7 +242,7 @@ export function trimHistory(
   
   // Calculate token count for all messages we're definitely keeping
   const keptMessages = Array.from(indicesToKeep).map(i => msgs[i]);
-  const keptTokenCount = contextTokenCount(keptMessages);
+  const keptTokenCount = contextTokenCount(keptMessages, counter);
   let remainingTokens = maxTokens - keptTokenCount;
   
   // Second pass: add assistant messages from newest to oldest until we hit the token limit
@@ -72,7 +256,7 @@ export function trimHistory(
   // Try to add each assistant message if it fits in our token budget
   for (const idx of assistantIndices) {
     const msg = msgs[idx];
-    const msgTokens = contextTokenCount([msg]);
+    const msgTokens = contextTokenCount([msg], counter);
     
     if (msgTokens <= remainingTokens) {
       indicesToKeep.add(idx);
@@ -90,3 +274,152 @@ export function trimHistory(
   
   return trimmedMsgs;
 }
+
+/**
+ * Render a message's content as plain text for the summarization transcript
+ * @param cap Whether to cut the text at MAX_SUMMARY_INPUT_CHARS
+ */
+const messageText = (content: any, cap = true): string => {
+  const text = typeof content === 'string'
+    ? content
+    : Array.isArray(content)
+      ? content.map(block => isImageBlock(block) ? '[screenshot]' : block.text ?? JSON.stringify(block)).join('\n')
+      : JSON.stringify(content);
+  return cap && text.length > MAX_SUMMARY_INPUT_CHARS
+    ? text.substring(0, MAX_SUMMARY_INPUT_CHARS) + ' [...]'
+    : text;
+};
+
+/**
+ * Render the original request for the summarization prompt. A long request is cut
+ * like any other message, but the summary of an earlier compaction is kept whole,
+ * since the facts it carries aren't anywhere else in the history.
+ */
+const requestText = (content: any): string => {
+  const text = messageText(content, false);
+  const summaryStart = text.indexOf(SUMMARY_PREFIX);
+  if (summaryStart === -1) {
+    return messageText(text);
+  }
+  return `${messageText(text.slice(0, summaryStart).trimEnd())}\n\n${text.slice(summaryStart)}`;
+};
+
+/**
+ * Track the token usage reported by one response in the TokenTrackingService,
+ * priced at the rates of the model the request went to
+ * @param model The provider's model, as returned by getModel()
+ * @returns A function to pass each usage chunk of the response to
+ */
+export function trackResponseUsage(model: ReturnType<LLMProvider["getModel"]>): (chunk: StreamChunk) => void {
+  const tokenTracker = TokenTrackingService.getInstance();
+  const trackedModel: TrackedModel = {
+    id: model.id,
+    name: model.info.name,
+    inputPrice: model.info.inputPrice,
+    outputPrice: model.info.outputPrice,
+    thinkingOutputPrice: model.info.thinkingConfig?.outputPrice,
+    reasoning: isReasoningOn(model.reasoning)
+  };
+
+  // Providers report the output tokens so far, so only the growth is new
+  let outputTokens = 0;
+  return (chunk: StreamChunk) => {
+    if (chunk.inputTokens) {
+      tokenTracker.trackInputTokens(
+        chunk.inputTokens,
+        { write: chunk.cacheWriteTokens, read: chunk.cacheReadTokens },
+        undefined,
+        trackedModel
+      );
+    }
+    if (chunk.outputTokens && chunk.outputTokens > outputTokens) {
+      tokenTracker.trackOutputTokens(chunk.outputTokens - outputTokens, undefined, trackedModel);
+      outputTokens = chunk.outputTokens;
+    }
+  };
+}
+
+/**
+ * Put the summary of earlier steps after the original request, in the same message,
+ * replacing the summary from a previous round
+ */
+function withSummary(request: Anthropic.MessageParam, summary: string): Anthropic.MessageParam {
+  const summaryText = `${SUMMARY_PREFIX}\n${summary}`;
+  if (typeof request.content === "string") {
+    const [requestText] = request.content.split(`\n\n${SUMMARY_PREFIX}`);
+    return { role: "user", content: `${requestText}\n\n${summaryText}` };
+  }
+  return {
+    role: "user",
+    content: [
+      ...request.content.filter(block => !(block.type === "text" && block.text.startsWith(SUMMARY_PREFIX))),
+      { type: "text", text: summaryText }
+    ]
+  };
+}
+
+/**
+ * Collapse older turns into a "progress so far" message written by the LLM.
+ *
+ * Once the history passes most of the budget, everything between the original request
+ * and the latest turns is replaced by a summary that keeps what the agent did and
+ * the facts it extracted. The original request and the latest observations are kept
+ * verbatim; the summary goes in the request's message, so user and assistant turns
+ * keep alternating. Falls back to trimHistory if summarization fails, and trims the
+ * result if it is still over the hard limit.
+ */
+export async function summarizeHistory(
+  msgs: Anthropic.MessageParam[],
+  provider: LLMProvider,
+  maxTokens = MAX_CONTEXT_TOKENS,
+  counter?: TokenCounter
+): Promise<Anthropic.MessageParam[]> {
+  const threshold = maxTokens * SUMMARY_THRESHOLD_RATIO;
+  if (contextTokenCount(msgs, counter) <= threshold || msgs.length <= KEEP_RECENT_MESSAGES + 2) {
+    return trimHistory(msgs, maxTokens, counter);
+  }
+
+  // Keep the latest turns, starting at an assistant turn so each tool call stays with its result
+  let recentStart = msgs.length - KEEP_RECENT_MESSAGES;
+  while (recentStart < msgs.length && msgs[recentStart].role !== "assistant") {
+    recentStart++;
+  }
+  const older = msgs.slice(1, recentStart);
+  if (older.length < 2) {
+    return trimHistory(msgs, maxTokens, counter);
+  }
+
+  const transcript = older
+    .map(m => `${m.role === "assistant" ? "Agent" : "User / tool result"}: ${messageText(m.content)}`)
+    .join("\n\n");
+
+  let summary = "";
+  const trackUsage = trackResponseUsage(provider.getModel());
+  try {
+    const stream = provider.createMessage(SUMMARY_SYSTEM_PROMPT, [{
+      role: "user",
+      content: `Original request: ${requestText(msgs[0].content)}\n\nTranscript of the earlier steps:\n\n${transcript}`
+    }]);
+    for await (const chunk of stream) {
+      if (chunk.type === "text" && chunk.text) {
+        summary += chunk.text;
+      } else if (chunk.type === "usage") {
+        trackUsage(chunk);
+      }
+    }
+  } catch (error) {
+    console.warn("History summarization failed, trimming instead:", error);
+    return trimHistory(msgs, maxTokens, counter);
+  }
+
+  // An empty summary, or an error message in place of one, is no use
+  summary = summary.trim();
+  if (!summary || summary.startsWith("Error:")) {
+    return trimHistory(msgs, maxTokens, counter);
+  }
+
+  return trimHistory([
+    withSummary(msgs[0], summary),
+    ...msgs.slice(recentStart)
+  ], maxTokens, counter);
+}
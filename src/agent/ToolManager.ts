@@ -1,6 +1,29 @@
 import type { Page } from "playwright-crx";
+import { getCurrentPage } from "./PageContextManager";
+import { formatInputErrors, parseToolInput } from "./tools/schema";
 import { BrowserTool, ToolExecutionContext } from "./tools/types";
 
+/**
+ * Tools that don't change the page, the browser or stored data. They run normally in a dry run;
+ * every other tool counts as mutating, so new tools are recorded rather than run until listed here.
+ */
+const OBSERVATION_TOOLS = new Set([
+  'browser_accessible_tree',
+  'browser_get_active_tab',
+  'browser_get_title',
+  'browser_query',
+  'browser_read_text',
+  'browser_screenshot',
+  'browser_screenshot_tab',
+  'browser_snapshot_dom',
+  'browser_tab_list',
+  'browser_wait_for_navigation',
+  'get_all_memories',
+  'lookup_memories',
+  'ask_user',
+  'update_plan'
+]);
+
 /**
  * ToolManager handles tool wrapping with health checks,
  * tab tool handling, and tool execution context.
@@ -39,6 +62,27 @@ export class ToolManager {
     return this.tools.find(t => t.name === toolName);
   }
   
+  /**
+   * Check whether a tool changes the page, the browser or stored data, rather than only observing
+   */
+  isMutatingTool(toolName: string): boolean {
+    return !OBSERVATION_TOOLS.has(toolName);
+  }
+  
+  /**
+   * Validate a structured (JSON object) tool input against the tool's input schema.
+   * Plain-string inputs use tool-specific formats and are validated by the tool itself.
+   * @returns Field-level errors formatted as a tool result, or null when the input is valid
+   */
+  validateToolInput(tool: BrowserTool, input: string): string | null {
+    if (!tool.inputSchema || !input.trim().startsWith("{")) {
+      return null;
+    }
+    
+    const { errors } = parseToolInput(input, tool.inputSchema);
+    return errors.length > 0 ? formatInputErrors(tool.name, tool.inputSchema, errors) : null;
+  }
+  
   /**
    * Check if the connection to the page is still healthy
    */
@@ -57,6 +101,33 @@ export class ToolManager {
     }
   }
   
+  /**
+   * Get a compact fingerprint of the current page's state, used to tell whether a tool call changed anything
+   * @returns The fingerprint, or an empty string if the page can't be read
+   */
+  async getPageFingerprint(): Promise<string> {
+    try {
+      const page = getCurrentPage(this.page);
+      const content = await page.evaluate(() => {
+        // Hash the visible text and form values rather than returning them, to keep the fingerprint small
+        const values = Array.from(document.querySelectorAll('input, textarea, select'))
+          .map(el => (el as HTMLInputElement).value)
+          .join('\u0000');
+        const text = `${document.title}\u0000${document.body?.innerText ?? ''}\u0000${values}`;
+        let hash = 0;
+        for (let i = 0; i < text.length; i++) {
+          hash = (hash * 31 + text.charCodeAt(i)) | 0;
+        }
+        // Scrolling changes what the agent sees without changing the text
+        return `${text.length}:${hash}@${Math.round(window.scrollX)},${Math.round(window.scrollY)}`;
+      });
+      return `${page.url()}|${typeof content === 'string' ? content : JSON.stringify(content)}`;
+    } catch (error) {
+      console.log("Could not fingerprint the page:", error);
+      return '';
+    }
+  }
+  
   /**
    * Check if a tool is a tab tool
    */
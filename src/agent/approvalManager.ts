@@ -1,13 +1,27 @@
 import { getWindowForTab } from '../background/tabManager';
 
+/**
+ * The user's response to a request: whether it was approved, and the typed or chosen answer for questions
+ */
+interface ApprovalResult {
+  approved: boolean;
+  answer?: string;
+}
+
 // Pending approvals map
 const pendingApprovals = new Map<string, {
-  resolve: (approved: boolean) => void,
+  resolve: (result: ApprovalResult) => void,
   toolName: string,
   toolInput: string,
   reason: string
 }>();
 
+/**
+ * What the user is asked for: approval of a tool execution, more steps for a task that ran out of
+ * its step limit, or an answer to a question from the agent
+ */
+export type ApprovalKind = 'tool' | 'steps' | 'question';
+
 /**
  * Requests approval from the user for a tool execution
  * @param tabId The tab ID to request approval for
@@ -24,6 +38,66 @@ export async function requestApproval(
   reason: string,
   windowId?: number
 ): Promise<boolean> {
+  const result = await sendApprovalRequest('tool', tabId, toolName, toolInput, reason, windowId);
+  return result.approved;
+}
+
+/**
+ * Asks the user whether a task that has used up its step limit may continue
+ * @param tabId The tab ID to request approval for
+ * @param stepsUsed The number of steps the task has taken so far
+ * @param extraSteps The number of steps that will be granted if approved
+ * @param windowId Optional window ID to scope the request to a specific window
+ * @returns A promise that resolves to true if more steps were granted, false otherwise
+ */
+export async function requestStepExtension(
+  tabId: number,
+  stepsUsed: number,
+  extraSteps: number,
+  windowId?: number
+): Promise<boolean> {
+  const result = await sendApprovalRequest(
+    'steps',
+    tabId,
+    'Step limit reached',
+    `${stepsUsed} steps used`,
+    `The task has used all ${stepsUsed} of its steps. Continue for ${extraSteps} more?`,
+    windowId
+  );
+  return result.approved;
+}
+
+/**
+ * Asks the user a clarifying question and waits for a typed answer or one of the offered options
+ * @param tabId The tab ID to ask the question for
+ * @param question The question to ask
+ * @param options Optional answers the user can pick from
+ * @param windowId Optional window ID to scope the question to a specific window
+ * @returns A promise that resolves to the answer, or null if the user skipped the question
+ */
+export async function requestUserAnswer(
+  tabId: number,
+  question: string,
+  options?: string[],
+  windowId?: number
+): Promise<string | null> {
+  const result = await sendApprovalRequest('question', tabId, 'ask_user', question, '', windowId, options);
+  const answer = result.answer?.trim();
+  return result.approved && answer ? answer : null;
+}
+
+/**
+ * Sends an approval request to the UI and waits for the user's response
+ */
+function sendApprovalRequest(
+  kind: ApprovalKind,
+  tabId: number,
+  toolName: string,
+  toolInput: string,
+  reason: string,
+  windowId?: number,
+  options?: string[]
+): Promise<ApprovalResult> {
   return new Promise((resolve) => {
     const requestId = generateUniqueId();
     pendingApprovals.set(requestId, { resolve, toolName, toolInput, reason });
@@ -41,18 +115,20 @@ export async function requestApproval(
     // Send approval request to UI with a callback to handle errors
     chrome.runtime.sendMessage({
       action: 'requestApproval',
+      kind,
       tabId,
       windowId, // Include window ID in the message
       requestId,
       toolName,
       toolInput,
-      reason
+      reason,
+      ...(options && options.length > 0 ? { options } : {})
     }, (response) => {
       // Handle any potential errors
       if (chrome.runtime.lastError) {
         console.error('Error sending approval request:', chrome.runtime.lastError);
         // If there's an error, resolve with false (reject the action)
-        resolve(false);
+        resolve({ approved: false });
       }
       // Don't resolve here - wait for the handleApprovalResponse call
     });
@@ -63,11 +139,12 @@ export async function requestApproval(
  * Handles an approval response from the UI
  * @param requestId The ID of the approval request
  * @param approved Whether the request was approved
+ * @param answer The user's answer, for questions
  */
-export function handleApprovalResponse(requestId: string, approved: boolean): void {
+export function handleApprovalResponse(requestId: string, approved: boolean, answer?: string): void {
   const pendingApproval = pendingApprovals.get(requestId);
   if (pendingApproval) {
-    pendingApproval.resolve(approved);
+    pendingApproval.resolve(answer === undefined ? { approved } : { approved, answer });
     pendingApprovals.delete(requestId);
   } else {
     console.warn(`No pending approval found for requestId: ${requestId}`);
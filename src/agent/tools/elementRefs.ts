@@ -0,0 +1,272 @@
+import type { Page, Locator } from "playwright-crx";
+
+/**
+ * DOM attribute used to tag interactive elements with their ref
+ */
+export const REF_ATTRIBUTE = "data-bb-ref";
+
+/**
+ * An interactive element captured by a snapshot
+ */
+export interface ElementRef {
+  ref: string;      // e.g. "e12"
+  role: string;     // explicit or implicit ARIA role
+  name: string;     // accessible name, trimmed to a short label
+  inScope: boolean; // whether the element is inside the snapshot's root selector
+}
+
+interface PageRefs {
+  refs: Map<string, ElementRef>;
+  nextIndex: number;
+}
+
+// Refs from the most recent snapshot of each page
+const pageRefs = new WeakMap<Page, PageRefs>();
+
+/**
+ * Extract the ref from a `ref=e12` selector
+ * @returns The normalised ref, or null if the value is not a ref selector
+ */
+export function parseElementRef(value: string): string | null {
+  const match = value.trim().match(/^ref\s*=\s*(e\d+)$/i);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Normalise a value given for a dedicated ref parameter ("e12" or "ref=e12")
+ */
+export function normalizeElementRef(value: string): string {
+  return parseElementRef(value) ?? value.trim().toLowerCase();
+}
+
+/**
+ * Tag the visible interactive elements on a page with refs and remember them
+ * as the page's latest snapshot. Elements that already carry a ref keep it, so
+ * refs stay stable across snapshots while the element stays on the page.
+ * @param page The page to snapshot
+ * @param rootSelector Optional selector limiting which refs are marked in scope
+ * @returns The interactive elements in document order
+ */
+export async function assignElementRefs(page: Page, rootSelector?: string): Promise<ElementRef[]> {
+  const previous = pageRefs.get(page);
+
+  const result: { refs: ElementRef[]; next: number } = await page.evaluate(
+    ({ attribute, startIndex, root }: { attribute: string; startIndex: number; root: string | null }) => {
+      const interactiveSelector = [
+        "a[href]", "button", "input:not([type=hidden])", "select", "textarea", "summary",
+        "[role=button]", "[role=link]", "[role=checkbox]", "[role=radio]", "[role=switch]",
+        "[role=tab]", "[role=menuitem]", "[role=option]", "[role=combobox]", "[role=textbox]",
+        "[role=searchbox]", "[contenteditable=''], [contenteditable=true]", "[onclick]",
+        "[tabindex]:not([tabindex='-1'])",
+      ].join(", ");
+
+      const implicitRole = (el: Element): string => {
+        const tag = el.tagName.toLowerCase();
+        if (tag === "a") return "link";
+        if (tag === "button" || tag === "summary") return "button";
+        if (tag === "select") return "combobox";
+        if (tag === "textarea") return "textbox";
+        if (tag === "input") {
+          const type = (el.getAttribute("type") || "text").toLowerCase();
+          if (type === "checkbox" || type === "radio") return type;
+          if (["button", "submit", "reset", "image"].includes(type)) return "button";
+          return type === "search" ? "searchbox" : "textbox";
+        }
+        return (el as HTMLElement).isContentEditable ? "textbox" : tag;
+      };
+
+      const accessibleName = (el: Element): string => {
+        const labelledBy = el.getAttribute("aria-labelledby");
+        const labels = (el as HTMLInputElement).labels;
+        const name =
+          el.getAttribute("aria-label") ||
+          (labelledBy && document.getElementById(labelledBy)?.textContent) ||
+          (labels && labels.length > 0 ? labels[0].textContent : "") ||
+          el.getAttribute("alt") ||
+          el.getAttribute("title") ||
+          el.getAttribute("placeholder") ||
+          (el as HTMLElement).innerText ||
+          (el as HTMLInputElement).value ||
+          "";
+        const collapsed = name.replace(/\s+/g, " ").trim();
+        return collapsed.length > 80 ? collapsed.slice(0, 77) + "..." : collapsed;
+      };
+
+      // Never hand out a ref that is already in the DOM
+      let next = startIndex;
+      document.querySelectorAll(`[${attribute}]`).forEach(el => {
+        const index = Number((el.getAttribute(attribute) || "").slice(1));
+        if (index >= next) next = index + 1;
+      });
+
+      const roots = root ? Array.from(document.querySelectorAll(root)) : null;
+      const seen = new Set<string>();
+      const refs: { ref: string; role: string; name: string; inScope: boolean }[] = [];
+
+      document.querySelectorAll(interactiveSelector).forEach(el => {
+        const rect = el.getBoundingClientRect();
+        const style = window.getComputedStyle(el);
+        if ((rect.width === 0 && rect.height === 0) || style.visibility === "hidden" || style.display === "none") {
+          el.removeAttribute(attribute);
+          return;
+        }
+
+        let ref = el.getAttribute(attribute);
+        // Cloned elements can carry a copy of another element's ref
+        if (!ref || seen.has(ref)) {
+          ref = `e${next++}`;
+          el.setAttribute(attribute, ref);
+        }
+        seen.add(ref);
+
+        refs.push({
+          ref,
+          role: el.getAttribute("role") || implicitRole(el),
+          name: accessibleName(el),
+          inScope: !roots || roots.some(r => r.contains(el)),
+        });
+      });
+
+      return { refs, next };
+    },
+    { attribute: REF_ATTRIBUTE, startIndex: previous?.nextIndex ?? 1, root: rootSelector ?? null }
+  );
+
+  pageRefs.set(page, {
+    refs: new Map(result.refs.map(ref => [ref.ref, ref])),
+    nextIndex: result.next,
+  });
+
+  return result.refs;
+}
+
+/**
+ * Format refs as a list the model can pick from, e.g. `[e12] button "Sign in"`
+ */
+export function formatElementRefs(refs: ElementRef[]): string {
+  return refs
+    .map(({ ref, role, name }) => `[${ref}] ${role}${name ? ` "${name}"` : ""}`)
+    .join("\n");
+}
+
+/**
+ * Resolve a ref from the page's latest snapshot to a locator
+ * @throws Error with a message the model can act on if the ref is unknown or stale
+ */
+export async function resolveElementRef(page: Page, ref: string): Promise<Locator> {
+  const id = normalizeElementRef(ref);
+  const snapshot = pageRefs.get(page);
+  const known = snapshot?.refs.get(id);
+
+  if (!known) {
+    const index = Number(id.slice(1));
+    if (snapshot && index > 0 && index < snapshot.nextIndex) {
+      throw new Error(
+        `ref ${id} is stale: it is not in the latest snapshot of this page. ` +
+        `Take a new snapshot (browser_snapshot_dom or browser_accessible_tree) to get fresh refs.`
+      );
+    }
+    throw new Error(
+      `unknown ref ${id}. Refs come from browser_snapshot_dom or browser_accessible_tree on the current tab; take a snapshot first.`
+    );
+  }
+
+  const locator = page.locator(`[${REF_ATTRIBUTE}="${id}"]`);
+  if (await locator.count() === 0) {
+    throw new Error(
+      `ref ${id} is stale: the ${known.role}${known.name ? ` "${known.name}"` : ""} is no longer on the page ` +
+      `(the page changed since the snapshot). Take a new snapshot to get fresh refs.`
+    );
+  }
+
+  return locator.first();
+}
+
+/**
+ * Get the viewport coordinates of the centre of a ref'd element
+ */
+export async function getElementRefCenter(page: Page, ref: string): Promise<{ x: number; y: number }> {
+  const locator = await resolveElementRef(page, ref);
+  const box = await locator.boundingBox();
+  if (!box) {
+    throw new Error(`ref ${normalizeElementRef(ref)} is not visible, so it has no coordinates.`);
+  }
+  return { x: Math.round(box.x + box.width / 2), y: Math.round(box.y + box.height / 2) };
+}
+
+const MARKS_CONTAINER_ID = "bb-ref-marks";
+
+/**
+ * Draw numbered boxes over the visible interactive elements so they show up in
+ * a screenshot. Each box is labelled with its ref's number (e12 → 12).
+ * @param page The page to annotate
+ * @param fullPage Whether to mark elements outside the viewport as well
+ * @returns The refs that were marked
+ */
+export async function drawElementRefMarks(page: Page, fullPage = false): Promise<ElementRef[]> {
+  const refs = await assignElementRefs(page);
+
+  const marked: string[] = await page.evaluate(
+    ({ attribute, containerId, ids, includeOffscreen }: {
+      attribute: string; containerId: string; ids: string[]; includeOffscreen: boolean
+    }) => {
+      document.getElementById(containerId)?.remove();
+
+      const container = document.createElement("div");
+      container.id = containerId;
+      container.style.cssText =
+        "position:absolute;top:0;left:0;width:0;height:0;z-index:2147483647;pointer-events:none;";
+
+      const colors = ["#e6194b", "#3cb44b", "#4363d8", "#f58231", "#911eb4", "#008080", "#9a6324", "#800000"];
+      const drawn: string[] = [];
+
+      ids.forEach((id, i) => {
+        const el = document.querySelector(`[${attribute}="${id}"]`);
+        if (!el) return;
+        const rect = el.getBoundingClientRect();
+        const onScreen = rect.bottom > 0 && rect.right > 0 &&
+          rect.top < window.innerHeight && rect.left < window.innerWidth;
+        if (!includeOffscreen && !onScreen) return;
+
+        const color = colors[i % colors.length];
+        const box = document.createElement("div");
+        box.style.cssText =
+          `position:absolute;box-sizing:border-box;border:2px solid ${color};` +
+          `left:${rect.left + window.scrollX}px;top:${rect.top + window.scrollY}px;` +
+          `width:${rect.width}px;height:${rect.height}px;`;
+
+        const label = document.createElement("span");
+        label.textContent = id.slice(1);
+        label.style.cssText =
+          `position:absolute;top:-2px;left:-2px;padding:0 3px;background:${color};color:#fff;` +
+          "font:bold 12px/16px monospace;";
+
+        box.appendChild(label);
+        container.appendChild(box);
+        drawn.push(id);
+      });
+
+      document.documentElement.appendChild(container);
+      return drawn;
+    },
+    {
+      attribute: REF_ATTRIBUTE,
+      containerId: MARKS_CONTAINER_ID,
+      ids: refs.map(r => r.ref),
+      includeOffscreen: fullPage,
+    }
+  );
+
+  const drawn = new Set(marked);
+  return refs.filter(r => drawn.has(r.ref));
+}
+
+/**
+ * Remove the boxes drawn by drawElementRefMarks
+ */
+export async function clearElementRefMarks(page: Page): Promise<void> {
+  await page.evaluate(
+    (containerId: string) => document.getElementById(containerId)?.remove(),
+    MARKS_CONTAINER_ID
+  );
+}
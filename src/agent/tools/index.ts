@@ -38,6 +38,7 @@ import {
   browserReadText, 
   browserScreenshot 
 } from "./observationTools";
+import { updatePlan } from "./planTools";
 import {
   browserGetActiveTab,
   browserNavigateTab,
@@ -55,6 +56,7 @@ import {
   browserTabClose 
 } from "./tabTools";
 import { ToolFactory } from "./types";
+import { askUser } from "./userTools";
 
 // Export all tools
 export {
@@ -102,7 +104,13 @@ export {
   lookupMemories,
   getAllMemories,
   deleteMemory,
-  clearAllMemories
+  clearAllMemories,
+  
+  // User tools
+  askUser,
+  
+  // Plan tools (bound to an agent's PlanManager, so not part of getAllTools)
+  updatePlan
 };
 
 // Function to get all tools as an array
@@ -152,7 +160,10 @@ export function getAllTools(page: Page) {
     lookupMemories(page),
     getAllMemories(page),
     deleteMemory(page),
-    clearAllMemories(page)
+    clearAllMemories(page),
+    
+    // User tools
+    askUser(page)
   ];
   
   return tools;
@@ -1,25 +1,38 @@
-import { DynamicTool } from "langchain/tools";
 import type { Page } from "playwright-crx";
+import { parseElementRef, resolveElementRef } from "./elementRefs";
+import { createTool } from "./schema";
 import { ToolFactory } from "./types";
 import { installDialogListener, lastDialog, resetDialog, withActivePage } from "./utils";
 
 export const browserClick: ToolFactory = (page: Page) =>
-  new DynamicTool({
+  createTool<{ selector: string }>({
     name: "browser_click",
     description:
-      "Click an element. Input may be a CSS selector or literal text to match on the page.",
-    func: async (input: string) => {
+      "Click an element. Input may be an element ref from the last snapshot (`ref=e12`), a CSS selector, or literal text to match on the page.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "ref=<id> from the last snapshot, CSS selector, or literal text of the element to click" },
+      },
+      required: ["selector"],
+    },
+    run: async ({ selector }) => {
       try {
         return await withActivePage(page, async (activePage) => {
-          if (/[#.[]/.test(input)) {
-            await activePage.click(input);
-            return `Clicked selector: ${input}`;
+          const ref = parseElementRef(selector);
+          if (ref) {
+            await (await resolveElementRef(activePage, ref)).click();
+            return `Clicked element ref=${ref}`;
+          }
+          if (/[#.[]/.test(selector)) {
+            await activePage.click(selector);
+            return `Clicked selector: ${selector}`;
           }
-          await activePage.getByText(input).click();
-          return `Clicked element containing text: ${input}`;
+          await activePage.getByText(selector).click();
+          return `Clicked element containing text: ${selector}`;
         });
       } catch (error) {
-        return `Error clicking '${input}': ${
+        return `Error clicking '${selector}': ${
           error instanceof Error ? error.message : String(error)
         }`;
       }
@@ -27,22 +40,31 @@ export const browserClick: ToolFactory = (page: Page) =>
   });
 
 export const browserType: ToolFactory = (page: Page) =>
-  new DynamicTool({
+  createTool<{ selector: string; text: string }>({
     name: "browser_type",
     description:
-      "Type text. Format: selector|text (e.g. input[name=\"q\"]|hello)",
-    func: async (input: string) => {
+      "Type text into an input field, replacing its current value.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "ref=<id> from the last snapshot, or CSS selector of the field, e.g. input[name=\"q\"]" },
+        text: { type: "string", description: "Text to enter; may contain any characters, including |" },
+      },
+      required: ["selector", "text"],
+    },
+    run: async ({ selector, text }) => {
       try {
         return await withActivePage(page, async (activePage) => {
-          const [selector, text] = input.split("|");
-          if (!selector || !text) {
-            return "Error: expected 'selector|text'";
+          const ref = parseElementRef(selector);
+          if (ref) {
+            await (await resolveElementRef(activePage, ref)).fill(text);
+            return `Typed "${text}" into ref=${ref}`;
           }
           await activePage.fill(selector, text);
           return `Typed "${text}" into ${selector}`;
         });
       } catch (error) {
-        return `Error typing into '${input}': ${
+        return `Error typing into '${selector}': ${
           error instanceof Error ? error.message : String(error)
         }`;
       }
@@ -53,18 +75,22 @@ export const browserHandleDialog: ToolFactory = (page: Page) => {
   // Install dialog listener with the active page
   installDialogListener(page);
 
-  return new DynamicTool({
+  return createTool<{ action: "accept" | "dismiss"; text?: string }>({
     name: "browser_handle_dialog",
     description:
-      "Accept or dismiss the most recent alert/confirm/prompt dialog.\n" +
-      "Input `accept` or `dismiss`. For prompt dialogs you may append `|text` to supply response text.",
-    func: async (input: string) => {
+      "Accept or dismiss the most recent alert/confirm/prompt dialog.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        action: { type: "string", enum: ["accept", "dismiss"], description: "Whether to accept or dismiss the dialog" },
+        text: { type: "string", description: "Response text for prompt dialogs" },
+      },
+      required: ["action"],
+    },
+    run: async ({ action, text }) => {
       try {
         if (!lastDialog)
           return "Error: no dialog is currently open or was detected.";
-        const [action, text] = input.split("|").map(s => s.trim().toLowerCase());
-        if (action !== "accept" && action !== "dismiss")
-          return "Error: first part must be `accept` or `dismiss`.";
         if (action === "accept")
           await lastDialog.accept(text || undefined);
         else await lastDialog.dismiss();
@@ -1,14 +1,21 @@
-import { DynamicTool } from "langchain/tools";
 import type { Page } from "playwright-crx";
+import { createTool } from "./schema";
 import { ToolFactory } from "./types";
 import { withActivePage } from "./utils";
 
 export const browserPressKey: ToolFactory = (page: Page) =>
-  new DynamicTool({
+  createTool<{ key: string }>({
     name: "browser_press_key",
     description:
       "Press a single key. Input is the key name (e.g. `Enter`, `ArrowLeft`, `a`).",
-    func: async (key: string) => {
+    inputSchema: {
+      type: "object",
+      properties: {
+        key: { type: "string", description: "Key or chord to press, e.g. Enter, ArrowLeft, Control+A" },
+      },
+      required: ["key"],
+    },
+    run: async ({ key }) => {
       try {
         return await withActivePage(page, async (activePage) => {
           if (!key.trim()) return "Error: key name required";
@@ -24,11 +31,18 @@ export const browserPressKey: ToolFactory = (page: Page) =>
   });
 
 export const browserKeyboardType: ToolFactory = (page: Page) =>
-  new DynamicTool({
+  createTool<{ text: string }>({
     name: "browser_keyboard_type",
     description:
       "Type arbitrary text at the current focus location. Input is the literal text to type. Use `\\n` for new lines.",
-    func: async (text: string) => {
+    inputSchema: {
+      type: "object",
+      properties: {
+        text: { type: "string", description: "Literal text to type" },
+      },
+      required: ["text"],
+    },
+    run: async ({ text }) => {
       try {
         return await withActivePage(page, async (activePage) => {
           await activePage.keyboard.type(text);
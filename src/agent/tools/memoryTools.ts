@@ -2,17 +2,25 @@ import type { Page } from "playwright-crx";
 import { logWithTimestamp } from '../../background/utils';
 import { normalizeDomain } from '../../tracking/domainUtils';
 import { MemoryService, AgentMemory } from '../../tracking/memoryService';
+import { createTool } from './schema';
 
 export function saveMemory(page: Page) {
-  return {
+  return createTool<{ domain: string; taskDescription: string; toolSequence: string[] }>({
     name: "save_memory",
     description: "Save a memory of how to accomplish a specific task on a website. Use this when you want to remember a useful sequence of actions for future reference.",
-    func: async (input: string): Promise<string> => {
+    inputSchema: {
+      type: "object",
+      properties: {
+        domain: { type: "string", description: "Website domain the memory applies to, e.g. www.google.com" },
+        taskDescription: { type: "string", description: "Short description of the task" },
+        toolSequence: { type: "array", items: { type: "string" }, description: "The tool calls that accomplished the task, in order" },
+      },
+      required: ["domain", "taskDescription", "toolSequence"],
+    },
+    // Input must be a JSON object; there is no plain-string form
+    parseLegacyInput: () => ({}),
+    run: async ({ taskDescription, toolSequence, domain }) => {
       try {
-        const inputObj = JSON.parse(input);
-        const { taskDescription, toolSequence } = inputObj;
-        let { domain } = inputObj;
-
         if (!domain || !taskDescription || !toolSequence) {
           return "Error: Missing required fields. Please provide domain, taskDescription, and toolSequence.";
         }
@@ -40,20 +48,24 @@ export function saveMemory(page: Page) {
         return `Error saving memory: ${error instanceof Error ? error.message : String(error)}`;
       }
     }
-  };
+  });
 }
 
 export function lookupMemories(page: Page) {
-  return {
+  return createTool<{ domain: string }>({
     name: "lookup_memories",
     description: "Look up stored memories for a specific website domain. Use this as your FIRST step when starting a task on a website to check if there are any saved patterns you can reuse. Always call this with the current domain (e.g., 'www.google.com').",
-    func: async (input: string): Promise<string> => {
+    inputSchema: {
+      type: "object",
+      properties: {
+        domain: { type: "string", description: "Website domain, e.g. www.google.com" },
+      },
+      required: ["domain"],
+    },
+    run: async (args) => {
       try {
-        // Extract and normalize domain from input
-        let domain = input.trim();
-
         // Normalize the domain using the utility function
-        domain = normalizeDomain(domain);
+        const domain = normalizeDomain(args.domain.trim());
 
         if (!domain) {
           return "Error: Please provide a valid domain to lookup memories for.";
@@ -83,14 +95,15 @@ export function lookupMemories(page: Page) {
         return `Error looking up memories: ${error instanceof Error ? error.message : String(error)}`;
       }
     }
-  };
+  });
 }
 
 export function getAllMemories(page: Page) {
-  return {
+  return createTool({
     name: "get_all_memories",
     description: "Retrieve all stored memories across all domains. Use this when you want to see all available memories.",
-    func: async (): Promise<string> => {
+    inputSchema: { type: "object", properties: {} },
+    run: async () => {
       try {
         const memoryService = MemoryService.getInstance();
         const memories = await memoryService.getAllMemories();
@@ -105,21 +118,22 @@ export function getAllMemories(page: Page) {
         return `Error retrieving all memories: ${error instanceof Error ? error.message : String(error)}`;
       }
     }
-  };
+  });
 }
 
 export function deleteMemory(page: Page) {
-  return {
+  return createTool<{ id: number }>({
     name: "delete_memory",
     description: "Delete a specific memory by its ID. Use this when a memory is no longer useful or accurate.",
-    func: async (input: string): Promise<string> => {
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "integer", description: "ID of the memory to delete" },
+      },
+      required: ["id"],
+    },
+    run: async ({ id }) => {
       try {
-        const id = parseInt(input.trim(), 10);
-
-        if (isNaN(id)) {
-          return "Error: Please provide a valid numeric ID.";
-        }
-
         const memoryService = MemoryService.getInstance();
         await memoryService.deleteMemory(id);
 
@@ -129,14 +143,15 @@ export function deleteMemory(page: Page) {
         return `Error deleting memory: ${error instanceof Error ? error.message : String(error)}`;
       }
     }
-  };
+  });
 }
 
 export function clearAllMemories(page: Page) {
-  return {
+  return createTool({
     name: "clear_all_memories",
     description: "Clear all stored memories. Use this with caution as it will delete all memories across all domains.",
-    func: async (): Promise<string> => {
+    inputSchema: { type: "object", properties: {} },
+    run: async () => {
       try {
         const memoryService = MemoryService.getInstance();
         await memoryService.clearMemories();
@@ -147,5 +162,5 @@ export function clearAllMemories(page: Page) {
         return `Error clearing memories: ${error instanceof Error ? error.message : String(error)}`;
       }
     }
-  };
+  });
 }
@@ -1,21 +1,137 @@
-import { DynamicTool } from "langchain/tools";
 import type { Page } from "playwright-crx";
-import { ToolFactory } from "./types";
+import { ScreenshotManager } from "../../tracking/screenshotManager";
+import { getElementRefCenter, parseElementRef } from "./elementRefs";
+import { createTool, parsePositionalInput } from "./schema";
+import { ToolFactory, ToolInputSchema } from "./types";
 import { withActivePage } from "./utils";
 
+interface PointArgs {
+  x?: number;
+  y?: number;
+  ref?: string;
+  screenshot?: string;
+}
+
+const pointSchema: ToolInputSchema = {
+  type: "object",
+  properties: {
+    x: { type: "number", description: "Horizontal coordinate in CSS pixels" },
+    y: { type: "number", description: "Vertical coordinate in CSS pixels" },
+    ref: { type: "string", description: "Element ref from the last snapshot (e.g. e12); targets its centre instead of x/y" },
+    screenshot: { type: "string", description: "Screenshot handle (e.g. screenshot#3) that x/y were read from; they are translated to page coordinates" },
+  },
+};
+
+/**
+ * Parse a `screenshot#N:x,y` point read off a screenshot
+ */
+function parseScreenshotPoint(value: string): { screenshot: string; x: number; y: number } | null {
+  const match = value.trim().match(/^(screenshot#\d+)\s*:\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/i);
+  return match
+    ? { screenshot: match[1].toLowerCase(), x: Number(match[2]), y: Number(match[3]) }
+    : null;
+}
+
+// Legacy format: `x|y`, `ref=e12` or `screenshot#3:x,y`
+const parsePointInput = (input: string) => {
+  const ref = parseElementRef(input);
+  if (ref) return { ref };
+  return parseScreenshotPoint(input) ?? parsePositionalInput(input, pointSchema);
+};
+
+interface Viewport {
+  width: number;
+  height: number;
+  scrollX?: number;
+  scrollY?: number;
+}
+
+/**
+ * Read the size and scroll offsets of the current viewport
+ */
+async function readViewport(activePage: Page): Promise<Viewport> {
+  return await activePage.evaluate(() => ({
+    width: document.documentElement.clientWidth,
+    height: document.documentElement.clientHeight,
+    scrollX: window.scrollX,
+    scrollY: window.scrollY,
+  })) as Viewport;
+}
+
+/**
+ * Check that the mouse can reach a point
+ * @param description What the point is, e.g. "ref e12 (centre at (40, 900))"
+ * @throws Error if the point is not in the viewport, where the mouse can't reach it
+ */
+function ensureInViewport(point: { x: number; y: number }, viewport: Viewport, description: string, hint: string): { x: number; y: number } {
+  if (point.x < 0 || point.y < 0 || point.x >= viewport.width || point.y >= viewport.height) {
+    throw new Error(`${description} is outside the current ${viewport.width}x${viewport.height} viewport. ${hint}`);
+  }
+  return point;
+}
+
+/**
+ * Translate a point on a stored screenshot to coordinates in the current viewport
+ * @throws Error if the screenshot is unknown
+ */
+function fromScreenshot(viewport: Viewport, id: string, x: number, y: number): { x: number; y: number } {
+  const metadata = ScreenshotManager.getInstance().getScreenshotMetadata(id);
+  if (!metadata) {
+    throw new Error(`unknown screenshot ${id}; take a new one with browser_screenshot`);
+  }
+
+  // Screenshot pixels → document coordinates → current viewport coordinates
+  const origin = metadata.fullPage ? { x: 0, y: 0 } : metadata.scroll;
+  return {
+    x: Math.round(x / metadata.scale + origin.x - (viewport.scrollX ?? 0)),
+    y: Math.round(y / metadata.scale + origin.y - (viewport.scrollY ?? 0)),
+  };
+}
+
+/**
+ * Resolve the target point from explicit coordinates, a point on a screenshot, or an element ref
+ * @throws Error if the point is not in the current viewport
+ */
+async function resolvePoint(activePage: Page, { x, y, ref, screenshot }: PointArgs): Promise<{ x: number; y: number }> {
+  if (ref) {
+    const point = await getElementRefCenter(activePage, ref);
+    return ensureInViewport(
+      point,
+      await readViewport(activePage),
+      `ref ${ref} (centre at (${point.x}, ${point.y}))`,
+      "Scroll it into view first."
+    );
+  }
+  if (x === undefined || y === undefined) {
+    throw new Error("expected x and y coordinates, or ref");
+  }
+
+  const viewport = await readViewport(activePage);
+  if (screenshot) {
+    const id = screenshot.trim().toLowerCase();
+    const point = fromScreenshot(viewport, id, x, y);
+    return ensureInViewport(
+      point,
+      viewport,
+      `point (${x}, ${y}) on ${id} (now at (${point.x}, ${point.y}))`,
+      "Scroll it into view and take a new screenshot."
+    );
+  }
+  return ensureInViewport({ x, y }, viewport, `point (${x}, ${y})`, "Scroll the target into view first.");
+}
+
 export const browserMoveMouse: ToolFactory = (page: Page) =>
-  new DynamicTool({
+  createTool<PointArgs>({
     name: "browser_move_mouse",
     description:
-      "Move the mouse cursor to absolute screen coordinates.\n" +
-      "Input format: `x|y`  (example: `250|380`)",
-    func: async (input: string) => {
+      "Move the mouse cursor to absolute screen coordinates, a point on a screenshot (`screenshot#N:x,y`), " +
+      "or the centre of an element ref.",
+    inputSchema: pointSchema,
+    parseLegacyInput: parsePointInput,
+    run: async (args) => {
       try {
         return await withActivePage(page, async (activePage) => {
-          const [xRaw, yRaw] = input.split("|").map(s => s.trim());
-          const x = Number(xRaw), y = Number(yRaw);
-          if (Number.isNaN(x) || Number.isNaN(y))
-            return "Error: expected `x|y` numbers (e.g. 120|240)";
+          const { x, y } = await resolvePoint(activePage, args);
           await activePage.mouse.move(x, y);
           return `Mouse moved to (${x}, ${y})`;
         });
@@ -28,18 +144,17 @@ export const browserMoveMouse: ToolFactory = (page: Page) =>
   });
 
 export const browserClickXY: ToolFactory = (page: Page) =>
-  new DynamicTool({
+  createTool<PointArgs>({
     name: "browser_click_xy",
     description:
-      "Left‑click at absolute coordinates.\n" +
-      "Input format: `x|y`  (example: `250|380`)",
-    func: async (input: string) => {
+      "Left‑click at absolute coordinates, a point on a screenshot (`screenshot#N:x,y`), " +
+      "or the centre of an element ref.",
+    inputSchema: pointSchema,
+    parseLegacyInput: parsePointInput,
+    run: async (args) => {
       try {
         return await withActivePage(page, async (activePage) => {
-          const [xRaw, yRaw] = input.split("|").map(s => s.trim());
-          const x = Number(xRaw), y = Number(yRaw);
-          if (Number.isNaN(x) || Number.isNaN(y))
-            return "Error: expected `x|y` numbers (e.g. 120|240)";
+          const { x, y } = await resolvePoint(activePage, args);
           await activePage.mouse.click(x, y);
           return `Clicked at (${x}, ${y})`;
         });
@@ -51,18 +166,70 @@ export const browserClickXY: ToolFactory = (page: Page) =>
     },
   });
 
+const dragSchema: ToolInputSchema = {
+  type: "object",
+  properties: {
+    startX: { type: "number", description: "Horizontal coordinate to press at" },
+    startY: { type: "number", description: "Vertical coordinate to press at" },
+    endX: { type: "number", description: "Horizontal coordinate to release at" },
+    endY: { type: "number", description: "Vertical coordinate to release at" },
+    startRef: { type: "string", description: "Element ref to press on instead of startX/startY" },
+    endRef: { type: "string", description: "Element ref to release on instead of endX/endY" },
+    screenshot: { type: "string", description: "Screenshot handle (e.g. screenshot#3) that the coordinates were read from" },
+  },
+};
+
+interface DragArgs {
+  startX?: number;
+  startY?: number;
+  endX?: number;
+  endY?: number;
+  startRef?: string;
+  endRef?: string;
+  screenshot?: string;
+}
+
 export const browserDrag: ToolFactory = (page: Page) =>
-  new DynamicTool({
+  createTool<DragArgs>({
     name: "browser_drag",
     description:
-      "Drag‑and‑drop with the left button.\n" +
-      "Input format: `startX|startY|endX|endY`  (example: `100|200|300|400`)",
-    func: async (input: string) => {
+      "Drag‑and‑drop with the left button, between coordinates, points on a screenshot or element refs. " +
+      "Both points of a screenshot drag must come from the same screenshot.",
+    inputSchema: dragSchema,
+    // Legacy format: `startX|startY|endX|endY`, `ref=e1|ref=e2` or `screenshot#3:x,y|screenshot#3:x,y`
+    parseLegacyInput: (input: string) => {
+      const [start, end, ...rest] = input.split("|");
+      const startRef = parseElementRef(start ?? "");
+      const endRef = parseElementRef(end ?? "");
+      if (startRef && endRef && rest.length === 0) {
+        return { startRef, endRef };
+      }
+      const startPoint = parseScreenshotPoint(start ?? "");
+      const endPoint = parseScreenshotPoint(end ?? "");
+      if (startPoint && endPoint && startPoint.screenshot === endPoint.screenshot && rest.length === 0) {
+        return {
+          startX: startPoint.x,
+          startY: startPoint.y,
+          endX: endPoint.x,
+          endY: endPoint.y,
+          screenshot: startPoint.screenshot,
+        };
+      }
+      return parsePositionalInput(input, {
+        type: "object",
+        properties: {
+          startX: dragSchema.properties.startX,
+          startY: dragSchema.properties.startY,
+          endX: dragSchema.properties.endX,
+          endY: dragSchema.properties.endY,
+        },
+      });
+    },
+    run: async ({ startX, startY, endX, endY, startRef, endRef, screenshot }) => {
       try {
         return await withActivePage(page, async (activePage) => {
-          const [sx, sy, ex, ey] = input.split("|").map(s => Number(s.trim()));
-          if ([sx, sy, ex, ey].some(v => Number.isNaN(v)))
-            return "Error: expected `startX|startY|endX|endY` numbers";
+          const { x: sx, y: sy } = await resolvePoint(activePage, { x: startX, y: startY, ref: startRef, screenshot });
+          const { x: ex, y: ey } = await resolvePoint(activePage, { x: endX, y: endY, ref: endRef, screenshot });
           await activePage.mouse.move(sx, sy);
           await activePage.mouse.down();
           await activePage.mouse.move(ex, ey);
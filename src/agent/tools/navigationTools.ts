@@ -1,14 +1,21 @@
-import { DynamicTool } from "langchain/tools";
 import type { Page } from "playwright-crx";
+import { createTool } from "./schema";
 import { ToolFactory } from "./types";
 import { withActivePage, getCurrentTabId } from "./utils";
 
 export const browserNavigate: ToolFactory = (page: Page) =>
-  new DynamicTool({
+  createTool<{ url: string }>({
     name: "browser_navigate",
     description:
       "Navigate the browser to a specific URL. Input must be a full URL, e.g. https://example.com",
-    func: async (url: string) => {
+    inputSchema: {
+      type: "object",
+      properties: {
+        url: { type: "string", description: "Full URL to open, e.g. https://example.com" },
+      },
+      required: ["url"],
+    },
+    run: async ({ url }) => {
       try {
         return await withActivePage(page, async (activePage) => {
           // Navigate to the URL
@@ -50,7 +57,7 @@ export const browserNavigate: ToolFactory = (page: Page) =>
   });
 
 export const browserWaitForNavigation: ToolFactory = (page: Page) =>
-  new DynamicTool({
+  createTool<{ strategy: string }>({
     name: "browser_wait_for_navigation",
     description: 
       "Wait for navigation to complete using specified strategy. Input options (default: all):\n" +
@@ -58,7 +65,17 @@ export const browserWaitForNavigation: ToolFactory = (page: Page) =>
       "  • domcontentloaded - wait for the 'DOMContentLoaded' event (DOM loaded, faster than 'load')\n" +
       "  • networkidle - wait until network is idle for 500ms (may timeout on sites with continuous activity)\n" +
       "  • all - try multiple strategies in sequence with shorter timeouts (recommended)",
-    func: async (strategy: string = "all") => {
+    inputSchema: {
+      type: "object",
+      properties: {
+        strategy: {
+          type: "string",
+          description: "load, domcontentloaded, networkidle or all",
+          default: "all",
+        },
+      },
+    },
+    run: async ({ strategy }) => {
       try {
         return await withActivePage(page, async (activePage) => {
           switch (strategy.toLowerCase()) {
@@ -98,10 +115,11 @@ export const browserWaitForNavigation: ToolFactory = (page: Page) =>
   });
 
 export const browserNavigateBack: ToolFactory = (page: Page) =>
-  new DynamicTool({
+  createTool({
     name: "browser_navigate_back",
     description: "Go back to the previous page (history.back()). No input.",
-    func: async () => {
+    inputSchema: { type: "object", properties: {} },
+    run: async () => {
       try {
         return await withActivePage(page, async (activePage) => {
           await activePage.goBack();
@@ -116,10 +134,11 @@ export const browserNavigateBack: ToolFactory = (page: Page) =>
   });
 
 export const browserNavigateForward: ToolFactory = (page: Page) =>
-  new DynamicTool({
+  createTool({
     name: "browser_navigate_forward",
     description: "Go forward to the next page (history.forward()). No input.",
-    func: async () => {
+    inputSchema: { type: "object", properties: {} },
+    run: async () => {
       try {
         return await withActivePage(page, async (activePage) => {
           await activePage.goForward();
@@ -1,13 +1,21 @@
-import { DynamicTool } from "langchain/tools";
 import type { Page } from "playwright-crx";
+import {
+  assignElementRefs,
+  clearElementRefMarks,
+  drawElementRefMarks,
+  ElementRef,
+  formatElementRefs,
+} from "./elementRefs";
+import { createTool } from "./schema";
 import { ToolFactory } from "./types";
 import { truncate, MAX_RETURN_CHARS, MAX_SCREENSHOT_CHARS, withActivePage, getCurrentTabId } from "./utils";
 
 export const browserGetTitle: ToolFactory = (page: Page) =>
-  new DynamicTool({
+  createTool({
     name: "browser_get_title",
     description: "Return the current page title.",
-    func: async () => {
+    inputSchema: { type: "object", properties: {} },
+    run: async () => {
       try {
         return await withActivePage(page, async (activePage) => {
           const title = await activePage.title();
@@ -40,20 +48,28 @@ export const browserGetTitle: ToolFactory = (page: Page) =>
   });
 
 export const browserSnapshotDom: ToolFactory = (page: Page) =>
-  new DynamicTool({
+  createTool<SnapshotOptions>({
     name: "browser_snapshot_dom",
     description:
-      "Capture DOM snapshot of the current page. Options (comma-separated):\n" +
-      "  • selector=<css_selector> - capture only elements matching this selector\n" +
-      "  • clean - remove scripts, styles, and other non-visible elements\n" +
-      "  • structure - return only element tags, ids, and classes (no content)\n" +
-      "  • limit=<number> - max character length (default 20000)",
-    func: async (input: string) => {
+      "Capture DOM snapshot of the current page. Interactive elements are listed first with refs (e.g. e12) " +
+      "that browser_click, browser_type, browser_drag and the mouse tools accept as `ref=e12`.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "Capture only elements matching this CSS selector" },
+        clean: { type: "boolean", description: "Remove scripts, styles, and other non-visible elements" },
+        structure: { type: "boolean", description: "Return only element tags, ids, and classes (no content)" },
+        limit: { type: "integer", description: `Max character length (default ${MAX_RETURN_CHARS})` },
+      },
+    },
+    parseLegacyInput: parseSnapshotOptions,
+    run: async (options) => {
       try {
         return await withActivePage(page, async (activePage) => {
-          // Parse options from the input string
-          const options = parseSnapshotOptions(input);
-          const limit = options.limit ? parseInt(options.limit, 10) : MAX_RETURN_CHARS;
+          const limit = options.limit ?? MAX_RETURN_CHARS;
+          
+          // Tag interactive elements first so the captured HTML carries their refs
+          const refs = await assignElementRefs(activePage, options.selector);
           
           let html = '';
           
@@ -121,8 +137,8 @@ export const browserSnapshotDom: ToolFactory = (page: Page) =>
                   
                   // Copy attributes
                   Array.from(element.attributes).forEach((attr: Attr) => {
-                    // Skip event handlers and data attributes
-                    if (!attr.name.startsWith('on') && !attr.name.startsWith('data-')) {
+                    // Skip event handlers and data attributes, but keep element refs
+                    if (!attr.name.startsWith('on') && (!attr.name.startsWith('data-') || attr.name === 'data-bb-ref')) {
                       clean.setAttribute(attr.name, attr.value);
                     }
                   });
@@ -193,8 +209,8 @@ export const browserSnapshotDom: ToolFactory = (page: Page) =>
                   
                   // Copy attributes
                   Array.from(element.attributes).forEach((attr: Attr) => {
-                    // Skip event handlers and data attributes
-                    if (!attr.name.startsWith('on') && !attr.name.startsWith('data-')) {
+                    // Skip event handlers and data attributes, but keep element refs
+                    if (!attr.name.startsWith('on') && (!attr.name.startsWith('data-') || attr.name === 'data-bb-ref')) {
                       clean.setAttribute(attr.name, attr.value);
                     }
                   });
@@ -220,7 +236,7 @@ export const browserSnapshotDom: ToolFactory = (page: Page) =>
             }
           }
           
-          return truncate(html, isNaN(limit) ? MAX_RETURN_CHARS : limit);
+          return truncate(formatRefSection(refs.filter(r => r.inScope)) + html, isNaN(limit) ? MAX_RETURN_CHARS : limit);
         });
       } catch (err) {
         return `Error capturing DOM snapshot: ${
@@ -230,14 +246,24 @@ export const browserSnapshotDom: ToolFactory = (page: Page) =>
     },
   });
 
-// Helper function to parse options from the input string
+// Helper function to list a snapshot's element refs ahead of its content
+function formatRefSection(refs: ElementRef[]): string {
+  if (refs.length === 0) return '';
+  return "Interactive elements (pass `ref=<id>` as the selector to browser_click or browser_type, " +
+    "or as `ref` to the mouse tools):\n" + formatElementRefs(refs) + "\n\n";
+}
+
+interface SnapshotOptions {
+  selector?: string;
+  clean?: boolean;
+  structure?: boolean;
+  limit?: number;
+}
+
+// Helper function to parse the legacy comma-separated options string,
+// e.g. "selector=button,clean,limit=500"
 function parseSnapshotOptions(input: string) {
-  const options: { 
-    selector?: string; 
-    clean?: boolean; 
-    structure?: boolean; 
-    limit?: string;
-  } = {};
+  const options: Record<string, string | boolean> = {};
   
   if (!input || input.trim() === '') {
     return options;
@@ -268,11 +294,18 @@ function parseSnapshotOptions(input: string) {
 }
 
 export const browserQuery: ToolFactory = (page: Page) =>
-  new DynamicTool({
+  createTool<{ selector: string }>({
     name: "browser_query",
     description:
       "Return up to 10 outerHTML snippets for a CSS selector you provide.",
-    func: async (selector: string) => {
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: { type: "string", description: "CSS selector to match" },
+      },
+      required: ["selector"],
+    },
+    run: async ({ selector }) => {
       try {
         return await withActivePage(page, async (activePage) => {
           const matches = (await activePage.$$eval(
@@ -291,16 +324,31 @@ export const browserQuery: ToolFactory = (page: Page) =>
   });
 
 export const browserAccessibleTree: ToolFactory = (page: Page) =>
-  new DynamicTool({
+  createTool<{ all: boolean }>({
     name: "browser_accessible_tree",
     description:
-      "Return the AX accessibility tree JSON (default: interesting‑only). Input 'all' to dump full tree. Note: This tool can be useful when the DOM is too large to process.",
-    func: async (input: string) => {
+      "Return the AX accessibility tree JSON (default: interesting‑only). Interactive nodes carry a `ref` (e.g. e12) " +
+      "that browser_click, browser_type, browser_drag and the mouse tools accept as `ref=e12`. " +
+      "Note: This tool can be useful when the DOM is too large to process.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        all: { type: "boolean", description: "Dump the full tree instead of interesting nodes only", default: false },
+      },
+    },
+    // Legacy format: the literal 'all'
+    parseLegacyInput: (input: string) => (input.trim().toLowerCase() === "all" ? { all: true } : {}),
+    run: async ({ all }) => {
       try {
         return await withActivePage(page, async (activePage) => {
-          const interestingOnly = input.trim().toLowerCase() !== "all";
+          const interestingOnly = !all;
           const tree = await activePage.accessibility.snapshot({ interestingOnly });
-          return truncate(JSON.stringify(tree, null, 2));
+          const refs = await assignElementRefs(activePage);
+          const unmatched = attachRefsToTree(tree, refs);
+          const others = unmatched.length > 0
+            ? `\n\nOther interactive elements:\n${formatElementRefs(unmatched)}`
+            : "";
+          return truncate(JSON.stringify(tree, null, 2) + others);
         });
       } catch (err) {
         return `Error creating AX snapshot: ${
@@ -310,12 +358,36 @@ export const browserAccessibleTree: ToolFactory = (page: Page) =>
     },
   });
 
+// Helper function to attach refs to the AX nodes they match by role and name.
+// Returns the refs that matched no node.
+function attachRefsToTree(tree: any, refs: ElementRef[]): ElementRef[] {
+  const remaining = [...refs];
+  const label = (name: unknown) => {
+    const collapsed = String(name ?? "").replace(/\s+/g, " ").trim();
+    return (collapsed.length > 80 ? collapsed.slice(0, 77) + "..." : collapsed).toLowerCase();
+  };
+  
+  const visit = (node: any) => {
+    if (!node) return;
+    const index = remaining.findIndex(r => r.role === node.role && r.name.toLowerCase() === label(node.name));
+    if (index >= 0) {
+      node.ref = remaining[index].ref;
+      remaining.splice(index, 1);
+    }
+    (node.children || []).forEach(visit);
+  };
+  
+  visit(tree);
+  return remaining;
+}
+
 export const browserReadText: ToolFactory = (page: Page) =>
-  new DynamicTool({
+  createTool({
     name: "browser_read_text",
     description:
       "Return all visible text on the page, concatenated in DOM order.",
-    func: async () => {
+    inputSchema: { type: "object", properties: {} },
+    run: async () => {
       try {
         return await withActivePage(page, async (activePage) => {
           const text = await activePage.evaluate(() => {
@@ -347,17 +419,30 @@ export const browserReadText: ToolFactory = (page: Page) =>
   });
 
 export const browserScreenshot: ToolFactory = (page: Page) =>
-  new DynamicTool({
+  createTool<{ full: boolean; annotate: boolean }>({
     name: "browser_screenshot",
     description:
-      "Take a screenshot of the current page.\n\n" +
-      "Input flags (comma-separated):\n" +
-      "  • (none)  – capture viewport only, downscaled to 800px wide (default)\n" +
-      "  • full    – capture the full scrolling page, downscaled to 1000px wide\n\n" +
+      "Take a screenshot of the current page. By default the viewport is captured and downscaled " +
+      "to 800px wide; with `full` the whole scrolling page is captured and downscaled to 1000px wide.\n\n" +
+      "With `annotate`, visible interactive elements are drawn with numbered boxes and a legend maps each " +
+      "number to an element ref, so box 14 can be clicked with `ref=e14`.\n\n" +
+      "To click a point read off the image, pass `screenshot#N:x,y` to the mouse tools; it is translated to page coordinates.\n\n" +
       "Screenshots are automatically optimized for token limits." +
       "Important: Use `browser_snapshot_dom` or `browser_accessible_tree` for structured info; " +
       "resort to screenshots only when you truly need pixels (e.g. images, charts, maps, or to show the user).",
-    func: async (input: string) => {
+    inputSchema: {
+      type: "object",
+      properties: {
+        full: { type: "boolean", description: "Capture the full scrolling page instead of the viewport", default: false },
+        annotate: { type: "boolean", description: "Draw numbered boxes over interactive elements and return a legend", default: false },
+      },
+    },
+    // Legacy format: comma-separated flags, e.g. 'full,annotate'
+    parseLegacyInput: (input: string) => {
+      const flags = input.split(",").map((s) => s.trim().toLowerCase());
+      return { full: flags.includes("full"), annotate: flags.includes("annotate") };
+    },
+    run: async ({ full: fullPage, annotate }) => {
       try {
         return await withActivePage(page, async (activePage) => {
           // Import ScreenshotManager
@@ -369,20 +454,16 @@ export const browserScreenshot: ToolFactory = (page: Page) =>
           const DEFAULT_WIDTH = 800;
           const FULL_PAGE_WIDTH = 1000;
           
-          // Parse flags
-          const flags = input
-            .split(",")
-            .map((s) => s.trim().toLowerCase())
-            .filter(Boolean);
-
-          // Set options based on flags
-          const fullPage = flags.includes("full");
           const targetWidth = fullPage ? FULL_PAGE_WIDTH : DEFAULT_WIDTH;
           let quality = 40;
           
-          // Take initial screenshot
+          // Take initial screenshot, with numbered marks drawn over it if requested
           let buffer;
+          let marks: ElementRef[] = [];
           try {
+            if (annotate) {
+              marks = await drawElementRefMarks(activePage, fullPage);
+            }
             buffer = await activePage.screenshot({ 
               type: "jpeg", 
               fullPage, 
@@ -392,6 +473,10 @@ export const browserScreenshot: ToolFactory = (page: Page) =>
             return `Error taking initial screenshot: ${
               screenshotError instanceof Error ? screenshotError.message : String(screenshotError)
             }`;
+          } finally {
+            if (annotate) {
+              await clearElementRefMarks(activePage).catch(() => undefined);
+            }
           }
           
           let base64 = buffer.toString("base64");
@@ -400,6 +485,10 @@ export const browserScreenshot: ToolFactory = (page: Page) =>
           interface PageDimensions {
             width: number;
             height: number;
+            documentWidth?: number;
+            scrollX?: number;
+            scrollY?: number;
+            pixelRatio?: number;
           }
           
           let dimensions;
@@ -407,7 +496,11 @@ export const browserScreenshot: ToolFactory = (page: Page) =>
             dimensions = await activePage.evaluate(() => {
               return {
                 width: document.documentElement.clientWidth,
-                height: document.documentElement.clientHeight
+                height: document.documentElement.clientHeight,
+                documentWidth: document.documentElement.scrollWidth,
+                scrollX: window.scrollX,
+                scrollY: window.scrollY,
+                pixelRatio: window.devicePixelRatio
               };
             }) as PageDimensions;
           } catch (dimensionsError) {
@@ -416,6 +509,12 @@ export const browserScreenshot: ToolFactory = (page: Page) =>
             }`;
           }
           
+          // Record how the image maps onto the page before the dimensions are reused for the image size
+          const viewport = { width: dimensions.width, height: dimensions.height };
+          const scroll = { x: dimensions.scrollX ?? 0, y: dimensions.scrollY ?? 0 };
+          const capturedWidth = fullPage ? (dimensions.documentWidth ?? dimensions.width) : dimensions.width;
+          let imageWidth = Math.round(capturedWidth * (dimensions.pixelRatio ?? 1));
+          
           // If the image is too large, we need to downscale it
           if (base64.length > MAX_CHARS) {
             // Define types for the downscale result
@@ -525,6 +624,7 @@ export const browserScreenshot: ToolFactory = (page: Page) =>
             base64 = result.base64;
             dimensions.width = result.width;
             dimensions.height = result.height;
+            imageWidth = result.width;
             
             // If still too big, reduce quality until it fits
             while (base64.length > MAX_CHARS && quality > 10) {
@@ -616,8 +716,13 @@ export const browserScreenshot: ToolFactory = (page: Page) =>
             }
           };
           
-          // Store the screenshot in the ScreenshotManager
-          const screenshotId = screenshotManager.storeScreenshot(screenshotData);
+          // Store the screenshot in the ScreenshotManager, with what the mouse tools need to map points back to the page
+          const screenshotId = screenshotManager.storeScreenshot(screenshotData, {
+            scale: capturedWidth > 0 ? imageWidth / capturedWidth : 1,
+            viewport,
+            scroll,
+            fullPage,
+          });
           
           // Log the screenshot storage
           console.log(`Stored screenshot as ${screenshotId} (saved ${base64.length} characters)`);
@@ -626,7 +731,8 @@ export const browserScreenshot: ToolFactory = (page: Page) =>
           return JSON.stringify({
             type: "screenshotRef",
             id: screenshotId,
-            note: `Screenshot captured (${fullPage ? 'full page' : 'viewport only'})`
+            note: `Screenshot captured (${fullPage ? 'full page' : 'viewport only'}${annotate ? ', annotated' : ''})`,
+            ...(annotate ? { legend: formatMarkLegend(marks) } : {})
           });
         });
       } catch (err) {
@@ -636,3 +742,13 @@ export const browserScreenshot: ToolFactory = (page: Page) =>
       }
     },
   });
+
+/**
+ * Map the numbers drawn on an annotated screenshot to their element refs
+ */
+function formatMarkLegend(marks: ElementRef[]): string {
+  if (marks.length === 0) return "No interactive elements are visible.";
+  return marks
+    .map(({ ref, role, name }) => `${ref.slice(1)}: ref=${ref} ${role}${name ? ` "${name}"` : ""}`)
+    .join("\n");
+}
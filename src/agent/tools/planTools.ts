@@ -0,0 +1,69 @@
+import { PLAN_STEP_STATUSES, PlanManager, PlanStep, PlanStepStatus } from '../PlanManager';
+import { createTool } from './schema';
+
+/**
+ * Validate one step of the tool input
+ * @returns The step, or an error message
+ */
+function parsePlanStep(value: Record<string, unknown>, index: number): PlanStep | string {
+  const { title, status = 'pending', note } = value;
+  if (typeof title !== 'string' || !title.trim()) {
+    return `step ${index + 1}: "title" must be a non-empty string`;
+  }
+  if (!PLAN_STEP_STATUSES.includes(status as PlanStepStatus)) {
+    return `step ${index + 1}: "status" must be one of ${PLAN_STEP_STATUSES.join(', ')}`;
+  }
+
+  const step: PlanStep = { title: title.trim(), status: status as PlanStepStatus };
+  if (typeof note === 'string' && note.trim()) {
+    step.note = note.trim();
+  }
+  return step;
+}
+
+export function updatePlan(planManager: PlanManager) {
+  return createTool<{ steps: Record<string, unknown>[] }>({
+    name: "update_plan",
+    description: "Create or update your plan for the task as a list of numbered steps. Call it before you start a task that takes more than a couple of actions, and again whenever a step starts, completes, fails or the plan changes. Always pass the whole plan.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        steps: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              title: { type: "string" },
+              status: { type: "string", enum: PLAN_STEP_STATUSES },
+              note: { type: "string", description: "e.g. why the step failed or was skipped" },
+            },
+            required: ["title", "status"],
+          },
+          description: "All steps of the plan, in order",
+        },
+      },
+      required: ["steps"],
+    },
+    // A plain string is a new plan with one pending step per line
+    parseLegacyInput: (input) => ({
+      steps: input.split('\n')
+        .map(line => line.replace(/^\s*(\d+[.)]|[-*])\s*/, '').trim())
+        .filter(Boolean)
+        .map(title => ({ title, status: 'pending' }))
+    }),
+    run: async ({ steps }) => {
+      if (steps.length === 0) {
+        return "Error: The plan needs at least one step.";
+      }
+
+      const parsed = steps.map(parsePlanStep);
+      const errors = parsed.filter((step): step is string => typeof step === 'string');
+      if (errors.length > 0) {
+        return `Error: Invalid plan:\n${errors.map(error => `  • ${error}`).join('\n')}`;
+      }
+
+      planManager.setPlan(parsed as PlanStep[]);
+      return `Plan updated:\n${planManager.formatPlan()}`;
+    }
+  });
+}
@@ -0,0 +1,213 @@
+import { BrowserTool, ToolExecutionContext, ToolInputSchema, ToolParameterSchema } from "./types";
+
+/**
+ * Result of parsing a tool input against its schema
+ */
+export interface ParsedToolInput {
+  args: Record<string, any>;
+  errors: string[];
+}
+
+/**
+ * Parse a JSON object input; returns null when the input is not a JSON object
+ */
+function parseJsonObject(input: string): Record<string, unknown> | null {
+  const trimmed = input.trim();
+  if (!trimmed.startsWith("{")) return null;
+
+  try {
+    const parsed = JSON.parse(trimmed);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Map a plain string input onto the schema's parameters in declaration order.
+ * A single-parameter tool receives the whole string; otherwise the string is
+ * split on "|" and the last parameter receives the remainder, so free text in
+ * the final position may itself contain pipes.
+ */
+export function parsePositionalInput(input: string, schema: ToolInputSchema): Record<string, unknown> {
+  const names = Object.keys(schema.properties);
+  if (names.length === 0 || input === "") return {};
+  if (names.length === 1) {
+    // Whitespace is meaningful text for a string, but means "not given" otherwise
+    const blank = input.trim() === "" && schema.properties[names[0]].type !== "string";
+    return blank ? {} : { [names[0]]: input };
+  }
+
+  const parts = input.split("|");
+  const args: Record<string, unknown> = {};
+  names.forEach((name, i) => {
+    const isLast = i === names.length - 1;
+    const value = isLast ? parts.slice(i).join("|") : parts[i]?.trim();
+    if (value !== undefined && value !== "") {
+      args[name] = value;
+    }
+  });
+  return args;
+}
+
+/**
+ * Coerce a raw value to the parameter's declared type
+ * @returns The coerced value, or an error message
+ */
+function coerceValue(value: unknown, schema: ToolParameterSchema): { value?: unknown; error?: string } {
+  switch (schema.type) {
+    case "string": {
+      if (typeof value === "number" || typeof value === "boolean") value = String(value);
+      if (typeof value !== "string") return { error: `expected a string, got ${JSON.stringify(value)}` };
+      if (schema.enum) {
+        const match = schema.enum.find(option => option.toLowerCase() === (value as string).trim().toLowerCase());
+        if (!match) return { error: `must be one of ${schema.enum.join(", ")}, got ${JSON.stringify(value)}` };
+        return { value: match };
+      }
+      return { value };
+    }
+    case "number":
+    case "integer": {
+      const num = typeof value === "string" && value.trim() !== "" ? Number(value.trim()) : value;
+      if (typeof num !== "number" || Number.isNaN(num)) {
+        return { error: `expected ${schema.type === "integer" ? "an integer" : "a number"}, got ${JSON.stringify(value)}` };
+      }
+      if (schema.type === "integer" && !Number.isInteger(num)) {
+        return { error: `expected an integer, got ${JSON.stringify(value)}` };
+      }
+      return { value: num };
+    }
+    case "boolean": {
+      if (typeof value === "boolean") return { value };
+      if (typeof value === "string" && /^(true|false)$/i.test(value.trim())) {
+        return { value: value.trim().toLowerCase() === "true" };
+      }
+      return { error: `expected true or false, got ${JSON.stringify(value)}` };
+    }
+    case "array":
+    case "object": {
+      let parsed = value;
+      if (typeof value === "string") {
+        try {
+          parsed = JSON.parse(value);
+        } catch {
+          return { error: `expected ${schema.type === "array" ? "an array" : "an object"}, got ${JSON.stringify(value)}` };
+        }
+      }
+      const isArray = Array.isArray(parsed);
+      if (schema.type === "array" ? !isArray : (isArray || parsed === null || typeof parsed !== "object")) {
+        return { error: `expected ${schema.type === "array" ? "an array" : "an object"}, got ${JSON.stringify(value)}` };
+      }
+      if (schema.type === "array" && schema.items) {
+        const items: unknown[] = [];
+        for (const [i, item] of (parsed as unknown[]).entries()) {
+          const coerced = coerceValue(item, schema.items);
+          if (coerced.error) return { error: `item ${i}: ${coerced.error}` };
+          items.push(coerced.value);
+        }
+        return { value: items };
+      }
+      return { value: parsed };
+    }
+  }
+}
+
+/**
+ * Parse and validate a tool input against the tool's schema.
+ * Accepts a JSON object of named arguments, or a plain string that is mapped
+ * onto the parameters positionally (see parsePositionalInput).
+ * @param input The raw tool input
+ * @param schema The tool's input schema
+ * @param parseLegacyInput Optional parser for a tool-specific plain-string format
+ * @returns The coerced arguments and any field-level errors
+ */
+export function parseToolInput(
+  input: string,
+  schema: ToolInputSchema,
+  parseLegacyInput?: (input: string) => Record<string, unknown>
+): ParsedToolInput {
+  const raw = parseJsonObject(input)
+    ?? (parseLegacyInput ? parseLegacyInput(input) : parsePositionalInput(input, schema));
+
+  const args: Record<string, any> = {};
+  const errors: string[] = [];
+
+  for (const [name, value] of Object.entries(raw)) {
+    const paramSchema = schema.properties[name];
+    if (!paramSchema) {
+      errors.push(`${name}: unknown parameter (expected one of: ${Object.keys(schema.properties).join(", ") || "none"})`);
+      continue;
+    }
+    if (value === undefined || value === null) continue;
+
+    const coerced = coerceValue(value, paramSchema);
+    if (coerced.error) {
+      errors.push(`${name}: ${coerced.error}`);
+    } else {
+      args[name] = coerced.value;
+    }
+  }
+
+  for (const [name, paramSchema] of Object.entries(schema.properties)) {
+    if (args[name] !== undefined || errors.some(e => e.startsWith(`${name}:`))) continue;
+    if (schema.required?.includes(name)) {
+      errors.push(`${name}: required ${paramSchema.type} is missing`);
+    } else if (paramSchema.default !== undefined) {
+      args[name] = paramSchema.default;
+    }
+  }
+
+  return { args, errors };
+}
+
+/**
+ * Render a compact signature for a schema, e.g. {"selector": string, "limit"?: integer}
+ */
+export function describeInputSchema(schema: Pick<ToolInputSchema, "properties" | "required">): string {
+  const fields = Object.entries(schema.properties).map(([name, param]) => {
+    const optional = schema.required?.includes(name) ? "" : "?";
+    const type = param.enum
+      ? param.enum.map(option => JSON.stringify(option)).join(" | ")
+      : param.type === "array" && param.items?.properties
+        ? `[${describeInputSchema({ properties: param.items.properties, required: param.items.required })}, ...]`
+        : param.type;
+    return `"${name}"${optional}: ${type}`;
+  });
+  return `{${fields.join(", ")}}`;
+}
+
+/**
+ * Format field-level validation errors as a tool result
+ */
+export function formatInputErrors(toolName: string, schema: ToolInputSchema, errors: string[]): string {
+  return `Error: invalid input for ${toolName}:\n` +
+    errors.map(error => `  • ${error}`).join("\n") +
+    `\nExpected input: ${describeInputSchema(schema)}`;
+}
+
+/**
+ * Define a tool whose input is described by a JSON schema. The tool receives
+ * validated, typed arguments; invalid inputs are answered with field-level errors.
+ */
+export function createTool<TArgs extends Record<string, any>>(definition: {
+  name: string;
+  description: string;
+  inputSchema: ToolInputSchema;
+  parseLegacyInput?: (input: string) => Record<string, unknown>;
+  run: (args: TArgs, context?: ToolExecutionContext) => Promise<string>;
+}): BrowserTool {
+  const { name, description, inputSchema, parseLegacyInput, run } = definition;
+
+  return {
+    name,
+    description,
+    inputSchema,
+    func: async (input: string, context?: ToolExecutionContext) => {
+      const { args, errors } = parseToolInput(input ?? "", inputSchema, parseLegacyInput);
+      if (errors.length > 0) {
+        return formatInputErrors(name, inputSchema, errors);
+      }
+      return run(args as TArgs, context);
+    },
+  };
+}
@@ -1,6 +1,6 @@
-import { DynamicTool } from "langchain/tools";
 import type { Page } from "playwright-crx";
 import { getCurrentPage } from "../PageContextManager";
+import { createTool } from "./schema";
 import { ToolFactory } from "./types";
 import { getCurrentTabId } from "./utils";
 
@@ -8,10 +8,11 @@ import { getCurrentTabId } from "./utils";
  * Tool to get information about the currently active tab
  */
 export const browserGetActiveTab: ToolFactory = (page: Page) =>
-  new DynamicTool({
+  createTool({
     name: "browser_get_active_tab",
     description: "Returns information about the currently active tab, including its index, URL, and title.",
-    func: async () => {
+    inputSchema: { type: "object", properties: {} },
+    run: async () => {
       try {
         // Get the current active page from the PageContextManager
         const activePage = getCurrentPage(page);
@@ -62,25 +63,20 @@ export const browserGetActiveTab: ToolFactory = (page: Page) =>
  * Tool to navigate a specific tab to a URL
  */
 export const browserNavigateTab: ToolFactory = (page: Page) =>
-  new DynamicTool({
+  createTool<{ tabIndex: number; url: string }>({
     name: "browser_navigate_tab",
-    description: "Navigate a specific tab to a URL. Input format: 'tabIndex|url' (e.g., '1|https://example.com')",
-    func: async (input: string) => {
+    description: "Navigate a specific tab to a URL.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        tabIndex: { type: "integer", description: "Index of the tab to navigate (see browser_tab_list)" },
+        url: { type: "string", description: "Full URL to open, e.g. https://example.com" },
+      },
+      required: ["tabIndex", "url"],
+    },
+    run: async ({ tabIndex: idx, url: rawUrl }) => {
       try {
-        // Split the input into tab index and URL
-        const parts = input.split('|');
-        if (parts.length !== 2) {
-          return "Error: Input must be in the format 'tabIndex|url'";
-        }
-        
-        const indexStr = parts[0].trim();
-        const url = parts[1].trim();
-        
-        // Parse the tab index
-        const idx = Number(indexStr);
-        if (Number.isNaN(idx)) {
-          return "Error: Tab index must be a number";
-        }
+        const url = rawUrl.trim();
         
         // Get the current active page from the PageContextManager
         const activePage = getCurrentPage(page);
@@ -136,22 +132,27 @@ export const browserNavigateTab: ToolFactory = (page: Page) =>
  * Tool to take a screenshot of a specific tab
  */
 export const browserScreenshotTab: ToolFactory = (page: Page) =>
-  new DynamicTool({
+  createTool<{ tabIndex: number; full: boolean }>({
     name: "browser_screenshot_tab",
-    description: "Take a screenshot of a specific tab by index. Input format: 'tabIndex[,flags]' (e.g., '1,full')",
-    func: async (input: string) => {
+    description: "Take a screenshot of a specific tab by index.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        tabIndex: { type: "integer", description: "Index of the tab to capture (see browser_tab_list)" },
+        full: { type: "boolean", description: "Capture the full scrollable page instead of the viewport", default: false },
+      },
+      required: ["tabIndex"],
+    },
+    // Legacy format: 'tabIndex[,flags]' (e.g., '1,full')
+    parseLegacyInput: (input: string) => {
+      const [tabIndex, ...flags] = input.split(',').map(f => f.trim());
+      return {
+        ...(tabIndex ? { tabIndex } : {}),
+        full: flags.includes("full"),
+      };
+    },
+    run: async ({ tabIndex, full: fullPage }) => {
       try {
-        // Split the input into tab index and flags
-        const parts = input.split(',');
-        const tabIndexStr = parts[0].trim();
-        const flags = parts.slice(1).map(f => f.trim());
-        
-        // Parse the tab index
-        const tabIndex = parseInt(tabIndexStr, 10);
-        if (isNaN(tabIndex)) {
-          return "Error: First parameter must be a tab index number";
-        }
-        
         // Get the current active page from the PageContextManager
         const activePage = getCurrentPage(page);
         
@@ -166,8 +167,6 @@ export const browserScreenshotTab: ToolFactory = (page: Page) =>
         // Get the target page
         const targetPage = pages[tabIndex];
         
-        // Set screenshot options based on flags
-        const fullPage = flags.includes("full");
         const quality = 40; // Default quality
         
         // Import ScreenshotManager
@@ -1,15 +1,16 @@
-import { DynamicTool } from "langchain/tools";
 import type { Page } from "playwright-crx";
 import { createNewTab, getWindowForTab, getCrxAppForTab } from "../../background/tabManager";
 import { setCurrentPage } from "../PageContextManager";
+import { createTool } from "./schema";
 import { ToolFactory } from "./types";
 import { getCurrentTabId } from "./utils";
 
 export const browserTabList: ToolFactory = (page: Page) =>
-  new DynamicTool({
+  createTool({
     name: "browser_tab_list",
     description: "Return a list of open tabs with their indexes and URLs.",
-    func: async () => {
+    inputSchema: { type: "object", properties: {} },
+    run: async () => {
       try {
         const pages = page.context().pages();
         const list = pages
@@ -25,11 +26,17 @@ export const browserTabList: ToolFactory = (page: Page) =>
   });
 
 export const browserTabNew: ToolFactory = (page: Page) =>
-  new DynamicTool({
+  createTool<{ url?: string }>({
     name: "browser_tab_new",
     description:
-      "Open a new tab. Optional input = URL to navigate to (otherwise blank tab). Note: This does NOT automatically switch to the new tab. Use browser_tab_select after creating a new tab if you want to interact with it.",
-    func: async (input: string) => {
+      "Open a new tab, optionally navigating it to a URL (otherwise blank tab). Note: This does NOT automatically switch to the new tab. Use browser_tab_select after creating a new tab if you want to interact with it.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        url: { type: "string", description: "URL to open in the new tab" },
+      },
+    },
+    run: async ({ url }) => {
       try {
         // Get the current tab's ID to find its window
         const currentTabId = await getCurrentTabId(page);
@@ -46,7 +53,7 @@ export const browserTabNew: ToolFactory = (page: Page) =>
         }
         
         // Create a new tab in the same window
-        const newTabId = await createNewTab(windowId, input.trim() || undefined);
+        const newTabId = await createNewTab(windowId, url?.trim() || undefined);
         
         // Get the new tab's index in the context
         const crxApp = await getCrxAppForTab(currentTabId);
@@ -89,15 +96,19 @@ export const browserTabNew: ToolFactory = (page: Page) =>
   });
 
 export const browserTabSelect: ToolFactory = (page: Page) =>
-  new DynamicTool({
+  createTool<{ index: number }>({
     name: "browser_tab_select",
     description:
-      "Switch focus to a tab by index. Input = integer index from browser_tab_list. IMPORTANT: After switching tabs, you must use browser_get_active_tab to confirm the switch was successful and to get information about the new active tab.",
-    func: async (input: string) => {
+      "Switch focus to a tab by index. IMPORTANT: After switching tabs, you must use browser_get_active_tab to confirm the switch was successful and to get information about the new active tab.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        index: { type: "integer", description: "Tab index from browser_tab_list" },
+      },
+      required: ["index"],
+    },
+    run: async ({ index: idx }) => {
       try {
-        const idx = Number(input.trim());
-        if (Number.isNaN(idx))
-          return "Error: input must be a tab index (integer).";
         const pages = page.context().pages();
         if (idx < 0 || idx >= pages.length)
           return `Error: index ${idx} out of range (0‑${pages.length - 1}).`;
@@ -156,16 +167,21 @@ export const browserTabSelect: ToolFactory = (page: Page) =>
   });
 
 export const browserTabClose: ToolFactory = (page: Page) =>
-  new DynamicTool({
+  createTool<{ index?: number }>({
     name: "browser_tab_close",
     description:
-      "Close a tab. Input = index to close (defaults to current tab if blank).",
-    func: async (input: string) => {
+      "Close a tab (defaults to the current tab).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        index: { type: "integer", description: "Tab index from browser_tab_list to close" },
+      },
+    },
+    run: async ({ index }) => {
       try {
         const pages = page.context().pages();
-        const idx =
-          input.trim() === "" ? pages.indexOf(page) : Number(input.trim());
-        if (Number.isNaN(idx) || idx < 0 || idx >= pages.length)
+        const idx = index ?? pages.indexOf(page);
+        if (idx < 0 || idx >= pages.length)
           return "Error: invalid tab index.";
         
         // Get the tab ID before closing
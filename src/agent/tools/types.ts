@@ -1,9 +1,31 @@
-import { DynamicTool } from "langchain/tools";
-import type { Page, BrowserContext, Dialog } from "playwright-crx/test";
+import type { Page } from "playwright-crx/test";
+
+/**
+ * JSON schema for a single named tool parameter
+ */
+export interface ToolParameterSchema {
+  type: "string" | "number" | "integer" | "boolean" | "object" | "array";
+  description?: string;
+  enum?: string[];
+  items?: ToolParameterSchema;
+  properties?: Record<string, ToolParameterSchema>; // fields of an object
+  required?: string[];
+  default?: unknown;
+}
+
+/**
+ * JSON schema describing the named, typed parameters a tool accepts
+ */
+export interface ToolInputSchema {
+  type: "object";
+  properties: Record<string, ToolParameterSchema>;
+  required?: string[];
+}
 
 export interface BrowserTool {
   name: string;
   description: string;
+  inputSchema?: ToolInputSchema;
   func: (input: string, context?: ToolExecutionContext) => Promise<string>;
 }
 
@@ -12,4 +34,4 @@ export interface ToolExecutionContext {
   approvalReason?: string; // Reason why approval was required
 }
 
-export type ToolFactory = (page: Page) => DynamicTool;
+export type ToolFactory = (page: Page) => BrowserTool;
@@ -0,0 +1,43 @@
+import type { Page } from "playwright-crx";
+import { logWithTimestamp } from '../../background/utils';
+import { getCurrentPage } from "../PageContextManager";
+import { requestUserAnswer } from '../approvalManager';
+import { createTool } from './schema';
+import { getCurrentTabId } from './utils';
+
+export function askUser(page: Page) {
+  return createTool<{ question: string; options?: string[] }>({
+    name: "ask_user",
+    description: "Ask the user a clarifying question and wait for their answer. Use this when the task is ambiguous or you need information only the user has (e.g. which of several matching items they mean, or a value to enter). Offer `options` when the answer is one of a few choices. Don't use it to ask for permission to continue.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        question: { type: "string", description: "The question to ask the user" },
+        options: { type: "array", items: { type: "string" }, description: "Optional answers the user can pick from; they can still type a different answer" },
+      },
+      required: ["question"],
+    },
+    // A plain string is the question
+    parseLegacyInput: (input) => ({ question: input }),
+    run: async ({ question, options }) => {
+      try {
+        question = question.trim();
+        if (!question) {
+          return "Error: Please provide a question to ask the user.";
+        }
+
+        const choices = (options ?? []).map(option => option.trim()).filter(Boolean);
+        const tabId = await getCurrentTabId(getCurrentPage(page));
+        const answer = await requestUserAnswer(tabId ?? 0, question, choices.length > 0 ? choices : undefined);
+
+        if (answer === null) {
+          return "The user did not answer the question. Continue with your best judgement, or stop if the task can't be done without the answer.";
+        }
+        return `User answered: ${answer}`;
+      } catch (error) {
+        logWithTimestamp(`Error asking user: ${error instanceof Error ? error.message : String(error)}`, 'error');
+        return `Error asking user: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+  });
+}
@@ -1,8 +1,12 @@
 // Import provider-specific types
 import Anthropic from "@anthropic-ai/sdk";
 import { BrowserAgent, createBrowserAgent, executePromptWithFallback, needsReinitialization } from "../agent/AgentCore";
-import { ExecutionCallbacks } from "../agent/ExecutionEngine";
+import { ExecutionCallbacks, parseStepLimit } from "../agent/ExecutionEngine";
+import { ExecutedToolCall, specFileName, toPlaywrightSpec } from "../agent/PlaywrightExport";
 import { contextTokenCount } from "../agent/TokenManager";
+import { toLLMError } from "../models/providers/errors";
+import { resolveReasoning } from "../models/providers/reasoning";
+import { CheckpointService, TaskCheckpoint } from "../tracking/checkpointService";
 import { ScreenshotManager } from "../tracking/screenshotManager";
 import { TokenTrackingService } from "../tracking/tokenTrackingService";
 import { ConfigManager } from "./configManager";
@@ -29,7 +33,7 @@ import {
   getAgentForTab,
   isConnectionHealthy
 } from "./tabManager";
-import { ProviderType, AgentStatus, AgentStatusInfo } from "./types";
+import { ProviderType, AgentStatus, AgentStatusInfo, TaskOptions } from "./types";
 import { sendUIMessage, logWithTimestamp, handleError } from "./utils";
 
 // Generic message format that works with all providers
@@ -51,6 +55,9 @@ const MAX_CONVERSATION_TOKENS = 100000; // 100K tokens for conversation history
 // Message histories for conversation context (one per window)
 const windowMessageHistories = new Map<number, MessageHistory>();
 
+// Tool calls executed in each window's session, for exporting it as a Playwright test
+const windowToolCalls = new Map<number, ExecutedToolCall[]>();
+
 // Map to track agent status by window ID
 const agentStatusMap = new Map<number, AgentStatusInfo>();
 
@@ -132,6 +139,7 @@ export async function clearMessageHistory(tabId?: number, windowId?: number): Pr
   if (windowId) {
     // Clear message history for a specific window
     windowMessageHistories.set(windowId, { provider, originalRequest: null, conversationHistory: [] });
+    windowToolCalls.delete(windowId);
     // Clear screenshots
     screenshotManager.clear();
     logWithTimestamp(`Message history and screenshots cleared for window ${windowId}`);
@@ -141,6 +149,7 @@ export async function clearMessageHistory(tabId?: number, windowId?: number): Pr
     if (currentWindowId) {
       // Clear message history for the current window
       windowMessageHistories.set(currentWindowId, { provider, originalRequest: null, conversationHistory: [] });
+      windowToolCalls.delete(currentWindowId);
       // Clear screenshots
       screenshotManager.clear();
       logWithTimestamp(`Message history and screenshots cleared for current window ${currentWindowId}`);
@@ -148,6 +157,7 @@ export async function clearMessageHistory(tabId?: number, windowId?: number): Pr
   } else {
     // Clear all message histories if no window ID is specified
     windowMessageHistories.clear();
+    windowToolCalls.clear();
     // Clear screenshots
     screenshotManager.clear();
     logWithTimestamp("All message histories and screenshots cleared");
@@ -286,6 +296,25 @@ function convertMessagesToProviderFormat(messages: GenericMessage[], provider: P
   }
 }
 
+/**
+ * Export the actions of a window's session as a `@playwright/test` spec
+ * @param tabId The tab ID to identify the window
+ * @returns The spec and a file name for it, or null if the session executed no tools
+ */
+export async function exportPlaywrightSpec(tabId: number): Promise<{ spec: string; fileName: string } | null> {
+  const windowId = getWindowForTab(tabId);
+  const calls = windowId ? windowToolCalls.get(windowId) : undefined;
+  if (!calls || calls.length === 0) return null;
+
+  // The test is named after the task the session started with
+  const request = (await getStructuredMessageHistory(tabId)).originalRequest;
+  const title = typeof request?.content === 'string' && request.content.trim()
+    ? request.content.trim().slice(0, 100)
+    : 'BrowserBee session';
+
+  return { spec: toPlaywrightSpec(calls, title), fileName: specFileName(title) };
+}
+
 /**
  * Get the structured message history object for a specific window
  * @param tabId The tab ID to identify the window
@@ -378,7 +407,7 @@ export async function initializeAgent(tabId: number, forceReinit: boolean = fals
   
   // Update token tracking service with current provider and model
   const tokenTracker = TokenTrackingService.getInstance();
-  tokenTracker.updateProviderAndModel(providerConfig.provider, providerConfig.apiModelId || '');
+  tokenTracker.updateProviderAndModel(providerConfig.provider, providerConfig.apiModelId || '', windowId, resolveReasoning(providerConfig));
   
   // Check if we need to initialize or reinitialize the agent
   const existingAgent = getAgentForWindow(windowId);
@@ -454,13 +483,141 @@ export function cancelExecution(tabId?: number): void {
   logWithTimestamp(`Cancelled execution for tab ${tabId} in window ${windowId}`);
 }
 
+/**
+ * Get the agent running in a tab's window
+ * @param tabId The tab ID, or the current tab if not provided
+ * @param action What the agent is needed for, used in log messages
+ */
+function getRunningAgent(tabId: number | undefined, action: string): { agent: BrowserAgent, tabId: number, windowId: number } | null {
+  const targetTabId = tabId || getCurrentTabId();
+  if (!targetTabId) return null;
+
+  const windowId = getWindowForTab(targetTabId);
+  if (!windowId) {
+    logWithTimestamp(`Cannot ${action} for tab ${targetTabId}: no window ID found`);
+    return null;
+  }
+
+  const agent = getAgentForWindow(windowId);
+  if (!agent) {
+    logWithTimestamp(`Cannot ${action} for window ${windowId}: no agent found`);
+    return null;
+  }
+
+  return { agent, tabId: targetTabId, windowId };
+}
+
+/**
+ * Pause the running execution before its next step
+ * @param tabId The tab ID to pause execution for
+ */
+export function pauseExecution(tabId?: number): void {
+  const running = getRunningAgent(tabId, 'pause execution');
+  if (!running) return;
+
+  running.agent.pause();
+  setAgentStatus(running.windowId, AgentStatus.PAUSED);
+
+  sendUIMessage('updateOutput', {
+    type: 'system',
+    content: 'Pausing after the current step...'
+  }, running.tabId);
+
+  logWithTimestamp(`Paused execution for tab ${running.tabId} in window ${running.windowId}`);
+}
+
+/**
+ * Resume a paused execution
+ * @param tabId The tab ID to resume execution for
+ * @param instruction Optional extra instruction to add to the conversation
+ */
+export function resumeExecution(tabId?: number, instruction?: string): void {
+  const running = getRunningAgent(tabId, 'resume execution');
+  if (!running) return;
+
+  running.agent.resume(instruction);
+  setAgentStatus(running.windowId, AgentStatus.RUNNING);
+
+  logWithTimestamp(`Resumed execution for tab ${running.tabId} in window ${running.windowId}`);
+}
+
+/**
+ * Get the task that was running in a window when the service worker stopped
+ * @param windowId The window ID
+ * @returns The task's last checkpoint, or null if there is nothing to resume
+ */
+export async function getInterruptedTask(windowId: number): Promise<TaskCheckpoint | null> {
+  // A checkpoint of a task that is still running in this worker isn't an interrupted task
+  const { status } = getAgentStatus(windowId);
+  if (status === AgentStatus.RUNNING || status === AgentStatus.PAUSED) {
+    return null;
+  }
+
+  try {
+    return await CheckpointService.getInstance().getCheckpoint(windowId);
+  } catch (error) {
+    logWithTimestamp(`Error reading checkpoint for window ${windowId}: ${error instanceof Error ? error.message : String(error)}`, 'warn');
+    return null;
+  }
+}
+
+/**
+ * Resume an interrupted task from its last completed step
+ * @param windowId The window ID
+ */
+export async function resumeInterruptedTask(windowId: number): Promise<void> {
+  const checkpoint = await getInterruptedTask(windowId);
+  if (!checkpoint) {
+    logWithTimestamp(`No interrupted task to resume for window ${windowId}`, 'warn');
+    return;
+  }
+
+  logWithTimestamp(`Resuming interrupted task for window ${windowId} from step ${checkpoint.step}`);
+  await executePrompt(checkpoint.prompt, checkpoint.tabId, false, checkpoint);
+}
+
+/**
+ * Discard an interrupted task
+ * @param windowId The window ID
+ */
+export async function discardInterruptedTask(windowId: number): Promise<void> {
+  await CheckpointService.getInstance().deleteCheckpoint(windowId);
+  logWithTimestamp(`Discarded interrupted task for window ${windowId}`);
+}
+
+/**
+ * Delete a window's checkpoint once its task has ended
+ */
+function clearCheckpoint(windowId: number | undefined): void {
+  if (!windowId) return;
+  CheckpointService.getInstance().deleteCheckpoint(windowId).catch(error => {
+    logWithTimestamp(`Error deleting checkpoint for window ${windowId}: ${error instanceof Error ? error.message : String(error)}`, 'warn');
+  });
+}
+
 /**
  * Execute a prompt using the LLM agent
- * @param prompt The prompt to execute
+ * @param rawPrompt The prompt to execute, optionally starting with a "/steps N" directive
  * @param tabId Optional tab ID to execute the prompt for
  * @param isReflectionPrompt Optional flag to indicate if this is a reflection prompt
+ * @param resumeFrom Optional checkpoint of an interrupted task to continue instead of starting afresh
+ * @param taskOptions Optional settings for how the task is run
  */
-export async function executePrompt(prompt: string, tabId?: number, isReflectionPrompt: boolean = false): Promise<void> {
+export async function executePrompt(
+  rawPrompt: string,
+  tabId?: number,
+  isReflectionPrompt: boolean = false,
+  resumeFrom?: TaskCheckpoint,
+  taskOptions: TaskOptions = {}
+): Promise<void> {
+  // A leading "/steps N" sets the step limit for this prompt only
+  const parsed = parseStepLimit(rawPrompt);
+  const prompt = parsed.prompt;
+  const maxSteps = resumeFrom?.maxSteps ?? parsed.maxSteps;
+  // An interrupted task keeps the settings it was started with
+  const { outputSchema, dryRun } = resumeFrom ?? taskOptions;
+  const { followActions, replay } = taskOptions;
+
   try {
     // Get provider configuration from ConfigManager
     const configManager = ConfigManager.getInstance();
@@ -617,7 +774,11 @@ export async function executePrompt(prompt: string, tabId?: number, isReflection
     // Execute the prompt
     sendUIMessage('updateOutput', {
       type: 'system',
-      content: `Executing prompt: "${prompt}"`
+      content: resumeFrom
+        ? `Resuming interrupted task: "${prompt}" from step ${resumeFrom.step}`
+        : maxSteps
+          ? `Executing prompt: "${prompt}" (step limit: ${maxSteps})`
+          : `Executing prompt: "${prompt}"`
     }, targetTabId);
     
     // Set agent status to RUNNING if we have a window ID
@@ -734,6 +895,13 @@ export async function executePrompt(prompt: string, tabId?: number, isReflection
           logWithTimestamp(`Error updating conversation history: ${error instanceof Error ? error.message : String(error)}`, 'error');
         }
       },
+      onReasoning: (reasoning) => {
+        // Show the model's thinking for this step as a collapsible section
+        sendUIMessage('updateReasoning', {
+          type: 'reasoning',
+          content: reasoning
+        }, targetTabId);
+      },
       onToolOutput: (content) => {
         // Normal handling for tool outputs
         sendUIMessage('updateOutput', {
@@ -776,14 +944,17 @@ export async function executePrompt(prompt: string, tabId?: number, isReflection
         }
       },
       onError: (error) => {
-        // For retryable errors (rate limit or overloaded), show a message but don't complete processing
-        if (error?.error?.type === 'rate_limit_error' || error?.error?.type === 'overloaded_error') {
-          const errorType = error?.error?.type === 'overloaded_error' ? 'Anthropic servers overloaded' : 'Rate limit exceeded';
+        // For retryable errors (rate limit, overloaded or unreachable), show a message but don't complete processing
+        const { category, message } = toLLMError(error);
+        if (category === 'rate_limited' || category === 'overloaded' || category === 'network') {
+          const errorType = category === 'overloaded'
+            ? 'Provider overloaded'
+            : category === 'network' ? "Provider can't be reached" : 'Rate limit exceeded';
           logWithTimestamp(`${errorType} error detected: ${JSON.stringify(error)}`, 'warn');
           
           sendUIMessage('updateOutput', {
             type: 'system',
-            content: `⚠️ ${errorType}. Retrying... (${error.error.message})`
+            content: `⚠️ ${errorType}. Retrying... (${message})`
           }, targetTabId);
           
           // Explicitly tell the UI to stay in processing mode
@@ -804,6 +975,44 @@ export async function executePrompt(prompt: string, tabId?: number, isReflection
           isRetrying: true
         }, targetTabId);
       },
+      onCheckpoint: (checkpoint) => {
+        // Persist every step so the task survives the service worker being suspended
+        const windowId = getWindowForTab(targetTabId);
+        if (!windowId || isReflectionPrompt) return;
+
+        CheckpointService.getInstance().saveCheckpoint({
+          windowId,
+          tabId: targetTabId,
+          prompt,
+          maxSteps,
+          outputSchema,
+          dryRun,
+          ...checkpoint,
+          updatedAt: Date.now()
+        }).catch(error => {
+          logWithTimestamp(`Error saving checkpoint: ${error instanceof Error ? error.message : String(error)}`, 'warn');
+        });
+      },
+      onPlanUpdate: (plan) => {
+        // Show the plan as a checklist in the side panel
+        sendUIMessage('updatePlan', plan, targetTabId);
+      },
+      onDryRunComplete: (actions) => {
+        // Show the recorded actions for review, so they can be run for real
+        sendUIMessage('dryRunComplete', { prompt, actions }, targetTabId);
+      },
+      onModelSwitch: (model) => {
+        // Show which model the task carries on with after the previous one kept failing
+        logWithTimestamp(`Switched to fallback model ${model.id}`);
+        sendUIMessage('modelSwitched', model, targetTabId);
+      },
+      onStructuredOutput: (value) => {
+        // Show the validated result with copy and download actions
+        sendUIMessage('updateStructuredOutput', {
+          type: 'structured',
+          content: JSON.stringify(value, null, 2)
+        }, targetTabId);
+      },
       onSegmentComplete: (segment) => {
         if (useStreaming) {
           // Get the window ID for this tab
@@ -816,6 +1025,15 @@ export async function executePrompt(prompt: string, tabId?: number, isReflection
           incrementSegmentId();
         }
       },
+      onToolExecuted: (toolName, toolInput, result) => {
+        // Keep the session's actions so they can be exported as a Playwright test
+        const windowId = getWindowForTab(targetTabId);
+        if (windowId) {
+          const calls = windowToolCalls.get(windowId) || [];
+          calls.push({ toolName, toolInput, result });
+          windowToolCalls.set(windowId, calls);
+        }
+      },
       onToolStart: (toolName, toolInput) => {
         if (useStreaming) {
           // Get the window ID for this tab
@@ -853,6 +1071,9 @@ export async function executePrompt(prompt: string, tabId?: number, isReflection
         if (windowId) {
           setAgentStatus(windowId, AgentStatus.IDLE);
         }
+
+        // The task has ended, so there is nothing left to resume
+        clearCheckpoint(windowId);
         
         sendUIMessage('processingComplete', null, targetTabId, windowId);
       }
@@ -886,9 +1107,21 @@ export async function executePrompt(prompt: string, tabId?: number, isReflection
       agent, 
       prompt, 
       callbacks, 
-      messageHistory
+      messageHistory,
+      // Reflection prompts only save memories, so there is no result to verify; they run on the reflection model
+      {
+        maxSteps,
+        resumeFrom,
+        verify: isReflectionPrompt ? false : undefined,
+        outputSchema,
+        dryRun,
+        followActions,
+        reflection: isReflectionPrompt,
+        replay
+      }
     );
   } catch (error) {
+    clearCheckpoint(tabId ? getWindowForTab(tabId) : undefined);
     const errorMessage = handleError(error, 'executing prompt');
     sendUIMessage('updateOutput', {
       type: 'system',
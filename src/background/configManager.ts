@@ -3,6 +3,7 @@ import { GeminiProvider } from '../models/providers/gemini';
 import { OllamaProvider, OllamaProviderOptions } from '../models/providers/ollama';
 import { OpenAIProvider } from '../models/providers/openai';
 import { OpenAICompatibleProvider } from '../models/providers/openai-compatible';
+import type { ReasoningSetting } from '../models/providers/types';
 
 export interface ProviderConfig {
   provider: 'anthropic' | 'openai' | 'gemini' | 'ollama' | 'openai-compatible';
@@ -10,10 +11,49 @@ export interface ProviderConfig {
   apiModelId?: string;
   baseUrl?: string;
   thinkingBudgetTokens?: number;
+  reasoning?: ReasoningSetting; // how much the model reasons; the model's default if unset
+  contextReserveTokens?: number; // tokens held back from the context window for the system prompt and tools
+  maxSteps?: number; // steps per prompt before the user is asked to grant more
+  verifyTasks?: boolean; // check the result against the request once the agent says it's done
   // openai-compatible only
   openaiCompatibleModels?: Array<{ id: string; name: string; isReasoningModel?: boolean }>;
 }
 
+/**
+ * A provider and model picked in the options, e.g. a fallback model or the model for a role
+ */
+export interface ModelChoice {
+  provider: ProviderConfig['provider'];
+  modelId: string;
+}
+
+/**
+ * What a model is used for during a task:
+ * - planner: the first step and the step after something went wrong
+ * - executor: routine tool steps
+ * - reflection: reflecting on a session to save memories
+ */
+export type ModelRole = 'planner' | 'executor' | 'reflection';
+
+/**
+ * The model chosen for each role; roles left out use the selected model
+ */
+export type ModelRoles = Partial<Record<ModelRole, ModelChoice>>;
+
+/**
+ * The reasoning setting of each provider; providers left out use their models' defaults
+ */
+export type ReasoningSettings = Partial<Record<ProviderConfig['provider'], ReasoningSetting>>;
+
+// Prefix of each provider's settings in storage, e.g. openaiCompatibleApiKey
+const STORAGE_PREFIXES: Record<ProviderConfig['provider'], string> = {
+  anthropic: 'anthropic',
+  openai: 'openai',
+  gemini: 'gemini',
+  ollama: 'ollama',
+  'openai-compatible': 'openaiCompatible',
+};
+
 export class ConfigManager {
   private static instance: ConfigManager;
   
@@ -42,6 +82,10 @@ export class ConfigManager {
       ollamaModelId: '',
       ollamaBaseUrl: '',
       thinkingBudgetTokens: 0,
+      reasoningSettings: {},
+      contextReserveTokens: 8000,
+      maxSteps: 50,
+      verifyTasks: false,
       // openai-compatible
       openaiCompatibleApiKey: '',
       openaiCompatibleModelId: '',
@@ -57,7 +101,11 @@ export class ConfigManager {
           apiKey: result.anthropicApiKey,
           apiModelId: result.anthropicModelId,
           baseUrl: result.anthropicBaseUrl,
+          reasoning: result.reasoningSettings?.anthropic,
           thinkingBudgetTokens: result.thinkingBudgetTokens,
+          contextReserveTokens: result.contextReserveTokens,
+          maxSteps: result.maxSteps,
+          verifyTasks: result.verifyTasks,
         };
       case 'openai':
         return {
@@ -65,6 +113,10 @@ export class ConfigManager {
           apiKey: result.openaiApiKey,
           apiModelId: result.openaiModelId,
           baseUrl: result.openaiBaseUrl,
+          reasoning: result.reasoningSettings?.openai,
+          contextReserveTokens: result.contextReserveTokens,
+          maxSteps: result.maxSteps,
+          verifyTasks: result.verifyTasks,
         };
       case 'gemini':
         return {
@@ -72,6 +124,10 @@ export class ConfigManager {
           apiKey: result.geminiApiKey,
           apiModelId: result.geminiModelId,
           baseUrl: result.geminiBaseUrl,
+          reasoning: result.reasoningSettings?.gemini,
+          contextReserveTokens: result.contextReserveTokens,
+          maxSteps: result.maxSteps,
+          verifyTasks: result.verifyTasks,
         };
       case 'ollama':
         return {
@@ -79,6 +135,10 @@ export class ConfigManager {
           apiKey: result.ollamaApiKey,
           apiModelId: result.ollamaModelId,
           baseUrl: result.ollamaBaseUrl,
+          reasoning: result.reasoningSettings?.ollama,
+          contextReserveTokens: result.contextReserveTokens,
+          maxSteps: result.maxSteps,
+          verifyTasks: result.verifyTasks,
         };
       case 'openai-compatible':
         return {
@@ -86,13 +146,103 @@ export class ConfigManager {
           apiKey: result.openaiCompatibleApiKey,
           apiModelId: result.openaiCompatibleModelId,
           baseUrl: result.openaiCompatibleBaseUrl,
+          reasoning: result.reasoningSettings?.['openai-compatible'],
           openaiCompatibleModels: result.openaiCompatibleModels || [],
+          contextReserveTokens: result.contextReserveTokens,
+          maxSteps: result.maxSteps,
+          verifyTasks: result.verifyTasks,
         };
       default:
         throw new Error(`Provider ${result.provider} not supported`);
     }
   }
   
+  /**
+   * Get the configurations of the fallback models, in the order they should be tried.
+   * Entries for providers without an API key, and the primary model itself, are left out.
+   */
+  async getFallbackConfigs(): Promise<ProviderConfig[]> {
+    const result = await this.getModelChoiceSettings({ fallbackModels: [] });
+
+    const configs: ProviderConfig[] = [];
+    for (const choice of result.fallbackModels as ModelChoice[]) {
+      const config = this.toProviderConfig(result, choice);
+      if (config) {
+        configs.push(config);
+      }
+    }
+    return configs;
+  }
+
+  /**
+   * Get the configurations of the models chosen for each role. Roles without a model,
+   * with a provider that has no API key, or set to the primary model itself are left out.
+   */
+  async getRoleConfigs(): Promise<Partial<Record<ModelRole, ProviderConfig>>> {
+    const result = await this.getModelChoiceSettings({ modelRoles: {} });
+
+    const configs: Partial<Record<ModelRole, ProviderConfig>> = {};
+    for (const [role, choice] of Object.entries(result.modelRoles as ModelRoles)) {
+      const config = choice && this.toProviderConfig(result, choice);
+      if (config) {
+        configs[role as ModelRole] = config;
+      }
+    }
+    return configs;
+  }
+
+  /**
+   * Read the settings needed to set up models picked in the options, along with the given keys
+   */
+  private async getModelChoiceSettings(keys: Record<string, any>): Promise<Record<string, any>> {
+    return chrome.storage.sync.get({
+      ...keys,
+      provider: 'anthropic',
+      anthropicApiKey: '',
+      anthropicModelId: 'claude-3-7-sonnet-20250219',
+      anthropicBaseUrl: '',
+      openaiApiKey: '',
+      openaiModelId: 'gpt-4o',
+      openaiBaseUrl: '',
+      geminiApiKey: '',
+      geminiModelId: 'gemini-1.5-pro',
+      geminiBaseUrl: '',
+      ollamaApiKey: '',
+      ollamaModelId: '',
+      ollamaBaseUrl: '',
+      thinkingBudgetTokens: 0,
+      reasoningSettings: {},
+      openaiCompatibleApiKey: '',
+      openaiCompatibleModelId: '',
+      openaiCompatibleBaseUrl: '',
+      openaiCompatibleModels: [],
+    });
+  }
+
+  /**
+   * Build the configuration of a model picked in the options from the settings of its provider
+   * @returns The configuration, or null if the provider has no API key or the model is the primary one
+   */
+  private toProviderConfig(result: Record<string, any>, { provider, modelId }: ModelChoice): ProviderConfig | null {
+    const prefix = STORAGE_PREFIXES[provider];
+    if (!prefix || !modelId) return null;
+
+    // Ollama runs locally and doesn't need a key
+    const apiKey: string = result[`${prefix}ApiKey`];
+    if (!apiKey && provider !== 'ollama') return null;
+    if (provider === result.provider && modelId === result[`${prefix}ModelId`]) return null;
+
+    return {
+      provider,
+      apiKey,
+      apiModelId: modelId,
+      baseUrl: result[`${prefix}BaseUrl`],
+      reasoning: result.reasoningSettings?.[provider],
+      ...(provider === 'anthropic' ? { thinkingBudgetTokens: result.thinkingBudgetTokens } : {}),
+      ...(provider === 'openai-compatible' ? { openaiCompatibleModels: result.openaiCompatibleModels || [] } : {}),
+    };
+  }
+
   async saveProviderConfig(config: Partial<ProviderConfig>): Promise<void> {
     // Save provider-specific configuration
     await chrome.storage.sync.set(config);
@@ -1,9 +1,14 @@
+import { isMacroReplay } from '../agent/MacroReplay';
+import { isJsonSchema } from '../agent/StructuredOutput';
 import { handleApprovalResponse } from '../agent/approvalManager';
 import { TokenTrackingService } from '../tracking/tokenTrackingService';
 import { executePrompt } from './agentController';
-import { cancelExecution } from './agentController';
+import { cancelExecution, pauseExecution, resumeExecution } from './agentController';
+import { getInterruptedTask, resumeInterruptedTask, discardInterruptedTask } from './agentController';
 import { clearMessageHistory } from './agentController';
 import { initializeAgent } from './agentController';
+import { exportPlaywrightSpec } from './agentController';
+import { startRecording, stopRecording } from './recordingController';
 import { triggerReflection } from './reflectionController';
 import { attachToTab, getTabState, getWindowForTab, forceResetPlaywright } from './tabManager';
 import { BackgroundMessage } from './types';
@@ -39,6 +44,28 @@ export function handleMessage(
         handleCancelExecution(message, sendResponse);
         return true;
 
+      case 'pauseExecution':
+        pauseExecution(message.tabId);
+        sendResponse({ success: true });
+        return true;
+
+      case 'resumeExecution':
+        resumeExecution(message.tabId, message.instruction);
+        sendResponse({ success: true });
+        return true;
+
+      case 'getInterruptedTask':
+      case 'resumeInterruptedTask':
+      case 'discardInterruptedTask':
+        // Handle async function and keep message channel open
+        handleInterruptedTask(message, sendResponse)
+          .catch(error => {
+            const errorMessage = handleError(error, 'handling interrupted task');
+            logWithTimestamp(`Error in async handleInterruptedTask: ${errorMessage}`, 'error');
+            sendResponse({ success: false, error: errorMessage });
+          });
+        return true; // Keep the message channel open for async response
+
       case 'clearHistory':
         // Handle async function and keep message channel open
         handleClearHistory(message, sendResponse)
@@ -64,7 +91,7 @@ export function handleMessage(
         return true;
         
       case 'approvalResponse':
-        handleApprovalResponse(message.requestId, message.approved);
+        handleApprovalResponse(message.requestId, message.approved, message.answer);
         sendResponse({ success: true });
         return true;
         
@@ -72,6 +99,27 @@ export function handleMessage(
         handleReflectAndLearn(message, sendResponse);
         return true;
         
+      case 'startRecording':
+      case 'stopRecording':
+        // Handle async function and keep message channel open
+        handleRecording(message, sendResponse)
+          .catch(error => {
+            const errorMessage = handleError(error, 'recording a demonstration');
+            logWithTimestamp(`Error in async handleRecording: ${errorMessage}`, 'error');
+            sendResponse({ success: false, error: errorMessage });
+          });
+        return true; // Keep the message channel open for async response
+
+      case 'exportPlaywright':
+        // Handle async function and keep message channel open
+        handleExportPlaywright(message, sendResponse)
+          .catch(error => {
+            const errorMessage = handleError(error, 'exporting the session');
+            logWithTimestamp(`Error in async handleExportPlaywright: ${errorMessage}`, 'error');
+            sendResponse({ success: false, error: errorMessage });
+          });
+        return true; // Keep the message channel open for async response
+
       case 'tokenUsageUpdated':
         // Just pass through token usage updates
         // This allows the TokenTrackingService to broadcast updates
@@ -144,12 +192,20 @@ function isBackgroundMessage(message: any): message is BackgroundMessage {
     (
       message.action === 'executePrompt' ||
       message.action === 'cancelExecution' ||
+      message.action === 'pauseExecution' ||
+      message.action === 'resumeExecution' ||
+      message.action === 'getInterruptedTask' ||
+      message.action === 'resumeInterruptedTask' ||
+      message.action === 'discardInterruptedTask' ||
       message.action === 'clearHistory' ||
       message.action === 'initializeTab' ||
       message.action === 'switchToTab' ||
       message.action === 'getTokenUsage' ||
       message.action === 'approvalResponse' ||
       message.action === 'reflectAndLearn' ||
+      message.action === 'startRecording' ||
+      message.action === 'stopRecording' ||
+      message.action === 'exportPlaywright' ||
       message.action === 'tokenUsageUpdated' ||  // Add support for token usage updates
       message.action === 'updateOutput' ||  // Add support for output updates
       message.action === 'providerConfigChanged' ||  // Add support for provider config changes
@@ -177,11 +233,23 @@ function handleExecutePrompt(
   message: Extract<BackgroundMessage, { action: 'executePrompt' }>,
   sendResponse: (response?: any) => void
 ): void {
+  if (message.outputSchema !== undefined && !isJsonSchema(message.outputSchema)) {
+    sendResponse({ success: false, error: 'outputSchema must be a JSON Schema object' });
+    return;
+  }
+
+  if (message.replay !== undefined && !isMacroReplay(message.replay)) {
+    sendResponse({ success: false, error: 'replay must have a taskDescription and a toolSequence of strings' });
+    return;
+  }
+
+  const { outputSchema, dryRun, followActions, replay } = message;
+
   // Use the tabId from the message if available
   if (message.tabId) {
-    executePrompt(message.prompt, message.tabId);
+    executePrompt(message.prompt, message.tabId, false, undefined, { outputSchema, dryRun, followActions, replay });
   } else {
-    executePrompt(message.prompt);
+    executePrompt(message.prompt, undefined, false, undefined, { outputSchema, dryRun, followActions, replay });
   }
   sendResponse({ success: true });
 }
@@ -199,6 +267,43 @@ function handleCancelExecution(
   sendResponse({ success: true });
 }
 
+/**
+ * Handle the messages for a task interrupted by a service worker restart
+ * @param message The message to handle
+ * @param sendResponse The function to send a response
+ */
+async function handleInterruptedTask(
+  message: Extract<BackgroundMessage, { action: 'getInterruptedTask' | 'resumeInterruptedTask' | 'discardInterruptedTask' }>,
+  sendResponse: (response?: any) => void
+): Promise<void> {
+  const windowId = message.windowId || (message.tabId ? getWindowForTab(message.tabId) : null);
+  if (!windowId) {
+    sendResponse({ success: false, error: 'No window ID found' });
+    return;
+  }
+
+  if (message.action === 'getInterruptedTask') {
+    const checkpoint = await getInterruptedTask(windowId);
+    // The UI only needs a summary, not the message history
+    sendResponse({
+      success: true,
+      task: checkpoint && {
+        prompt: checkpoint.prompt,
+        step: checkpoint.step,
+        pendingApproval: checkpoint.pendingApproval,
+        updatedAt: checkpoint.updatedAt
+      }
+    });
+  } else if (message.action === 'resumeInterruptedTask') {
+    // Respond right away; the task reports its progress through the usual UI messages
+    sendResponse({ success: true });
+    await resumeInterruptedTask(windowId);
+  } else {
+    await discardInterruptedTask(windowId);
+    sendResponse({ success: true });
+  }
+}
+
 /**
  * Handle the clearHistory message
  * @param message The message to handle
@@ -369,6 +474,39 @@ function handleReflectAndLearn(
   }
 }
 
+/**
+ * Handle the messages for recording a demonstration of a task
+ * @param message The message to handle
+ * @param sendResponse The function to send a response
+ */
+async function handleRecording(
+  message: Extract<BackgroundMessage, { action: 'startRecording' | 'stopRecording' }>,
+  sendResponse: (response?: any) => void
+): Promise<void> {
+  if (message.action === 'startRecording') {
+    await startRecording(message.tabId);
+    sendResponse({ success: true });
+  } else {
+    const recording = stopRecording(message.tabId);
+    sendResponse(recording ? { success: true, recording } : { success: false, error: 'The tab is not being recorded' });
+  }
+}
+
+/**
+ * Handle the exportPlaywright message
+ * @param message The message to handle
+ * @param sendResponse The function to send a response
+ */
+async function handleExportPlaywright(
+  message: Extract<BackgroundMessage, { action: 'exportPlaywright' }>,
+  sendResponse: (response?: any) => void
+): Promise<void> {
+  const exported = await exportPlaywrightSpec(message.tabId);
+  sendResponse(exported
+    ? { success: true, ...exported }
+    : { success: false, error: 'This session has no browser actions to export yet' });
+}
+
 /**
  * Handle the forceResetPlaywright message
  * @param message The message to handle
@@ -0,0 +1,92 @@
+import {
+  RECORDER_BINDING,
+  RecordedDemonstration,
+  RecordedEvent,
+  createRecorderScript,
+  findUnreplayableSteps,
+  parseReportedEvent,
+  toToolSequence
+} from '../agent/Demonstration';
+import { normalizeDomain } from '../tracking/domainUtils';
+import { getTabState } from './tabManager';
+import { logWithTimestamp } from './utils';
+
+// A demonstration being recorded in a tab
+interface Recording {
+  startUrl: string;
+  events: RecordedEvent[];
+}
+
+// Recordings in progress, by tab ID
+const recordings = new Map<number, Recording>();
+
+// Pages the recorder has been installed in; bindings and init scripts can't be removed,
+// so they stay and only pass events on while a recording is running
+const instrumentedPages = new WeakSet<object>();
+
+/**
+ * Check whether the user's actions in a tab are being recorded
+ */
+export function isRecording(tabId: number): boolean {
+  return recordings.has(tabId);
+}
+
+/**
+ * Start recording the user's clicks, typing, key presses and navigations in a tab
+ * @param tabId The ID of the tab to record, which must be attached
+ */
+export async function startRecording(tabId: number): Promise<void> {
+  const page = getTabState(tabId)?.page;
+  if (!page) {
+    throw new Error('The tab is not attached');
+  }
+  if (recordings.has(tabId)) return;
+
+  if (!instrumentedPages.has(page)) {
+    await page.exposeBinding(RECORDER_BINDING, (source: { frame: unknown }, reported: unknown) => {
+      // Frames of other sites, such as ads, can call the binding too; only the page itself is recorded
+      const recording = recordings.get(tabId);
+      if (!recording || source.frame !== page.mainFrame()) return;
+      const event = parseReportedEvent(reported, Date.now());
+      if (event) {
+        recording.events.push(event);
+      }
+    });
+    page.on('framenavigated', (frame: any) => {
+      if (frame === page.mainFrame()) {
+        recordings.get(tabId)?.events.push({ type: 'navigate', url: frame.url(), time: Date.now() });
+      }
+    });
+    // Pages loaded later get the recorder from the init script; the current one gets it now
+    await page.addInitScript(createRecorderScript());
+    instrumentedPages.add(page);
+  }
+  await page.evaluate(createRecorderScript());
+
+  recordings.set(tabId, { startUrl: page.url(), events: [] });
+  logWithTimestamp(`Started recording a demonstration in tab ${tabId}`);
+}
+
+/**
+ * Stop recording in a tab and turn what was recorded into memory steps
+ * @param tabId The ID of the tab being recorded
+ * @returns The recorded steps, or null if the tab wasn't being recorded
+ */
+export function stopRecording(tabId: number): RecordedDemonstration | null {
+  const recording = recordings.get(tabId);
+  if (!recording) return null;
+  recordings.delete(tabId);
+
+  // Pages like about:blank aren't worth opening again, so the memory is for the first site visited
+  const isWebPage = /^https?:/.test(recording.startUrl);
+  const firstUrl = [recording.startUrl, ...recording.events.map(event => event.type === 'navigate' ? event.url : '')]
+    .find(url => /^https?:/.test(url));
+  const domain = firstUrl ? normalizeDomain(new URL(firstUrl).hostname) : '';
+
+  logWithTimestamp(`Stopped recording in tab ${tabId} after ${recording.events.length} events`);
+  return {
+    domain,
+    toolSequence: toToolSequence(recording.events, isWebPage ? recording.startUrl : undefined),
+    unreplayable: findUnreplayableSteps(recording.events)
+  };
+}
@@ -320,11 +320,11 @@ async function correctReflectionJSON(malformedJson: string, error: Error, domain
       throw new Error(`No agent found for window ${windowId}`);
     }
     
-    // Execute the correction prompt
+    // Execute the correction prompt on the reflection model
     // We're using a direct call to the agent's executePrompt method
     // This is a special case for correction, not a regular user prompt
     const { executePromptWithFallback } = await import('../agent/AgentCore');
-    await executePromptWithFallback(agent, correctionPrompt, correctionCallbacks, []);
+    await executePromptWithFallback(agent, correctionPrompt, correctionCallbacks, [], { reflection: true });
     
   } catch (correctionError) {
     logWithTimestamp(`Error during JSON correction: ${correctionError instanceof Error ? correctionError.message : String(correctionError)}`, 'error');
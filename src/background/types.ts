@@ -1,5 +1,9 @@
 import Anthropic from "@anthropic-ai/sdk";
 import { BrowserAgent } from "../agent/AgentCore";
+import { PlannedAction } from "../agent/DryRun";
+import { MacroReplay } from "../agent/MacroReplay";
+import { PlanStep } from "../agent/PlanManager";
+import { JsonSchema } from "../agent/StructuredOutput";
 
 // Provider types
 export type ProviderType = 'anthropic' | 'openai' | 'gemini' | 'ollama' | 'openai-compatible';
@@ -8,6 +12,7 @@ export type ProviderType = 'anthropic' | 'openai' | 'gemini' | 'ollama' | 'opena
 export enum AgentStatus {
   IDLE = 'idle',
   RUNNING = 'running',
+  PAUSED = 'paused',
   ERROR = 'error'
 }
 
@@ -18,8 +23,16 @@ export interface AgentStatusInfo {
   lastHeartbeat: number;
 }
 
+// Settings for how a task is run
+export interface TaskOptions {
+  outputSchema?: JsonSchema;         // the task must end with a JSON result matching this schema
+  dryRun?: boolean;                  // record actions that would change the page instead of taking them
+  followActions?: PlannedAction[];   // actions reviewed after a dry run, to carry out for real
+  replay?: MacroReplay;              // a memory's steps to run without the LLM, which takes over if one fails
+}
+
 // Message types
-export interface ExecutePromptMessage {
+export interface ExecutePromptMessage extends TaskOptions {
   action: 'executePrompt';
   prompt: string;
   tabId?: number;
@@ -32,6 +45,37 @@ export interface CancelExecutionMessage {
   windowId?: number;
 }
 
+export interface PauseExecutionMessage {
+  action: 'pauseExecution';
+  tabId?: number;
+  windowId?: number;
+}
+
+export interface ResumeExecutionMessage {
+  action: 'resumeExecution';
+  instruction?: string;
+  tabId?: number;
+  windowId?: number;
+}
+
+export interface GetInterruptedTaskMessage {
+  action: 'getInterruptedTask';
+  tabId?: number;
+  windowId?: number;
+}
+
+export interface ResumeInterruptedTaskMessage {
+  action: 'resumeInterruptedTask';
+  tabId?: number;
+  windowId?: number;
+}
+
+export interface DiscardInterruptedTaskMessage {
+  action: 'discardInterruptedTask';
+  tabId?: number;
+  windowId?: number;
+}
+
 export interface ClearHistoryMessage {
   action: 'clearHistory';
   tabId?: number;
@@ -60,6 +104,7 @@ export interface ApprovalResponseMessage {
   action: 'approvalResponse';
   requestId: string;
   approved: boolean;
+  answer?: string;  // The user's answer, for questions
   tabId?: number;
   windowId?: number;
 }
@@ -70,6 +115,24 @@ export interface ReflectAndLearnMessage {
   windowId?: number;
 }
 
+export interface StartRecordingMessage {
+  action: 'startRecording';
+  tabId: number;
+  windowId?: number;
+}
+
+export interface StopRecordingMessage {
+  action: 'stopRecording';
+  tabId: number;
+  windowId?: number;
+}
+
+export interface ExportPlaywrightMessage {
+  action: 'exportPlaywright';
+  tabId: number;
+  windowId?: number;
+}
+
 // UI Message types
 export interface UpdateOutputMessage {
   action: 'updateOutput';
@@ -144,6 +207,16 @@ export interface FallbackStartedMessage {
   windowId?: number;
 }
 
+export interface ModelSwitchedMessage {
+  action: 'modelSwitched';
+  content: {
+    id: string;
+    name: string;
+  };
+  tabId?: number;
+  windowId?: number;
+}
+
 export interface UpdateScreenshotMessage {
   action: 'updateScreenshot';
   content: {
@@ -156,6 +229,43 @@ export interface UpdateScreenshotMessage {
   windowId?: number;
 }
 
+export interface UpdatePlanMessage {
+  action: 'updatePlan';
+  content: PlanStep[];
+  tabId?: number;
+  windowId?: number;
+}
+
+export interface DryRunCompleteMessage {
+  action: 'dryRunComplete';
+  content: {
+    prompt: string;
+    actions: PlannedAction[];
+  };
+  tabId?: number;
+  windowId?: number;
+}
+
+export interface UpdateStructuredOutputMessage {
+  action: 'updateStructuredOutput';
+  content: {
+    type: 'structured';
+    content: string;  // the validated result, as formatted JSON
+  };
+  tabId?: number;
+  windowId?: number;
+}
+
+export interface UpdateReasoningMessage {
+  action: 'updateReasoning';
+  content: {
+    type: 'reasoning';
+    content: string;  // the model's thinking for one step
+  };
+  tabId?: number;
+  windowId?: number;
+}
+
 export interface TokenUsageUpdatedMessage {
   action: 'tokenUsageUpdated';
   content: {
@@ -179,10 +289,12 @@ export interface ForceResetPlaywrightMessage {
 
 export interface RequestApprovalMessage {
   action: 'requestApproval';
+  kind?: 'tool' | 'steps' | 'question';
   requestId: string;
   toolName: string;
   toolInput: string;
   reason: string;
+  options?: string[];  // Answers offered for a question
   tabId?: number;
   windowId?: number;
 }
@@ -205,12 +317,20 @@ export interface AgentStatusUpdateMessage {
 export type BackgroundMessage = 
   | ExecutePromptMessage
   | CancelExecutionMessage
+  | PauseExecutionMessage
+  | ResumeExecutionMessage
+  | GetInterruptedTaskMessage
+  | ResumeInterruptedTaskMessage
+  | DiscardInterruptedTaskMessage
   | ClearHistoryMessage
   | InitializeTabMessage
   | SwitchToTabMessage
   | GetTokenUsageMessage
   | ApprovalResponseMessage
   | ReflectAndLearnMessage
+  | StartRecordingMessage
+  | StopRecordingMessage
+  | ExportPlaywrightMessage
   | TokenUsageUpdatedMessage
   | UpdateOutputMessage
   | ProviderConfigChangedMessage
@@ -293,7 +413,12 @@ export type UIMessage =
   | ProcessingCompleteMessage
   | RateLimitMessage
   | FallbackStartedMessage
+  | ModelSwitchedMessage
   | UpdateScreenshotMessage
+  | UpdatePlanMessage
+  | UpdateStructuredOutputMessage
+  | UpdateReasoningMessage
+  | DryRunCompleteMessage
   | TokenUsageUpdatedMessage
   | ProviderConfigChangedMessage
   | RequestApprovalMessage
@@ -1,7 +1,15 @@
 import Anthropic from "@anthropic-ai/sdk";
 import { Stream as AnthropicStream } from "@anthropic-ai/sdk/streaming";
 import { anthropicModels, anthropicDefaultModelId } from '../models';
-import { LLMProvider, ProviderOptions, ModelInfo, ApiStream, StreamChunk } from './types';
+import { fromAnthropicError, mapStreamErrors } from './errors';
+import { reasoningBudget, resolveReasoning } from './reasoning';
+import { toToolCallChunk, toolParameters } from './tool-calls';
+import { LLMProvider, ProviderOptions, ModelInfo, ApiStream, StreamChunk, ReasoningSetting } from './types';
+
+// Smallest thinking budget the API accepts
+const MIN_THINKING_BUDGET = 1024;
+// Tokens kept for the answer when thinking shares max_tokens with it
+const MIN_ANSWER_TOKENS = 1024;
 
 export class AnthropicProvider implements LLMProvider {
   // Static method to get available models
@@ -23,12 +31,18 @@ export class AnthropicProvider implements LLMProvider {
     });
   }
 
-  async *createMessage(systemPrompt: string, messages: any[], tools?: any[]): ApiStream {
+  createMessage(systemPrompt: string, messages: any[], tools?: any[]): ApiStream {
+    return mapStreamErrors(this.streamMessage(systemPrompt, messages, tools), fromAnthropicError);
+  }
+
+  private async *streamMessage(systemPrompt: string, messages: any[], tools?: any[]): ApiStream {
     const model = this.getModel();
     const modelId = model.id;
 
-    // Configure thinking budget if available
-    const budget_tokens = this.options.thinkingBudgetTokens || 0;
+    // Configure thinking budget if available, leaving room for the answer within max_tokens
+    const maxTokens = model.info.maxTokens || 8192;
+    const budget = reasoningBudget(resolveReasoning(this.options), maxTokens - MIN_ANSWER_TOKENS);
+    const budget_tokens = budget > 0 ? Math.max(budget, MIN_THINKING_BUDGET) : 0;
     // Extended thinking is available for Claude 3.7+ and all Claude 4+ models
     const reasoningOn = (modelId.includes("3-7") || modelId.includes("claude-sonnet-4") || modelId.includes("claude-haiku-4") || modelId.includes("claude-opus-4")) && budget_tokens !== 0;
 
@@ -40,12 +54,21 @@ export class AnthropicProvider implements LLMProvider {
     const lastUserMsgIndex = userMsgIndices[userMsgIndices.length - 1] ?? -1;
     const secondLastMsgUserIndex = userMsgIndices[userMsgIndices.length - 2] ?? -1;
 
+    // Declare tools for native tool use
+    const anthropicTools = tools && tools.length > 0
+      ? tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: toolParameters(tool) as Anthropic.Tool.InputSchema,
+        }))
+      : undefined;
+
     // Create message stream with thinking config and cache control
     const stream = await this.client.messages.create(
       {
         model: modelId,
         thinking: reasoningOn ? { type: "enabled" as const, budget_tokens } : undefined,
-        max_tokens: model.info.maxTokens || 8192,
+        max_tokens: maxTokens,
         temperature: reasoningOn ? undefined : 0, // Temperature must be undefined when thinking is enabled
         system: [
           {
@@ -92,6 +115,7 @@ export class AnthropicProvider implements LLMProvider {
             }
             return message;
           }),
+        tools: anthropicTools,
         stream: true,
       },
       modelId.includes("claude-3") ? {
@@ -101,6 +125,9 @@ export class AnthropicProvider implements LLMProvider {
       } : undefined
     );
 
+    // tool_use blocks being streamed, keyed by content block index
+    const pendingToolUses = new Map<number, { id: string; name: string; json: string }>();
+
     for await (const chunk of stream) {
       switch (chunk.type) {
         case "message_start":
@@ -155,6 +182,14 @@ export class AnthropicProvider implements LLMProvider {
                 text: chunk.content_block.text,
               };
               break;
+            case "tool_use":
+              // Arguments arrive as input_json_delta chunks
+              pendingToolUses.set(chunk.index, {
+                id: chunk.content_block.id,
+                name: chunk.content_block.name,
+                json: "",
+              });
+              break;
           }
           break;
         case "content_block_delta":
@@ -171,18 +206,34 @@ export class AnthropicProvider implements LLMProvider {
                 text: chunk.delta.text,
               };
               break;
+            case "input_json_delta":
+              {
+                const pending = pendingToolUses.get(chunk.index);
+                if (pending) {
+                  pending.json += chunk.delta.partial_json;
+                }
+              }
+              break;
             case "signature_delta":
               // We don't need to do anything with the signature
               break;
           }
           break;
         case "content_block_stop":
+          {
+            // Emit a completed tool_use block as a tool call
+            const pending = pendingToolUses.get(chunk.index);
+            if (pending) {
+              pendingToolUses.delete(chunk.index);
+              yield toToolCallChunk(pending.name, pending.json, pending.id);
+            }
+          }
           break;
       }
     }
   }
 
-  getModel(): { id: string; info: ModelInfo } {
+  getModel(): { id: string; info: ModelInfo; reasoning?: ReasoningSetting } {
     const modelId = this.options.apiModelId || anthropicDefaultModelId;
 
     // Check if the model ID exists in our models, otherwise use the default
@@ -193,6 +244,7 @@ export class AnthropicProvider implements LLMProvider {
     return {
       id: modelId,
       info: anthropicModels[safeModelId],
+      reasoning: resolveReasoning(this.options),
     };
   }
 }
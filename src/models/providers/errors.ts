@@ -0,0 +1,254 @@
+import { ApiStream } from './types';
+
+/**
+ * What went wrong with an LLM request, independent of the provider
+ */
+export type LLMErrorCategory =
+  | "rate_limited"      // too many requests or tokens; wait and retry
+  | "overloaded"        // the provider is having trouble; wait and retry
+  | "auth"              // the key is invalid or the account can't use the model
+  | "context_too_long"  // the request doesn't fit the model's context window
+  | "network"           // the provider couldn't be reached
+  | "invalid_request"   // the request itself is wrong; retrying won't help
+  | "unknown";
+
+/**
+ * An error from an LLM provider, mapped into a provider-neutral category.
+ * Each provider throws these from createMessage.
+ */
+export class LLMError extends Error {
+  readonly category: LLMErrorCategory;
+  readonly provider: string;
+  readonly status?: number;
+  readonly retryAfterMs?: number;  // how long the provider asked us to wait before retrying
+  readonly original?: unknown;     // the error the provider's SDK threw
+
+  constructor(
+    message: string,
+    details: { category: LLMErrorCategory; provider: string; status?: number; retryAfterMs?: number; original?: unknown }
+  ) {
+    super(message);
+    Object.setPrototypeOf(this, LLMError.prototype);
+    this.name = "LLMError";
+    this.category = details.category;
+    this.provider = details.provider;
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+    this.original = details.original;
+  }
+}
+
+/**
+ * Error types and codes reported by the providers' APIs and SDKs
+ */
+const ERROR_TYPES: Record<string, LLMErrorCategory> = {
+  // Anthropic
+  rate_limit_error: "rate_limited",
+  overloaded_error: "overloaded",
+  api_error: "overloaded",
+  authentication_error: "auth",
+  permission_error: "auth",
+  request_too_large: "context_too_long",
+  invalid_request_error: "invalid_request",
+  not_found_error: "invalid_request",
+  // OpenAI and compatible APIs
+  rate_limit_exceeded: "rate_limited",
+  insufficient_quota: "auth",  // the account can't make requests until billing is sorted out
+  invalid_api_key: "auth",
+  context_length_exceeded: "context_too_long",
+  // Gemini
+  RESOURCE_EXHAUSTED: "rate_limited",
+  UNAVAILABLE: "overloaded",
+  INTERNAL: "overloaded",
+  UNAUTHENTICATED: "auth",
+  PERMISSION_DENIED: "auth",
+  INVALID_ARGUMENT: "invalid_request",
+  NOT_FOUND: "invalid_request",
+  // Network failures reported by fetch implementations
+  ECONNREFUSED: "network",
+  ECONNRESET: "network",
+  ETIMEDOUT: "network",
+  ENOTFOUND: "network",
+};
+
+const CONTEXT_TOO_LONG_REGEX = /context[_ ]length|context window|maximum context|prompt is too long|input is too long|input token count|too many (input )?tokens/i;
+const NETWORK_REGEX = /failed to fetch|fetch failed|network ?error|load failed|ECONNREFUSED|ECONNRESET|ETIMEDOUT|ENOTFOUND|timed out/i;
+const AUTH_REGEX = /api key not valid|invalid api key|incorrect api key/i;
+const NETWORK_ERROR_NAMES = new Set(["APIConnectionError", "APIConnectionTimeoutError"]);
+
+/**
+ * Check whether a value is an LLMError
+ */
+export function isLLMError(error: unknown): error is LLMError {
+  return error instanceof LLMError;
+}
+
+/**
+ * Read a header from a Headers object or a plain record of headers
+ */
+function getHeader(headers: any, name: string): string | undefined {
+  if (!headers || typeof headers !== "object") return undefined;
+  if (typeof headers.get === "function") {
+    return headers.get(name) ?? undefined;
+  }
+  const key = Object.keys(headers).find(key => key.toLowerCase() === name);
+  return key ? headers[key] ?? undefined : undefined;
+}
+
+/**
+ * Read how long to wait before retrying from the response headers
+ * @param headers The response headers, as a Headers object or a plain record
+ * @param now The current time, for Retry-After headers that give a date
+ * @returns The delay in milliseconds, or undefined if the headers don't say
+ */
+export function parseRetryAfter(headers: unknown, now: number = Date.now()): number | undefined {
+  const milliseconds = parseFloat(getHeader(headers, "retry-after-ms") ?? "");
+  if (!isNaN(milliseconds)) {
+    return Math.max(0, Math.round(milliseconds));
+  }
+
+  const value = getHeader(headers, "retry-after")?.trim();
+  if (!value) return undefined;
+
+  // Either a number of seconds or an HTTP date
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return Math.round(parseFloat(value) * 1000);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Parse a protobuf duration such as "30s" or "1.5s", as used by Gemini's RetryInfo
+ */
+function parseDuration(duration: unknown): number | undefined {
+  const match = typeof duration === "string" ? duration.match(/^(\d+(?:\.\d+)?)s$/) : null;
+  return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+}
+
+/**
+ * Categorize an HTTP status code
+ */
+function categorizeStatus(status?: number): LLMErrorCategory | undefined {
+  if (status === undefined) return undefined;
+  if (status === 429) return "rate_limited";
+  if (status === 401 || status === 403) return "auth";
+  if (status === 413) return "context_too_long";
+  if (status === 500 || status === 502 || status === 503 || status === 504 || status === 529) return "overloaded";
+  if (status >= 400 && status < 500) return "invalid_request";
+  return undefined;
+}
+
+/**
+ * Find the first known error type or code on an error
+ */
+function findErrorType(error: any, type?: string): LLMErrorCategory | undefined {
+  const candidates = [type, error?.code, error?.error?.error?.type, error?.error?.code, error?.error?.status, error?.error?.type, error?.type];
+  for (const candidate of candidates) {
+    if (typeof candidate === "string" && ERROR_TYPES[candidate]) {
+      return ERROR_TYPES[candidate];
+    }
+  }
+  return undefined;
+}
+
+function categorize(error: any, message: string, status?: number, type?: string): LLMErrorCategory {
+  // Many providers report an oversized request as a generic invalid request
+  const byType = findErrorType(error, type);
+  if (byType && byType !== "invalid_request") return byType;
+  if (status === 429 || status === 401 || status === 403) return categorizeStatus(status)!;
+  if (CONTEXT_TOO_LONG_REGEX.test(message)) return "context_too_long";
+  if (AUTH_REGEX.test(message)) return "auth";
+  if (byType) return byType;
+  if (NETWORK_ERROR_NAMES.has(error?.name) || (status === undefined && NETWORK_REGEX.test(message))) return "network";
+  return categorizeStatus(status) ?? "unknown";
+}
+
+/**
+ * Map any error thrown while calling a provider into an LLMError
+ * @param error The error
+ * @param provider The provider the error came from
+ * @param details What the provider's own mapping already knows about the error
+ */
+export function toLLMError(
+  error: unknown,
+  provider: string = "unknown",
+  details: { status?: number; type?: string; message?: string; retryAfterMs?: number } = {}
+): LLMError {
+  if (isLLMError(error)) return error;
+
+  const raw: any = error;
+  const message = details.message
+    ?? (typeof raw?.message === "string" ? raw.message : undefined)
+    ?? (typeof raw?.error === "string" ? raw.error : String(error));
+  const status = details.status
+    ?? (typeof raw?.status === "number" ? raw.status : undefined)
+    ?? (typeof raw?.status_code === "number" ? raw.status_code : undefined);
+
+  return new LLMError(message, {
+    category: categorize(raw, message, status, details.type),
+    provider,
+    status,
+    retryAfterMs: details.retryAfterMs ?? parseRetryAfter(raw?.headers),
+    original: error,
+  });
+}
+
+/**
+ * Map errors from the Anthropic SDK
+ */
+export function fromAnthropicError(error: unknown): LLMError {
+  return toLLMError(error, "anthropic");
+}
+
+/**
+ * Map errors from the OpenAI SDK, which the OpenAI-compatible provider uses too
+ */
+export function fromOpenAIError(error: unknown, provider: string = "openai"): LLMError {
+  return toLLMError(error, provider);
+}
+
+/**
+ * Map errors from the Gemini SDK. It only keeps the status and the response
+ * body in the message, e.g. `got status: 429 Too Many Requests. {"error":{...}}`
+ */
+export function fromGeminiError(error: unknown): LLMError {
+  const message = error instanceof Error ? error.message : String(error);
+  const statusMatch = message.match(/got status: (\d+)/);
+  if (!statusMatch) {
+    return toLLMError(error, "gemini");
+  }
+
+  let body: any;
+  try {
+    body = JSON.parse(message.slice(message.indexOf("{")));
+  } catch {
+    body = undefined;
+  }
+  const retryInfo = (body?.error?.details ?? []).find((detail: any) => detail?.retryDelay);
+
+  return toLLMError(error, "gemini", {
+    status: parseInt(statusMatch[1], 10),
+    type: body?.error?.status,
+    message: body?.error?.message ?? message,
+    retryAfterMs: parseDuration(retryInfo?.retryDelay),
+  });
+}
+
+/**
+ * Map errors from the Ollama client, which reports HTTP errors with a status_code
+ */
+export function fromOllamaError(error: unknown): LLMError {
+  return toLLMError(error, "ollama");
+}
+
+/**
+ * Pass a provider's stream through, mapping anything it throws into an LLMError
+ */
+export async function* mapStreamErrors(stream: ApiStream, mapError: (error: unknown) => LLMError): ApiStream {
+  try {
+    yield* stream;
+  } catch (error) {
+    throw mapError(error);
+  }
+}
@@ -1,6 +1,10 @@
 import { GoogleGenAI, Content } from "@google/genai";
 import { geminiModels, geminiDefaultModelId } from '../models';
-import { LLMProvider, ProviderOptions, ModelInfo, ApiStream } from './types';
+import { fromGeminiError, mapStreamErrors } from './errors';
+import { toGeminiParts } from './image-content';
+import { reasoningBudget, resolveReasoning } from './reasoning';
+import { toToolCallChunk, toolParameters } from './tool-calls';
+import { LLMProvider, ProviderOptions, ModelInfo, ApiStream, ToolCall, ReasoningSetting } from './types';
 
 // Define a default TTL for the cache (e.g., 1 hour in seconds)
 const DEFAULT_CACHE_TTL_SECONDS = 3600;
@@ -46,7 +50,7 @@ export class GeminiProvider implements LLMProvider {
    * @param text The text to check for tool calls
    * @returns An object with the extracted tool call if found, or null if not found
    */
-  private extractToolCallFromText(text: string): { name: string, input: string, requiresApproval: boolean } | null {
+  private extractToolCallFromText(text: string): ToolCall | null {
     // Decode HTML entities first
     const decodedText = this.decodeHtmlEntities(text);
 
@@ -66,7 +70,32 @@ export class GeminiProvider implements LLMProvider {
     return null;
   }
 
-  async *createMessage(systemPrompt: string, messages: any[], tools?: any[]): ApiStream {
+  /**
+   * Helper function to convert a JSON schema to Gemini's schema format
+   * @param schema The JSON schema
+   * @returns The schema with uppercase type names and no default values
+   */
+  private toGeminiSchema(schema: any): any {
+    const converted: any = { ...schema, type: String(schema.type).toUpperCase() };
+    delete converted.default;
+
+    if (schema.properties) {
+      converted.properties = Object.fromEntries(
+        Object.entries(schema.properties).map(([name, property]) => [name, this.toGeminiSchema(property)])
+      );
+    }
+    if (schema.items) {
+      converted.items = this.toGeminiSchema(schema.items);
+    }
+
+    return converted;
+  }
+
+  createMessage(systemPrompt: string, messages: any[], tools?: any[]): ApiStream {
+    return mapStreamErrors(this.streamMessage(systemPrompt, messages, tools), fromGeminiError);
+  }
+
+  private async *streamMessage(systemPrompt: string, messages: any[], tools?: any[]): ApiStream {
     // Get model info to check for thinking config
     const model = this.getModel();
     const modelId = model.id;
@@ -121,14 +150,19 @@ export class GeminiProvider implements LLMProvider {
         // If this message has the same role as the previous one, combine them
         if (role === previousRole && processedMessages.length > 0) {
           const lastMsg = processedMessages[processedMessages.length - 1];
-          // Combine the content with a newline separator
-          const combinedText = lastMsg.parts[0].text + "\n\n" + msg.content;
-          lastMsg.parts[0].text = combinedText;
+          if (typeof msg.content === "string" && typeof lastMsg.parts[0].text === "string") {
+            // Combine the content with a newline separator
+            const combinedText = lastMsg.parts[0].text + "\n\n" + msg.content;
+            lastMsg.parts[0].text = combinedText;
+          } else {
+            // Content with images is appended as separate parts
+            lastMsg.parts.push(...toGeminiParts(msg.content));
+          }
         } else {
           // Add as a new message
           processedMessages.push({
             role: role,
-            parts: [{ text: msg.content }]
+            parts: toGeminiParts(msg.content)
           });
           previousRole = role;
         }
@@ -167,13 +201,11 @@ export class GeminiProvider implements LLMProvider {
         config.systemInstruction = systemPrompt;
       }
 
-      // Add thinking config if available and budget is set
-      if (modelInfo.thinkingConfig && this.options.thinkingBudgetTokens) {
+      // Add thinking config if the model supports it and reasoning is set; a budget of 0 turns it off
+      const reasoning = resolveReasoning(this.options);
+      if (modelInfo.thinkingConfig && reasoning) {
         config.thinkingConfig = {
-          thinkingBudget: Math.min(
-            this.options.thinkingBudgetTokens,
-            modelInfo.thinkingConfig.maxBudget || 24576
-          ),
+          thinkingBudget: reasoningBudget(reasoning, modelInfo.thinkingConfig.maxBudget || 24576),
         };
       }
 
@@ -194,7 +226,7 @@ export class GeminiProvider implements LLMProvider {
           functionDeclarations: tools.map(tool => ({
             name: tool.name,
             description: tool.description || `Execute the ${tool.name} tool`,
-            parameters: {
+            parameters: tool.inputSchema ? this.toGeminiSchema(toolParameters(tool)) : {
               type: "OBJECT",
               properties: {
                 input: {
@@ -256,19 +288,10 @@ export class GeminiProvider implements LLMProvider {
         // Handle function calls at the top level (this is the key change)
         if (chunk.functionCalls && chunk.functionCalls.length > 0) {
           for (const functionCall of chunk.functionCalls) {
-            const { name, args } = functionCall;
-
-            // Convert to our XML format with null checks
-            const input = args && args.input ? args.input : "";
-            const requiresApproval = args && args.requires_approval === true ? "true" : "false";
-
-            const xmlToolCall = `<tool>${name}</tool>\n<input>${input}</input>\n<requires_approval>${requiresApproval}</requires_approval>`;
+            const { id, name, args } = functionCall;
 
             console.log("Found top-level function call:", name, args || {});
-            yield {
-              type: "text",
-              text: xmlToolCall,
-            };
+            yield toToolCallChunk(name || "", args, id);
           }
         }
         // Handle text chunks
@@ -277,13 +300,11 @@ export class GeminiProvider implements LLMProvider {
           const toolCall = this.extractToolCallFromText(chunk.text);
 
           if (toolCall) {
-            // If a tool call is found, convert it to our XML format
+            // If a tool call is found, emit it as a structured tool call
             console.log("Found tool call in text with escaped HTML entities:", toolCall);
-            const xmlToolCall = `<tool>${toolCall.name}</tool>\n<input>${toolCall.input}</input>\n<requires_approval>${toolCall.requiresApproval ? 'true' : 'false'}</requires_approval>`;
-
             yield {
-              type: "text",
-              text: xmlToolCall,
+              type: "tool_call",
+              toolCall,
             };
           } else {
             // Otherwise, just yield the text as is
@@ -300,19 +321,10 @@ export class GeminiProvider implements LLMProvider {
             // Use type assertion to bypass TypeScript error
             const candidateAny = candidate as any;
             if (candidateAny.functionCall) {
-              const { name, args } = candidateAny.functionCall;
-
-              // Convert to our XML format with null checks
-              const input = args && args.input ? args.input : "";
-              const requiresApproval = args && args.requires_approval === true ? "true" : "false";
-
-              const xmlToolCall = `<tool>${name}</tool>\n<input>${input}</input>\n<requires_approval>${requiresApproval}</requires_approval>`;
+              const { id, name, args } = candidateAny.functionCall;
 
               console.log("Found candidate function call:", name, args || {});
-              yield {
-                type: "text",
-                text: xmlToolCall,
-              };
+              yield toToolCallChunk(name || "", args, id);
             }
             // Process content parts
             else if (candidate.content && candidate.content.parts) {
@@ -321,19 +333,10 @@ export class GeminiProvider implements LLMProvider {
                 // Use type assertion to bypass TypeScript error
                 const partAny = part as any;
                 if (partAny.functionCall) {
-                  const { name, args } = partAny.functionCall;
-
-                  // Convert to our XML format with null checks
-                  const input = args && args.input ? args.input : "";
-                  const requiresApproval = args && args.requires_approval === true ? "true" : "false";
-
-                  const xmlToolCall = `<tool>${name}</tool>\n<input>${input}</input>\n<requires_approval>${requiresApproval}</requires_approval>`;
+                  const { id, name, args } = partAny.functionCall;
 
                   console.log("Found part function call:", name, args || {});
-                  yield {
-                    type: "text",
-                    text: xmlToolCall,
-                  };
+                  yield toToolCallChunk(name || "", args, id);
                 }
                 // Handle executable code (legacy/fallback method)
                 else if (part.executableCode && part.executableCode.code) {
@@ -352,13 +355,11 @@ export class GeminiProvider implements LLMProvider {
                   const toolCall = this.extractToolCallFromText(part.text);
 
                   if (toolCall) {
-                    // If a tool call is found, convert it to our XML format
+                    // If a tool call is found, emit it as a structured tool call
                     console.log("Found tool call in part text with escaped HTML entities:", toolCall);
-                    const xmlToolCall = `<tool>${toolCall.name}</tool>\n<input>${toolCall.input}</input>\n<requires_approval>${toolCall.requiresApproval ? 'true' : 'false'}</requires_approval>`;
-
                     yield {
-                      type: "text",
-                      text: xmlToolCall,
+                      type: "tool_call",
+                      toolCall,
                     };
                   } else {
                     // Otherwise, just yield the text as is
@@ -400,10 +401,7 @@ export class GeminiProvider implements LLMProvider {
       }
     } catch (error) {
       console.error("Error in Gemini stream:", error);
-      yield {
-        type: "text",
-        text: "Error: Failed to stream response from Gemini API. Please try again.",
-      };
+      throw error;
     }
   }
 
@@ -441,7 +439,7 @@ export class GeminiProvider implements LLMProvider {
     }
   }
 
-  getModel(): { id: string; info: ModelInfo } {
+  getModel(): { id: string; info: ModelInfo; reasoning?: ReasoningSetting } {
     const modelId = this.options.apiModelId || geminiDefaultModelId;
 
     // Check if the model ID exists in our models, otherwise use the default
@@ -452,6 +450,7 @@ export class GeminiProvider implements LLMProvider {
     return {
       id: modelId,
       info: geminiModels[safeModelId],
+      reasoning: resolveReasoning(this.options),
     };
   }
 }
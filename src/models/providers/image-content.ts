@@ -0,0 +1,54 @@
+/**
+ * Helpers for message content that carries images.
+ *
+ * Messages in the agent's history use Anthropic-style content: either a plain
+ * string or an array of text and base64 image blocks. Providers that speak a
+ * different format convert the array form with these helpers.
+ */
+
+export interface TextContentBlock {
+  type: "text";
+  text: string;
+}
+
+export interface ImageContentBlock {
+  type: "image";
+  source: {
+    type: "base64";
+    media_type: string;
+    data: string;
+  };
+}
+
+export type MessageContent = string | (TextContentBlock | ImageContentBlock)[];
+
+/**
+ * Check whether a content block is a base64 image
+ */
+export function isImageBlock(block: any): block is ImageContentBlock {
+  return block?.type === "image" && block.source?.type === "base64" && typeof block.source.data === "string";
+}
+
+/**
+ * Convert content to OpenAI chat content parts (`image_url` with a data URL)
+ */
+export function toOpenAIContent(content: MessageContent): string | any[] {
+  if (typeof content === "string") return content;
+  return content.map(block =>
+    isImageBlock(block)
+      ? { type: "image_url", image_url: { url: `data:${block.source.media_type};base64,${block.source.data}` } }
+      : { type: "text", text: block.text }
+  );
+}
+
+/**
+ * Convert content to Gemini parts (`inlineData` for images)
+ */
+export function toGeminiParts(content: MessageContent): any[] {
+  if (typeof content === "string") return [{ text: content }];
+  return content.map(block =>
+    isImageBlock(block)
+      ? { inlineData: { mimeType: block.source.media_type, data: block.source.data } }
+      : { text: block.text }
+  );
+}
@@ -7,3 +7,7 @@ export * from './gemini';
 export * from './ollama';
 export * from './ollama-format';
 export * from './openai-compatible';
+export * from './tool-calls';
+export * from './errors';
+export * from './think-tags';
+export * from './reasoning';
@@ -59,24 +59,28 @@ export function convertToOllamaMessages(anthropicMessages: Anthropic.Messages.Me
 					});
 				});
 
-				// Process non-tool messages
+				// Process non-tool messages. Ollama takes images as raw base64 in a separate `images` field
 				if (nonToolMessages.length > 0) {
+					const images: string[] = [];
+					const content = nonToolMessages
+						.map((part) => {
+							if (part.type === "image") {
+								// Handle both Base64ImageSource and URLImageSource
+								if ('media_type' in part.source && 'data' in part.source) {
+									images.push(part.source.data);
+								} else if ('url' in part.source) {
+									images.push(part.source.url);
+								}
+								return null;
+							}
+							return part.text;
+						})
+						.filter((text): text is string => text !== null)
+						.join("\n");
 					ollamaMessages.push({
 						role: "user",
-						content: nonToolMessages
-							.map((part) => {
-								if (part.type === "image") {
-									// Handle both Base64ImageSource and URLImageSource
-									if ('media_type' in part.source && 'data' in part.source) {
-										return `data:${part.source.media_type};base64,${part.source.data}`;
-									} else if ('url' in part.source) {
-										return part.source.url;
-									}
-									return "";
-								}
-								return part.text;
-							})
-							.join("\n"),
+						images: images.length > 0 ? images : undefined,
+						content,
 					});
 				}
 			} else if (anthropicMessage.role === "assistant") {
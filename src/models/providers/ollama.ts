@@ -2,7 +2,10 @@ import { Anthropic } from "@anthropic-ai/sdk";
 import { Message, Ollama } from "ollama/browser";
 import { OllamaModel } from '../../options/components/OllamaModelList';
 import { ollamaModels } from '../models';
+import { fromOllamaError, mapStreamErrors } from './errors';
 import { convertToOllamaMessages } from "./ollama-format";
+import { ThinkTagParser } from "./think-tags";
+import { toToolCallChunk, toolParameters } from "./tool-calls";
 import { LLMProvider, ProviderOptions, ModelInfo, ApiStream } from './types';
 
 export interface OllamaProviderOptions extends ProviderOptions {
@@ -41,7 +44,11 @@ export class OllamaProvider implements LLMProvider {
 		}
 	}
 
-	async *createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[], _tools?: any[]): ApiStream {
+	createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[], tools?: any[]): ApiStream {
+		return mapStreamErrors(this.streamMessage(systemPrompt, messages, tools), fromOllamaError);
+	}
+
+	private async *streamMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[], tools?: any[]): ApiStream {
 		// Check if a base URL is configured
 		if (!this.options.baseUrl) {
 			throw new Error("Ollama base URL not configured. Please set the Ollama server URL in the extension options.");
@@ -66,26 +73,55 @@ export class OllamaProvider implements LLMProvider {
       // Get the model info
       const model = this.getModel();
 
+      // Declare tools for native function calling
+      const ollamaTools = tools && tools.length > 0
+        ? tools.map(tool => ({
+            type: "function",
+            function: {
+              name: tool.name,
+              description: tool.description,
+              parameters: toolParameters(tool),
+            },
+          }))
+        : undefined;
+
       // Create the actual API request promise
-      const apiPromise = this.client.chat({
+      const startChat = (withTools: boolean) => this.client.chat({
         model: model.id,
         messages: ollamaMessages,
         stream: true,
+        tools: withTools ? ollamaTools : undefined,
         options: {
           num_ctx: this.getContextWindowSize(model.id), // Use the context window size from the model configuration
         },
       });
 
-      // Race the API request against the timeout
-      const stream = (await Promise.race([apiPromise, timeoutPromise])) as Awaited<typeof apiPromise>;
+      let apiPromise = startChat(ollamaTools !== undefined);
+      let stream: Awaited<typeof apiPromise>;
+      try {
+        // Race the API request against the timeout
+        stream = (await Promise.race([apiPromise, timeoutPromise])) as Awaited<typeof apiPromise>;
+      } catch (error: any) {
+        // Models without tool support reject the request; fall back to the XML tool-call format
+        if (!ollamaTools || !error.message?.includes("does not support tools")) {
+          throw error;
+        }
+        console.warn(`Ollama model ${model.id} does not support tools, falling back to text tool calls`);
+        apiPromise = startChat(false);
+        stream = (await Promise.race([apiPromise, timeoutPromise])) as Awaited<typeof apiPromise>;
+      }
 
+      // Reasoning models think out loud inside <think> tags before they answer
+      const thinkTags = new ThinkTagParser();
       try {
         for await (const chunk of stream) {
           if (typeof chunk.message.content === "string") {
-            yield {
-              type: "text",
-              text: chunk.message.content,
-            };
+            yield* thinkTags.push(chunk.message.content);
+          }
+
+          // Handle native tool calls
+          for (const toolCall of chunk.message.tool_calls || []) {
+            yield toToolCallChunk(toolCall.function.name, toolCall.function.arguments);
           }
 
           // Handle token usage if available
@@ -97,6 +133,7 @@ export class OllamaProvider implements LLMProvider {
             };
           }
         }
+        yield* thinkTags.flush();
       } catch (streamError: any) {
         console.error("Error processing Ollama stream:", streamError);
         throw new Error(`Ollama stream processing error: ${streamError.message || "Unknown error"}`);
@@ -146,7 +183,7 @@ export class OllamaProvider implements LLMProvider {
           outputPrice: 0.0,
           maxTokens: 4096,
           contextWindow: firstModel.contextWindow,
-          supportsImages: false,
+          supportsImages: !!firstModel.supportsImages,
           supportsPromptCache: false,
         }
       };
@@ -163,7 +200,7 @@ export class OllamaProvider implements LLMProvider {
           outputPrice: 0.0,
           maxTokens: 4096,
           contextWindow: customModel.contextWindow,
-          supportsImages: false,
+          supportsImages: !!customModel.supportsImages,
           supportsPromptCache: false,
         }
       };
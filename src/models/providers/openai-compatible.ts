@@ -1,5 +1,10 @@
 import OpenAI from "openai";
-import { LLMProvider, ProviderOptions, ModelInfo, ApiStream, StreamChunk } from './types';
+import { fromOpenAIError, mapStreamErrors } from './errors';
+import { toOpenAIContent } from './image-content';
+import { reasoningEffort, resolveReasoning } from './reasoning';
+import { ThinkTagParser } from './think-tags';
+import { collectToolCallDeltas, flushToolCalls, PendingToolCalls, toolParameters } from './tool-calls';
+import { LLMProvider, ProviderOptions, ModelInfo, ApiStream, ReasoningSetting } from './types';
 
 export interface OpenAICompatibleModelInfo extends ModelInfo {
   isReasoning?: boolean;
@@ -25,7 +30,11 @@ export class OpenAICompatibleProvider implements LLMProvider {
     });
   }
 
-  async *createMessage(systemPrompt: string, messages: any[], tools?: any[]): ApiStream {
+  createMessage(systemPrompt: string, messages: any[], tools?: any[]): ApiStream {
+    return mapStreamErrors(this.streamMessage(systemPrompt, messages, tools), error => fromOpenAIError(error, 'openai-compatible'));
+  }
+
+  private async *streamMessage(systemPrompt: string, messages: any[], tools?: any[]): ApiStream {
     const model = this.getModel();
     const modelId = model.id;
     const modelInfo = model.info;
@@ -39,7 +48,7 @@ export class OpenAICompatibleProvider implements LLMProvider {
     // Convert to OpenAI message format
     const openaiMessages = [
       { role: "system", content: systemPrompt },
-      ...filteredMessages.map(msg => ({ role: msg.role, content: msg.content })),
+      ...filteredMessages.map(msg => ({ role: msg.role, content: toOpenAIContent(msg.content) })),
     ];
 
     // Configure API request options
@@ -54,6 +63,12 @@ export class OpenAICompatibleProvider implements LLMProvider {
     if (isReasoningModel) {
       options.max_completion_tokens = modelInfo.maxTokens || 4096;
       options.temperature = 0;
+
+      // Leave the server's default effort unless one is set
+      const effort = reasoningEffort(resolveReasoning(this.options));
+      if (effort) {
+        options.reasoning_effort = effort;
+      }
     } else {
       options.max_tokens = modelInfo.maxTokens || 4096;
       options.temperature = 0;
@@ -66,14 +81,7 @@ export class OpenAICompatibleProvider implements LLMProvider {
         function: {
           name: tool.name,
           description: tool.description,
-          parameters: {
-            type: "object",
-            properties: {
-              input: { type: "string", description: "The input to the tool" },
-              requires_approval: { type: "boolean", description: "Whether this tool call requires user approval" }
-            },
-            required: ["input"]
-          }
+          parameters: toolParameters(tool)
         }
       }));
       options.tools = openAITools;
@@ -82,10 +90,23 @@ export class OpenAICompatibleProvider implements LLMProvider {
 
     try {
       const stream = await this.client.chat.completions.create(options) as unknown as AsyncIterable<any>;
+      const pendingToolCalls: PendingToolCalls = new Map();
+      // Servers either stream the reasoning separately (reasoning_content, as vLLM and
+      // DeepSeek do) or leave it in the text inside <think> tags
+      const thinkTags = new ThinkTagParser();
       for await (const chunk of stream) {
         const delta = chunk.choices[0]?.delta;
+        if (delta?.reasoning_content) {
+          yield { type: "reasoning", reasoning: delta.reasoning_content };
+        }
         if (delta?.content) {
-          yield { type: "text", text: delta.content };
+          yield* thinkTags.push(delta.content);
+        }
+        if (delta?.tool_calls) {
+          collectToolCallDeltas(pendingToolCalls, delta.tool_calls);
+        }
+        if (chunk.choices[0]?.finish_reason && pendingToolCalls.size > 0) {
+          yield* flushToolCalls(pendingToolCalls);
         }
         if (chunk.usage) {
           yield {
@@ -95,12 +116,15 @@ export class OpenAICompatibleProvider implements LLMProvider {
           };
         }
       }
+      yield* thinkTags.flush();
+      yield* flushToolCalls(pendingToolCalls);
     } catch (error) {
-      yield { type: "text", text: "Error: Failed to stream response from OpenAI-Compatible API. Please try again." };
+      console.error("Error in OpenAI-compatible stream:", error);
+      throw error;
     }
   }
 
-  getModel(): { id: string; info: OpenAICompatibleModelInfo } {
+  getModel(): { id: string; info: OpenAICompatibleModelInfo; reasoning?: ReasoningSetting } {
     const modelId = this.options.apiModelId;
     const model = (this.options.openaiCompatibleModels || []).find(m => m.id === modelId);
     return {
@@ -111,7 +135,8 @@ export class OpenAICompatibleProvider implements LLMProvider {
         outputPrice: 0,
         maxTokens: 4096,
         isReasoning: model?.isReasoning,
-      }
+      },
+      reasoning: resolveReasoning(this.options),
     };
   }
 } 
\ No newline at end of file
@@ -1,6 +1,10 @@
 import OpenAI from "openai";
 import { openaiModels, openaiDefaultModelId } from '../models';
-import { LLMProvider, ProviderOptions, ModelInfo, ApiStream, StreamChunk } from './types';
+import { fromOpenAIError, mapStreamErrors } from './errors';
+import { toOpenAIContent } from './image-content';
+import { reasoningEffort, resolveReasoning } from './reasoning';
+import { collectToolCallDeltas, flushToolCalls, PendingToolCalls, toolParameters } from './tool-calls';
+import { LLMProvider, ProviderOptions, ModelInfo, ApiStream, ReasoningSetting } from './types';
 
 export class OpenAIProvider implements LLMProvider {
   // Static method to get available models
@@ -21,7 +25,11 @@ export class OpenAIProvider implements LLMProvider {
     });
   }
 
-  async *createMessage(systemPrompt: string, messages: any[], tools?: any[]): ApiStream {
+  createMessage(systemPrompt: string, messages: any[], tools?: any[]): ApiStream {
+    return mapStreamErrors(this.streamMessage(systemPrompt, messages, tools), fromOpenAIError);
+  }
+
+  private async *streamMessage(systemPrompt: string, messages: any[], tools?: any[]): ApiStream {
     const model = this.getModel();
     const modelId = model.id;
 
@@ -37,7 +45,7 @@ export class OpenAIProvider implements LLMProvider {
       { role: "system", content: systemPrompt },
       ...filteredMessages.map(msg => ({
         role: msg.role,
-        content: msg.content,
+        content: toOpenAIContent(msg.content),
       })),
     ];
 
@@ -64,26 +72,24 @@ export class OpenAIProvider implements LLMProvider {
         options.temperature = 0;
       }
       
-      // Add reasoning_effort for GPT-5 models (default to medium)
-      if (modelId.includes('gpt-5')) {
-        options.reasoning_effort = "medium";
+      // Reasoning models take an effort level; GPT-5 models default to medium
+      if (isReasoningModelFamily) {
+        const reasoning = resolveReasoning(this.options);
+        const effort = reasoningEffort(reasoning);
+        if (effort) {
+          options.reasoning_effort = effort;
+        } else if (reasoning && modelId.includes('gpt-5')) {
+          // GPT-5 models can't turn reasoning off entirely; minimal is the least they do
+          options.reasoning_effort = "minimal";
+        } else if (modelId.includes('gpt-5')) {
+          options.reasoning_effort = "medium";
+        }
       }
     } else {
       // Older models use max_tokens and support temperature=0
       options.max_tokens = model.info.maxTokens || 4096;
       options.temperature = 0;
     }
-    
-    // Add thinking config if available and supported
-    if (this.options.thinkingBudgetTokens && model.info.supportsPromptCache) {
-      options.thinking = {
-        enabled: true,
-        budget_tokens: this.options.thinkingBudgetTokens,
-      };
-      
-      // Temperature must be undefined when thinking is enabled
-      options.temperature = undefined;
-    }
 
     // Add tools configuration if tools are provided
     if (tools && tools.length > 0) {
@@ -93,20 +99,7 @@ export class OpenAIProvider implements LLMProvider {
         function: {
           name: tool.name,
           description: tool.description,
-          parameters: {
-            type: "object",
-            properties: {
-              input: {
-                type: "string",
-                description: "The input to the tool"
-              },
-              requires_approval: {
-                type: "boolean",
-                description: "Whether this tool call requires user approval"
-              }
-            },
-            required: ["input"]
-          }
+          parameters: toolParameters(tool)
         }
       }));
       
@@ -118,11 +111,8 @@ export class OpenAIProvider implements LLMProvider {
       // Create the stream and assert it as an AsyncIterable
       const stream = await this.client.chat.completions.create(options) as unknown as AsyncIterable<any>;
 
-      // Process the stream
-      let toolCallId = null;
-      let toolName = null;
-      let toolArguments = null;
-      let isCollectingToolCall = false;
+      // Tool calls being streamed, keyed by their index in the response
+      const pendingToolCalls: PendingToolCalls = new Map();
 
       for await (const chunk of stream) {
         const delta = chunk.choices[0]?.delta;
@@ -135,95 +125,14 @@ export class OpenAIProvider implements LLMProvider {
           };
         }
 
-        // Handle tool calls
-        if (delta?.tool_calls && delta.tool_calls.length > 0) {
-          const toolCall = delta.tool_calls[0];
-          
-          // If this is the start of a tool call
-          if (toolCall.index === 0 && toolCall.function?.name) {
-            isCollectingToolCall = true;
-            toolCallId = toolCall.id;
-            toolName = toolCall.function.name;
-            toolArguments = toolCall.function.arguments || "";
-          } 
-          // If we're continuing to collect a tool call
-          else if (isCollectingToolCall && toolCall.function?.arguments) {
-            toolArguments += toolCall.function.arguments;
-          }
-          
-          // If this is the end of the tool call (finish_reason: "tool_calls")
-          if (chunk.choices[0]?.finish_reason === "tool_calls" && isCollectingToolCall) {
-            try {
-              // Try to parse the arguments as a single JSON object
-              let args;
-              try {
-                args = JSON.parse(toolArguments || "{}");
-              } catch (parseError) {
-                // If parsing fails, check if we have multiple concatenated JSON objects
-                const jsonObjects = toolArguments.split(/(?<=\})(?=\{)/);
-                if (jsonObjects.length > 1) {
-                  console.log(`Found ${jsonObjects.length} concatenated JSON objects, using the first one`);
-                  // Parse just the first object
-                  args = JSON.parse(jsonObjects[0]);
-                } else {
-                  // Second attempt: sanitize and try again
-                  console.log("Attempting to sanitize tool arguments before parsing");
-                  // Replace double quotes in CSS selectors with single quotes
-                  const sanitizedArgs = toolArguments
-                    .replace(/(\w+)\[name="([^"]+)"\]/g, '$1[name=\'$2\']')
-                    .replace(/(\w+)\[class="([^"]+)"\]/g, '$1[class=\'$2\']')
-                    .replace(/(\w+)\[id="([^"]+)"\]/g, '$1[id=\'$2\']')
-                    .replace(/(\w+)\[type="([^"]+)"\]/g, '$1[type=\'$2\']')
-                    .replace(/(\w+)\[value="([^"]+)"\]/g, '$1[value=\'$2\']');
-                  
-                  try {
-                    args = JSON.parse(sanitizedArgs);
-                    console.log("Successfully parsed sanitized tool arguments");
-                  } catch (secondError) {
-                    console.error("Error parsing sanitized tool arguments:", secondError);
-                    
-                    // Third attempt: use regex to extract the input directly
-                    const inputMatch = toolArguments.match(/"input"\s*:\s*"([^"]*(?:\\.[^"]*)*)"/);
-                    const requiresApprovalMatch = toolArguments.match(/"requires_approval"\s*:\s*(true|false)/);
-                    
-                    if (inputMatch) {
-                      console.log("Extracted input using regex");
-                      args = {
-                        input: inputMatch[1].replace(/\\"/g, '"'),
-                        requires_approval: requiresApprovalMatch ? 
-                          requiresApprovalMatch[1] === 'true' : false
-                      };
-                    } else {
-                      throw secondError; // If we can't extract the input, re-throw
-                    }
-                  }
-                }
-              }
-              
-              const input = args.input || "";
-              const requiresApproval = args.requires_approval === true ? "true" : "false";
-              
-              // Format as XML
-              const xmlToolCall = `<tool>${toolName}</tool>\n<input>${input}</input>\n<requires_approval>${requiresApproval}</requires_approval>`;
-              
-              yield {
-                type: "text",
-                text: xmlToolCall,
-              };
-              
-              // Reset tool call collection
-              isCollectingToolCall = false;
-              toolCallId = null;
-              toolName = null;
-              toolArguments = null;
-            } catch (error) {
-              console.error("Error parsing tool arguments:", error);
-              yield {
-                type: "text",
-                text: "Error: Failed to parse tool call. Please try again.",
-              };
-            }
-          }
+        // Collect tool call fragments
+        if (delta?.tool_calls) {
+          collectToolCallDeltas(pendingToolCalls, delta.tool_calls);
+        }
+
+        // Emit collected tool calls once the model has finished producing them
+        if (chunk.choices[0]?.finish_reason && pendingToolCalls.size > 0) {
+          yield* flushToolCalls(pendingToolCalls);
         }
 
         // Handle usage information
@@ -236,83 +145,15 @@ export class OpenAIProvider implements LLMProvider {
         }
       }
       
-      // If we collected a tool call but didn't finish it (rare case)
-      if (isCollectingToolCall && toolName) {
-        try {
-          // Try to parse the arguments as a single JSON object
-          let args;
-          try {
-            args = JSON.parse(toolArguments || "{}");
-          } catch (parseError) {
-            // If parsing fails, check if we have multiple concatenated JSON objects
-            const jsonObjects = toolArguments.split(/(?<=\})(?=\{)/);
-            if (jsonObjects.length > 1) {
-              console.log(`Found ${jsonObjects.length} concatenated JSON objects in unfinished tool call, using the first one`);
-              // Parse just the first object
-              args = JSON.parse(jsonObjects[0]);
-            } else {
-              // Second attempt: sanitize and try again
-              console.log("Attempting to sanitize unfinished tool arguments before parsing");
-              // Replace double quotes in CSS selectors with single quotes
-              const sanitizedArgs = toolArguments
-                .replace(/(\w+)\[name="([^"]+)"\]/g, '$1[name=\'$2\']')
-                .replace(/(\w+)\[class="([^"]+)"\]/g, '$1[class=\'$2\']')
-                .replace(/(\w+)\[id="([^"]+)"\]/g, '$1[id=\'$2\']')
-                .replace(/(\w+)\[type="([^"]+)"\]/g, '$1[type=\'$2\']')
-                .replace(/(\w+)\[value="([^"]+)"\]/g, '$1[value=\'$2\']');
-              
-              try {
-                args = JSON.parse(sanitizedArgs);
-                console.log("Successfully parsed sanitized unfinished tool arguments");
-              } catch (secondError) {
-                console.error("Error parsing sanitized unfinished tool arguments:", secondError);
-                
-                // Third attempt: use regex to extract the input directly
-                const inputMatch = toolArguments.match(/"input"\s*:\s*"([^"]*(?:\\.[^"]*)*)"/);
-                const requiresApprovalMatch = toolArguments.match(/"requires_approval"\s*:\s*(true|false)/);
-                
-                if (inputMatch) {
-                  console.log("Extracted input using regex from unfinished tool call");
-                  args = {
-                    input: inputMatch[1].replace(/\\"/g, '"'),
-                    requires_approval: requiresApprovalMatch ? 
-                      requiresApprovalMatch[1] === 'true' : false
-                  };
-                } else {
-                  throw secondError; // If we can't extract the input, re-throw
-                }
-              }
-            }
-          }
-          
-          const input = args.input || "";
-          const requiresApproval = args.requires_approval === true ? "true" : "false";
-          
-          // Format as XML
-          const xmlToolCall = `<tool>${toolName}</tool>\n<input>${input}</input>\n<requires_approval>${requiresApproval}</requires_approval>`;
-          
-          yield {
-            type: "text",
-            text: xmlToolCall,
-          };
-        } catch (error) {
-          console.error("Error parsing tool arguments (unfinished):", error);
-          yield {
-            type: "text",
-            text: "Error: Failed to parse tool call. Please try again.",
-          };
-        }
-      }
+      // If we collected a tool call but never saw a finish reason (rare case)
+      yield* flushToolCalls(pendingToolCalls);
     } catch (error) {
       console.error("Error in OpenAI stream:", error);
-      yield {
-        type: "text",
-        text: "Error: Failed to stream response from OpenAI API. Please try again.",
-      };
+      throw error;
     }
   }
 
-  getModel(): { id: string; info: ModelInfo } {
+  getModel(): { id: string; info: ModelInfo; reasoning?: ReasoningSetting } {
     const modelId = this.options.apiModelId || openaiDefaultModelId;
     
     // Check if the model ID exists in our models, otherwise use the default
@@ -323,6 +164,7 @@ export class OpenAIProvider implements LLMProvider {
     return {
       id: modelId,
       info: openaiModels[safeModelId],
+      reasoning: resolveReasoning(this.options),
     };
   }
 }
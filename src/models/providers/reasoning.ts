@@ -0,0 +1,55 @@
+import { ProviderOptions, ReasoningSetting } from './types';
+
+// Thinking tokens allowed for each preset effort
+export const REASONING_BUDGETS = {
+  low: 1024,
+  medium: 8192,
+  high: 24576,
+};
+
+/**
+ * Get the reasoning setting a provider was created with, falling back to the older thinking budget.
+ * @returns The setting, or undefined if none was given and the model's default should be used
+ */
+export function resolveReasoning(options: ProviderOptions): ReasoningSetting | undefined {
+  if (options.reasoning) return options.reasoning;
+  if (options.thinkingBudgetTokens) {
+    return { effort: 'custom', budgetTokens: options.thinkingBudgetTokens };
+  }
+  return undefined;
+}
+
+/**
+ * Get the number of thinking tokens a setting allows, 0 if reasoning is off
+ * @param maxBudget The most the model accepts, if it has a limit
+ */
+export function reasoningBudget(setting: ReasoningSetting | undefined, maxBudget?: number): number {
+  if (!setting || setting.effort === 'off') return 0;
+
+  const budget = setting.effort === 'custom'
+    ? Math.max(0, setting.budgetTokens || 0)
+    : REASONING_BUDGETS[setting.effort];
+  return maxBudget !== undefined ? Math.min(budget, maxBudget) : budget;
+}
+
+/**
+ * Check whether a setting turns reasoning on
+ */
+export function isReasoningOn(setting: ReasoningSetting | undefined): boolean {
+  return reasoningBudget(setting) > 0;
+}
+
+/**
+ * Get the effort level for APIs that take one instead of a budget; custom budgets map to the
+ * smallest preset that covers them
+ * @returns The effort, or undefined if reasoning is off
+ */
+export function reasoningEffort(setting: ReasoningSetting | undefined): 'low' | 'medium' | 'high' | undefined {
+  const budget = reasoningBudget(setting);
+  if (budget === 0) return undefined;
+  if (setting?.effort !== 'custom') return setting?.effort as 'low' | 'medium' | 'high';
+
+  if (budget <= REASONING_BUDGETS.low) return 'low';
+  if (budget <= REASONING_BUDGETS.medium) return 'medium';
+  return 'high';
+}
@@ -0,0 +1,68 @@
+import { StreamChunk } from './types';
+
+const OPEN_TAG = "<think>";
+const CLOSE_TAG = "</think>";
+
+/**
+ * Split the `<think>...</think>` blocks that reasoning models put in their text
+ * into reasoning chunks, so they don't end up in the answer. Tags may be split
+ * across chunks, so text that could be the start of a tag is held back until
+ * the next chunk shows whether it is one.
+ */
+export class ThinkTagParser {
+  private inThinking = false;
+  private pending = "";
+
+  /**
+   * Split the next piece of streamed text
+   */
+  push(text: string): StreamChunk[] {
+    const chunks: StreamChunk[] = [];
+    let buffer = this.pending + text;
+    this.pending = "";
+
+    for (;;) {
+      const tag = this.inThinking ? CLOSE_TAG : OPEN_TAG;
+      const index = buffer.indexOf(tag);
+      if (index !== -1) {
+        this.emit(chunks, buffer.slice(0, index));
+        buffer = buffer.slice(index + tag.length);
+        this.inThinking = !this.inThinking;
+        continue;
+      }
+
+      // Hold back the end of the buffer if it could be the start of the tag
+      const partial = partialTagLength(buffer, tag);
+      this.emit(chunks, buffer.slice(0, buffer.length - partial));
+      this.pending = buffer.slice(buffer.length - partial);
+      return chunks;
+    }
+  }
+
+  /**
+   * Emit whatever was held back once the stream has ended
+   */
+  flush(): StreamChunk[] {
+    const chunks: StreamChunk[] = [];
+    this.emit(chunks, this.pending);
+    this.pending = "";
+    return chunks;
+  }
+
+  private emit(chunks: StreamChunk[], text: string): void {
+    if (!text) return;
+    chunks.push(this.inThinking ? { type: "reasoning", reasoning: text } : { type: "text", text });
+  }
+}
+
+/**
+ * Length of the longest end of the text that is the start of the tag
+ */
+function partialTagLength(text: string, tag: string): number {
+  for (let length = Math.min(text.length, tag.length - 1); length > 0; length--) {
+    if (tag.startsWith(text.slice(text.length - length))) {
+      return length;
+    }
+  }
+  return 0;
+}
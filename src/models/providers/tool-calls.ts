@@ -0,0 +1,191 @@
+import { StreamChunk, ToolCall } from './types';
+
+/**
+ * JSON schema for the arguments of every tool declared to a provider's
+ * function-calling API.
+ */
+export const toolCallParameters = {
+  type: "object",
+  properties: {
+    input: {
+      type: "string",
+      description: "The input to the tool"
+    },
+    requires_approval: {
+      type: "boolean",
+      description: "Whether this tool call requires user approval"
+    }
+  },
+  required: ["input"]
+};
+
+/**
+ * JSON schema for the arguments of a single tool: its declared input schema
+ * plus the requires_approval flag, or the generic string input if it has none
+ * @param tool The tool, optionally carrying an inputSchema
+ */
+export function toolParameters(tool: { inputSchema?: any }): any {
+  if (!tool.inputSchema) {
+    return toolCallParameters;
+  }
+
+  return {
+    ...tool.inputSchema,
+    properties: {
+      ...tool.inputSchema.properties,
+      requires_approval: toolCallParameters.properties.requires_approval,
+    },
+  };
+}
+
+/**
+ * Parse a raw arguments string, tolerating the malformed JSON some models produce
+ * @param rawArguments The arguments string streamed by the provider
+ * @returns The parsed arguments object
+ */
+function parseArgumentsString(rawArguments: string): any {
+  if (!rawArguments.trim()) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(rawArguments);
+  } catch {
+    // Some models concatenate several JSON objects; use the first one
+    const jsonObjects = rawArguments.split(/(?<=\})(?=\{)/);
+    if (jsonObjects.length > 1) {
+      return JSON.parse(jsonObjects[0]);
+    }
+
+    // Replace double quotes in CSS selectors with single quotes and try again
+    const sanitizedArgs = rawArguments
+      .replace(/(\w+)\[name="([^"]+)"\]/g, '$1[name=\'$2\']')
+      .replace(/(\w+)\[class="([^"]+)"\]/g, '$1[class=\'$2\']')
+      .replace(/(\w+)\[id="([^"]+)"\]/g, '$1[id=\'$2\']')
+      .replace(/(\w+)\[type="([^"]+)"\]/g, '$1[type=\'$2\']')
+      .replace(/(\w+)\[value="([^"]+)"\]/g, '$1[value=\'$2\']');
+
+    try {
+      return JSON.parse(sanitizedArgs);
+    } catch (secondError) {
+      // Last resort: extract the fields directly
+      const inputMatch = rawArguments.match(/"input"\s*:\s*"([^"]*(?:\\.[^"]*)*)"/);
+      const requiresApprovalMatch = rawArguments.match(/"requires_approval"\s*:\s*(true|false)/);
+
+      if (inputMatch) {
+        return {
+          input: inputMatch[1].replace(/\\"/g, '"'),
+          requires_approval: requiresApprovalMatch ? requiresApprovalMatch[1] === 'true' : false
+        };
+      }
+
+      throw secondError;
+    }
+  }
+}
+
+/**
+ * Build a ToolCall from the name and arguments returned by a native function call
+ * @param name The function name
+ * @param rawArguments The arguments, either as a JSON string or an already-parsed object
+ * @param id The provider-assigned call ID, if any
+ * @returns The provider-neutral tool call
+ */
+export function toToolCall(name: string, rawArguments: unknown, id?: string): ToolCall {
+  const args = typeof rawArguments === "string"
+    ? parseArgumentsString(rawArguments)
+    : (rawArguments ?? {});
+  if (typeof args !== "object" || args === null || Array.isArray(args)) {
+    throw new Error(`Tool arguments must be a JSON object, got ${JSON.stringify(args)}`);
+  }
+
+  const { requires_approval: requiresApproval, ...rest } = args;
+  const keys = Object.keys(rest);
+
+  let input = "";
+  if (keys.length === 1 && keys[0] === "input") {
+    // Generic string input; models occasionally pass structured input instead
+    if (rest.input !== undefined && rest.input !== null) {
+      input = typeof rest.input === "string" ? rest.input : JSON.stringify(rest.input);
+    }
+  } else if (keys.length > 0) {
+    // Named arguments from the tool's input schema
+    input = JSON.stringify(rest);
+  }
+
+  return {
+    id,
+    name,
+    input,
+    requiresApproval: requiresApproval === true || requiresApproval === "true",
+  };
+}
+
+/**
+ * Build the tool_call chunk for a native function call, or an error text chunk
+ * asking the model to try again when its arguments can't be parsed, e.g. because
+ * the response was cut off by the output token limit
+ * @param name The function name
+ * @param rawArguments The arguments, either as a JSON string or an already-parsed object
+ * @param id The provider-assigned call ID, if any
+ */
+export function toToolCallChunk(name: string, rawArguments: unknown, id?: string): StreamChunk {
+  try {
+    return {
+      type: "tool_call",
+      toolCall: toToolCall(name, rawArguments, id),
+    };
+  } catch (error) {
+    console.error("Error parsing tool arguments:", error);
+    return {
+      type: "text",
+      text: "Error: Failed to parse tool call. Please try again.",
+    };
+  }
+}
+
+/**
+ * Tool calls being assembled from OpenAI-style streaming deltas, keyed by index
+ */
+export type PendingToolCalls = Map<number, { id?: string; name: string; arguments: string }>;
+
+/**
+ * Merge OpenAI-style tool_calls deltas into the pending tool calls
+ * @param pendingToolCalls The tool calls collected so far
+ * @param deltas The tool_calls array from a streaming delta
+ */
+export function collectToolCallDeltas(pendingToolCalls: PendingToolCalls, deltas: any[]): void {
+  for (const toolCallDelta of deltas) {
+    const index = toolCallDelta.index ?? 0;
+    const pending = pendingToolCalls.get(index);
+
+    if (!pending) {
+      pendingToolCalls.set(index, {
+        id: toolCallDelta.id,
+        name: toolCallDelta.function?.name || "",
+        arguments: toolCallDelta.function?.arguments || "",
+      });
+    } else {
+      if (toolCallDelta.function?.name) {
+        pending.name += toolCallDelta.function.name;
+      }
+      if (toolCallDelta.function?.arguments) {
+        pending.arguments += toolCallDelta.function.arguments;
+      }
+    }
+  }
+}
+
+/**
+ * Convert the pending tool calls into tool_call chunks and clear them
+ * @param pendingToolCalls The tool calls collected so far
+ */
+export function* flushToolCalls(pendingToolCalls: PendingToolCalls): Generator<StreamChunk> {
+  const ordered = [...pendingToolCalls.entries()].sort(([a], [b]) => a - b);
+  pendingToolCalls.clear();
+
+  for (const [, pending] of ordered) {
+    if (!pending.name) continue;
+    yield toToolCallChunk(pending.name, pending.arguments, pending.id);
+  }
+}
@@ -15,18 +15,40 @@ export interface ModelInfo {
   };
 }
 
+/**
+ * How much a model reasons before it answers: not at all, a preset effort, or a custom budget
+ */
+export type ReasoningEffort = 'off' | 'low' | 'medium' | 'high' | 'custom';
+
+export interface ReasoningSetting {
+  effort: ReasoningEffort;
+  budgetTokens?: number; // Thinking tokens allowed when the effort is 'custom'
+}
+
 export interface ProviderOptions {
   apiKey: string;
   apiModelId?: string;
   baseUrl?: string;
-  thinkingBudgetTokens?: number;
+  reasoning?: ReasoningSetting;
+  thinkingBudgetTokens?: number; // Older Anthropic-only setting, used when no reasoning setting is given
   dangerouslyAllowBrowser?: boolean;
 }
 
+/**
+ * A provider-neutral tool invocation produced by a model's native function-calling API
+ */
+export interface ToolCall {
+  id?: string;               // Provider-assigned call ID, if any
+  name: string;
+  input: string;
+  requiresApproval: boolean;
+}
+
 export interface StreamChunk {
-  type: "text" | "reasoning" | "usage";
+  type: "text" | "reasoning" | "usage" | "tool_call";
   text?: string;
   reasoning?: string;
+  toolCall?: ToolCall;
   inputTokens?: number;
   outputTokens?: number;
   cacheWriteTokens?: number;
@@ -37,5 +59,8 @@ export type ApiStream = AsyncGenerator<StreamChunk, void, unknown>;
 
 export interface LLMProvider {
   createMessage(systemPrompt: string, messages: any[], tools?: any[]): ApiStream;
-  getModel(): { id: string; info: ModelInfo };
+  /**
+   * Get the model requests go to, and the reasoning setting they're made with if one was given
+   */
+  getModel(): { id: string; info: ModelInfo; reasoning?: ReasoningSetting };
 }
@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import type { ModelChoice, ModelRoles, ReasoningSettings } from '../background/configManager';
 import { 
   anthropicModels, 
   openaiModels, 
@@ -65,7 +66,7 @@ export function Options() {
   const [ollamaApiKey, setOllamaApiKey] = useState('');
   const [ollamaBaseUrl, setOllamaBaseUrl] = useState('');
   const [ollamaCustomModels, setOllamaCustomModels] = useState<OllamaModel[]>([]);
-  const [newOllamaModel, setNewOllamaModel] = useState({ id: '', name: '', contextWindow: 32768 });
+  const [newOllamaModel, setNewOllamaModel] = useState({ id: '', name: '', contextWindow: 32768, supportsImages: false });
   
   // Model IDs - using defaults from models.ts
   const [anthropicModelId, setAnthropicModelId] = useState(anthropicDefaultModelId);
@@ -74,7 +75,14 @@ export function Options() {
   const [ollamaModelId, setOllamaModelId] = useState(ollamaDefaultModelId);
   
   // Common settings
-  const [thinkingBudgetTokens, setThinkingBudgetTokens] = useState(0);
+  const [reasoningSettings, setReasoningSettings] = useState<ReasoningSettings>({});
+  
+  // Agent settings
+  const [contextReserveTokens, setContextReserveTokens] = useState(8000);
+  const [maxSteps, setMaxSteps] = useState(50);
+  const [verifyTasks, setVerifyTasks] = useState(false);
+  const [fallbackModels, setFallbackModels] = useState<ModelChoice[]>([]);
+  const [modelRoles, setModelRoles] = useState<ModelRoles>({});
   
   // UI state
   const [isSaving, setIsSaving] = useState(false);
@@ -105,6 +113,12 @@ export function Options() {
       ollamaBaseUrl: '',
       ollamaCustomModels: [],
       thinkingBudgetTokens: 0,
+      reasoningSettings: {},
+      contextReserveTokens: 8000,
+      maxSteps: 50,
+      verifyTasks: false,
+      fallbackModels: [],
+      modelRoles: {},
       openaiCompatibleApiKey: '',
       openaiCompatibleBaseUrl: '',
       openaiCompatibleModelId: '',
@@ -125,7 +139,17 @@ export function Options() {
       setOllamaModelId(result.ollamaModelId);
       setOllamaBaseUrl(result.ollamaBaseUrl || '');
       setOllamaCustomModels(result.ollamaCustomModels || []);
-      setThinkingBudgetTokens(result.thinkingBudgetTokens);
+      // The Anthropic thinking budget used to be a setting of its own
+      const reasoning: ReasoningSettings = result.reasoningSettings || {};
+      if (!reasoning.anthropic && result.thinkingBudgetTokens > 0) {
+        reasoning.anthropic = { effort: 'custom', budgetTokens: result.thinkingBudgetTokens };
+      }
+      setReasoningSettings(reasoning);
+      setContextReserveTokens(result.contextReserveTokens);
+      setMaxSteps(result.maxSteps);
+      setVerifyTasks(result.verifyTasks);
+      setFallbackModels(result.fallbackModels || []);
+      setModelRoles(result.modelRoles || {});
       setOpenaiCompatibleApiKey(result.openaiCompatibleApiKey || '');
       setOpenaiCompatibleBaseUrl(result.openaiCompatibleBaseUrl || '');
       setOpenaiCompatibleModelId(result.openaiCompatibleModelId || '');
@@ -153,7 +177,12 @@ export function Options() {
       ollamaModelId,
       ollamaBaseUrl,
       ollamaCustomModels,
-      thinkingBudgetTokens,
+      reasoningSettings,
+      contextReserveTokens,
+      maxSteps,
+      verifyTasks,
+      fallbackModels,
+      modelRoles,
       openaiCompatibleApiKey,
       openaiCompatibleBaseUrl,
       openaiCompatibleModelId,
@@ -181,7 +210,7 @@ export function Options() {
     
     const updatedModels = [...ollamaCustomModels, { ...newOllamaModel }];
     setOllamaCustomModels(updatedModels);
-    setNewOllamaModel({ id: '', name: '', contextWindow: 32768 });
+    setNewOllamaModel({ id: '', name: '', contextWindow: 32768, supportsImages: false });
     
     // Save changes immediately to update the model list
     chrome.storage.sync.set({ ollamaCustomModels: updatedModels });
@@ -235,8 +264,8 @@ export function Options() {
       setAnthropicApiKey={setAnthropicApiKey}
       anthropicBaseUrl={anthropicBaseUrl}
       setAnthropicBaseUrl={setAnthropicBaseUrl}
-      thinkingBudgetTokens={thinkingBudgetTokens}
-      setThinkingBudgetTokens={setThinkingBudgetTokens}
+      reasoningSettings={reasoningSettings}
+      setReasoningSettings={setReasoningSettings}
       // OpenAI settings
       openaiApiKey={openaiApiKey}
       setOpenaiApiKey={setOpenaiApiKey}
@@ -272,6 +301,17 @@ export function Options() {
       setOpenaiCompatibleModels={setOpenaiCompatibleModels}
       newModel={newModel}
       setNewModel={setNewModel}
+      // Agent settings
+      contextReserveTokens={contextReserveTokens}
+      setContextReserveTokens={setContextReserveTokens}
+      maxSteps={maxSteps}
+      setMaxSteps={setMaxSteps}
+      verifyTasks={verifyTasks}
+      setVerifyTasks={setVerifyTasks}
+      fallbackModels={fallbackModels}
+      setFallbackModels={setFallbackModels}
+      modelRoles={modelRoles}
+      setModelRoles={setModelRoles}
       // Save functionality
       isSaving={isSaving}
       saveStatus={saveStatus}
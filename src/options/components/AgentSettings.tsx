@@ -0,0 +1,86 @@
+import React from 'react';
+
+interface AgentSettingsProps {
+  contextReserveTokens: number;
+  setContextReserveTokens: (tokens: number) => void;
+  maxSteps: number;
+  setMaxSteps: (steps: number) => void;
+  verifyTasks: boolean;
+  setVerifyTasks: (verify: boolean) => void;
+}
+
+export function AgentSettings({
+  contextReserveTokens,
+  setContextReserveTokens,
+  maxSteps,
+  setMaxSteps,
+  verifyTasks,
+  setVerifyTasks
+}: AgentSettingsProps) {
+  return (
+    <div className="border rounded-lg p-4 mb-4">
+      <h3 className="font-bold mb-2">Agent Settings</h3>
+
+      <div className="form-control mb-4">
+        <label htmlFor="context-reserve" className="label">
+          <span className="label-text">Context Reserve (tokens):</span>
+        </label>
+        <input
+          type="number"
+          id="context-reserve"
+          value={contextReserveTokens}
+          onChange={(e) => setContextReserveTokens(parseInt(e.target.value) || 0)}
+          placeholder="8000"
+          className="input input-bordered w-full"
+          min="0"
+        />
+        <label className="label">
+          <span className="label-text-alt">
+            Tokens held back from the model's context window for the system prompt and tool definitions.
+            The rest of the window, minus the model's response, is used for the conversation history.
+          </span>
+        </label>
+      </div>
+
+      <div className="form-control mb-4">
+        <label htmlFor="max-steps" className="label">
+          <span className="label-text">Step Limit:</span>
+        </label>
+        <input
+          type="number"
+          id="max-steps"
+          value={maxSteps}
+          onChange={(e) => setMaxSteps(parseInt(e.target.value) || 0)}
+          placeholder="50"
+          className="input input-bordered w-full"
+          min="1"
+        />
+        <label className="label">
+          <span className="label-text-alt">
+            Steps (LLM calls) a task may take before the agent pauses and asks whether to continue.
+            Start a prompt with <code>/steps N</code> to set a different limit for that prompt.
+          </span>
+        </label>
+      </div>
+
+      <div className="form-control mb-4">
+        <label htmlFor="verify-tasks" className="label cursor-pointer justify-start gap-2">
+          <input
+            type="checkbox"
+            id="verify-tasks"
+            checked={verifyTasks}
+            onChange={(e) => setVerifyTasks(e.target.checked)}
+            className="checkbox"
+          />
+          <span className="label-text">Verify results</span>
+        </label>
+        <label className="label">
+          <span className="label-text-alt">
+            When the agent says it's done, look at the page again and check the result against your request
+            with a separate LLM call. If the check fails, the agent gets a few more steps to fix it.
+          </span>
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -5,17 +5,13 @@ interface AnthropicSettingsProps {
   setAnthropicApiKey: (key: string) => void;
   anthropicBaseUrl: string;
   setAnthropicBaseUrl: (url: string) => void;
-  thinkingBudgetTokens: number;
-  setThinkingBudgetTokens: (tokens: number) => void;
 }
 
 export function AnthropicSettings({
   anthropicApiKey,
   setAnthropicApiKey,
   anthropicBaseUrl,
-  setAnthropicBaseUrl,
-  thinkingBudgetTokens,
-  setThinkingBudgetTokens
+  setAnthropicBaseUrl
 }: AnthropicSettingsProps) {
   return (
     <div className="border rounded-lg p-4 mb-4">
@@ -48,24 +44,6 @@ export function AnthropicSettings({
           className="input input-bordered w-full"
         />
       </div>
-      
-      <div className="form-control mb-4">
-        <label htmlFor="thinking-budget" className="label">
-          <span className="label-text">Thinking Budget (tokens):</span>
-        </label>
-        <input
-          type="number"
-          id="thinking-budget"
-          value={thinkingBudgetTokens}
-          onChange={(e) => setThinkingBudgetTokens(parseInt(e.target.value) || 0)}
-          placeholder="0 to disable thinking"
-          className="input input-bordered w-full"
-          min="0"
-        />
-        <label className="label">
-          <span className="label-text-alt">Set to 0 to disable Claude's thinking feature</span>
-        </label>
-      </div>
     </div>
   );
 }
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import type { ModelChoice } from '../../background/configManager';
+import { anthropicModels, geminiModels, openaiModels } from '../../models/models';
+import { Model } from './ModelList';
+import { OllamaModel } from './OllamaModelList';
+
+interface FallbackModelsProps {
+  fallbackModels: ModelChoice[];
+  setFallbackModels: (models: ModelChoice[]) => void;
+  ollamaCustomModels: OllamaModel[];
+  openaiCompatibleModels: Model[];
+}
+
+export const PROVIDER_NAMES: Record<ModelChoice['provider'], string> = {
+  anthropic: 'Anthropic',
+  openai: 'OpenAI',
+  gemini: 'Google',
+  ollama: 'Ollama',
+  'openai-compatible': 'OpenAI Compatible',
+};
+
+/**
+ * List the models that can be picked for a provider
+ */
+export function listModels(
+  provider: ModelChoice['provider'],
+  ollamaCustomModels: OllamaModel[],
+  openaiCompatibleModels: Model[]
+): { id: string; name: string }[] {
+  switch (provider) {
+    case 'anthropic':
+      return Object.entries(anthropicModels).map(([id, model]) => ({ id, name: model.name }));
+    case 'openai':
+      return Object.entries(openaiModels).map(([id, model]) => ({ id, name: model.name }));
+    case 'gemini':
+      return Object.entries(geminiModels).map(([id, model]) => ({ id, name: model.name }));
+    case 'ollama':
+      return ollamaCustomModels;
+    case 'openai-compatible':
+      return openaiCompatibleModels;
+  }
+}
+
+export function FallbackModels({
+  fallbackModels,
+  setFallbackModels,
+  ollamaCustomModels,
+  openaiCompatibleModels
+}: FallbackModelsProps) {
+  const [newProvider, setNewProvider] = useState<ModelChoice['provider']>('anthropic');
+  const [newModelId, setNewModelId] = useState('');
+
+  const getModels = (provider: ModelChoice['provider']) =>
+    listModels(provider, ollamaCustomModels, openaiCompatibleModels);
+
+  const getModelName = ({ provider, modelId }: ModelChoice) =>
+    getModels(provider).find(model => model.id === modelId)?.name ?? modelId;
+
+  const handleAdd = () => {
+    if (!newModelId) return;
+    if (fallbackModels.some(m => m.provider === newProvider && m.modelId === newModelId)) return;
+    setFallbackModels([...fallbackModels, { provider: newProvider, modelId: newModelId }]);
+    setNewModelId('');
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= fallbackModels.length) return;
+    const updated = [...fallbackModels];
+    [updated[index], updated[target]] = [updated[target], updated[index]];
+    setFallbackModels(updated);
+  };
+
+  const handleRemove = (index: number) => {
+    setFallbackModels(fallbackModels.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="border rounded-lg p-4 mb-4">
+      <h3 className="font-bold mb-2">Fallback Models</h3>
+      <p className="text-sm mb-2">
+        If the selected model keeps failing because it is rate limited, overloaded, rejects the API key or can't be reached,
+        the task switches to the first model below and carries on with the same conversation, then to the next one, and so on.
+        Each provider uses the API key and base URL configured for it.
+      </p>
+
+      {fallbackModels.length > 0 && (
+        <ol className="mb-2">
+          {fallbackModels.map((model, i) => (
+            <li key={`${model.provider}|${model.modelId}`} className="flex items-center gap-2 py-1">
+              <span className="flex-grow">
+                {i + 1}. {PROVIDER_NAMES[model.provider]} - {getModelName(model)}
+              </span>
+              <button className="btn btn-xs" onClick={() => handleMove(i, -1)} disabled={i === 0} title="Move up">↑</button>
+              <button className="btn btn-xs" onClick={() => handleMove(i, 1)} disabled={i === fallbackModels.length - 1} title="Move down">↓</button>
+              <button className="btn btn-xs btn-error" onClick={() => handleRemove(i)}>Remove</button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="flex gap-2">
+        <select
+          className="select select-bordered select-sm"
+          value={newProvider}
+          onChange={(e) => {
+            setNewProvider(e.target.value as ModelChoice['provider']);
+            setNewModelId('');
+          }}
+        >
+          {Object.entries(PROVIDER_NAMES).map(([provider, name]) => (
+            <option key={provider} value={provider}>{name}</option>
+          ))}
+        </select>
+        <select
+          className="select select-bordered select-sm flex-grow"
+          value={newModelId}
+          onChange={(e) => setNewModelId(e.target.value)}
+        >
+          <option value="">Select a model</option>
+          {getModels(newProvider).map(model => (
+            <option key={model.id} value={model.id}>{model.name}</option>
+          ))}
+        </select>
+        <button className="btn btn-sm btn-primary" onClick={handleAdd} disabled={!newModelId}>
+          Add
+        </button>
+      </div>
+    </div>
+  );
+}
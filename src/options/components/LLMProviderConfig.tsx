@@ -1,4 +1,5 @@
 import React from 'react';
+import type { ReasoningSettings } from '../../background/configManager';
 import { Model } from './ModelList';
 import { OllamaModel } from './OllamaModelList';
 import { ProviderSelector } from './ProviderSelector';
@@ -15,8 +16,8 @@ interface LLMProviderConfigProps {
   setAnthropicApiKey: (key: string) => void;
   anthropicBaseUrl: string;
   setAnthropicBaseUrl: (url: string) => void;
-  thinkingBudgetTokens: number;
-  setThinkingBudgetTokens: (tokens: number) => void;
+  reasoningSettings: ReasoningSettings;
+  setReasoningSettings: (settings: ReasoningSettings) => void;
   
   // OpenAI settings
   openaiApiKey: string;
@@ -39,8 +40,8 @@ interface LLMProviderConfigProps {
   setOllamaModelId: (id: string) => void;
   ollamaCustomModels: OllamaModel[];
   setOllamaCustomModels: (models: OllamaModel[]) => void;
-  newOllamaModel: { id: string; name: string; contextWindow: number };
-  setNewOllamaModel: React.Dispatch<React.SetStateAction<{ id: string; name: string; contextWindow: number }>>;
+  newOllamaModel: { id: string; name: string; contextWindow: number; supportsImages: boolean };
+  setNewOllamaModel: React.Dispatch<React.SetStateAction<{ id: string; name: string; contextWindow: number; supportsImages: boolean }>>;
   handleAddOllamaModel: () => void;
   handleRemoveOllamaModel: (id: string) => void;
   handleEditOllamaModel: (idx: number, field: string, value: any) => void;
@@ -78,8 +79,8 @@ export function LLMProviderConfig({
   setAnthropicApiKey,
   anthropicBaseUrl,
   setAnthropicBaseUrl,
-  thinkingBudgetTokens,
-  setThinkingBudgetTokens,
+  reasoningSettings,
+  setReasoningSettings,
   
   // OpenAI settings
   openaiApiKey,
@@ -150,8 +151,8 @@ export function LLMProviderConfig({
           setAnthropicApiKey={setAnthropicApiKey}
           anthropicBaseUrl={anthropicBaseUrl}
           setAnthropicBaseUrl={setAnthropicBaseUrl}
-          thinkingBudgetTokens={thinkingBudgetTokens}
-          setThinkingBudgetTokens={setThinkingBudgetTokens}
+          reasoningSettings={reasoningSettings}
+          setReasoningSettings={setReasoningSettings}
           // OpenAI
           openaiApiKey={openaiApiKey}
           setOpenaiApiKey={setOpenaiApiKey}
@@ -0,0 +1,85 @@
+import React from 'react';
+import type { ModelChoice, ModelRole, ModelRoles as ModelRolesSetting } from '../../background/configManager';
+import { listModels, PROVIDER_NAMES } from './FallbackModels';
+import { Model } from './ModelList';
+import { OllamaModel } from './OllamaModelList';
+
+interface ModelRolesProps {
+  modelRoles: ModelRolesSetting;
+  setModelRoles: (roles: ModelRolesSetting) => void;
+  ollamaCustomModels: OllamaModel[];
+  openaiCompatibleModels: Model[];
+}
+
+const ROLES: { role: ModelRole; name: string; description: string }[] = [
+  { role: 'planner', name: 'Planner', description: 'The first step of a task, and the step after something went wrong' },
+  { role: 'executor', name: 'Executor', description: 'Routine steps, such as observing the page and calling tools' },
+  { role: 'reflection', name: 'Reflection', description: 'Reflecting on a session to save memories' },
+];
+
+export function ModelRoles({
+  modelRoles,
+  setModelRoles,
+  ollamaCustomModels,
+  openaiCompatibleModels
+}: ModelRolesProps) {
+  const setRole = (role: ModelRole, choice: ModelChoice | undefined) => {
+    const updated = { ...modelRoles };
+    if (choice) {
+      updated[role] = choice;
+    } else {
+      delete updated[role];
+    }
+    setModelRoles(updated);
+  };
+
+  return (
+    <div className="border rounded-lg p-4 mb-4">
+      <h3 className="font-bold mb-2">Models by Role</h3>
+      <p className="text-sm mb-2">
+        Use a different model for each kind of step, e.g. a cheaper model for routine steps.
+        Roles left on the selected model use whichever model is selected in the side panel.
+        Each provider uses the API key and base URL configured for it.
+      </p>
+
+      {ROLES.map(({ role, name, description }) => {
+        const choice = modelRoles[role];
+        return (
+          <div key={role} className="form-control mb-2">
+            <label className="label">
+              <span className="label-text">{name}</span>
+              <span className="label-text-alt">{description}</span>
+            </label>
+            <div className="flex gap-2">
+              <select
+                className="select select-bordered select-sm"
+                value={choice?.provider ?? ''}
+                onChange={(e) => setRole(
+                  role,
+                  e.target.value ? { provider: e.target.value as ModelChoice['provider'], modelId: '' } : undefined
+                )}
+              >
+                <option value="">Selected model</option>
+                {Object.entries(PROVIDER_NAMES).map(([provider, providerName]) => (
+                  <option key={provider} value={provider}>{providerName}</option>
+                ))}
+              </select>
+              {choice && (
+                <select
+                  className="select select-bordered select-sm flex-grow"
+                  value={choice.modelId}
+                  onChange={(e) => setRole(role, { provider: choice.provider, modelId: e.target.value })}
+                >
+                  <option value="">Select a model</option>
+                  {listModels(choice.provider, ollamaCustomModels, openaiCompatibleModels).map(model => (
+                    <option key={model.id} value={model.id}>{model.name}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -4,13 +4,14 @@ export interface OllamaModel {
   id: string;
   name: string;
   contextWindow: number;
+  supportsImages?: boolean;
 }
 
 interface OllamaModelListProps {
   models: OllamaModel[];
   setModels: (models: OllamaModel[]) => void;
-  newModel: { id: string; name: string; contextWindow: number };
-  setNewModel: React.Dispatch<React.SetStateAction<{ id: string; name: string; contextWindow: number }>>;
+  newModel: { id: string; name: string; contextWindow: number; supportsImages: boolean };
+  setNewModel: React.Dispatch<React.SetStateAction<{ id: string; name: string; contextWindow: number; supportsImages: boolean }>>;
   handleAddModel: () => void;
   handleRemoveModel: (id: string) => void;
   handleEditModel: (idx: number, field: string, value: any) => void;
@@ -39,6 +40,7 @@ export function OllamaModelList({
             <th>ID</th>
             <th>Name</th>
             <th>Context Window</th>
+            <th>Vision?</th>
             <th>Action</th>
           </tr>
         </thead>
@@ -69,6 +71,13 @@ export function OllamaModelList({
                   step="1000"
                 />
               </td>
+              <td>
+                <input
+                  type="checkbox"
+                  checked={!!model.supportsImages}
+                  onChange={e => handleEditModel(idx, 'supportsImages', e.target.checked)}
+                />
+              </td>
               <td>
                 <button className="btn btn-sm btn-error" onClick={() => handleRemoveModel(model.id)}>Delete</button>
               </td>
@@ -102,6 +111,13 @@ export function OllamaModelList({
                 step="1000"
               />
             </td>
+            <td>
+              <input
+                type="checkbox"
+                checked={newModel.supportsImages}
+                onChange={e => setNewModel({ ...newModel, supportsImages: e.target.checked })}
+              />
+            </td>
             <td>
               <button className="btn btn-sm btn-primary" onClick={handleAddModel}>Add</button>
             </td>
@@ -111,6 +127,7 @@ export function OllamaModelList({
       <div className="text-xs text-gray-500 mt-1">
         <p>Default context window: 32768. Adjust based on your hardware capabilities.</p>
         <p>If you're experiencing rate limit errors, try increasing the context window.</p>
+        <p>Tick Vision? for multimodal models such as llava or llama3.2-vision, so screenshots are sent to them.</p>
       </div>
     </div>
   );
@@ -10,8 +10,8 @@ interface OllamaSettingsProps {
   setOllamaModelId: (id: string) => void;
   ollamaCustomModels: OllamaModel[];
   setOllamaCustomModels: (models: OllamaModel[]) => void;
-  newOllamaModel: { id: string; name: string; contextWindow: number };
-  setNewOllamaModel: React.Dispatch<React.SetStateAction<{ id: string; name: string; contextWindow: number }>>;
+  newOllamaModel: { id: string; name: string; contextWindow: number; supportsImages: boolean };
+  setNewOllamaModel: React.Dispatch<React.SetStateAction<{ id: string; name: string; contextWindow: number; supportsImages: boolean }>>;
   handleAddOllamaModel: () => void;
   handleRemoveOllamaModel: (id: string) => void;
   handleEditOllamaModel: (idx: number, field: string, value: any) => void;
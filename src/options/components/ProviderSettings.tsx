@@ -1,4 +1,5 @@
 import React from 'react';
+import type { ReasoningSettings } from '../../background/configManager';
 import { AnthropicSettings } from './AnthropicSettings';
 import { GeminiSettings } from './GeminiSettings';
 import { Model } from './ModelList';
@@ -6,6 +7,7 @@ import { OllamaModel } from './OllamaModelList';
 import { OllamaSettings } from './OllamaSettings';
 import { OpenAICompatibleSettings } from './OpenAICompatibleSettings';
 import { OpenAISettings } from './OpenAISettings';
+import { ReasoningEffortSettings } from './ReasoningEffortSettings';
 
 interface ProviderSettingsProps {
   provider: string;
@@ -14,8 +16,8 @@ interface ProviderSettingsProps {
   setAnthropicApiKey: (key: string) => void;
   anthropicBaseUrl: string;
   setAnthropicBaseUrl: (url: string) => void;
-  thinkingBudgetTokens: number;
-  setThinkingBudgetTokens: (tokens: number) => void;
+  reasoningSettings: ReasoningSettings;
+  setReasoningSettings: (settings: ReasoningSettings) => void;
   
   // OpenAI settings
   openaiApiKey: string;
@@ -38,8 +40,8 @@ interface ProviderSettingsProps {
   setOllamaModelId: (id: string) => void;
   ollamaCustomModels: OllamaModel[];
   setOllamaCustomModels: (models: OllamaModel[]) => void;
-  newOllamaModel: { id: string; name: string; contextWindow: number };
-  setNewOllamaModel: React.Dispatch<React.SetStateAction<{ id: string; name: string; contextWindow: number }>>;
+  newOllamaModel: { id: string; name: string; contextWindow: number; supportsImages: boolean };
+  setNewOllamaModel: React.Dispatch<React.SetStateAction<{ id: string; name: string; contextWindow: number; supportsImages: boolean }>>;
   handleAddOllamaModel: () => void;
   handleRemoveOllamaModel: (id: string) => void;
   handleEditOllamaModel: (idx: number, field: string, value: any) => void;
@@ -67,8 +69,8 @@ export function ProviderSettings({
   setAnthropicApiKey,
   anthropicBaseUrl,
   setAnthropicBaseUrl,
-  thinkingBudgetTokens,
-  setThinkingBudgetTokens,
+  reasoningSettings,
+  setReasoningSettings,
   // OpenAI
   openaiApiKey,
   setOpenaiApiKey,
@@ -116,8 +118,6 @@ export function ProviderSettings({
           setAnthropicApiKey={setAnthropicApiKey}
           anthropicBaseUrl={anthropicBaseUrl}
           setAnthropicBaseUrl={setAnthropicBaseUrl}
-          thinkingBudgetTokens={thinkingBudgetTokens}
-          setThinkingBudgetTokens={setThinkingBudgetTokens}
         />
       )}
       
@@ -174,6 +174,15 @@ export function ProviderSettings({
           handleEditModel={handleEditModel}
         />
       )}
+      
+      {/* Ollama models think out loud without a setting */}
+      {provider !== 'ollama' && (
+        <ReasoningEffortSettings
+          provider={provider}
+          reasoning={reasoningSettings[provider as keyof ReasoningSettings]}
+          setReasoning={(reasoning) => setReasoningSettings({ ...reasoningSettings, [provider]: reasoning })}
+        />
+      )}
     </>
   );
 }
@@ -0,0 +1,82 @@
+import React from 'react';
+import { REASONING_BUDGETS } from '../../models/providers/reasoning';
+import type { ReasoningEffort, ReasoningSetting } from '../../models/providers/types';
+
+interface ReasoningEffortSettingsProps {
+  provider: string;
+  reasoning?: ReasoningSetting;
+  setReasoning: (reasoning: ReasoningSetting | undefined) => void;
+}
+
+// How each provider applies the setting
+const PROVIDER_NOTES: Record<string, string> = {
+  anthropic: 'Sets the thinking budget of Claude 3.7 and Claude 4 models.',
+  openai: 'Sets the reasoning effort of o-series and GPT-5 models. Custom budgets use the nearest effort level; GPT-5 models reason minimally when off.',
+  gemini: 'Sets the thinking budget of Gemini models that support thinking. Output is charged at the thinking rate while it is on.',
+  'openai-compatible': 'Sets the reasoning effort of models marked as reasoning models. Custom budgets use the nearest effort level.',
+};
+
+export function ReasoningEffortSettings({
+  provider,
+  reasoning,
+  setReasoning
+}: ReasoningEffortSettingsProps) {
+  const effort = reasoning?.effort || '';
+
+  const handleEffortChange = (value: string) => {
+    if (!value) {
+      setReasoning(undefined);
+    } else if (value === 'custom') {
+      setReasoning({ effort: 'custom', budgetTokens: reasoning?.budgetTokens || REASONING_BUDGETS.medium });
+    } else {
+      setReasoning({ effort: value as ReasoningEffort });
+    }
+  };
+
+  return (
+    <div className="border rounded-lg p-4 mb-4">
+      <h3 className="font-bold mb-2">Reasoning</h3>
+
+      <div className="form-control mb-4">
+        <label htmlFor="reasoning-effort" className="label">
+          <span className="label-text">Reasoning Effort:</span>
+        </label>
+        <select
+          id="reasoning-effort"
+          value={effort}
+          onChange={(e) => handleEffortChange(e.target.value)}
+          className="select select-bordered w-full"
+        >
+          <option value="">Model default</option>
+          <option value="off">Off</option>
+          <option value="low">Low ({REASONING_BUDGETS.low} tokens)</option>
+          <option value="medium">Medium ({REASONING_BUDGETS.medium} tokens)</option>
+          <option value="high">High ({REASONING_BUDGETS.high} tokens)</option>
+          <option value="custom">Custom budget</option>
+        </select>
+        <label className="label">
+          <span className="label-text-alt">{PROVIDER_NOTES[provider]}</span>
+        </label>
+      </div>
+
+      {effort === 'custom' && (
+        <div className="form-control mb-4">
+          <label htmlFor="reasoning-budget" className="label">
+            <span className="label-text">Thinking Budget (tokens):</span>
+          </label>
+          <input
+            type="number"
+            id="reasoning-budget"
+            value={reasoning?.budgetTokens || 0}
+            onChange={(e) => setReasoning({ effort: 'custom', budgetTokens: parseInt(e.target.value) || 0 })}
+            className="input input-bordered w-full"
+            min="0"
+          />
+          <label className="label">
+            <span className="label-text-alt">Models cap the budget at what they support</span>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
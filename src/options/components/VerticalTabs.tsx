@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import type { ModelChoice, ModelRoles, ReasoningSettings } from '../../background/configManager';
 import { GeneralTab } from './tabs/GeneralTab';
 import { ProvidersTab } from './tabs/ProvidersTab';
 import { MemoryTab } from './tabs/MemoryTab';
@@ -15,8 +16,8 @@ interface VerticalTabsProps {
   setAnthropicApiKey: (key: string) => void;
   anthropicBaseUrl: string;
   setAnthropicBaseUrl: (url: string) => void;
-  thinkingBudgetTokens: number;
-  setThinkingBudgetTokens: (tokens: number) => void;
+  reasoningSettings: ReasoningSettings;
+  setReasoningSettings: (settings: ReasoningSettings) => void;
   
   // OpenAI settings
   openaiApiKey: string;
@@ -39,8 +40,8 @@ interface VerticalTabsProps {
   setOllamaModelId: (id: string) => void;
   ollamaCustomModels: OllamaModel[];
   setOllamaCustomModels: (models: OllamaModel[]) => void;
-  newOllamaModel: { id: string; name: string; contextWindow: number };
-  setNewOllamaModel: React.Dispatch<React.SetStateAction<{ id: string; name: string; contextWindow: number }>>;
+  newOllamaModel: { id: string; name: string; contextWindow: number; supportsImages: boolean };
+  setNewOllamaModel: React.Dispatch<React.SetStateAction<{ id: string; name: string; contextWindow: number; supportsImages: boolean }>>;
   handleAddOllamaModel: () => void;
   handleRemoveOllamaModel: (id: string) => void;
   handleEditOllamaModel: (idx: number, field: string, value: any) => void;
@@ -57,6 +58,18 @@ interface VerticalTabsProps {
   newModel: { id: string; name: string; isReasoningModel: boolean };
   setNewModel: React.Dispatch<React.SetStateAction<{ id: string; name: string; isReasoningModel: boolean }>>;
   
+  // Agent settings
+  contextReserveTokens: number;
+  setContextReserveTokens: (tokens: number) => void;
+  maxSteps: number;
+  setMaxSteps: (steps: number) => void;
+  verifyTasks: boolean;
+  setVerifyTasks: (verify: boolean) => void;
+  fallbackModels: ModelChoice[];
+  setFallbackModels: (models: ModelChoice[]) => void;
+  modelRoles: ModelRoles;
+  setModelRoles: (roles: ModelRoles) => void;
+  
   // Save functionality
   isSaving: boolean;
   saveStatus: string;
@@ -93,8 +106,8 @@ export function VerticalTabs(props: VerticalTabsProps) {
             setAnthropicApiKey={props.setAnthropicApiKey}
             anthropicBaseUrl={props.anthropicBaseUrl}
             setAnthropicBaseUrl={props.setAnthropicBaseUrl}
-            thinkingBudgetTokens={props.thinkingBudgetTokens}
-            setThinkingBudgetTokens={props.setThinkingBudgetTokens}
+            reasoningSettings={props.reasoningSettings}
+            setReasoningSettings={props.setReasoningSettings}
             openaiApiKey={props.openaiApiKey}
             setOpenaiApiKey={props.setOpenaiApiKey}
             openaiBaseUrl={props.openaiBaseUrl}
@@ -126,6 +139,16 @@ export function VerticalTabs(props: VerticalTabsProps) {
             setOpenaiCompatibleModels={props.setOpenaiCompatibleModels}
             newModel={props.newModel}
             setNewModel={props.setNewModel}
+            contextReserveTokens={props.contextReserveTokens}
+            setContextReserveTokens={props.setContextReserveTokens}
+            maxSteps={props.maxSteps}
+            setMaxSteps={props.setMaxSteps}
+            verifyTasks={props.verifyTasks}
+            setVerifyTasks={props.setVerifyTasks}
+            fallbackModels={props.fallbackModels}
+            setFallbackModels={props.setFallbackModels}
+            modelRoles={props.modelRoles}
+            setModelRoles={props.setModelRoles}
             isSaving={props.isSaving}
             saveStatus={props.saveStatus}
             handleSave={props.handleSave}
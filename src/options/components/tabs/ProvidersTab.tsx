@@ -1,10 +1,14 @@
 import React from 'react';
+import type { ModelChoice, ModelRoles as ModelRolesSetting, ReasoningSettings } from '../../../background/configManager';
+import { AgentSettings } from '../AgentSettings';
+import { FallbackModels } from '../FallbackModels';
 import { Model } from '../ModelList';
+import { ModelPricingTable } from '../ModelPricingTable';
+import { ModelRoles } from '../ModelRoles';
 import { OllamaModel } from '../OllamaModelList';
 import { ProviderSelector } from '../ProviderSelector';
 import { ProviderSettings } from '../ProviderSettings';
 import { SaveButton } from '../SaveButton';
-import { ModelPricingTable } from '../ModelPricingTable';
 
 interface ProvidersTabProps {
   // Provider selection
@@ -16,8 +20,8 @@ interface ProvidersTabProps {
   setAnthropicApiKey: (key: string) => void;
   anthropicBaseUrl: string;
   setAnthropicBaseUrl: (url: string) => void;
-  thinkingBudgetTokens: number;
-  setThinkingBudgetTokens: (tokens: number) => void;
+  reasoningSettings: ReasoningSettings;
+  setReasoningSettings: (settings: ReasoningSettings) => void;
   
   // OpenAI settings
   openaiApiKey: string;
@@ -40,8 +44,8 @@ interface ProvidersTabProps {
   setOllamaModelId: (id: string) => void;
   ollamaCustomModels: OllamaModel[];
   setOllamaCustomModels: (models: OllamaModel[]) => void;
-  newOllamaModel: { id: string; name: string; contextWindow: number };
-  setNewOllamaModel: React.Dispatch<React.SetStateAction<{ id: string; name: string; contextWindow: number }>>;
+  newOllamaModel: { id: string; name: string; contextWindow: number; supportsImages: boolean };
+  setNewOllamaModel: React.Dispatch<React.SetStateAction<{ id: string; name: string; contextWindow: number; supportsImages: boolean }>>;
   handleAddOllamaModel: () => void;
   handleRemoveOllamaModel: (id: string) => void;
   handleEditOllamaModel: (idx: number, field: string, value: any) => void;
@@ -58,6 +62,18 @@ interface ProvidersTabProps {
   newModel: { id: string; name: string; isReasoningModel: boolean };
   setNewModel: React.Dispatch<React.SetStateAction<{ id: string; name: string; isReasoningModel: boolean }>>;
   
+  // Agent settings
+  contextReserveTokens: number;
+  setContextReserveTokens: (tokens: number) => void;
+  maxSteps: number;
+  setMaxSteps: (steps: number) => void;
+  verifyTasks: boolean;
+  setVerifyTasks: (verify: boolean) => void;
+  fallbackModels: ModelChoice[];
+  setFallbackModels: (models: ModelChoice[]) => void;
+  modelRoles: ModelRolesSetting;
+  setModelRoles: (roles: ModelRolesSetting) => void;
+  
   // Save functionality
   isSaving: boolean;
   saveStatus: string;
@@ -82,8 +98,8 @@ export function ProvidersTab({
   setAnthropicApiKey,
   anthropicBaseUrl,
   setAnthropicBaseUrl,
-  thinkingBudgetTokens,
-  setThinkingBudgetTokens,
+  reasoningSettings,
+  setReasoningSettings,
   
   // OpenAI settings
   openaiApiKey,
@@ -124,6 +140,18 @@ export function ProvidersTab({
   newModel,
   setNewModel,
   
+  // Agent settings
+  contextReserveTokens,
+  setContextReserveTokens,
+  maxSteps,
+  setMaxSteps,
+  verifyTasks,
+  setVerifyTasks,
+  fallbackModels,
+  setFallbackModels,
+  modelRoles,
+  setModelRoles,
+  
   // Save functionality
   isSaving,
   saveStatus,
@@ -158,8 +186,8 @@ export function ProvidersTab({
             setAnthropicApiKey={setAnthropicApiKey}
             anthropicBaseUrl={anthropicBaseUrl}
             setAnthropicBaseUrl={setAnthropicBaseUrl}
-            thinkingBudgetTokens={thinkingBudgetTokens}
-            setThinkingBudgetTokens={setThinkingBudgetTokens}
+            reasoningSettings={reasoningSettings}
+            setReasoningSettings={setReasoningSettings}
             // OpenAI
             openaiApiKey={openaiApiKey}
             setOpenaiApiKey={setOpenaiApiKey}
@@ -200,6 +228,32 @@ export function ProvidersTab({
             handleEditModel={handleEditModel}
           />
           
+          {/* Settings that apply to every provider */}
+          <AgentSettings
+            contextReserveTokens={contextReserveTokens}
+            setContextReserveTokens={setContextReserveTokens}
+            maxSteps={maxSteps}
+            setMaxSteps={setMaxSteps}
+            verifyTasks={verifyTasks}
+            setVerifyTasks={setVerifyTasks}
+          />
+          
+          {/* Models for particular kinds of steps */}
+          <ModelRoles
+            modelRoles={modelRoles}
+            setModelRoles={setModelRoles}
+            ollamaCustomModels={ollamaCustomModels}
+            openaiCompatibleModels={openaiCompatibleModels}
+          />
+          
+          {/* Models to switch to if the selected one keeps failing */}
+          <FallbackModels
+            fallbackModels={fallbackModels}
+            setFallbackModels={setFallbackModels}
+            ollamaCustomModels={ollamaCustomModels}
+            openaiCompatibleModels={openaiCompatibleModels}
+          />
+          
           <SaveButton 
             isSaving={isSaving}
             saveStatus={saveStatus}
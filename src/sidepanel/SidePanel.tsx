@@ -1,9 +1,16 @@
 import React, { useState, useEffect } from 'react';
+import type { PlannedAction } from '../agent/DryRun';
+import type { PlanStep } from '../agent/PlanManager';
 import { ConfigManager } from '../background/configManager';
 import { TokenTrackingService } from '../tracking/tokenTrackingService';
 import { ApprovalRequest } from './components/ApprovalRequest';
+import { DemonstrationRecorder } from './components/DemonstrationRecorder';
+import { DryRunReview } from './components/DryRunReview';
+import { InterruptedTask, InterruptedTaskInfo } from './components/InterruptedTask';
+import { MemoryReplay } from './components/MemoryReplay';
 import { MessageDisplay } from './components/MessageDisplay';
 import { OutputHeader } from './components/OutputHeader';
+import { PlanChecklist } from './components/PlanChecklist';
 import { PromptForm } from './components/PromptForm';
 import { ProviderSelector } from './components/ProviderSelector';
 import { TabStatusBar } from './components/TabStatusBar';
@@ -11,19 +18,35 @@ import { TokenUsageDisplay } from './components/TokenUsageDisplay';
 import { useChromeMessaging } from './hooks/useChromeMessaging';
 import { useMessageManagement } from './hooks/useMessageManagement';
 import { useTabManagement } from './hooks/useTabManagement';
+import { DryRunResult, PromptRunOptions } from './types';
 
 export function SidePanel() {
   // State for tab status
-  const [tabStatus, setTabStatus] = useState<'attached' | 'detached' | 'unknown' | 'running' | 'idle' | 'error'>('unknown');
+  const [tabStatus, setTabStatus] = useState<'attached' | 'detached' | 'unknown' | 'running' | 'paused' | 'idle' | 'error'>('unknown');
 
   // State for approval requests
   const [approvalRequests, setApprovalRequests] = useState<Array<{
     requestId: string;
+    kind: 'tool' | 'steps' | 'question';
     toolName: string;
     toolInput: string;
     reason: string;
+    options?: string[];
   }>>([]);
 
+  // The agent's plan for the current task
+  const [plan, setPlan] = useState<PlanStep[]>([]);
+
+  // Actions recorded by the last dry run, waiting to be reviewed
+  const [dryRunResult, setDryRunResult] = useState<DryRunResult | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+
+  // Fallback model the current task switched to, if the configured one kept failing
+  const [fallbackModel, setFallbackModel] = useState<string | null>(null);
+
+  // Task that was running when the extension was suspended, if any
+  const [interruptedTask, setInterruptedTask] = useState<InterruptedTaskInfo | null>(null);
+
   // State to track if any LLM providers are configured
   const [hasConfiguredProviders, setHasConfiguredProviders] = useState<boolean>(false);
 
@@ -111,13 +134,31 @@ export function SidePanel() {
     addSystemMessage(`❌ Rejected action: ${requestId}`);
   };
 
+  const handleAnswer = (requestId: string, answer: string) => {
+    // Send the answer to the background script
+    answerRequest(requestId, answer);
+    // Remove the question from the list
+    setApprovalRequests(prev => prev.filter(req => req.requestId !== requestId));
+    // Show the answer in the output
+    addSystemMessage(`💬 You answered: ${answer}`);
+  };
+
   // Set up Chrome messaging with callbacks
   const {
     executePrompt,
     cancelExecution,
+    pauseExecution,
+    resumeExecution,
+    getInterruptedTask,
+    resumeInterruptedTask,
+    discardInterruptedTask,
+    startRecording,
+    stopRecording,
+    exportPlaywright,
     clearHistory,
     approveRequest,
-    rejectRequest
+    rejectRequest,
+    answerRequest
   } = useChromeMessaging({
     tabId,
     windowId,
@@ -153,9 +194,18 @@ export function SidePanel() {
       // Update the tab status to running
       setTabStatus('running');
     },
+    onModelSwitched: (model) => {
+      setFallbackModel(model.name);
+    },
     onUpdateScreenshot: (content) => {
       addMessage({ ...content, isComplete: true });
     },
+    onUpdatePlan: (steps) => {
+      setPlan(steps);
+    },
+    onDryRunComplete: (result) => {
+      setDryRunResult(result);
+    },
     onProcessingComplete: () => {
       setIsProcessing(false);
       completeStreaming();
@@ -196,12 +246,12 @@ export function SidePanel() {
       console.log(`Agent status update: ${status}, lastHeartbeat: ${lastHeartbeat}, diff: ${Date.now() - lastHeartbeat}ms`);
 
       // Update the tab status based on agent status
-      if (status === 'running' || status === 'idle' || status === 'error') {
+      if (status === 'running' || status === 'paused' || status === 'idle' || status === 'error') {
         setTabStatus(status);
       }
 
-      // If agent is running, ensure UI is in processing mode
-      if (status === 'running') {
+      // If agent is running or paused, ensure UI is in processing mode
+      if (status === 'running' || status === 'paused') {
         setIsProcessing(true);
       }
 
@@ -213,16 +263,26 @@ export function SidePanel() {
   });
 
   // Handle form submission
-  const handleSubmit = async (prompt: string) => {
+  const handleSubmit = async (prompt: string, options: PromptRunOptions = {}) => {
     setIsProcessing(true);
     // Update the tab status to running
     setTabStatus('running');
+    // A new prompt replaces any dry run still waiting for review
+    setDryRunResult(null);
+    // and starts on the configured model again
+    setFallbackModel(null);
 
     // Add a system message to indicate a new prompt
-    addSystemMessage(`New prompt: "${prompt}"`);
+    const notes = [
+      options.dryRun && 'dry run',
+      options.followActions && `carrying out ${options.followActions.length} reviewed actions`,
+      options.outputSchema && 'result as JSON matching the output schema',
+      options.replay && `replaying ${options.replay.toolSequence.length} saved steps`
+    ].filter(Boolean);
+    addSystemMessage(`New prompt: "${prompt}"${notes.length > 0 ? ` (${notes.join(', ')})` : ''}`);
 
     try {
-      await executePrompt(prompt);
+      await executePrompt(prompt, options);
     } catch (error) {
       console.error('Error:', error);
       addSystemMessage('Error: ' + (error instanceof Error ? error.message : String(error)));
@@ -232,6 +292,12 @@ export function SidePanel() {
     }
   };
 
+  // Handle running the actions reviewed after a dry run for real
+  const handleRunDryRun = (actions: PlannedAction[]) => {
+    if (!dryRunResult) return;
+    handleSubmit(dryRunResult.prompt, { followActions: actions });
+  };
+
   // Handle cancellation - also reject any pending approval requests
   const handleCancel = () => {
     // If there are any pending approval requests, reject them all
@@ -255,10 +321,47 @@ export function SidePanel() {
     setTabStatus('idle');
   };
 
+  // Handle pausing - the agent stops before its next LLM call or tool call
+  const handlePause = () => {
+    pauseExecution();
+    setTabStatus('paused');
+  };
+
+  // Handle resuming, optionally with an extra instruction for the agent
+  const handleResume = (instruction: string) => {
+    if (instruction.trim()) {
+      addSystemMessage(`Added instruction: "${instruction.trim()}"`);
+    }
+    resumeExecution(instruction);
+    setTabStatus('running');
+  };
+
+  // Look for a task interrupted by the extension being suspended whenever the agent is idle
+  useEffect(() => {
+    if (!windowId || isProcessing) return;
+    getInterruptedTask().then(setInterruptedTask);
+  }, [windowId, isProcessing]);
+
+  // Handle resuming an interrupted task from its last completed step
+  const handleResumeInterruptedTask = () => {
+    setInterruptedTask(null);
+    setIsProcessing(true);
+    setTabStatus('running');
+    resumeInterruptedTask();
+  };
+
+  // Handle discarding an interrupted task
+  const handleDiscardInterruptedTask = () => {
+    setInterruptedTask(null);
+    discardInterruptedTask();
+  };
+
   // Handle clearing history
   const handleClearHistory = () => {
     clearMessages();
     clearHistory();
+    setPlan([]);
+    setDryRunResult(null);
 
     // Reset token tracking
     const tokenTracker = TokenTrackingService.getInstance();
@@ -277,6 +380,27 @@ export function SidePanel() {
     addSystemMessage("🧠 Reflecting on this session to learn useful patterns...");
   };
 
+  // Handle exporting the session's actions as a Playwright test
+  const handleExportPlaywright = async () => {
+    try {
+      const { spec, fileName } = await exportPlaywright();
+      const blob = new Blob([spec], { type: 'text/plain' });
+      const url = URL.createObjectURL(blob);
+
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      addSystemMessage(`📄 Exported this session as a Playwright test: ${fileName}`);
+    } catch (error) {
+      addSystemMessage(`❌ Could not export the session: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
   // Function to navigate to the options page
   const navigateToOptions = () => {
     chrome.runtime.openOptionsPage();
@@ -305,6 +429,7 @@ export function SidePanel() {
               <OutputHeader
                 onClearHistory={handleClearHistory}
                 onReflectAndLearn={handleReflectAndLearn}
+                onExportPlaywright={handleExportPlaywright}
                 isProcessing={isProcessing}
               />
               <div
@@ -320,29 +445,73 @@ export function SidePanel() {
             </div>
           </div>
 
+          {/* The agent's plan, checked off as steps complete */}
+          {plan.length > 0 && <PlanChecklist steps={plan} />}
+
           {/* Add Token Usage Display */}
           <TokenUsageDisplay />
 
+          {/* Offer to resume a task interrupted by the extension being suspended */}
+          {interruptedTask && !isProcessing && (
+            <InterruptedTask
+              task={interruptedTask}
+              onResume={handleResumeInterruptedTask}
+              onDiscard={handleDiscardInterruptedTask}
+            />
+          )}
+
+          {/* Review the actions of a dry run before running them for real */}
+          {dryRunResult && !isProcessing && (
+            <DryRunReview
+              result={dryRunResult}
+              onRun={handleRunDryRun}
+              onDiscard={() => setDryRunResult(null)}
+            />
+          )}
+
           {/* Display approval requests */}
           {approvalRequests.map(req => (
             <ApprovalRequest
               key={req.requestId}
               requestId={req.requestId}
+              kind={req.kind}
               toolName={req.toolName}
               toolInput={req.toolInput}
               reason={req.reason}
+              options={req.options}
               onApprove={handleApprove}
               onReject={handleReject}
+              onAnswer={handleAnswer}
             />
           ))}
 
-          <PromptForm
-            onSubmit={handleSubmit}
-            onCancel={handleCancel}
-            isProcessing={isProcessing}
-            tabStatus={tabStatus}
-          />
-          <ProviderSelector isProcessing={isProcessing} />
+          {/* Run steps saved for this site without the LLM, or record new ones by doing the task */}
+          {!isProcessing && tabStatus !== 'detached' && (
+            <div>
+              {!isRecording && (
+                <MemoryReplay tabId={tabId} onReplay={(prompt, replay) => handleSubmit(prompt, { replay })} />
+              )}
+              <DemonstrationRecorder
+                onStart={startRecording}
+                onStop={stopRecording}
+                onRecordingChange={setIsRecording}
+                onMessage={addSystemMessage}
+              />
+            </div>
+          )}
+
+          {/* The agent would act in the tab too, so prompts wait until the recording stops */}
+          {!isRecording && (
+            <PromptForm
+              onSubmit={handleSubmit}
+              onCancel={handleCancel}
+              onPause={handlePause}
+              onResume={handleResume}
+              isProcessing={isProcessing}
+              tabStatus={tabStatus}
+            />
+          )}
+          <ProviderSelector isProcessing={isProcessing} fallbackModel={fallbackModel} />
         </>
       ) : (
         <div className="flex flex-col flex-grow items-center justify-center">
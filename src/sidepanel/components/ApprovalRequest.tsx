@@ -1,22 +1,111 @@
-import React from 'react';
+import React, { useState } from 'react';
 
 interface ApprovalRequestProps {
   requestId: string;
+  kind?: 'tool' | 'steps' | 'question';
   toolName: string;
   toolInput: string;
   reason: string;
+  options?: string[];
   onApprove: (requestId: string) => void;
   onReject: (requestId: string) => void;
+  onAnswer?: (requestId: string, answer: string) => void;
 }
 
 export function ApprovalRequest({ 
   requestId, 
+  kind = 'tool',
   toolName, 
   toolInput, 
   reason, 
+  options,
   onApprove, 
-  onReject 
+  onReject,
+  onAnswer
 }: ApprovalRequestProps) {
+  const [answer, setAnswer] = useState('');
+
+  if (kind === 'question') {
+    const sendAnswer = (text: string) => {
+      if (text.trim() && onAnswer) {
+        onAnswer(requestId, text.trim());
+      }
+    };
+
+    return (
+      <div className="card bg-info text-info-content p-4 my-2">
+        <h3 className="font-bold">Question from the agent</h3>
+        <p className="whitespace-pre-wrap">{toolInput}</p>
+        {options && options.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-2">
+            {options.map(option => (
+              <button
+                key={option}
+                className="btn btn-sm"
+                onClick={() => sendAnswer(option)}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        )}
+        <form
+          className="flex gap-2 mt-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            sendAnswer(answer);
+          }}
+        >
+          <input
+            type="text"
+            className="input input-bordered input-sm flex-1 text-base-content"
+            value={answer}
+            onChange={(e) => setAnswer(e.target.value)}
+            placeholder="Type your answer..."
+          />
+        </form>
+        <div className="flex gap-2 justify-end mt-2">
+          <button 
+            className="btn btn-ghost" 
+            onClick={() => onReject(requestId)}
+          >
+            Skip
+          </button>
+          <button 
+            className="btn btn-success" 
+            onClick={() => sendAnswer(answer)}
+            disabled={!answer.trim()}
+          >
+            Send
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (kind === 'steps') {
+    return (
+      <div className="card bg-info text-info-content p-4 my-2">
+        <h3 className="font-bold">{toolName}</h3>
+        <p>{reason}</p>
+        <div className="flex gap-2 justify-end mt-2">
+          <button 
+            className="btn btn-error" 
+            onClick={() => onReject(requestId)}
+          >
+            Stop
+          </button>
+          <button 
+            className="btn btn-success" 
+            onClick={() => onApprove(requestId)}
+          >
+            Continue
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="card bg-warning text-warning-content p-4 my-2">
       <h3 className="font-bold">Approval Required</h3>
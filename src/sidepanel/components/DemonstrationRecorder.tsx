@@ -0,0 +1,141 @@
+import { faCircle, faStop } from '@fortawesome/free-solid-svg-icons';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import React, { useState } from 'react';
+import type { RecordedDemonstration } from '../../agent/Demonstration';
+import { normalizeDomain } from '../../tracking/domainUtils';
+import { MemoryService } from '../../tracking/memoryService';
+
+interface DemonstrationRecorderProps {
+  onStart: () => Promise<void>;
+  onStop: () => Promise<RecordedDemonstration>;
+  onRecordingChange: (isRecording: boolean) => void;
+  onMessage: (message: string) => void;
+}
+
+export function DemonstrationRecorder({ onStart, onStop, onRecordingChange, onMessage }: DemonstrationRecorderProps) {
+  const [isRecording, setIsRecording] = useState(false);
+  const [review, setReview] = useState<RecordedDemonstration | null>(null);
+  const [taskDescription, setTaskDescription] = useState('');
+  const [domain, setDomain] = useState('');
+  const [steps, setSteps] = useState('');
+  const [error, setError] = useState('');
+
+  const handleStart = async () => {
+    try {
+      await onStart();
+      setIsRecording(true);
+      setError('');
+      onRecordingChange(true);
+    } catch (err) {
+      setError(`Could not start recording: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleStop = async () => {
+    setIsRecording(false);
+    onRecordingChange(false);
+    try {
+      const recording = await onStop();
+      setReview(recording);
+      setDomain(recording.domain);
+      setSteps(recording.toolSequence.join('\n'));
+      setTaskDescription('');
+    } catch (err) {
+      setError(`Could not stop recording: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const toolSequence = steps.split('\n').map(line => line.trim()).filter(Boolean);
+  const canSave = taskDescription.trim() && domain.trim() && toolSequence.length > 0;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    try {
+      await MemoryService.getInstance().storeMemory({
+        domain: normalizeDomain(domain.trim()),
+        taskDescription: taskDescription.trim(),
+        toolSequence,
+        createdAt: Date.now()
+      });
+      onMessage(`💾 Saved ${toolSequence.length} recorded steps for "${taskDescription.trim()}" on ${normalizeDomain(domain.trim())}.`);
+      setReview(null);
+    } catch (err) {
+      setError(`Could not save the memory: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  if (isRecording) {
+    return (
+      <div className="alert alert-error mt-2 text-sm flex justify-between">
+        <span>
+          <FontAwesomeIcon icon={faCircle} className="animate-pulse" /> Recording your clicks, typing and navigation in this tab...
+        </span>
+        <button type="button" className="btn btn-sm" onClick={handleStop}>
+          <FontAwesomeIcon icon={faStop} /> Stop
+        </button>
+      </div>
+    );
+  }
+
+  if (review) {
+    return (
+      <div className="card bg-base-200 p-3 mt-2 text-sm">
+        <h3 className="font-bold">Review Recorded Steps</h3>
+        <input
+          type="text"
+          className="input input-bordered input-sm w-full mt-2"
+          placeholder="What does this do? e.g. Search for products"
+          value={taskDescription}
+          onChange={(e) => setTaskDescription(e.target.value)}
+        />
+        <input
+          type="text"
+          className="input input-bordered input-sm w-full mt-2"
+          placeholder="Site, e.g. amazon.co.uk"
+          value={domain}
+          onChange={(e) => setDomain(e.target.value)}
+        />
+        <textarea
+          className="textarea textarea-bordered w-full mt-2 font-mono text-xs"
+          rows={Math.min(Math.max(toolSequence.length, 3), 10)}
+          value={steps}
+          onChange={(e) => setSteps(e.target.value)}
+        />
+        <p className="text-xs opacity-70">
+          One step per line, as "tool | input". Replace values that change between runs with a placeholder such as [search term].
+        </p>
+        {review.unreplayable.length > 0 && (
+          <div className="alert alert-warning text-xs mt-2 block">
+            <p>Choices in drop-down lists can't be replayed, so these were left out of the steps. Mention them in the task description if the task needs them:</p>
+            <ul className="list-disc ml-4">
+              {review.unreplayable.map((action, i) => <li key={i}>{action}</li>)}
+            </ul>
+          </div>
+        )}
+        {error && <p className="text-xs text-error">{error}</p>}
+        <div className="flex gap-2 justify-end mt-2">
+          <button type="button" className="btn btn-sm btn-ghost" onClick={() => setReview(null)}>
+            Discard
+          </button>
+          <button type="button" className="btn btn-sm btn-primary" onClick={handleSave} disabled={!canSave}>
+            Save as memory
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <button
+        type="button"
+        className="btn btn-xs btn-ghost mt-2"
+        onClick={handleStart}
+        title="Show the agent how to do a task by doing it yourself"
+      >
+        <FontAwesomeIcon icon={faCircle} className="text-error" /> Record steps
+      </button>
+      {error && <p className="text-xs text-error">{error}</p>}
+    </>
+  );
+}
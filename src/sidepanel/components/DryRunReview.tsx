@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import type { PlannedAction } from '../../agent/DryRun';
+import { DryRunResult } from '../types';
+
+interface DryRunReviewProps {
+  result: DryRunResult;
+  onRun: (actions: PlannedAction[]) => void;
+  onDiscard: () => void;
+}
+
+export function DryRunReview({ result, onRun, onDiscard }: DryRunReviewProps) {
+  // Every action is selected to start with; unticked ones are left out of the real run
+  const [selected, setSelected] = useState<boolean[]>(() => result.actions.map(() => true));
+  const chosen = result.actions.filter((_, i) => selected[i]);
+
+  const toggle = (index: number) => {
+    setSelected(prev => prev.map((value, i) => (i === index ? !value : value)));
+  };
+
+  return (
+    <div className="card bg-base-200 p-4 my-2">
+      <h3 className="font-bold">Dry Run</h3>
+      <p className="text-sm">
+        {result.actions.length === 0
+          ? 'The agent didn\'t plan any actions that change the page.'
+          : `The agent would take ${result.actions.length} ${result.actions.length === 1 ? 'action' : 'actions'} for "${result.prompt}". Untick any you don't want, then run the task for real.`}
+      </p>
+      {result.actions.length > 0 && (
+        <ol className="bg-base-300 p-2 my-2 rounded text-xs max-h-60 overflow-auto">
+          {result.actions.map((action, i) => (
+            <li key={i} className="flex items-start gap-2 py-0.5">
+              <input
+                type="checkbox"
+                className="checkbox checkbox-xs mt-0.5"
+                checked={selected[i]}
+                onChange={() => toggle(i)}
+              />
+              <span className={selected[i] ? '' : 'line-through opacity-60'}>
+                {i + 1}. <strong>{action.toolName}</strong> <span className="font-mono break-all">{action.toolInput}</span>
+                {action.requiresApproval && <span className="badge badge-warning badge-xs ml-1">needs approval</span>}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+      <div className="flex gap-2 justify-end mt-2">
+        <button className="btn btn-ghost" onClick={onDiscard}>
+          Dismiss
+        </button>
+        {result.actions.length > 0 && (
+          <button className="btn btn-success" onClick={() => onRun(chosen)} disabled={chosen.length === 0}>
+            Run for real
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
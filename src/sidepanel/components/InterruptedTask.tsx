@@ -0,0 +1,50 @@
+import React from 'react';
+
+export interface InterruptedTaskInfo {
+  prompt: string;
+  step: number;
+  pendingApproval?: {
+    kind: 'tool' | 'steps' | 'question';
+    toolName: string;
+    toolInput: string;
+  };
+  updatedAt: number;
+}
+
+interface InterruptedTaskProps {
+  task: InterruptedTaskInfo;
+  onResume: () => void;
+  onDiscard: () => void;
+}
+
+export function InterruptedTask({ task, onResume, onDiscard }: InterruptedTaskProps) {
+  return (
+    <div className="card bg-info text-info-content p-4 my-2">
+      <h3 className="font-bold">Interrupted Task</h3>
+      <p>
+        This task stopped when the extension was suspended, after {task.step} {task.step === 1 ? 'step' : 'steps'} ({new Date(task.updatedAt).toLocaleTimeString()}):
+      </p>
+      <div className="bg-base-300 text-base-content p-2 my-2 rounded">
+        <p>{task.prompt}</p>
+        {task.pendingApproval && (
+          <p className="mt-1">
+            <strong>{task.pendingApproval.kind === 'question' ? 'Was waiting for your answer:' : 'Was waiting for approval:'}</strong>{' '}
+            {task.pendingApproval.kind === 'steps'
+              ? 'more steps'
+              : task.pendingApproval.kind === 'question'
+                ? task.pendingApproval.toolInput
+                : `${task.pendingApproval.toolName} ${task.pendingApproval.toolInput}`}
+          </p>
+        )}
+      </div>
+      <div className="flex gap-2 justify-end mt-2">
+        <button className="btn btn-ghost" onClick={onDiscard}>
+          Discard
+        </button>
+        <button className="btn btn-success" onClick={onResume}>
+          Resume
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { faRotateRight } from '@fortawesome/free-solid-svg-icons';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import React, { useEffect, useState } from 'react';
+import { MacroReplay, findPlaceholders } from '../../agent/MacroReplay';
+import { AgentMemory, MemoryService } from '../../tracking/memoryService';
+
+interface MemoryReplayProps {
+  tabId: number | null;
+  onReplay: (prompt: string, replay: MacroReplay) => void;
+}
+
+export function MemoryReplay({ tabId, onReplay }: MemoryReplayProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [memories, setMemories] = useState<AgentMemory[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [parameters, setParameters] = useState<Record<string, string>>({});
+  const [error, setError] = useState('');
+
+  // Load the memories saved for the tab's site whenever the picker is opened
+  useEffect(() => {
+    if (!isOpen || !tabId) return;
+
+    const loadMemories = async () => {
+      try {
+        const tab = await chrome.tabs.get(tabId);
+        const domain = tab.url ? new URL(tab.url).hostname : '';
+        const found = domain ? await MemoryService.getInstance().getMemoriesByDomain(domain) : [];
+        setMemories(found);
+        setSelectedId(found[0]?.id ?? null);
+        setError(found.length === 0 ? 'No saved steps for this site yet.' : '');
+      } catch (err) {
+        setMemories([]);
+        setError(`Could not load saved steps: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    };
+
+    loadMemories();
+  }, [isOpen, tabId]);
+
+  const memory = memories.find(m => m.id === selectedId);
+  const placeholders = memory ? findPlaceholders(memory.toolSequence) : [];
+  const isComplete = placeholders.every(name => parameters[name]?.trim());
+
+  const handleReplay = () => {
+    if (!memory || !isComplete) return;
+    const values = placeholders.map(name => parameters[name].trim());
+    onReplay(
+      values.length > 0 ? `${memory.taskDescription} (${values.join(', ')})` : memory.taskDescription,
+      { taskDescription: memory.taskDescription, toolSequence: memory.toolSequence, parameters }
+    );
+    setIsOpen(false);
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        className="btn btn-xs btn-ghost mt-2"
+        onClick={() => setIsOpen(true)}
+        title="Run steps saved for this site directly, without the LLM"
+      >
+        <FontAwesomeIcon icon={faRotateRight} /> Replay saved steps
+      </button>
+    );
+  }
+
+  return (
+    <div className="card bg-base-200 p-3 mt-2 text-sm">
+      <h3 className="font-bold">Replay Saved Steps</h3>
+      {error ? (
+        <p className="text-xs opacity-70">{error}</p>
+      ) : (
+        <>
+          <select
+            className="select select-bordered select-sm w-full mt-2"
+            value={selectedId ?? ''}
+            onChange={(e) => {
+              setSelectedId(Number(e.target.value));
+              setParameters({});
+            }}
+          >
+            {memories.map(m => (
+              <option key={m.id} value={m.id}>{m.taskDescription}</option>
+            ))}
+          </select>
+          {memory && (
+            <ol className="bg-base-300 p-2 my-2 rounded text-xs max-h-40 overflow-auto font-mono break-all">
+              {memory.toolSequence.map((line, i) => (
+                <li key={i}>{i + 1}. {line}</li>
+              ))}
+            </ol>
+          )}
+          {placeholders.map(name => (
+            <input
+              key={name}
+              type="text"
+              className="input input-bordered input-sm w-full mb-1"
+              placeholder={name}
+              value={parameters[name] ?? ''}
+              onChange={(e) => setParameters({ ...parameters, [name]: e.target.value })}
+            />
+          ))}
+          <p className="text-xs opacity-70">
+            The steps run without the LLM; if one fails, the agent takes over from there.
+          </p>
+        </>
+      )}
+      <div className="flex gap-2 justify-end mt-2">
+        <button type="button" className="btn btn-sm btn-ghost" onClick={() => setIsOpen(false)}>
+          Close
+        </button>
+        {!error && (
+          <button type="button" className="btn btn-sm btn-primary" onClick={handleReplay} disabled={!memory || !isComplete}>
+            Replay
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 import React from 'react';
 import { Message } from '../types';
 import { LlmContent } from './LlmContent';
+import { ReasoningMessage } from './ReasoningMessage';
 import { ScreenshotMessage } from './ScreenshotMessage';
+import { StructuredOutputMessage } from './StructuredOutputMessage';
 
 interface MessageDisplayProps {
   messages: Message[];
@@ -32,6 +34,10 @@ export const MessageDisplay: React.FC<MessageDisplayProps> = ({
             </div>
           ) : msg.type === 'screenshot' && msg.imageData ? (
             <ScreenshotMessage imageData={msg.imageData} mediaType={msg.mediaType} />
+          ) : msg.type === 'structured' ? (
+            <StructuredOutputMessage json={msg.content} />
+          ) : msg.type === 'reasoning' ? (
+            <ReasoningMessage content={msg.content} />
           ) : (
             <LlmContent content={msg.content} />
           )}
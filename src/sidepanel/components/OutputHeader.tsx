@@ -1,16 +1,18 @@
-import { faTrash, faBrain } from '@fortawesome/free-solid-svg-icons';
+import { faTrash, faBrain, faFileCode } from '@fortawesome/free-solid-svg-icons';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import React from 'react';
 
 interface OutputHeaderProps {
   onClearHistory: () => void;
   onReflectAndLearn: () => void;
+  onExportPlaywright: () => void;
   isProcessing: boolean;
 }
 
 export const OutputHeader: React.FC<OutputHeaderProps> = ({
   onClearHistory,
   onReflectAndLearn,
+  onExportPlaywright,
   isProcessing
 }) => {
   return (
@@ -28,6 +30,15 @@ export const OutputHeader: React.FC<OutputHeaderProps> = ({
             <FontAwesomeIcon icon={faBrain} />
           </button>
         </div>
+        <div className="tooltip tooltip-bottom" data-tip="Export this session as a Playwright test">
+          <button 
+            onClick={onExportPlaywright}
+            className="btn btn-sm btn-outline"
+            disabled={isProcessing}
+          >
+            <FontAwesomeIcon icon={faFileCode} />
+          </button>
+        </div>
         <div className="tooltip tooltip-bottom" data-tip="Clear conversation history and LLM context">
           <button 
             onClick={onClearHistory}
@@ -0,0 +1,43 @@
+import { faCheck, faCircle, faForward, faSpinner, faXmark } from '@fortawesome/free-solid-svg-icons';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import React from 'react';
+import type { PlanStep, PlanStepStatus } from '../../agent/PlanManager';
+
+interface PlanChecklistProps {
+  steps: PlanStep[];
+}
+
+const STATUS_ICONS: Record<PlanStepStatus, { icon: typeof faCheck; className: string; spin?: boolean }> = {
+  pending: { icon: faCircle, className: 'text-base-300' },
+  in_progress: { icon: faSpinner, className: 'text-primary', spin: true },
+  done: { icon: faCheck, className: 'text-success' },
+  failed: { icon: faXmark, className: 'text-error' },
+  skipped: { icon: faForward, className: 'text-base-content/50' }
+};
+
+export function PlanChecklist({ steps }: PlanChecklistProps) {
+  const completed = steps.filter(step => step.status === 'done' || step.status === 'skipped').length;
+
+  return (
+    <div className="card bg-base-100 shadow-sm p-3 mt-2 text-xs">
+      <div className="flex justify-between items-center mb-1">
+        <span className="font-medium">Plan</span>
+        <span>{completed}/{steps.length}</span>
+      </div>
+      <ol className="max-h-40 overflow-auto">
+        {steps.map((step, i) => {
+          const { icon, className, spin } = STATUS_ICONS[step.status];
+          return (
+            <li key={i} className="flex items-start gap-2 py-0.5">
+              <FontAwesomeIcon icon={icon} spin={spin} className={`${className} mt-0.5 w-3`} />
+              <span className={step.status === 'done' || step.status === 'skipped' ? 'line-through opacity-60' : ''}>
+                {i + 1}. {step.title}
+                {step.note && <span className="opacity-60"> — {step.note}</span>}
+              </span>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -1,27 +1,62 @@
-import { faPaperPlane, faXmark } from '@fortawesome/free-solid-svg-icons';
+import { faCode, faPaperPlane, faPause, faPlay, faXmark } from '@fortawesome/free-solid-svg-icons';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import React, { useState } from 'react';
 import TextareaAutosize from 'react-textarea-autosize';
+import { PromptRunOptions } from '../types';
 
 interface PromptFormProps {
-  onSubmit: (prompt: string) => void;
+  onSubmit: (prompt: string, options: PromptRunOptions) => void;
   onCancel: () => void;
+  onPause: () => void;
+  onResume: (instruction: string) => void;
   isProcessing: boolean;
-  tabStatus: 'attached' | 'detached' | 'unknown' | 'running' | 'idle' | 'error';
+  tabStatus: 'attached' | 'detached' | 'unknown' | 'running' | 'paused' | 'idle' | 'error';
 }
 
 export const PromptForm: React.FC<PromptFormProps> = ({
   onSubmit,
   onCancel,
+  onPause,
+  onResume,
   isProcessing,
   tabStatus
 }) => {
   const [prompt, setPrompt] = useState('');
+  // Optional JSON Schema the result must match, kept between prompts
+  const [showSchema, setShowSchema] = useState(false);
+  const [schemaText, setSchemaText] = useState('');
+  const [schemaError, setSchemaError] = useState('');
+  // Record actions that would change the page instead of taking them
+  const [dryRun, setDryRun] = useState(false);
+  const isPaused = isProcessing && tabStatus === 'paused';
+
+  // Read the output schema, if one was entered
+  const parseSchema = (): { schema?: Record<string, any>; error?: string } => {
+    if (!showSchema || !schemaText.trim()) return {};
+    try {
+      const schema = JSON.parse(schemaText);
+      if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+        return { error: 'The output schema must be a JSON object.' };
+      }
+      return { schema };
+    } catch (error) {
+      return { error: `The output schema is not valid JSON: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (isPaused) {
+      // While paused, the input holds an optional extra instruction for the agent
+      onResume(prompt);
+      setPrompt('');
+      return;
+    }
     if (!prompt.trim() || isProcessing || tabStatus === 'detached') return;
-    onSubmit(prompt);
+    const { schema, error } = parseSchema();
+    setSchemaError(error ?? '');
+    if (error) return;
+    onSubmit(prompt, { outputSchema: schema, dryRun: dryRun || undefined });
     setPrompt(''); // Clear the prompt after submission
   };
 
@@ -29,7 +64,7 @@ export const PromptForm: React.FC<PromptFormProps> = ({
     <form onSubmit={handleSubmit} className="mt-4 relative">
       <div className="w-full">
         <TextareaAutosize
-          className="textarea textarea-bordered w-full pr-12"
+          className={`textarea textarea-bordered w-full ${isProcessing ? 'pr-20' : 'pr-12'}`}
           value={prompt}
           onChange={(e) => setPrompt(e.target.value)}
           onKeyDown={(e) => {
@@ -42,9 +77,11 @@ export const PromptForm: React.FC<PromptFormProps> = ({
           }}
           placeholder={tabStatus === 'detached' 
             ? "Tab connection lost. Please refresh the tab to continue." 
-            : "Type a message..."}
+            : isPaused
+              ? "Paused. Add an instruction (optional) and resume..."
+              : "Type a message..."}
           autoFocus
-          disabled={isProcessing || tabStatus === 'detached'}
+          disabled={(isProcessing && !isPaused) || tabStatus === 'detached'}
           minRows={1}
           maxRows={10}
           style={{ 
@@ -55,15 +92,37 @@ export const PromptForm: React.FC<PromptFormProps> = ({
           } as any}
         />
         {isProcessing ? (
-          <button 
-            type="button" 
-            onClick={onCancel}
-            className="btn btn-sm btn-circle btn-error absolute"
-            style={{ bottom: '5px', right: '5px' }}
-            title="Cancel"
-          >
-            <FontAwesomeIcon icon={faXmark} />
-          </button>
+          <>
+            {isPaused ? (
+              <button 
+                type="submit" 
+                className="btn btn-sm btn-circle btn-primary absolute"
+                style={{ bottom: '5px', right: '40px' }}
+                title="Resume"
+              >
+                <FontAwesomeIcon icon={faPlay} />
+              </button>
+            ) : (
+              <button 
+                type="button" 
+                onClick={onPause}
+                className="btn btn-sm btn-circle btn-warning absolute"
+                style={{ bottom: '5px', right: '40px' }}
+                title="Pause"
+              >
+                <FontAwesomeIcon icon={faPause} />
+              </button>
+            )}
+            <button 
+              type="button" 
+              onClick={onCancel}
+              className="btn btn-sm btn-circle btn-error absolute"
+              style={{ bottom: '5px', right: '5px' }}
+              title="Cancel"
+            >
+              <FontAwesomeIcon icon={faXmark} />
+            </button>
+          </>
         ) : (
           <button 
             type="submit" 
@@ -76,6 +135,45 @@ export const PromptForm: React.FC<PromptFormProps> = ({
           </button>
         )}
       </div>
+      {showSchema && (
+        <div className="mt-2">
+          <TextareaAutosize
+            className="textarea textarea-bordered w-full font-mono text-xs"
+            value={schemaText}
+            onChange={(e) => setSchemaText(e.target.value)}
+            placeholder='JSON Schema for the result, e.g. {"type": "object", "properties": {"price": {"type": "number"}}, "required": ["price"]}'
+            disabled={isProcessing}
+            minRows={3}
+            maxRows={12}
+            style={{ resize: 'none' } as any}
+          />
+          {schemaError && <p className="text-error text-xs mt-1">{schemaError}</p>}
+        </div>
+      )}
+      {!isProcessing && (
+        <div className="flex items-center gap-2 mt-1">
+          <button
+            type="button"
+            className="btn btn-xs btn-ghost"
+            onClick={() => {
+              setShowSchema(!showSchema);
+              setSchemaError('');
+            }}
+            title="Ask for the result as JSON matching a schema"
+          >
+            <FontAwesomeIcon icon={faCode} /> {showSchema ? 'Remove output schema' : 'Add output schema'}
+          </button>
+          <label className="label cursor-pointer gap-1 text-xs" title="Plan the task without clicking, typing or navigating, then review the actions">
+            <input
+              type="checkbox"
+              className="toggle toggle-xs"
+              checked={dryRun}
+              onChange={(e) => setDryRun(e.target.checked)}
+            />
+            Dry run
+          </label>
+        </div>
+      )}
     </form>
   );
 };
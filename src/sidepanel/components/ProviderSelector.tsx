@@ -12,9 +12,10 @@ interface ProviderOption {
 
 interface ProviderSelectorProps {
   isProcessing: boolean;
+  fallbackModel?: string | null;  // the model the last task switched to, if any
 }
 
-export function ProviderSelector({ isProcessing }: ProviderSelectorProps) {
+export function ProviderSelector({ isProcessing, fallbackModel }: ProviderSelectorProps) {
   const [options, setOptions] = useState<ProviderOption[]>([]);
   const [currentProvider, setCurrentProvider] = useState<string>('');
   const [currentModel, setCurrentModel] = useState<string>('');
@@ -165,6 +166,14 @@ export function ProviderSelector({ isProcessing }: ProviderSelectorProps) {
             ))
           ))}
         </select>
+        {fallbackModel && (
+          <span
+            className="badge badge-warning badge-sm ml-1 whitespace-nowrap"
+            title="The selected model kept failing, so the task switched to a fallback model"
+          >
+            Using {fallbackModel}
+          </span>
+        )}
       </div>
       <button 
         className="btn btn-ghost btn-xs p-1" 
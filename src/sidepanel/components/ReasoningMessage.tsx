@@ -0,0 +1,21 @@
+import { faBrain } from '@fortawesome/free-solid-svg-icons';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import React from 'react';
+
+interface ReasoningMessageProps {
+  content: string;
+}
+
+export const ReasoningMessage: React.FC<ReasoningMessageProps> = ({ content }) => {
+  return (
+    <div className="collapse collapse-arrow bg-base-200 rounded text-sm">
+      <input type="checkbox" aria-label="Show thinking" />
+      <div className="collapse-title min-h-0 py-1 text-gray-500">
+        <FontAwesomeIcon icon={faBrain} className="mr-1" /> Thinking
+      </div>
+      <div className="collapse-content text-gray-500 whitespace-pre-wrap">
+        {content}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import { faCheck, faCopy, faDownload } from '@fortawesome/free-solid-svg-icons';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import React, { useState } from 'react';
+
+interface StructuredOutputMessageProps {
+  json: string;
+}
+
+export const StructuredOutputMessage: React.FC<StructuredOutputMessageProps> = ({ json }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(json);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying the result:', error);
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([json], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `browserbee-result-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="card bg-base-100 shadow-sm p-3 my-2">
+      <div className="flex justify-between items-center mb-1">
+        <span className="text-sm font-medium">Result</span>
+        <div className="flex gap-1">
+          <button className="btn btn-xs btn-ghost" onClick={handleCopy} title="Copy JSON">
+            <FontAwesomeIcon icon={copied ? faCheck : faCopy} />
+          </button>
+          <button className="btn btn-xs btn-ghost" onClick={handleDownload} title="Download JSON">
+            <FontAwesomeIcon icon={faDownload} />
+          </button>
+        </div>
+      </div>
+      <pre className="text-xs bg-base-200 rounded p-2 overflow-auto max-h-80">{json}</pre>
+    </div>
+  );
+};
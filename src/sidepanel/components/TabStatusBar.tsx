@@ -5,7 +5,7 @@ import React, { useState, useEffect } from 'react';
 interface TabStatusBarProps {
   tabId: number | null;
   tabTitle: string;
-  tabStatus: 'attached' | 'detached' | 'unknown' | 'running' | 'idle' | 'error';
+  tabStatus: 'attached' | 'detached' | 'unknown' | 'running' | 'paused' | 'idle' | 'error';
 }
 
 export const TabStatusBar: React.FC<TabStatusBarProps> = ({
@@ -100,12 +100,14 @@ export const TabStatusBar: React.FC<TabStatusBarProps> = ({
           tabStatus === 'attached' ? 'bg-green-500 animate-pulse' : 
           tabStatus === 'detached' ? 'bg-red-500' : 
           tabStatus === 'running' ? 'bg-blue-500 animate-pulse' :
+          tabStatus === 'paused' ? 'bg-blue-500' :
           tabStatus === 'idle' ? 'bg-green-500' :
           tabStatus === 'error' ? 'bg-red-500 animate-pulse' : 'bg-yellow-500'
         }`} title={
           tabStatus === 'attached' ? 'Connected' : 
           tabStatus === 'detached' ? 'Disconnected' : 
           tabStatus === 'running' ? 'Agent Running' :
+          tabStatus === 'paused' ? 'Agent Paused' :
           tabStatus === 'idle' ? 'Agent Idle' :
           tabStatus === 'error' ? 'Agent Error' : 'Unknown'
         }></div>
@@ -2,6 +2,7 @@ import { faArrowUp, faArrowDown } from '@fortawesome/free-solid-svg-icons';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import { useEffect, useState } from 'react';
 import { ConfigManager, ProviderConfig } from '../../background/configManager';
+import { resolveReasoning } from '../../models/providers/reasoning';
 import { TokenTrackingService, TokenUsage } from '../../tracking/tokenTrackingService';
 
 // Helper function to format token counts
@@ -35,7 +36,7 @@ export function TokenUsageDisplay() {
     configManager.getProviderConfig().then(config => {
       setProviderConfig(config);
       // Update token tracker with current provider and model
-      tokenTracker.updateProviderAndModel(config.provider, config.apiModelId || '');
+      tokenTracker.updateProviderAndModel(config.provider, config.apiModelId || '', undefined, resolveReasoning(config));
     });
 
     // Listen for messages from the background script
@@ -106,6 +107,13 @@ export function TokenUsageDisplay() {
         <span className="font-medium">Estimated Cost:</span>
         <span>${usage.cost.toFixed(6)}</span>
       </div>
+      {/* Cost of each model, when steps went to more than one */}
+      {usage.byModel && usage.byModel.length > 1 && usage.byModel.map(model => (
+        <div key={model.modelId} className="flex justify-between mt-1 opacity-70">
+          <span>{model.name}</span>
+          <span>${model.cost.toFixed(6)}</span>
+        </div>
+      ))}
     </div>
   );
 }
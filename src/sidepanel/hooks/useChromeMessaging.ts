@@ -1,5 +1,7 @@
 import { useEffect } from 'react';
-import { ChromeMessage } from '../types';
+import type { RecordedDemonstration } from '../../agent/Demonstration';
+import type { PlanStep } from '../../agent/PlanManager';
+import { ChromeMessage, DryRunResult, PromptRunOptions } from '../types';
 
 interface UseChromeMessagingProps {
   tabId: number | null;
@@ -12,9 +14,12 @@ interface UseChromeMessagingProps {
   onUpdateLlmOutput: (content: string) => void;
   onRateLimit: () => void;
   onFallbackStarted: (message: string) => void;
+  onModelSwitched?: (model: { id: string; name: string }) => void;
   onUpdateScreenshot: (content: any) => void;
+  onUpdatePlan?: (plan: PlanStep[]) => void;
+  onDryRunComplete?: (result: DryRunResult) => void;
   onProcessingComplete: () => void;
-  onRequestApproval?: (request: { requestId: string, toolName: string, toolInput: string, reason: string }) => void;
+  onRequestApproval?: (request: { requestId: string, kind: 'tool' | 'steps' | 'question', toolName: string, toolInput: string, reason: string, options?: string[] }) => void;
   setTabTitle: (title: string) => void;
   onTabStatusChanged?: (status: 'attached' | 'detached' | 'running' | 'idle' | 'error', tabId: number) => void;
   onTargetCreated?: (tabId: number, targetInfo: any) => void;
@@ -38,7 +43,10 @@ export const useChromeMessaging = ({
   onUpdateLlmOutput,
   onRateLimit,
   onFallbackStarted,
+  onModelSwitched,
   onUpdateScreenshot,
+  onUpdatePlan,
+  onDryRunComplete,
   onProcessingComplete,
   onRequestApproval,
   setTabTitle,
@@ -102,9 +110,24 @@ export const useChromeMessaging = ({
       } else if (message.action === 'fallbackStarted') {
         // Handle fallback notification
         onFallbackStarted(message.content?.message || "Switching to fallback mode. Processing continues...");
+      } else if (message.action === 'modelSwitched' && onModelSwitched && message.content) {
+        // The task carries on with a fallback model
+        onModelSwitched(message.content);
       } else if (message.action === 'updateScreenshot') {
         // Handle screenshot messages
         onUpdateScreenshot(message.content);
+      } else if (message.action === 'updateStructuredOutput') {
+        // A validated structured result is shown like any other output message
+        onUpdateOutput(message.content);
+      } else if (message.action === 'updateReasoning') {
+        // The model's thinking for a step, shown collapsed above its answer
+        onUpdateOutput(message.content);
+      } else if (message.action === 'dryRunComplete' && onDryRunComplete && message.content) {
+        // Offer the actions recorded in a dry run for review
+        onDryRunComplete(message.content);
+      } else if (message.action === 'updatePlan' && onUpdatePlan && Array.isArray(message.content)) {
+        // Show the agent's latest plan
+        onUpdatePlan(message.content);
       } else if (message.action === 'processingComplete') {
         onProcessingComplete();
       } else if (message.action === 'requestApproval') {
@@ -121,9 +144,11 @@ export const useChromeMessaging = ({
           if (onRequestApproval) {
             onRequestApproval({
               requestId: message.requestId,
+              kind: message.kind === 'steps' || message.kind === 'question' ? message.kind : 'tool',
               toolName: message.toolName,
               toolInput: message.toolInput,
-              reason: message.reason || 'This action requires approval.'
+              reason: message.reason || (message.kind === 'question' ? '' : 'This action requires approval.'),
+              options: Array.isArray(message.options) ? message.options : undefined
             });
           } else {
             console.error('onRequestApproval handler is not defined, cannot process approval request');
@@ -212,6 +237,8 @@ export const useChromeMessaging = ({
     onRateLimit,
     onFallbackStarted,
     onUpdateScreenshot,
+    onUpdatePlan,
+    onDryRunComplete,
     onProcessingComplete,
     onRequestApproval,
     setTabTitle,
@@ -226,7 +253,7 @@ export const useChromeMessaging = ({
     onAgentStatusUpdate
   ]);
 
-  const executePrompt = (prompt: string) => {
+  const executePrompt = (prompt: string, options: PromptRunOptions = {}) => {
     return new Promise<void>((resolve, reject) => {
       try {
         // Send message to background script with tab ID
@@ -234,14 +261,19 @@ export const useChromeMessaging = ({
           action: 'executePrompt',
           prompt,
           tabId,
-          windowId
-        }, () => {
+          windowId,
+          ...options
+        }, (response) => {
           const lastError = chrome.runtime.lastError;
           if (lastError) {
             console.error(lastError);
             reject(lastError);
             return;
           }
+          if (response && response.success === false) {
+            reject(new Error(response.error));
+            return;
+          }
           resolve();
         });
       } catch (error) {
@@ -263,6 +295,123 @@ export const useChromeMessaging = ({
     });
   };
 
+  const pauseExecution = () => {
+    chrome.runtime.sendMessage({
+      action: 'pauseExecution',
+      tabId,
+      windowId
+    }, () => {
+      if (chrome.runtime.lastError) {
+        console.error(chrome.runtime.lastError);
+      }
+    });
+  };
+
+  const resumeExecution = (instruction?: string) => {
+    chrome.runtime.sendMessage({
+      action: 'resumeExecution',
+      instruction,
+      tabId,
+      windowId
+    }, () => {
+      if (chrome.runtime.lastError) {
+        console.error(chrome.runtime.lastError);
+      }
+    });
+  };
+
+  const getInterruptedTask = () => {
+    return new Promise<any>((resolve) => {
+      chrome.runtime.sendMessage({
+        action: 'getInterruptedTask',
+        tabId,
+        windowId
+      }, (response) => {
+        if (chrome.runtime.lastError) {
+          console.error(chrome.runtime.lastError);
+          resolve(null);
+          return;
+        }
+        resolve(response?.task ?? null);
+      });
+    });
+  };
+
+  const resumeInterruptedTask = () => {
+    chrome.runtime.sendMessage({
+      action: 'resumeInterruptedTask',
+      tabId,
+      windowId
+    }, () => {
+      if (chrome.runtime.lastError) {
+        console.error(chrome.runtime.lastError);
+      }
+    });
+  };
+
+  const discardInterruptedTask = () => {
+    chrome.runtime.sendMessage({
+      action: 'discardInterruptedTask',
+      tabId,
+      windowId
+    }, () => {
+      if (chrome.runtime.lastError) {
+        console.error(chrome.runtime.lastError);
+      }
+    });
+  };
+
+  const startRecording = () => {
+    return new Promise<void>((resolve, reject) => {
+      chrome.runtime.sendMessage({
+        action: 'startRecording',
+        tabId,
+        windowId
+      }, (response) => {
+        const lastError = chrome.runtime.lastError;
+        if (lastError || response?.success === false) {
+          reject(new Error(lastError?.message || response.error));
+          return;
+        }
+        resolve();
+      });
+    });
+  };
+
+  const stopRecording = () => {
+    return new Promise<RecordedDemonstration>((resolve, reject) => {
+      chrome.runtime.sendMessage({
+        action: 'stopRecording',
+        tabId,
+        windowId
+      }, (response) => {
+        const lastError = chrome.runtime.lastError;
+        if (lastError || !response?.success) {
+          reject(new Error(lastError?.message || response?.error || 'The recording could not be stopped'));
+          return;
+        }
+        resolve(response.recording);
+      });
+    });
+  };
+
+  const exportPlaywright = () => {
+    return new Promise<{ spec: string; fileName: string }>((resolve, reject) => {
+      chrome.runtime.sendMessage({
+        action: 'exportPlaywright',
+        tabId,
+        windowId
+      }, (response) => {
+        const lastError = chrome.runtime.lastError;
+        if (lastError || !response?.success) {
+          reject(new Error(lastError?.message || response?.error || 'The session could not be exported'));
+          return;
+        }
+        resolve({ spec: response.spec, fileName: response.fileName });
+      });
+    });
+  };
+
   const clearHistory = () => {
     chrome.runtime.sendMessage({
       action: 'clearHistory',
@@ -299,11 +448,35 @@ export const useChromeMessaging = ({
     });
   };
 
+  const answerRequest = (requestId: string, answer: string) => {
+    chrome.runtime.sendMessage({
+      action: 'approvalResponse',
+      requestId,
+      approved: true,
+      answer,
+      tabId,
+      windowId
+    }, (_response) => {
+      if (chrome.runtime.lastError) {
+        console.error('Error sending answer:', chrome.runtime.lastError);
+      }
+    });
+  };
+
   return {
     executePrompt,
     cancelExecution,
+    pauseExecution,
+    resumeExecution,
+    getInterruptedTask,
+    resumeInterruptedTask,
+    discardInterruptedTask,
+    startRecording,
+    stopRecording,
+    exportPlaywright,
     clearHistory,
     approveRequest,
-    rejectRequest
+    rejectRequest,
+    answerRequest
   };
 };
@@ -1,5 +1,8 @@
+import type { PlannedAction } from '../agent/DryRun';
+import type { MacroReplay } from '../agent/MacroReplay';
+
 // Define message types
-export type MessageType = 'system' | 'llm' | 'screenshot';
+export type MessageType = 'system' | 'llm' | 'screenshot' | 'structured' | 'reasoning';
 
 export interface Message {
   type: MessageType;
@@ -11,6 +14,20 @@ export interface Message {
   mediaType?: string;
 }
 
+// How a prompt from the side panel is run
+export interface PromptRunOptions {
+  outputSchema?: Record<string, any>;
+  dryRun?: boolean;
+  followActions?: PlannedAction[];
+  replay?: MacroReplay;
+}
+
+// Actions recorded in a dry run, for review
+export interface DryRunResult {
+  prompt: string;
+  actions: PlannedAction[];
+}
+
 // Chrome message types
 export interface ChromeMessage {
   action: string;
@@ -19,9 +36,11 @@ export interface ChromeMessage {
   windowId?: number;
   // Approval request properties
   requestId?: string;
+  kind?: 'tool' | 'steps' | 'question';
   toolName?: string;
   toolInput?: string;
   reason?: string;
+  options?: string[];
   
   status?: 'attached' | 'detached' | 'running' | 'idle' | 'error';
   lastHeartbeat?: number;
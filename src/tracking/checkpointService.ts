@@ -0,0 +1,137 @@
+import type { PlannedAction } from '../agent/DryRun';
+import type { PlanStep } from '../agent/PlanManager';
+import type { JsonSchema } from '../agent/StructuredOutput';
+import { logWithTimestamp } from '../background/utils';
+
+/**
+ * An approval or answer the task was waiting for when it was checkpointed
+ */
+export interface PendingApproval {
+  kind: 'tool' | 'steps' | 'question';
+  toolName: string;
+  toolInput: string;
+  reason: string;
+}
+
+/**
+ * The state of a running task after its last completed step
+ */
+export interface TaskCheckpoint {
+  windowId: number;  // One task runs per window, so the window ID is the key
+  tabId: number;  // Tab the agent was controlling
+  prompt: string;  // The prompt that started the task
+  maxSteps?: number;  // Step limit set for this prompt, if any
+  outputSchema?: JsonSchema;  // Schema the task's final answer must match, if any
+  dryRun?: boolean;  // Set if the task records mutating actions instead of taking them
+  messages: any[];  // The agent's message history
+  step: number;  // Number of steps completed
+  plan?: PlanStep[];  // The agent's plan, if it made one
+  plannedActions?: PlannedAction[];  // Actions recorded so far, in a dry run
+  pendingApproval?: PendingApproval;  // Set while the task is waiting for the user
+  updatedAt: number;  // Timestamp
+}
+
+/**
+ * Stores checkpoints of running tasks in IndexedDB so that a task can be resumed
+ * after Chrome suspends the service worker.
+ */
+export class CheckpointService {
+  private static instance: CheckpointService;
+  private db: IDBDatabase | null = null;
+  private readonly DB_NAME = 'browserbee-checkpoints';
+  private readonly STORE_NAME = 'checkpoints';
+  private readonly DB_VERSION = 1;
+
+  // Singleton pattern
+  public static getInstance(): CheckpointService {
+    if (!CheckpointService.instance) {
+      CheckpointService.instance = new CheckpointService();
+    }
+    return CheckpointService.instance;
+  }
+
+  private constructor() {
+    // Private constructor to enforce singleton pattern
+  }
+
+  // Open the database, creating the object store on first use
+  private async getDb(): Promise<IDBDatabase> {
+    if (this.db) {
+      return this.db;
+    }
+
+    if (typeof indexedDB === 'undefined') {
+      throw new Error('IndexedDB is not available in this environment');
+    }
+
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+        if (!db.objectStoreNames.contains(this.STORE_NAME)) {
+          db.createObjectStore(this.STORE_NAME, { keyPath: 'windowId' });
+          logWithTimestamp(`Created ${this.STORE_NAME} object store in ${this.DB_NAME} database`);
+        }
+      };
+
+      request.onsuccess = (event) => {
+        this.db = (event.target as IDBOpenDBRequest).result;
+        resolve(this.db);
+      };
+
+      request.onerror = (event) => {
+        const error = (event.target as IDBOpenDBRequest).error;
+        logWithTimestamp(`Error opening ${this.DB_NAME} database: ${error?.message || 'Unknown error'}`, 'error');
+        reject(error);
+      };
+    });
+  }
+
+  // Run a single request against the object store
+  private async run<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.getDb();
+
+    return new Promise((resolve, reject) => {
+      try {
+        const transaction = db.transaction([this.STORE_NAME], mode);
+        const request = operation(transaction.objectStore(this.STORE_NAME));
+
+        request.onsuccess = () => resolve(request.result as T);
+        request.onerror = () => {
+          logWithTimestamp(`Checkpoint ${mode} error: ${request.error?.message || 'Unknown error'}`, 'error');
+          reject(request.error);
+        };
+      } catch (error) {
+        logWithTimestamp(`Exception accessing checkpoints: ${error instanceof Error ? error.message : String(error)}`, 'error');
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Save the checkpoint for a window, replacing the previous one
+   */
+  public async saveCheckpoint(checkpoint: TaskCheckpoint): Promise<void> {
+    await this.run('readwrite', store => store.put(checkpoint));
+  }
+
+  /**
+   * Get the checkpoint for a window
+   * @returns The checkpoint, or null if the window has no interrupted task
+   */
+  public async getCheckpoint(windowId: number): Promise<TaskCheckpoint | null> {
+    const checkpoint = await this.run<TaskCheckpoint | undefined>('readonly', store => store.get(windowId));
+    return checkpoint ?? null;
+  }
+
+  /**
+   * Delete the checkpoint for a window, e.g. when its task finishes
+   */
+  public async deleteCheckpoint(windowId: number): Promise<void> {
+    await this.run('readwrite', store => store.delete(windowId));
+  }
+}
@@ -1,3 +1,14 @@
+/**
+ * Where a screenshot's pixels sit on the page, so that points read off the
+ * image can be translated back to page coordinates
+ */
+export interface ScreenshotMetadata {
+  scale: number;                              // image pixels per CSS pixel
+  viewport: { width: number; height: number }; // viewport size in CSS pixels at capture time
+  scroll: { x: number; y: number };           // scroll offset in CSS pixels at capture time
+  fullPage: boolean;                          // whether the image starts at the top of the document
+}
+
 /**
  * ScreenshotManager - Singleton class to manage screenshots
  * 
@@ -7,6 +18,7 @@
 export class ScreenshotManager {
   private static instance: ScreenshotManager;
   private screenshots: Map<string, any> = new Map();
+  private metadata: Map<string, ScreenshotMetadata> = new Map();
   private counter: number = 0;
   
   private constructor() {}
@@ -25,14 +37,27 @@ export class ScreenshotManager {
   /**
    * Store a screenshot and return a handle to reference it
    * @param data The screenshot data to store
+   * @param metadata Optional coordinate information for the screenshot
    * @returns A unique handle to reference the screenshot (e.g., "screenshot#42")
    */
-  storeScreenshot(data: any): string {
+  storeScreenshot(data: any, metadata?: ScreenshotMetadata): string {
     const id = `screenshot#${++this.counter}`;
     this.screenshots.set(id, data);
+    if (metadata) {
+      this.metadata.set(id, metadata);
+    }
     return id;
   }
   
+  /**
+   * Get the coordinate information recorded for a screenshot
+   * @param id The screenshot handle (e.g., "screenshot#42")
+   * @returns The metadata, or null if none was recorded
+   */
+  getScreenshotMetadata(id: string): ScreenshotMetadata | null {
+    return this.metadata.get(id) || null;
+  }
+  
   /**
    * Get a screenshot by its handle
    * @param id The screenshot handle (e.g., "screenshot#42")
@@ -64,6 +89,7 @@ export class ScreenshotManager {
    */
   clear(): void {
     this.screenshots.clear();
+    this.metadata.clear();
     this.counter = 0;
   }
 }
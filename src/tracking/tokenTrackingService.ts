@@ -1,10 +1,36 @@
 import { ConfigManager } from "../background/configManager";
 import { anthropicModels, openaiModels, geminiModels, ollamaModels } from "../models/models";
+import { isReasoningOn, resolveReasoning } from "../models/providers/reasoning";
+import type { ModelInfo, ReasoningSetting } from "../models/providers/types";
 
 export interface TokenUsage {
   inputTokens: number;
   outputTokens: number;
   cost: number;
+  byModel?: ModelUsage[]; // usage of each model the agent called, when it reported which
+}
+
+/**
+ * Tokens used and their cost for one model
+ */
+export interface ModelUsage {
+  modelId: string;
+  name: string;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+/**
+ * The model a request went to, so its tokens are priced at that model's rates
+ */
+export interface TrackedModel {
+  id: string;
+  name: string;
+  inputPrice: number;  // Price per million tokens
+  outputPrice: number; // Price per million tokens
+  thinkingOutputPrice?: number; // Output price per million tokens while reasoning, if it differs
+  reasoning?: boolean; // Whether requests were made with reasoning on
 }
 
 export class TokenTrackingService {
@@ -15,10 +41,14 @@ export class TokenTrackingService {
   private outputTokens: number = 0;
   private cost: number = 0;
 
+  // Tokens attributed to the model they were used with; the rest are priced at the current model
+  private modelUsage = new Map<string, { model: TrackedModel; inputTokens: number; outputTokens: number }>();
+
   // Provider and model tracking
   private configManager: ConfigManager;
   private currentProvider: string = 'anthropic';
   private currentModelId: string = '';
+  private currentReasoning: boolean = false;
 
   // Subscribers for UI updates
   private subscribers: (() => void)[] = [];
@@ -40,43 +70,69 @@ export class TokenTrackingService {
       const config = await this.configManager.getProviderConfig();
       this.currentProvider = config.provider;
       this.currentModelId = config.apiModelId || '';
+      this.currentReasoning = isReasoningOn(resolveReasoning(config));
       this.updateCost(); // Recalculate with new provider/model
     } catch (error) {
       console.error('Failed to get provider config:', error);
     }
   }
 
-  public trackInputTokens(tokens: number, cacheTokens?: { write?: number, read?: number }, windowId?: number): void {
-    this.inputTokens += tokens;
+  public trackInputTokens(
+    tokens: number,
+    cacheTokens?: { write?: number, read?: number },
+    windowId?: number,
+    model?: TrackedModel
+  ): void {
+    let total = tokens;
 
     // Add cache tokens to the total if provided
     if (cacheTokens) {
-      if (cacheTokens.write) this.inputTokens += cacheTokens.write;
-      if (cacheTokens.read) this.inputTokens += cacheTokens.read;
+      if (cacheTokens.write) total += cacheTokens.write;
+      if (cacheTokens.read) total += cacheTokens.read;
+    }
+
+    this.inputTokens += total;
+    if (model) {
+      this.getModelUsage(model).inputTokens += total;
     }
 
     this.updateCost();
     this.notifySubscribers(windowId);
   }
 
-  public trackOutputTokens(tokens: number, windowId?: number): void {
+  public trackOutputTokens(tokens: number, windowId?: number, model?: TrackedModel): void {
     this.outputTokens += tokens;
+    if (model) {
+      this.getModelUsage(model).outputTokens += tokens;
+    }
     this.updateCost();
     this.notifySubscribers(windowId);
   }
 
   public getUsage(): TokenUsage {
-    return {
+    const usage: TokenUsage = {
       inputTokens: this.inputTokens,
       outputTokens: this.outputTokens,
       cost: this.cost
     };
+
+    if (this.modelUsage.size > 0) {
+      usage.byModel = [...this.modelUsage.values()].map(({ model, inputTokens, outputTokens }) => ({
+        modelId: model.id,
+        name: model.name,
+        inputTokens,
+        outputTokens,
+        cost: this.calculateCost(model.inputPrice, this.outputPriceOf(model), inputTokens, outputTokens)
+      }));
+    }
+    return usage;
   }
 
   public reset(windowId?: number): void {
     this.inputTokens = 0;
     this.outputTokens = 0;
     this.cost = 0;
+    this.modelUsage.clear();
     this.notifySubscribers(windowId);
   }
 
@@ -87,54 +143,87 @@ export class TokenTrackingService {
     };
   }
 
-  // Update provider and model information
-  public updateProviderAndModel(provider: string, modelId: string, windowId?: number): void {
+  // Update provider and model information, along with the reasoning setting requests are made with
+  public updateProviderAndModel(provider: string, modelId: string, windowId?: number, reasoning?: ReasoningSetting): void {
     this.currentProvider = provider;
     this.currentModelId = modelId;
+    this.currentReasoning = isReasoningOn(reasoning);
     this.updateCost();
     this.notifySubscribers(windowId);
   }
 
   private updateCost(): void {
-    let inputPrice = 0;
-    let outputPrice = 0;
+    let model: ModelInfo | undefined;
 
     // Get pricing based on current provider and model
     switch (this.currentProvider) {
       case 'anthropic':
         if (this.currentModelId && this.currentModelId in anthropicModels) {
-          const model = anthropicModels[this.currentModelId as keyof typeof anthropicModels];
-          inputPrice = model.inputPrice;
-          outputPrice = model.outputPrice;
+          model = anthropicModels[this.currentModelId as keyof typeof anthropicModels];
         }
         break;
       case 'openai':
         if (this.currentModelId && this.currentModelId in openaiModels) {
-          const model = openaiModels[this.currentModelId as keyof typeof openaiModels];
-          inputPrice = model.inputPrice;
-          outputPrice = model.outputPrice;
+          model = openaiModels[this.currentModelId as keyof typeof openaiModels];
         }
         break;
       case 'gemini':
         if (this.currentModelId && this.currentModelId in geminiModels) {
-          const model = geminiModels[this.currentModelId as keyof typeof geminiModels];
-          inputPrice = model.inputPrice;
-          outputPrice = model.outputPrice;
+          model = geminiModels[this.currentModelId as keyof typeof geminiModels];
         }
         break;
       case 'ollama':
         if (this.currentModelId && this.currentModelId in ollamaModels) {
-          const model = ollamaModels[this.currentModelId as keyof typeof ollamaModels];
-          inputPrice = model.inputPrice;
-          outputPrice = model.outputPrice;
+          model = ollamaModels[this.currentModelId as keyof typeof ollamaModels];
         }
         break;
     }
 
-    // Calculate cost based on price per million tokens
-    const inputCost = (inputPrice / 1_000_000) * this.inputTokens;
-    const outputCost = (outputPrice / 1_000_000) * this.outputTokens;
-    this.cost = inputCost + outputCost;
+    const inputPrice = model?.inputPrice || 0;
+    const outputPrice = model ? this.outputPriceOf({
+      id: this.currentModelId,
+      name: model.name,
+      inputPrice: model.inputPrice,
+      outputPrice: model.outputPrice,
+      thinkingOutputPrice: model.thinkingConfig?.outputPrice,
+      reasoning: this.currentReasoning
+    }) : 0;
+
+    // Tokens attributed to a model are priced at its rates, the rest at the current model's
+    let attributedCost = 0;
+    let attributedInputTokens = 0;
+    let attributedOutputTokens = 0;
+    for (const { model, inputTokens, outputTokens } of this.modelUsage.values()) {
+      attributedCost += this.calculateCost(model.inputPrice, this.outputPriceOf(model), inputTokens, outputTokens);
+      attributedInputTokens += inputTokens;
+      attributedOutputTokens += outputTokens;
+    }
+
+    this.cost = attributedCost + this.calculateCost(
+      inputPrice,
+      outputPrice,
+      this.inputTokens - attributedInputTokens,
+      this.outputTokens - attributedOutputTokens
+    );
+  }
+
+  // Output tokens of reasoning models are priced at the thinking rate when reasoning is on
+  private outputPriceOf(model: TrackedModel): number {
+    return model.reasoning && model.thinkingOutputPrice !== undefined ? model.thinkingOutputPrice : model.outputPrice;
+  }
+
+  // Calculate cost based on price per million tokens
+  private calculateCost(inputPrice: number, outputPrice: number, inputTokens: number, outputTokens: number): number {
+    return (inputPrice / 1_000_000) * inputTokens + (outputPrice / 1_000_000) * outputTokens;
+  }
+
+  private getModelUsage(model: TrackedModel): { model: TrackedModel; inputTokens: number; outputTokens: number } {
+    let usage = this.modelUsage.get(model.id);
+    if (!usage) {
+      usage = { model, inputTokens: 0, outputTokens: 0 };
+      this.modelUsage.set(model.id, usage);
+    }
+    return usage;
   }
 
   private notifySubscribers(windowId?: number): void {
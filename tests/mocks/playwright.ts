@@ -336,6 +336,7 @@ export const mockChromeAPIs = {
 export const mockScreenshotManager = {
   getInstance: jest.fn().mockReturnValue({
     storeScreenshot: jest.fn().mockReturnValue('mock-screenshot-id'),
+    getScreenshotMetadata: jest.fn().mockReturnValue(null),
     getScreenshot: jest.fn().mockReturnValue({
       type: 'image',
       source: {
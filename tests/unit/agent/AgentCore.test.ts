@@ -16,6 +16,11 @@ jest.mock('../../../src/agent/tools/index', () => ({
       func: jest.fn().mockResolvedValue('Navigation completed'),
     },
   ]),
+  updatePlan: jest.fn().mockReturnValue({
+    name: 'update_plan',
+    description: 'Create or update the plan',
+    func: jest.fn().mockResolvedValue('Plan updated'),
+  }),
 }));
 
 jest.mock('../../../src/background/configManager', () => ({
@@ -0,0 +1,136 @@
+import { RecordedEvent, findUnreplayableSteps, installRecorder, parseReportedEvent, toToolSequence } from '../../../src/agent/Demonstration';
+
+describe('Demonstration', () => {
+  describe('toToolSequence', () => {
+    it('should start on the recorded page and merge keystrokes into one typing step', () => {
+      const events: RecordedEvent[] = [
+        { type: 'click', selector: 'textarea[name="q"]', editable: true, time: 1000 },
+        { type: 'input', selector: 'textarea[name="q"]', value: 'b', time: 1100 },
+        { type: 'input', selector: 'textarea[name="q"]', value: 'bees', time: 1200 },
+        { type: 'key', key: 'Enter', time: 1300 },
+        { type: 'navigate', url: 'https://www.google.com/search?q=bees', time: 2000 },
+        { type: 'click', selector: 'Images', time: 9000 }
+      ];
+
+      expect(toToolSequence(events, 'https://www.google.com/')).toEqual([
+        'browser_navigate | https://www.google.com/',
+        'browser_type | {"selector":"textarea[name=\\"q\\"]","text":"bees"}',
+        'browser_press_key | Enter',
+        'browser_wait_for_navigation | ',
+        'browser_click | Images'
+      ]);
+    });
+
+    it('should keep navigations the user made themselves', () => {
+      const events: RecordedEvent[] = [
+        { type: 'click', selector: '#menu', time: 1000 },
+        { type: 'navigate', url: 'https://example.com/account', time: 10000 },
+        { type: 'navigate', url: 'https://example.com/account', time: 10100 }
+      ];
+
+      expect(toToolSequence(events)).toEqual([
+        'browser_click | #menu',
+        'browser_navigate | https://example.com/account'
+      ]);
+    });
+
+    it('should leave out options chosen in lists and report them instead', () => {
+      const events: RecordedEvent[] = [
+        { type: 'click', selector: 'select[name="size"]', time: 1000 },
+        { type: 'select', selector: 'select[name="size"]', option: 'Large', time: 1500 },
+        { type: 'click', selector: 'Add to basket', time: 2000 }
+      ];
+
+      expect(toToolSequence(events)).toEqual([
+        'browser_click | select[name="size"]',
+        'browser_click | Add to basket'
+      ]);
+      expect(findUnreplayableSteps(events)).toEqual(['Chose "Large" in select[name="size"]']);
+    });
+  });
+
+  describe('parseReportedEvent', () => {
+    it('should accept the events the recorder sends, timed on arrival', () => {
+      expect(parseReportedEvent({ type: 'click', selector: '#buy', editable: false, time: 1 }, 5000))
+        .toEqual({ type: 'click', selector: '#buy', editable: false, time: 5000 });
+      expect(parseReportedEvent({ type: 'input', selector: '#q', value: '', time: 1 }, 5000))
+        .toEqual({ type: 'input', selector: '#q', value: '', time: 5000 });
+      expect(parseReportedEvent({ type: 'key', key: 'Enter' }, 5000)).toEqual({ type: 'key', key: 'Enter', time: 5000 });
+    });
+
+    it('should reject navigations, unknown shapes and oversized fields', () => {
+      expect(parseReportedEvent({ type: 'navigate', url: 'https://evil.example.org/' }, 0)).toBeNull();
+      expect(parseReportedEvent({ type: 'click', selector: 42 }, 0)).toBeNull();
+      expect(parseReportedEvent({ type: 'select', selector: '#size' }, 0)).toBeNull();
+      expect(parseReportedEvent({ type: 'key', key: 'x'.repeat(5001) }, 0)).toBeNull();
+      expect(parseReportedEvent('click', 0)).toBeNull();
+      expect(parseReportedEvent(null, 0)).toBeNull();
+    });
+  });
+
+  describe('installRecorder', () => {
+    const record = jest.fn();
+
+    beforeAll(() => {
+      (global as any).CSS = { escape: (value: string) => value };
+      (window as any).__recordEvent = record;
+      installRecorder('__recordEvent');
+    });
+
+    beforeEach(() => {
+      record.mockClear();
+    });
+
+    it('should describe clicked elements with stable selectors', () => {
+      document.body.innerHTML = `
+        <button id="checkout">Checkout</button>
+        <div><a href="#">Home</a><a href="#">Help</a></div>
+        <ul><li><span>One</span></li><li><span>Two</span></li></ul>`;
+
+      (document.querySelector('#checkout') as HTMLElement).click();
+      (document.querySelectorAll('a')[1] as HTMLElement).click();
+      (document.querySelectorAll('span')[1] as HTMLElement).click();
+
+      expect(record.mock.calls.map(([event]) => event.selector)).toEqual([
+        '#checkout',
+        'Help',
+        'body > ul > li:nth-of-type(2) > span'
+      ]);
+    });
+
+    it('should record typed values, but not passwords', () => {
+      document.body.innerHTML = '<input name="user"><input type="password" name="pass">';
+      const [user, pass] = Array.from(document.querySelectorAll('input'));
+
+      user.value = 'ada';
+      user.dispatchEvent(new Event('input', { bubbles: true }));
+      pass.value = 'secret';
+      pass.dispatchEvent(new Event('input', { bubbles: true }));
+
+      expect(record).toHaveBeenCalledWith(expect.objectContaining({ type: 'input', selector: 'input[name="user"]', value: 'ada' }));
+      expect(record).toHaveBeenCalledWith(expect.objectContaining({ type: 'input', selector: 'input[name="pass"]', value: '[PASSWORD]' }));
+    });
+
+    it('should record special keys and chords but not editing keys in a field', () => {
+      document.body.innerHTML = '<input name="q">';
+      const input = document.querySelector('input')!;
+
+      input.dispatchEvent(new KeyboardEvent('keydown', { key: 'a', bubbles: true }));
+      input.dispatchEvent(new KeyboardEvent('keydown', { key: 'Backspace', bubbles: true }));
+      input.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', bubbles: true }));
+      document.body.dispatchEvent(new KeyboardEvent('keydown', { key: 'k', ctrlKey: true, bubbles: true }));
+
+      expect(record.mock.calls.map(([event]) => event.key)).toEqual(['Enter', 'Control+K']);
+    });
+
+    it('should record the option chosen in a list', () => {
+      document.body.innerHTML = '<select name="size"><option>Small</option><option>Large</option></select>';
+      const select = document.querySelector('select')!;
+
+      select.value = 'Large';
+      select.dispatchEvent(new Event('change', { bubbles: true }));
+
+      expect(record).toHaveBeenCalledWith(expect.objectContaining({ type: 'select', selector: 'select[name="size"]', option: 'Large' }));
+    });
+  });
+});
@@ -0,0 +1,29 @@
+import {
+  formatDryRunInstructions,
+  formatFollowInstructions,
+  formatPlannedActions,
+  formatSimulatedResult
+} from '../../../src/agent/DryRun';
+
+describe('DryRun', () => {
+  const actions = [
+    { toolName: 'browser_navigate', toolInput: 'https://shop.example.com', requiresApproval: false },
+    { toolName: 'browser_click', toolInput: '{"selector": "#buy"}', requiresApproval: true }
+  ];
+
+  it('should list planned actions, marking those that need approval', () => {
+    expect(formatPlannedActions(actions)).toBe(
+      '1. browser_navigate https://shop.example.com\n2. browser_click {"selector": "#buy"} (needs approval)'
+    );
+  });
+
+  it('should tell the agent that an action was only recorded', () => {
+    expect(formatSimulatedResult('browser_click')).toContain('browser_click was recorded but not executed');
+  });
+
+  it('should explain the dry run and the follow-up run', () => {
+    expect(formatDryRunInstructions()).toContain('This is a dry run.');
+    expect(formatFollowInstructions(actions)).toContain(formatPlannedActions(actions));
+    expect(formatFollowInstructions(actions)).toContain('Carry them out for real now');
+  });
+});
@@ -1,5 +1,6 @@
 import { jest } from '@jest/globals';
 import { ErrorHandler } from '../../../src/agent/ErrorHandler';
+import { LLMError } from '../../../src/models/providers/errors';
 
 // Mock navigator for streaming support tests
 const mockNavigator = {
@@ -100,6 +101,86 @@ describe('ErrorHandler', () => {
     });
   });
 
+  describe('pause and resume', () => {
+    it('should track the paused state', () => {
+      errorHandler.pause();
+      expect(errorHandler.isExecutionPaused()).toBe(true);
+
+      errorHandler.resume();
+      expect(errorHandler.isExecutionPaused()).toBe(false);
+    });
+
+    it('should wait until resumed', async () => {
+      errorHandler.pause();
+      let resumed = false;
+      const waiting = errorHandler.waitForResume().then(() => { resumed = true; });
+
+      await Promise.resolve();
+      expect(resumed).toBe(false);
+
+      errorHandler.resume();
+      await waiting;
+      expect(resumed).toBe(true);
+    });
+
+    it('should not wait when not paused', async () => {
+      await expect(errorHandler.waitForResume()).resolves.toBeUndefined();
+    });
+
+    it('should release a paused execution when cancelled', async () => {
+      errorHandler.pause();
+      const waiting = errorHandler.waitForResume();
+
+      errorHandler.cancel();
+
+      await expect(waiting).resolves.toBeUndefined();
+    });
+
+    it('should wake a retry wait when cancelled', async () => {
+      jest.useFakeTimers();
+      try {
+        let woken = false;
+        const waiting = errorHandler.waitBeforeRetry(60_000).then(() => { woken = true; });
+
+        await Promise.resolve();
+        expect(woken).toBe(false);
+
+        errorHandler.cancel();
+        await waiting;
+        expect(woken).toBe(true);
+        expect(jest.getTimerCount()).toBe(0);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should hand over instructions added on resume once', () => {
+      errorHandler.pause();
+      errorHandler.resume('  also check the reviews ');
+
+      expect(errorHandler.takeInstructions()).toEqual(['also check the reviews']);
+      expect(errorHandler.takeInstructions()).toEqual([]);
+    });
+
+    it('should ignore empty instructions', () => {
+      errorHandler.pause();
+      errorHandler.resume('   ');
+
+      expect(errorHandler.takeInstructions()).toEqual([]);
+    });
+
+    it('should clear the pause state and instructions on resetPause', () => {
+      errorHandler.pause();
+      errorHandler.resume('leftover');
+      errorHandler.pause();
+
+      errorHandler.resetPause();
+
+      expect(errorHandler.isExecutionPaused()).toBe(false);
+      expect(errorHandler.takeInstructions()).toEqual([]);
+    });
+  });
+
   describe('isRateLimitError', () => {
     it('should return true for rate limit errors', () => {
       const rateLimitError = {
@@ -241,6 +322,81 @@ describe('ErrorHandler', () => {
     });
   });
 
+  describe('HTTP status errors', () => {
+    it('should recognise rate limits and overload from other providers', () => {
+      expect(errorHandler.isRateLimitError({ status: 429, message: 'Too many requests' })).toBe(true);
+      expect(errorHandler.isOverloadedError({ status: 503 })).toBe(true);
+      expect(errorHandler.isOverloadedError({ status: 529 })).toBe(true);
+      expect(errorHandler.isRetryableError({ status: 500 })).toBe(true);
+      expect(errorHandler.isRetryableError({ status: 400 })).toBe(false);
+    });
+
+    it('should format rate limits without an error body', () => {
+      expect(errorHandler.formatErrorMessage({ status: 429, message: 'Too many requests' }))
+        .toBe('Rate limit error: Too many requests');
+    });
+  });
+
+  describe('isAuthError', () => {
+    it('should return true for rejected API keys', () => {
+      expect(errorHandler.isAuthError({ error: { type: 'authentication_error' } })).toBe(true);
+      expect(errorHandler.isAuthError({ error: { type: 'permission_error' } })).toBe(true);
+      expect(errorHandler.isAuthError({ status: 401 })).toBe(true);
+      expect(errorHandler.isAuthError({ status: 403 })).toBe(true);
+    });
+
+    it('should return false for other errors', () => {
+      expect(errorHandler.isAuthError({ status: 400 })).toBe(false);
+      expect(errorHandler.isAuthError(new Error('Unauthorized'))).toBe(false);
+      expect(errorHandler.isAuthError(null)).toBe(false);
+    });
+  });
+
+  describe('isNetworkError', () => {
+    it('should return true when the provider could not be reached', () => {
+      expect(errorHandler.isNetworkError(new TypeError('Failed to fetch'))).toBe(true);
+      expect(errorHandler.isNetworkError(new Error('connect ECONNREFUSED 127.0.0.1:11434'))).toBe(true);
+      expect(errorHandler.isNetworkError({ name: 'APIConnectionError' })).toBe(true);
+    });
+
+    it('should return false for other errors', () => {
+      expect(errorHandler.isNetworkError(new Error('Invalid request'))).toBe(false);
+      expect(errorHandler.isNetworkError({ status: 502, message: 'fetch failed' })).toBe(false);
+      expect(errorHandler.isNetworkError(undefined)).toBe(false);
+    });
+  });
+
+  describe('isContextTooLongError', () => {
+    it('should return true when the request does not fit the context window', () => {
+      expect(errorHandler.isContextTooLongError(new LLMError('prompt is too long', { category: 'context_too_long', provider: 'anthropic' }))).toBe(true);
+      expect(errorHandler.isContextTooLongError({ status: 400, code: 'context_length_exceeded' })).toBe(true);
+      expect(errorHandler.isContextTooLongError({ status: 413 })).toBe(true);
+    });
+
+    it('should not count it as retryable', () => {
+      expect(errorHandler.isRetryableError({ status: 413 })).toBe(false);
+      expect(errorHandler.isFailoverError({ status: 413 })).toBe(false);
+    });
+  });
+
+  describe('isFailoverError', () => {
+    it('should cover rate limits, overload, auth and network errors', () => {
+      expect(errorHandler.isFailoverError({ error: { type: 'rate_limit_error' } })).toBe(true);
+      expect(errorHandler.isFailoverError({ error: { type: 'overloaded_error' } })).toBe(true);
+      expect(errorHandler.isFailoverError({ status: 401 })).toBe(true);
+      expect(errorHandler.isFailoverError(new TypeError('Failed to fetch'))).toBe(true);
+      expect(errorHandler.isFailoverError(new Error('Invalid request'))).toBe(false);
+    });
+
+    it('should describe each kind of error', () => {
+      expect(errorHandler.describeFailoverError({ status: 429 })).toBe('is rate limited');
+      expect(errorHandler.describeFailoverError({ status: 503 })).toBe('is overloaded');
+      expect(errorHandler.describeFailoverError({ status: 401 })).toBe('rejected the API key');
+      expect(errorHandler.describeFailoverError(new TypeError('Failed to fetch'))).toBe("can't be reached");
+      expect(errorHandler.describeFailoverError(new Error('Other'))).toBe('keeps failing');
+    });
+  });
+
   describe('formatErrorMessage', () => {
     it('should format rate limit errors with specific message', () => {
       const rateLimitError = {
@@ -397,6 +553,21 @@ describe('ErrorHandler', () => {
       expect(backoffTime).toBeLessThanOrEqual(1250);
     });
 
+    it('should wait as long as the provider asked', () => {
+      const error = new LLMError('Slow down', { category: 'rate_limited', provider: 'gemini', retryAfterMs: 37000 });
+
+      expect(errorHandler.calculateBackoffTime(error, 3)).toBe(37000);
+      expect(errorHandler.calculateBackoffTime({ status: 429, headers: { 'retry-after': '3' } }, 0)).toBe(3000);
+    });
+
+    it('should not wait more than a minute, whatever the provider asked', () => {
+      const error = new LLMError('Quota exceeded', { category: 'rate_limited', provider: 'openai', retryAfterMs: 3_600_000 });
+
+      expect(errorHandler.calculateBackoffTime(error, 0)).toBe(60_000);
+      expect(errorHandler.exceedsMaxRetryAfter(error)).toBe(true);
+      expect(errorHandler.exceedsMaxRetryAfter({ status: 429, headers: { 'retry-after': '3' } })).toBe(false);
+    });
+
     it('should return integer values', () => {
       const error = { error: { type: 'rate_limit_error' } };
       
@@ -1,11 +1,16 @@
-import { ExecutionEngine, ExecutionCallbacks } from '../../../src/agent/ExecutionEngine';
+import { ExecutionEngine, ExecutionCallbacks, parseStepLimit } from '../../../src/agent/ExecutionEngine';
 import { createMockProvider } from '../../mocks/providers';
 import { createMockPage } from '../../mocks/playwright';
 import { ToolManager } from '../../../src/agent/ToolManager';
 import { PromptManager } from '../../../src/agent/PromptManager';
 import { MemoryManager } from '../../../src/agent/MemoryManager';
 import { ErrorHandler } from '../../../src/agent/ErrorHandler';
+import { LLMError } from '../../../src/models/providers/errors';
+import { PlanManager } from '../../../src/agent/PlanManager';
+import { updatePlan } from '../../../src/agent/tools/planTools';
 import { BrowserTool } from '../../../src/agent/tools/types';
+import { ScreenshotManager } from '../../../src/tracking/screenshotManager';
+import { contextTokenCount } from '../../../src/agent/TokenManager';
 
 // Mock dependencies
 jest.mock('../../../src/tracking/tokenTrackingService', () => ({
@@ -19,6 +24,8 @@ jest.mock('../../../src/tracking/tokenTrackingService', () => ({
 
 jest.mock('../../../src/agent/approvalManager', () => ({
   requestApproval: jest.fn().mockResolvedValue(true),
+  requestStepExtension: jest.fn().mockResolvedValue(false),
+  requestUserAnswer: jest.fn().mockResolvedValue(null),
 }));
 
 describe('ExecutionEngine', () => {
@@ -154,6 +161,132 @@ describe('ExecutionEngine', () => {
       });
     });
 
+    it('should execute native tool calls without parsing the text', async () => {
+      const mockStream = (async function* () {
+        yield { type: 'text', text: 'I\'ll click the element.' };
+        yield {
+          type: 'tool_call',
+          toolCall: { id: 'call_1', name: 'browser_click', input: 'text=</input> literal', requiresApproval: false },
+        };
+        yield { type: 'usage', inputTokens: 15, outputTokens: 25 };
+      })();
+      mockProvider.createMessage.mockReturnValue(mockStream);
+
+      await executionEngine.executePrompt('Click it', mockCallbacks, [], true);
+
+      expect(mockCallbacks.onSegmentComplete).toHaveBeenCalledWith('I\'ll click the element.');
+      expect(mockCallbacks.onToolStart).toHaveBeenCalledWith('browser_click', 'text=</input> literal');
+      expect(mockToolFunctions[2]).toHaveBeenCalledWith('text=</input> literal', undefined);
+      expect(mockCallbacks.onComplete).toHaveBeenCalled();
+    });
+
+    it('should record native tool calls in the message history', async () => {
+      mockProvider.createMessage
+        .mockReturnValueOnce((async function* () {
+          yield {
+            type: 'tool_call',
+            toolCall: { name: 'browser_navigate', input: 'https://example.com', requiresApproval: false },
+          };
+        })())
+        .mockReturnValueOnce((async function* () {
+          yield { type: 'text', text: 'Done.' };
+        })());
+
+      await executionEngine.executePrompt('Open example.com', mockCallbacks, [], false);
+
+      expect(mockToolFunctions[1]).toHaveBeenCalledWith('https://example.com', undefined);
+      const secondCallMessages = mockProvider.createMessage.mock.calls[1][1];
+      expect(secondCallMessages).toContainEqual({
+        role: 'assistant',
+        content: '<tool>browser_navigate</tool>\n<input>https://example.com</input>\n<requires_approval>false</requires_approval>',
+      });
+      expect(secondCallMessages).toContainEqual({ role: 'user', content: 'Tool result: Navigation completed' });
+    });
+
+    it('should tell the model which further native tool calls were not run', async () => {
+      mockProvider.createMessage
+        .mockReturnValueOnce((async function* () {
+          yield { type: 'tool_call', toolCall: { name: 'browser_navigate', input: 'https://example.com', requiresApproval: false } };
+          yield { type: 'tool_call', toolCall: { name: 'browser_click', input: '#go', requiresApproval: false } };
+        })())
+        .mockReturnValueOnce((async function* () {
+          yield { type: 'text', text: 'Done.' };
+        })());
+
+      await executionEngine.executePrompt('Open example.com and go', mockCallbacks, [], false);
+
+      expect(mockToolFunctions[2]).not.toHaveBeenCalled();
+      const secondCallMessages = mockProvider.createMessage.mock.calls[1][1];
+      expect(secondCallMessages[secondCallMessages.length - 1].content).toContain(
+        'Only the first tool call of a response is executed, so these were not run: browser_click.'
+      );
+    });
+
+    describe('screenshot results', () => {
+      const image = { type: 'image', source: { type: 'base64', media_type: 'image/jpeg', data: 'abc123' } };
+
+      beforeEach(() => {
+        ScreenshotManager.getInstance().clear();
+        const id = ScreenshotManager.getInstance().storeScreenshot(image);
+        mockToolFunctions[0].mockResolvedValue(JSON.stringify({ type: 'screenshotRef', id, note: 'Screenshot captured' }));
+        mockProvider.createMessage
+          .mockReturnValueOnce((async function* () {
+            yield { type: 'tool_call', toolCall: { name: 'browser_screenshot', input: '', requiresApproval: false } };
+          })())
+          .mockReturnValueOnce((async function* () {
+            yield { type: 'text', text: 'Done.' };
+          })());
+      });
+
+      it('should send the screenshot as an image to vision models', async () => {
+        await executionEngine.executePrompt('What is shown?', mockCallbacks, [], false);
+
+        const secondCallMessages = mockProvider.createMessage.mock.calls[1][1];
+        const result = secondCallMessages[secondCallMessages.length - 1];
+        expect(result.content).toEqual([
+          { type: 'text', text: expect.stringContaining('Tool result: Screenshot captured (screenshot#1)') },
+          image,
+        ]);
+      });
+
+      it('should send only the text to models without image support', async () => {
+        mockProvider.getModel.mockReturnValue({ id: 'text-model', info: { supportsImages: false } });
+
+        await executionEngine.executePrompt('What is shown?', mockCallbacks, [], false);
+
+        const secondCallMessages = mockProvider.createMessage.mock.calls[1][1];
+        const result = secondCallMessages[secondCallMessages.length - 1];
+        expect(typeof result.content).toBe('string');
+        expect(result.content).toContain('Screenshot captured (screenshot#1)');
+      });
+    });
+
+    it('should reject structured input that does not match the tool schema', async () => {
+      mockTools[2].inputSchema = {
+        type: 'object',
+        properties: { selector: { type: 'string' } },
+        required: ['selector'],
+      };
+      mockProvider.createMessage
+        .mockReturnValueOnce((async function* () {
+          yield {
+            type: 'tool_call',
+            toolCall: { name: 'browser_click', input: '{"target":"#go"}', requiresApproval: true },
+          };
+        })())
+        .mockReturnValueOnce((async function* () {
+          yield { type: 'text', text: 'Done.' };
+        })());
+
+      await executionEngine.executePrompt('Click go', mockCallbacks, [], false);
+
+      expect(mockToolFunctions[2]).not.toHaveBeenCalled();
+      const secondCallMessages = mockProvider.createMessage.mock.calls[1][1];
+      expect(secondCallMessages[secondCallMessages.length - 1].content).toContain(
+        'Tool result: Error: invalid input for browser_click:\n  • target: unknown parameter'
+      );
+    });
+
     it('should handle incomplete tool calls gracefully', async () => {
       // Mock provider to return incomplete tool call
       const mockStream = (async function* () {
@@ -242,6 +375,1168 @@ describe('ExecutionEngine', () => {
     });
   });
 
+  describe('step limit', () => {
+    const { requestStepExtension } = jest.requireMock('../../../src/agent/approvalManager');
+    let mockCallbacks: ExecutionCallbacks;
+
+    beforeEach(() => {
+      mockCallbacks = {
+        onLlmOutput: jest.fn(),
+        onToolOutput: jest.fn(),
+        onComplete: jest.fn(),
+      };
+      (global as any).chrome.tabs.query.mockResolvedValue([{ id: 123 }]);
+      // Every response asks for another tool call, so the task never finishes by itself
+      mockProvider.createMessage.mockImplementation(() => (async function* () {
+        yield { type: 'text', text: '<tool>browser_screenshot</tool>\n<input>{}</input>\n<requires_approval>false</requires_approval>' };
+      })());
+    });
+
+    it('should ask for more steps and stop when they are not granted', async () => {
+      const engine = new ExecutionEngine(
+        mockProvider, toolManager, promptManager, memoryManager, errorHandler, { maxSteps: 2 }
+      );
+
+      await engine.executePrompt('Keep going', mockCallbacks, [], false);
+
+      expect(mockProvider.createMessage).toHaveBeenCalledTimes(2);
+      expect(requestStepExtension).toHaveBeenCalledWith(123, 2, 2);
+      expect(mockCallbacks.onLlmOutput).toHaveBeenCalledWith('Stopped: reached the limit of 2 steps.');
+      expect(mockCallbacks.onComplete).toHaveBeenCalled();
+    });
+
+    it('should continue with the same history when more steps are granted', async () => {
+      requestStepExtension.mockResolvedValueOnce(true);
+
+      await executionEngine.executePrompt('Keep going', mockCallbacks, [], false, { maxSteps: 1 });
+
+      expect(mockProvider.createMessage).toHaveBeenCalledTimes(2);
+      expect(requestStepExtension).toHaveBeenNthCalledWith(1, 123, 1, 1);
+      expect(requestStepExtension).toHaveBeenNthCalledWith(2, 123, 2, 1);
+      expect(mockCallbacks.onToolOutput).toHaveBeenCalledWith('▶️ Granted 1 more steps. Continuing...');
+      // The second call sees the first step's tool call and result
+      const secondCallMessages = mockProvider.createMessage.mock.calls[1][1];
+      expect(secondCallMessages[0]).toEqual({ role: 'user', content: 'Keep going' });
+      expect(secondCallMessages.length).toBeGreaterThan(1);
+      expect(mockCallbacks.onLlmOutput).toHaveBeenCalledWith('Stopped: reached the limit of 2 steps.');
+    });
+
+    it('should not ask when the task finishes within the limit', async () => {
+      mockProvider.createMessage.mockReturnValue((async function* () {
+        yield { type: 'text', text: 'Done.' };
+      })());
+
+      await executionEngine.executePrompt('Quick task', mockCallbacks, [], false, { maxSteps: 1 });
+
+      expect(requestStepExtension).not.toHaveBeenCalled();
+      expect(mockCallbacks.onLlmOutput).not.toHaveBeenCalledWith(expect.stringContaining('Stopped'));
+    });
+  });
+
+  describe('pause and resume', () => {
+    let mockCallbacks: ExecutionCallbacks;
+    const flush = () => new Promise(resolve => setTimeout(resolve, 10));
+
+    beforeEach(() => {
+      mockCallbacks = {
+        onLlmOutput: jest.fn(),
+        onToolOutput: jest.fn(),
+        onComplete: jest.fn(),
+      };
+      // The first response asks for a tool and the user pauses while it streams
+      mockProvider.createMessage
+        .mockImplementationOnce(() => (async function* () {
+          errorHandler.pause();
+          yield { type: 'text', text: '<tool>browser_click</tool>\n<input>#next</input>\n<requires_approval>false</requires_approval>' };
+        })())
+        .mockImplementation(() => (async function* () {
+          yield { type: 'text', text: 'Done.' };
+        })());
+    });
+
+    it('should hold the tool call until resumed and then run it', async () => {
+      const execution = executionEngine.executePrompt('Next page', mockCallbacks, [], false);
+      await flush();
+
+      expect(mockCallbacks.onToolOutput).toHaveBeenCalledWith('⏸️ Paused. Resume to continue, optionally with an extra instruction.');
+      expect(mockToolFunctions[2]).not.toHaveBeenCalled();
+
+      errorHandler.resume();
+      await execution;
+
+      expect(mockToolFunctions[2]).toHaveBeenCalledWith('#next', undefined);
+      expect(mockProvider.createMessage).toHaveBeenCalledTimes(2);
+      expect(mockCallbacks.onComplete).toHaveBeenCalled();
+    });
+
+    it('should skip the pending tool call and pass on an instruction added while paused', async () => {
+      const execution = executionEngine.executePrompt('Next page', mockCallbacks, [], false);
+      await flush();
+
+      errorHandler.resume('Use the search box instead');
+      await execution;
+
+      expect(mockToolFunctions[2]).not.toHaveBeenCalled();
+      const messages = mockProvider.createMessage.mock.calls[1][1];
+      expect(messages[messages.length - 1]).toEqual({
+        role: 'user',
+        content: 'Tool result: browser_click was not executed because the user paused the task.\n\nAdditional instruction from the user: Use the search box instead',
+      });
+    });
+
+    it('should stop a paused task when it is cancelled', async () => {
+      const execution = executionEngine.executePrompt('Next page', mockCallbacks, [], false);
+      await flush();
+
+      errorHandler.cancel();
+      await execution;
+
+      expect(mockToolFunctions[2]).not.toHaveBeenCalled();
+      expect(mockCallbacks.onLlmOutput).toHaveBeenCalledWith(expect.stringContaining('Execution cancelled by user'));
+    });
+  });
+
+  describe('checkpoints', () => {
+    let mockCallbacks: ExecutionCallbacks;
+
+    beforeEach(() => {
+      mockCallbacks = {
+        onLlmOutput: jest.fn(),
+        onToolOutput: jest.fn(),
+        onComplete: jest.fn(),
+        onCheckpoint: jest.fn(),
+      };
+      (global as any).chrome.tabs.query.mockResolvedValue([{ id: 123 }]);
+    });
+
+    it('should checkpoint the initial state and each completed step', async () => {
+      mockProvider.createMessage
+        .mockReturnValueOnce((async function* () {
+          yield { type: 'text', text: '<tool>browser_navigate</tool>\n<input>https://example.com</input>\n<requires_approval>false</requires_approval>' };
+        })())
+        .mockReturnValueOnce((async function* () {
+          yield { type: 'text', text: 'Done.' };
+        })());
+
+      await executionEngine.executePrompt('Open example.com', mockCallbacks, [], false);
+
+      expect(mockCallbacks.onCheckpoint).toHaveBeenCalledTimes(2);
+      expect(mockCallbacks.onCheckpoint).toHaveBeenNthCalledWith(1, {
+        messages: [{ role: 'user', content: 'Open example.com' }],
+        step: 0,
+      });
+      const [{ messages, step }] = (mockCallbacks.onCheckpoint as jest.Mock).mock.calls[1];
+      expect(step).toBe(1);
+      expect(messages[messages.length - 1]).toEqual({ role: 'user', content: 'Tool result: Navigation completed' });
+    });
+
+    it('should record a pending approval at the previous step', async () => {
+      mockProvider.createMessage.mockReturnValueOnce((async function* () {
+        yield { type: 'text', text: '<tool>browser_click</tool>\n<input>#buy</input>\n<requires_approval>true</requires_approval>' };
+      })()).mockReturnValueOnce((async function* () {
+        yield { type: 'text', text: 'Done.' };
+      })());
+
+      await executionEngine.executePrompt('Buy it', mockCallbacks, [], false);
+
+      expect(mockCallbacks.onCheckpoint).toHaveBeenNthCalledWith(2, {
+        messages: [{ role: 'user', content: 'Buy it' }],
+        step: 0,
+        pendingApproval: {
+          kind: 'tool',
+          toolName: 'browser_click',
+          toolInput: '#buy',
+          reason: 'The AI assistant has determined this action requires your approval.',
+        },
+      });
+    });
+
+    it('should record a pending question while waiting for the user to answer', async () => {
+      const askUserFunc = jest.fn().mockResolvedValue('User answered: Large');
+      const askUser = { name: 'ask_user', description: 'Ask the user a question', func: askUserFunc };
+      const engine = new ExecutionEngine(
+        mockProvider, new ToolManager(mockPage, [...mockTools, askUser]), promptManager, memoryManager, errorHandler
+      );
+      mockProvider.createMessage.mockReturnValueOnce((async function* () {
+        yield { type: 'text', text: '<tool>ask_user</tool>\n<input>Which size?</input>\n<requires_approval>false</requires_approval>' };
+      })()).mockReturnValueOnce((async function* () {
+        yield { type: 'text', text: 'Done.' };
+      })());
+
+      await engine.executePrompt('Buy a shirt', mockCallbacks, [], false);
+
+      expect(mockCallbacks.onCheckpoint).toHaveBeenNthCalledWith(2, {
+        messages: [{ role: 'user', content: 'Buy a shirt' }],
+        step: 0,
+        pendingApproval: { kind: 'question', toolName: 'ask_user', toolInput: 'Which size?', reason: '' },
+      });
+      expect(askUserFunc).toHaveBeenCalledWith('Which size?', undefined);
+    });
+
+    it('should resume from a checkpoint with its messages and step count', async () => {
+      const { requestStepExtension } = jest.requireMock('../../../src/agent/approvalManager');
+      const engine = new ExecutionEngine(
+        mockProvider, toolManager, promptManager, memoryManager, errorHandler, { maxSteps: 3 }
+      );
+      const resumeFrom = {
+        messages: [
+          { role: 'user', content: 'Compare prices' },
+          { role: 'assistant', content: '<tool>browser_navigate</tool>' },
+          { role: 'user', content: 'Tool result: Navigation completed' },
+        ],
+        step: 2,
+      };
+      mockProvider.createMessage.mockImplementation(() => (async function* () {
+        yield { type: 'text', text: '<tool>browser_screenshot</tool>\n<input>{}</input>\n<requires_approval>false</requires_approval>' };
+      })());
+
+      await engine.executePrompt('Compare prices', mockCallbacks, [], false, { resumeFrom });
+
+      // Only the one step left in the budget runs before asking for more
+      expect(mockProvider.createMessage).toHaveBeenCalledTimes(1);
+      expect(mockProvider.createMessage.mock.calls[0][1].slice(0, 3)).toEqual(resumeFrom.messages);
+      expect(requestStepExtension).toHaveBeenCalledWith(123, 3, 3);
+    });
+  });
+
+  describe('plan', () => {
+    let mockCallbacks: ExecutionCallbacks;
+    let planManager: PlanManager;
+    let engine: ExecutionEngine;
+
+    const planInput = JSON.stringify({
+      steps: [{ title: 'Open example.com', status: 'in_progress' }, { title: 'Read the title', status: 'pending' }]
+    });
+
+    beforeEach(() => {
+      mockCallbacks = {
+        onLlmOutput: jest.fn(),
+        onToolOutput: jest.fn(),
+        onComplete: jest.fn(),
+        onCheckpoint: jest.fn(),
+        onPlanUpdate: jest.fn(),
+      };
+      planManager = new PlanManager();
+      engine = new ExecutionEngine(
+        mockProvider,
+        new ToolManager(mockPage, [...mockTools, updatePlan(planManager)]),
+        promptManager,
+        memoryManager,
+        errorHandler,
+        { planManager }
+      );
+    });
+
+    it('should show the plan to the LLM without adding it to the history', async () => {
+      mockProvider.createMessage
+        .mockReturnValueOnce((async function* () {
+          yield { type: 'text', text: `<tool>update_plan</tool>\n<input>${planInput}</input>\n<requires_approval>false</requires_approval>` };
+        })())
+        .mockReturnValueOnce((async function* () {
+          yield { type: 'text', text: '<tool>browser_navigate</tool>\n<input>https://example.com</input>\n<requires_approval>false</requires_approval>' };
+        })())
+        .mockReturnValueOnce((async function* () {
+          yield { type: 'text', text: 'Done.' };
+        })());
+
+      await engine.executePrompt('Open example.com', mockCallbacks, [], false);
+
+      // The plan follows the latest tool result on every call after it was made
+      for (const call of [1, 2]) {
+        const messages = mockProvider.createMessage.mock.calls[call][1];
+        expect(messages[messages.length - 1].content).toContain('Current plan');
+        expect(messages[messages.length - 1].content).toContain('1. [in_progress] Open example.com');
+      }
+
+      const checkpoints = (mockCallbacks.onCheckpoint as jest.Mock).mock.calls.map(([checkpoint]) => checkpoint);
+      const last = checkpoints[checkpoints.length - 1];
+      expect(last.plan).toEqual(planManager.getPlan());
+      expect(JSON.stringify(last.messages)).not.toContain('Current plan');
+    });
+
+    it('should report a fresh plan at the start and each update', async () => {
+      planManager.setPlan([{ title: 'Left over from the previous task', status: 'done' }]);
+      mockProvider.createMessage
+        .mockReturnValueOnce((async function* () {
+          yield { type: 'text', text: `<tool>update_plan</tool>\n<input>${planInput}</input>\n<requires_approval>false</requires_approval>` };
+        })())
+        .mockReturnValueOnce((async function* () {
+          yield { type: 'text', text: 'Done.' };
+        })());
+
+      await engine.executePrompt('Open example.com', mockCallbacks, [], false);
+
+      expect(mockCallbacks.onPlanUpdate).toHaveBeenNthCalledWith(1, []);
+      expect(mockCallbacks.onPlanUpdate).toHaveBeenNthCalledWith(2, [
+        { title: 'Open example.com', status: 'in_progress' },
+        { title: 'Read the title', status: 'pending' }
+      ]);
+    });
+
+    it('should restore the plan of an interrupted task', async () => {
+      const plan = [{ title: 'Open example.com', status: 'done' as const }];
+      mockProvider.createMessage.mockReturnValueOnce((async function* () {
+        yield { type: 'text', text: 'Done.' };
+      })());
+
+      await engine.executePrompt('Open example.com', mockCallbacks, [], false, {
+        resumeFrom: { messages: [{ role: 'user', content: 'Open example.com' }], step: 1, plan }
+      });
+
+      expect(mockCallbacks.onPlanUpdate).toHaveBeenCalledWith(plan);
+      const messages = mockProvider.createMessage.mock.calls[0][1];
+      expect(messages[0].content).toContain('1. [done] Open example.com');
+    });
+  });
+
+  describe('verification', () => {
+    let mockCallbacks: ExecutionCallbacks;
+    let engine: ExecutionEngine;
+
+    const reply = (text: string) => (async function* () {
+      yield { type: 'text', text };
+    })();
+    const navigate = '<tool>browser_navigate</tool>\n<input>https://example.com</input>\n<requires_approval>false</requires_approval>';
+
+    beforeEach(() => {
+      mockCallbacks = {
+        onLlmOutput: jest.fn(),
+        onToolOutput: jest.fn(),
+        onComplete: jest.fn(),
+      };
+      engine = new ExecutionEngine(
+        mockProvider, toolManager, promptManager, memoryManager, errorHandler, { verifyTasks: true }
+      );
+    });
+
+    it('should not verify unless enabled', async () => {
+      mockProvider.createMessage.mockReturnValueOnce(reply('Done.'));
+
+      await executionEngine.executePrompt('Open example.com', mockCallbacks, [], false);
+
+      expect(mockProvider.createMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report a passing verdict and finish', async () => {
+      mockProvider.createMessage
+        .mockReturnValueOnce(reply('Done.'))
+        .mockReturnValueOnce(reply('VERDICT: PASS\nThe page is open.'));
+
+      await engine.executePrompt('Open example.com', mockCallbacks, [], false);
+
+      expect(mockProvider.createMessage).toHaveBeenCalledTimes(2);
+      expect(mockCallbacks.onToolOutput).toHaveBeenCalledWith('✅ Verified: The page is open.');
+      expect(mockCallbacks.onComplete).toHaveBeenCalled();
+    });
+
+    it('should send the agent back after a failing verdict and verify again', async () => {
+      mockProvider.createMessage
+        .mockReturnValueOnce(reply('Done.'))
+        .mockReturnValueOnce(reply('VERDICT: FAIL\nThe page was never opened.'))
+        .mockReturnValueOnce(reply(navigate))
+        .mockReturnValueOnce(reply('Opened it.'))
+        .mockReturnValueOnce(reply('VERDICT: PASS\nThe page is open.'));
+
+      await engine.executePrompt('Open example.com', mockCallbacks, [], false);
+
+      expect(mockCallbacks.onToolOutput).toHaveBeenCalledWith('❌ Verification failed: The page was never opened.');
+      expect(mockToolFunctions[1]).toHaveBeenCalled();
+      expect(mockCallbacks.onToolOutput).toHaveBeenCalledWith('✅ Verified: The page is open.');
+      const history = mockProvider.createMessage.mock.calls[2][1];
+      expect(history).toContainEqual({
+        role: 'user',
+        content: expect.stringContaining('Verification: the task is not complete yet. The page was never opened.')
+      });
+    });
+
+    it('should stop when the result isn\'t fixed within the corrective steps', async () => {
+      mockProvider.createMessage
+        .mockReturnValueOnce(reply('Done.'))
+        .mockReturnValueOnce(reply('VERDICT: FAIL\nThe page was never opened.'));
+      // A different page each time, so this isn't taken for a loop
+      for (let i = 0; i < 10; i++) {
+        mockProvider.createMessage.mockReturnValueOnce(reply(navigate.replace('example.com', `example.com/${i}`)));
+      }
+
+      await engine.executePrompt('Open example.com', mockCallbacks, [], false);
+
+      expect(mockProvider.createMessage).toHaveBeenCalledTimes(12);
+      expect(mockCallbacks.onToolOutput).toHaveBeenCalledWith('⏹️ Stopped: the result still wasn\'t fixed after 10 corrective steps.');
+      expect(mockCallbacks.onComplete).toHaveBeenCalled();
+    });
+
+    it('should finish when the result can\'t be verified', async () => {
+      mockProvider.createMessage
+        .mockReturnValueOnce(reply('Done.'))
+        .mockReturnValueOnce(reply('Hard to say.'));
+
+      await engine.executePrompt('Open example.com', mockCallbacks, [], false);
+
+      expect(mockCallbacks.onToolOutput).toHaveBeenCalledWith(expect.stringContaining('⚠️ Could not verify the result'));
+      expect(mockCallbacks.onComplete).toHaveBeenCalled();
+    });
+
+    it('should skip verification when the prompt turns it off', async () => {
+      mockProvider.createMessage.mockReturnValueOnce(reply('Done.'));
+
+      await engine.executePrompt('Reflect on the task', mockCallbacks, [], false, { verify: false });
+
+      expect(mockProvider.createMessage).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('loop detection', () => {
+    const { requestUserAnswer } = jest.requireMock('../../../src/agent/approvalManager');
+    let mockCallbacks: ExecutionCallbacks;
+    const click = '<tool>browser_click</tool>\n<input>#missing</input>\n<requires_approval>false</requires_approval>';
+
+    beforeEach(() => {
+      mockCallbacks = {
+        onLlmOutput: jest.fn(),
+        onToolOutput: jest.fn(),
+        onComplete: jest.fn(),
+        onCheckpoint: jest.fn(),
+      };
+      (global as any).chrome.tabs.query.mockResolvedValue([{ id: 123 }]);
+      mockToolFunctions[2].mockResolvedValue('Error: element not found');
+    });
+
+    const replyTimes = (text: string, times: number) => {
+      for (let i = 0; i < times; i++) {
+        mockProvider.createMessage.mockReturnValueOnce((async function* () {
+          yield { type: 'text', text };
+        })());
+      }
+    };
+
+    it('should warn the agent and list the failed attempts', async () => {
+      replyTimes(click, 3);
+      replyTimes('I could not find the button.', 1);
+
+      await executionEngine.executePrompt('Click the button', mockCallbacks, [], false);
+
+      expect(mockCallbacks.onToolOutput).toHaveBeenCalledWith(
+        '🔁 Loop detected: the same browser_click call was made 3 times. Asking the agent to try something else...'
+      );
+      const messages = mockProvider.createMessage.mock.calls[3][1];
+      const last = messages[messages.length - 1].content;
+      expect(last).toContain('Tool result: Error: element not found');
+      expect(last).toContain('Loop detected: You have made the same tool call 3 times with the same outcome.');
+      expect(last).toContain('- browser_click #missing → Error: element not found');
+      expect(requestUserAnswer).not.toHaveBeenCalled();
+    });
+
+    it('should ask the user after repeated warnings and stop if they choose to', async () => {
+      replyTimes(click, 9);
+      requestUserAnswer.mockResolvedValueOnce('Stop the task');
+
+      await executionEngine.executePrompt('Click the button', mockCallbacks, [], false);
+
+      expect(mockProvider.createMessage).toHaveBeenCalledTimes(9);
+      expect(requestUserAnswer).toHaveBeenCalledWith(123, expect.stringContaining('The agent seems to be stuck'), ['Stop the task']);
+      expect(mockCallbacks.onCheckpoint).toHaveBeenCalledWith(expect.objectContaining({
+        step: 9,
+        pendingApproval: expect.objectContaining({ kind: 'question', toolName: 'Loop detected' })
+      }));
+      expect(mockCallbacks.onToolOutput).toHaveBeenCalledWith('⏹️ Stopped: the agent was stuck repeating the same actions.');
+      expect(mockCallbacks.onComplete).toHaveBeenCalled();
+    });
+
+    it('should continue with the user\'s advice', async () => {
+      replyTimes(click, 9);
+      replyTimes('Done.', 1);
+      requestUserAnswer.mockResolvedValueOnce('Use the link in the footer');
+
+      await executionEngine.executePrompt('Click the button', mockCallbacks, [], false);
+
+      expect(mockProvider.createMessage).toHaveBeenCalledTimes(10);
+      const messages = mockProvider.createMessage.mock.calls[9][1];
+      expect(messages[messages.length - 1].content).toContain('Additional instruction from the user: Use the link in the footer');
+      expect(mockCallbacks.onLlmOutput).toHaveBeenCalledWith('Done.');
+    });
+
+    it('should detect calls that leave the page unchanged', async () => {
+      for (let i = 0; i < 3; i++) {
+        replyTimes(click, 1);
+        replyTimes('<tool>browser_navigate</tool>\n<input>https://example.com</input>\n<requires_approval>false</requires_approval>', 1);
+      }
+      replyTimes('Done.', 1);
+      // Every call has a different outcome, so only the unchanged page gives the loop away
+      for (let i = 1; i <= 3; i++) {
+        mockToolFunctions[1].mockResolvedValueOnce(`Navigation completed (attempt ${i})`);
+        mockToolFunctions[2].mockResolvedValueOnce(`Error: timeout (attempt ${i})`);
+      }
+
+      await executionEngine.executePrompt('Click the button', mockCallbacks, [], false);
+
+      expect(mockCallbacks.onToolOutput).toHaveBeenCalledWith(
+        '🔁 Loop detected: the page hasn\'t changed over 6 tool calls. Asking the agent to try something else...'
+      );
+    });
+  });
+
+  describe('structured output', () => {
+    let mockCallbacks: ExecutionCallbacks;
+    const outputSchema = {
+      type: 'object',
+      properties: { price: { type: 'number' } },
+      required: ['price']
+    };
+
+    const reply = (text: string) => (async function* () {
+      yield { type: 'text', text };
+    })();
+
+    beforeEach(() => {
+      mockCallbacks = {
+        onLlmOutput: jest.fn(),
+        onToolOutput: jest.fn(),
+        onComplete: jest.fn(),
+        onStructuredOutput: jest.fn(),
+      };
+    });
+
+    it('should ask for a final answer matching the schema and report it', async () => {
+      mockProvider.createMessage.mockReturnValueOnce(reply('<final_answer>{"price": 59}</final_answer>'));
+
+      await executionEngine.executePrompt('Find the price', mockCallbacks, [], false, { outputSchema });
+
+      const messages = mockProvider.createMessage.mock.calls[0][1];
+      expect(messages[0].content).toContain('Find the price');
+      expect(messages[0].content).toContain('inside <final_answer></final_answer> tags');
+      expect(mockCallbacks.onStructuredOutput).toHaveBeenCalledWith({ price: 59 });
+    });
+
+    it('should send the agent back when the answer doesn\'t match', async () => {
+      mockProvider.createMessage
+        .mockReturnValueOnce(reply('<final_answer>{"price": "59 EUR"}</final_answer>'))
+        .mockReturnValueOnce(reply('<final_answer>{"price": 59}</final_answer>'));
+
+      await executionEngine.executePrompt('Find the price', mockCallbacks, [], false, { outputSchema });
+
+      expect(mockProvider.createMessage).toHaveBeenCalledTimes(2);
+      expect(mockCallbacks.onToolOutput).toHaveBeenCalledWith(
+        "⚠️ The final answer doesn't match the output schema. Asking the agent to fix it..."
+      );
+      const messages = mockProvider.createMessage.mock.calls[1][1];
+      expect(messages).toContainEqual({
+        role: 'user',
+        content: expect.stringContaining('$.price: expected number, got string')
+      });
+      expect(mockCallbacks.onStructuredOutput).toHaveBeenCalledTimes(1);
+      expect(mockCallbacks.onStructuredOutput).toHaveBeenCalledWith({ price: 59 });
+    });
+
+    it('should give up after a few attempts', async () => {
+      mockProvider.createMessage.mockImplementation(() => reply('The price is 59 EUR.'));
+
+      await executionEngine.executePrompt('Find the price', mockCallbacks, [], false, { outputSchema });
+
+      expect(mockProvider.createMessage).toHaveBeenCalledTimes(4);
+      expect(mockCallbacks.onToolOutput).toHaveBeenCalledWith(
+        "❌ The final answer still doesn't match the output schema:\n  • no <final_answer> found in your response"
+      );
+      expect(mockCallbacks.onStructuredOutput).not.toHaveBeenCalled();
+      expect(mockCallbacks.onComplete).toHaveBeenCalled();
+    });
+
+    it('should not repeat the instructions when resuming', async () => {
+      const resumeFrom = { messages: [{ role: 'user', content: 'Find the price\n\nWhen the task is complete...' }], step: 1 };
+      mockProvider.createMessage.mockReturnValueOnce(reply('<final_answer>{"price": 59}</final_answer>'));
+
+      await executionEngine.executePrompt('Find the price', mockCallbacks, [], false, { outputSchema, resumeFrom });
+
+      expect(mockProvider.createMessage.mock.calls[0][1]).toEqual(resumeFrom.messages);
+      expect(mockCallbacks.onStructuredOutput).toHaveBeenCalledWith({ price: 59 });
+    });
+  });
+
+  describe('dry run', () => {
+    const { requestApproval } = jest.requireMock('../../../src/agent/approvalManager');
+    let mockCallbacks: ExecutionCallbacks;
+
+    const reply = (text: string) => (async function* () {
+      yield { type: 'text', text };
+    })();
+    const toolCall = (name: string, input: string, requiresApproval = false) =>
+      reply(`<tool>${name}</tool>\n<input>${input}</input>\n<requires_approval>${requiresApproval}</requires_approval>`);
+
+    beforeEach(() => {
+      mockCallbacks = {
+        onLlmOutput: jest.fn(),
+        onToolOutput: jest.fn(),
+        onComplete: jest.fn(),
+        onCheckpoint: jest.fn(),
+        onDryRunComplete: jest.fn(),
+      };
+      (global as any).chrome.tabs.query.mockResolvedValue([{ id: 123 }]);
+    });
+
+    it('should run observation tools and record mutating ones', async () => {
+      mockProvider.createMessage
+        .mockReturnValueOnce(toolCall('browser_screenshot', '{}'))
+        .mockReturnValueOnce(toolCall('browser_click', '#buy', true))
+        .mockReturnValueOnce(reply('I would click Buy.'));
+
+      await executionEngine.executePrompt('Buy it', mockCallbacks, [], false, { dryRun: true });
+
+      expect(mockProvider.createMessage.mock.calls[0][1][0].content).toContain('This is a dry run.');
+      expect(mockToolFunctions[0]).toHaveBeenCalled();
+      expect(mockToolFunctions[2]).not.toHaveBeenCalled();
+      expect(requestApproval).not.toHaveBeenCalled();
+      expect(mockCallbacks.onToolOutput).toHaveBeenCalledWith('📝 Dry run: recorded browser_click without executing it.');
+      expect(mockProvider.createMessage.mock.calls[2][1]).toContainEqual({
+        role: 'user',
+        content: expect.stringContaining('Dry run: browser_click was recorded but not executed.')
+      });
+      expect(mockCallbacks.onDryRunComplete).toHaveBeenCalledWith([
+        { toolName: 'browser_click', toolInput: '#buy', requiresApproval: true }
+      ]);
+    });
+
+    it('should keep the recorded actions in checkpoints and pick them up on resume', async () => {
+      const earlier = { toolName: 'browser_navigate', toolInput: 'https://example.com', requiresApproval: false };
+      mockProvider.createMessage
+        .mockReturnValueOnce(toolCall('browser_click', '#buy'))
+        .mockReturnValueOnce(reply('Done.'));
+
+      await executionEngine.executePrompt('Buy it', mockCallbacks, [], false, {
+        dryRun: true,
+        resumeFrom: { messages: [{ role: 'user', content: 'Buy it' }], step: 1, plannedActions: [earlier] }
+      });
+
+      const checkpoints = (mockCallbacks.onCheckpoint as jest.Mock).mock.calls.map(([checkpoint]) => checkpoint);
+      expect(checkpoints[checkpoints.length - 1].plannedActions).toHaveLength(2);
+      expect(mockCallbacks.onDryRunComplete).toHaveBeenCalledWith([
+        earlier,
+        { toolName: 'browser_click', toolInput: '#buy', requiresApproval: false }
+      ]);
+    });
+
+    it('should only report the tools that really ran as executed', async () => {
+      mockCallbacks.onToolExecuted = jest.fn();
+      mockProvider.createMessage
+        .mockReturnValueOnce(toolCall('browser_screenshot', '{}'))
+        .mockReturnValueOnce(toolCall('browser_click', '#buy'))
+        .mockReturnValueOnce(reply('I would click Buy.'));
+
+      await executionEngine.executePrompt('Buy it', mockCallbacks, [], false, { dryRun: true });
+
+      expect(mockCallbacks.onToolExecuted).toHaveBeenCalledTimes(1);
+      expect(mockCallbacks.onToolExecuted).toHaveBeenCalledWith('browser_screenshot', '{}', 'Screenshot taken successfully');
+    });
+
+    it('should execute tools normally outside a dry run', async () => {
+      mockProvider.createMessage
+        .mockReturnValueOnce(toolCall('browser_click', '#buy'))
+        .mockReturnValueOnce(reply('Done.'));
+
+      await executionEngine.executePrompt('Buy it', mockCallbacks, [], false);
+
+      expect(mockToolFunctions[2]).toHaveBeenCalled();
+      expect(mockCallbacks.onDryRunComplete).not.toHaveBeenCalled();
+      expect((mockCallbacks.onCheckpoint as jest.Mock).mock.calls[0][0].plannedActions).toBeUndefined();
+    });
+
+    it('should ask the agent to carry out reviewed actions', async () => {
+      mockProvider.createMessage.mockReturnValueOnce(reply('Done.'));
+
+      await executionEngine.executePrompt('Buy it', mockCallbacks, [], false, {
+        followActions: [{ toolName: 'browser_click', toolInput: '#buy', requiresApproval: true }]
+      });
+
+      const content = mockProvider.createMessage.mock.calls[0][1][0].content;
+      expect(content).toContain('In a dry run you planned these actions for this task:\n1. browser_click #buy (needs approval)');
+    });
+  });
+
+  describe('macro replay', () => {
+    let mockCallbacks: ExecutionCallbacks;
+
+    const reply = (text: string) => (async function* () {
+      yield { type: 'text', text };
+    })();
+    const replay = {
+      taskDescription: 'Search the site',
+      toolSequence: ['browser_navigate | https://example.com', 'browser_click | [RESULT_LINK]'],
+      parameters: { RESULT_LINK: '#first' }
+    };
+
+    beforeEach(() => {
+      mockCallbacks = {
+        onLlmOutput: jest.fn(),
+        onToolOutput: jest.fn(),
+        onComplete: jest.fn(),
+      };
+      (global as any).chrome.tabs.query.mockResolvedValue([{ id: 123 }]);
+    });
+
+    it('should run the saved steps without calling the LLM', async () => {
+      await executionEngine.executePrompt('Search the site', mockCallbacks, [], false, { replay });
+
+      expect(mockToolFunctions[1].mock.calls[0][0]).toBe('https://example.com');
+      expect(mockToolFunctions[2].mock.calls[0][0]).toBe('#first');
+      expect(mockProvider.createMessage).not.toHaveBeenCalled();
+      expect(mockCallbacks.onToolOutput).toHaveBeenCalledWith('✅ Replayed all 2 saved steps.');
+      expect(mockCallbacks.onComplete).toHaveBeenCalled();
+    });
+
+    it('should hand over to the agent when a step fails', async () => {
+      mockToolFunctions[2].mockResolvedValueOnce('Error: element not found');
+      mockProvider.createMessage.mockReturnValueOnce(reply('I clicked the first result instead.'));
+
+      await executionEngine.executePrompt('Search the site', mockCallbacks, [], false, { replay });
+
+      expect(mockCallbacks.onToolOutput).toHaveBeenCalledWith(
+        '↪️ Step 2 (browser_click #first) failed: Error: element not found Handing over to the agent...'
+      );
+      const messages = mockProvider.createMessage.mock.calls[0][1];
+      expect(messages[messages.length - 1].content).toContain('1. browser_navigate https://example.com → Navigation completed');
+      expect(messages[messages.length - 1].content).toContain('Take over from here');
+    });
+
+    it('should not replay steps with a placeholder left empty', async () => {
+      mockProvider.createMessage.mockReturnValueOnce(reply('Done.'));
+
+      await executionEngine.executePrompt('Search the site', mockCallbacks, [], false, {
+        replay: { ...replay, parameters: {} }
+      });
+
+      expect(mockToolFunctions[1]).not.toHaveBeenCalled();
+      expect(mockCallbacks.onToolOutput).toHaveBeenCalledWith(expect.stringContaining('No value was given for [RESULT_LINK]'));
+      expect(mockProvider.createMessage).toHaveBeenCalled();
+    });
+
+    it('should ask for approval before each action', async () => {
+      const { requestApproval } = jest.requireMock('../../../src/agent/approvalManager');
+
+      await executionEngine.executePrompt('Search the site', mockCallbacks, [], false, { replay });
+
+      expect(requestApproval).toHaveBeenCalledTimes(2);
+      expect(requestApproval).toHaveBeenCalledWith(123, 'browser_click', '#first', expect.stringContaining('Saved steps are replayed'));
+      expect(mockToolFunctions[2]).toHaveBeenCalledWith('#first', expect.objectContaining({ requiresApproval: true }));
+    });
+
+    it('should hand over to the agent when an action is rejected', async () => {
+      const { requestApproval } = jest.requireMock('../../../src/agent/approvalManager');
+      requestApproval.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+      mockProvider.createMessage.mockReturnValueOnce(reply('Done.'));
+
+      await executionEngine.executePrompt('Search the site', mockCallbacks, [], false, { replay });
+
+      expect(mockToolFunctions[2]).not.toHaveBeenCalled();
+      expect(mockCallbacks.onToolOutput).toHaveBeenCalledWith(
+        '↪️ Step 2 (browser_click #first) failed: Action cancelled by user. Handing over to the agent...'
+      );
+      expect(mockProvider.createMessage).toHaveBeenCalled();
+    });
+
+    it('should not replay the steps again when the agent is retried', async () => {
+      const rateLimitError = new Error('Rate limit exceeded');
+      jest.spyOn(errorHandler, 'isRetryableError').mockReturnValue(true);
+      jest.spyOn(errorHandler, 'calculateBackoffTime').mockReturnValue(10);
+      mockToolFunctions[2].mockResolvedValueOnce('Error: element not found');
+      mockProvider.createMessage
+        .mockImplementationOnce(() => { throw rateLimitError; })
+        .mockReturnValueOnce(reply('I clicked the first result instead.'));
+
+      await executionEngine.executePrompt('Search the site', mockCallbacks, [], false, { replay });
+
+      expect(mockToolFunctions[1]).toHaveBeenCalledTimes(1);
+      expect(mockToolFunctions[2]).toHaveBeenCalledTimes(1);
+      const messages = mockProvider.createMessage.mock.calls[1][1];
+      expect(messages[messages.length - 1].content).toContain('Take over from here');
+      expect(mockCallbacks.onLlmOutput).toHaveBeenCalledWith('I clicked the first result instead.');
+    });
+  });
+
+  describe('fallback providers', () => {
+    let mockCallbacks: ExecutionCallbacks;
+    let fallbackProvider: any;
+
+    const reply = (text: string) => (async function* () {
+      yield { type: 'text', text };
+    })();
+    const failure = (error: any) => (async function* () {
+      throw error;
+    })();
+
+    beforeEach(() => {
+      mockCallbacks = {
+        onLlmOutput: jest.fn(),
+        onToolOutput: jest.fn(),
+        onComplete: jest.fn(),
+        onModelSwitch: jest.fn(),
+      };
+      fallbackProvider = createMockProvider();
+      fallbackProvider.getModel.mockReturnValue({
+        id: 'fallback-model',
+        info: { name: 'Fallback Model', inputPrice: 0, outputPrice: 0 }
+      });
+      jest.spyOn(errorHandler, 'calculateBackoffTime').mockReturnValue(0);
+      (global as any).chrome.tabs.query.mockResolvedValue([{ id: 123 }]);
+
+      executionEngine = new ExecutionEngine(mockProvider, toolManager, promptManager, memoryManager, errorHandler, {
+        fallbackProviders: [fallbackProvider]
+      });
+    });
+
+    it('should switch to the fallback provider mid-task and keep the conversation', async () => {
+      const rateLimited = { status: 429, error: { type: 'rate_limit_error', message: 'Slow down' } };
+      mockProvider.createMessage
+        .mockReturnValueOnce(reply('<tool>browser_screenshot</tool>\n<input>{}</input>\n<requires_approval>false</requires_approval>'))
+        .mockReturnValueOnce(failure(rateLimited))
+        .mockReturnValueOnce(failure(rateLimited));
+      fallbackProvider.createMessage.mockReturnValueOnce(reply('Done.'));
+
+      await executionEngine.executePrompt('Take a screenshot', mockCallbacks, [], false);
+
+      expect(mockProvider.createMessage).toHaveBeenCalledTimes(3);
+      expect(fallbackProvider.createMessage).toHaveBeenCalledTimes(1);
+      expect(fallbackProvider.createMessage.mock.calls[0][1]).toEqual(mockProvider.createMessage.mock.calls[2][1]);
+      expect(mockCallbacks.onToolOutput).toHaveBeenCalledWith(
+        '🔀 Mock Model is rate limited. Switching to Fallback Model and carrying on...'
+      );
+      expect(mockCallbacks.onModelSwitch).toHaveBeenCalledWith({ id: 'fallback-model', name: 'Fallback Model' });
+      expect(mockCallbacks.onLlmOutput).toHaveBeenCalledWith('Done.');
+      expect(mockCallbacks.onComplete).toHaveBeenCalled();
+    });
+
+    it('should switch straight away when the API key is rejected', async () => {
+      mockProvider.createMessage.mockReturnValueOnce(failure({ status: 401, error: { type: 'authentication_error' } }));
+      fallbackProvider.createMessage.mockReturnValueOnce(reply('Done.'));
+
+      await executionEngine.executePrompt('Hello', mockCallbacks, [], false);
+
+      expect(mockProvider.createMessage).toHaveBeenCalledTimes(1);
+      expect(mockCallbacks.onToolOutput).toHaveBeenCalledWith(
+        '🔀 Mock Model rejected the API key. Switching to Fallback Model and carrying on...'
+      );
+      expect(mockCallbacks.onLlmOutput).toHaveBeenCalledWith('Done.');
+    });
+
+    it('should switch straight away when the provider asks for a long wait', async () => {
+      const quotaExceeded = new LLMError('Quota exceeded', { category: 'rate_limited', provider: 'openai', retryAfterMs: 3_600_000 });
+      mockProvider.createMessage.mockReturnValueOnce(failure(quotaExceeded));
+      fallbackProvider.createMessage.mockReturnValueOnce(reply('Done.'));
+
+      await executionEngine.executePrompt('Hello', mockCallbacks, [], false);
+
+      expect(mockProvider.createMessage).toHaveBeenCalledTimes(1);
+      expect(errorHandler.calculateBackoffTime).not.toHaveBeenCalled();
+      expect(mockCallbacks.onLlmOutput).toHaveBeenCalledWith('Done.');
+    });
+
+    it('should not switch for errors another provider would also have', async () => {
+      mockProvider.createMessage.mockReturnValueOnce(failure(new Error('Invalid request')));
+
+      await executionEngine.executePrompt('Hello', mockCallbacks, [], false);
+
+      expect(fallbackProvider.createMessage).not.toHaveBeenCalled();
+      expect(mockCallbacks.onModelSwitch).not.toHaveBeenCalled();
+      expect(mockCallbacks.onLlmOutput).toHaveBeenCalledWith('Fatal error: Invalid request');
+    });
+
+    it('should replace screenshots with a note for a fallback model without vision', async () => {
+      const image = { type: 'image', source: { type: 'base64', media_type: 'image/jpeg', data: 'abc123' } };
+      ScreenshotManager.getInstance().clear();
+      const id = ScreenshotManager.getInstance().storeScreenshot(image as any);
+      mockToolFunctions[0].mockResolvedValue(JSON.stringify({ type: 'screenshotRef', id, note: 'Screenshot captured' }));
+      mockProvider.createMessage
+        .mockReturnValueOnce(reply('<tool>browser_screenshot</tool>\n<input>{}</input>\n<requires_approval>false</requires_approval>'))
+        .mockReturnValueOnce(failure({ status: 401, error: { type: 'authentication_error' } }));
+      fallbackProvider.createMessage.mockReturnValueOnce(reply('Done.'));
+
+      await executionEngine.executePrompt('What is shown?', mockCallbacks, [], false);
+
+      const messages = fallbackProvider.createMessage.mock.calls[0][1];
+      const result = messages[messages.length - 1];
+      expect(result.content).toEqual([
+        { type: 'text', text: expect.stringContaining('Screenshot captured (screenshot#1)') },
+        { type: 'text', text: "[Screenshot omitted: this model can't view images]" },
+      ]);
+    });
+
+    it('should count tokens for the fallback model with its own counter', async () => {
+      const primaryCounter = { count: jest.fn().mockReturnValue(1), calibrate: jest.fn() };
+      const fallbackCounter = { count: jest.fn().mockReturnValue(1), calibrate: jest.fn() };
+      executionEngine = new ExecutionEngine(mockProvider, toolManager, promptManager, memoryManager, errorHandler, {
+        fallbackProviders: [fallbackProvider],
+        tokenCounter: primaryCounter,
+        tokenCounters: new Map([[fallbackProvider, fallbackCounter]])
+      });
+      mockProvider.createMessage.mockReturnValueOnce(failure({ status: 401, error: { type: 'authentication_error' } }));
+      fallbackProvider.createMessage.mockReturnValueOnce((async function* () {
+        yield { type: 'text', text: 'Done.' };
+        yield { type: 'usage', inputTokens: 40 };
+      })());
+
+      await executionEngine.executePrompt('Hello', mockCallbacks, [], false);
+
+      expect(fallbackCounter.count).toHaveBeenCalled();
+      expect(fallbackCounter.calibrate).toHaveBeenCalledWith(expect.any(Number), 40);
+      expect(primaryCounter.calibrate).not.toHaveBeenCalled();
+    });
+
+    it('should fit the history into the context window of the fallback model', async () => {
+      fallbackProvider.getModel.mockReturnValue({
+        id: 'small-model',
+        info: { name: 'Small Model', inputPrice: 0, outputPrice: 0, contextWindow: 8_192, maxTokens: 4_096 }
+      });
+      executionEngine = new ExecutionEngine(mockProvider, toolManager, promptManager, memoryManager, errorHandler, {
+        fallbackProviders: [fallbackProvider],
+        reserveTokens: 0
+      });
+      // About 8,000 tokens of earlier steps, more than the small model's 4,096-token budget
+      const history = Array.from({ length: 8 }, (_, i) => ({
+        role: i % 2 === 0 ? 'user' : 'assistant',
+        content: `Step ${i}: ${'x'.repeat(4000)}`
+      }));
+      mockProvider.createMessage.mockReturnValueOnce(failure({ status: 401, error: { type: 'authentication_error' } }));
+      fallbackProvider.createMessage.mockImplementation(() => reply('Done.'));
+
+      await executionEngine.executePrompt('Hello', mockCallbacks, history, false);
+
+      const messages = fallbackProvider.createMessage.mock.calls[fallbackProvider.createMessage.mock.calls.length - 1][1];
+      expect(contextTokenCount(messages)).toBeLessThanOrEqual(4_096);
+    });
+
+    it('should start the next task on the primary provider again', async () => {
+      mockProvider.createMessage
+        .mockReturnValueOnce(failure(new TypeError('Failed to fetch')))
+        .mockReturnValueOnce(failure(new TypeError('Failed to fetch')))
+        .mockReturnValueOnce(reply('Back again.'));
+      fallbackProvider.createMessage.mockReturnValueOnce(reply('Done.'));
+
+      await executionEngine.executePrompt('Hello', mockCallbacks, [], false);
+      await executionEngine.executePrompt('Hello again', mockCallbacks, [], false);
+
+      expect(fallbackProvider.createMessage).toHaveBeenCalledTimes(1);
+      expect(mockCallbacks.onLlmOutput).toHaveBeenCalledWith('Back again.');
+    });
+  });
+
+  describe('reasoning', () => {
+    it('should show the reasoning for each step and keep it out of the answer and the history', async () => {
+      const mockCallbacks: ExecutionCallbacks = {
+        onLlmOutput: jest.fn(),
+        onToolOutput: jest.fn(),
+        onComplete: jest.fn(),
+        onReasoning: jest.fn(),
+      };
+      mockProvider.createMessage
+        .mockReturnValueOnce((async function* () {
+          yield { type: 'reasoning', reasoning: 'I should look at the page. ' };
+          yield { type: 'reasoning', reasoning: 'A screenshot will do.' };
+          yield { type: 'text', text: '<tool>browser_screenshot</tool>\n<input>{}</input>\n<requires_approval>false</requires_approval>' };
+        })())
+        .mockReturnValueOnce((async function* () {
+          yield { type: 'reasoning', reasoning: 'Maybe <tool>browser_click</tool>? No, the task is done.' };
+          yield { type: 'text', text: 'Done.' };
+        })());
+
+      await executionEngine.executePrompt('Take a screenshot', mockCallbacks, [], false);
+
+      expect(mockCallbacks.onReasoning).toHaveBeenNthCalledWith(1, 'I should look at the page. A screenshot will do.');
+      expect(mockCallbacks.onReasoning).toHaveBeenNthCalledWith(2, 'Maybe <tool>browser_click</tool>? No, the task is done.');
+      expect(mockToolFunctions[2]).not.toHaveBeenCalled();
+      expect(mockCallbacks.onLlmOutput).toHaveBeenLastCalledWith('Done.');
+      expect(JSON.stringify(mockProvider.createMessage.mock.calls[1][1])).not.toContain('A screenshot will do.');
+    });
+  });
+
+  describe('model roles', () => {
+    let mockCallbacks: ExecutionCallbacks;
+    let planner: any;
+    let executor: any;
+    let reflection: any;
+
+    const reply = (text: string) => (async function* () {
+      yield { type: 'text', text };
+    })();
+    const screenshotCall = '<tool>browser_screenshot</tool>\n<input>{}</input>\n<requires_approval>false</requires_approval>';
+
+    const createRoleProvider = (id: string) => {
+      const provider = createMockProvider();
+      provider.getModel.mockReturnValue({ id, info: { name: id, inputPrice: 0, outputPrice: 0 } });
+      return provider;
+    };
+
+    beforeEach(() => {
+      mockCallbacks = {
+        onLlmOutput: jest.fn(),
+        onToolOutput: jest.fn(),
+        onComplete: jest.fn(),
+      };
+      planner = createRoleProvider('planner-model');
+      executor = createRoleProvider('executor-model');
+      reflection = createRoleProvider('reflection-model');
+      executionEngine = new ExecutionEngine(mockProvider, toolManager, promptManager, memoryManager, errorHandler, {
+        roleProviders: { planner, executor, reflection }
+      });
+    });
+
+    it('should plan with the planner and carry out routine steps with the executor', async () => {
+      planner.createMessage.mockReturnValueOnce(reply(screenshotCall));
+      executor.createMessage
+        .mockReturnValueOnce(reply(screenshotCall))
+        .mockReturnValueOnce(reply('Done.'));
+
+      await executionEngine.executePrompt('Take two screenshots', mockCallbacks, [], false);
+
+      expect(planner.createMessage).toHaveBeenCalledTimes(1);
+      expect(executor.createMessage).toHaveBeenCalledTimes(2);
+      expect(mockProvider.createMessage).not.toHaveBeenCalled();
+      expect(mockCallbacks.onLlmOutput).toHaveBeenCalledWith('Done.');
+    });
+
+    it('should go back to the planner after a tool fails', async () => {
+      mockToolFunctions[0].mockResolvedValueOnce('Error: Screenshot failed');
+      planner.createMessage
+        .mockReturnValueOnce(reply(screenshotCall))
+        .mockReturnValueOnce(reply('Done.'));
+      executor.createMessage.mockReturnValueOnce(reply('Should not be called'));
+
+      await executionEngine.executePrompt('Take a screenshot', mockCallbacks, [], false);
+
+      expect(planner.createMessage).toHaveBeenCalledTimes(2);
+      expect(executor.createMessage).not.toHaveBeenCalled();
+    });
+
+    it('should run reflection prompts on the reflection model', async () => {
+      reflection.createMessage.mockReturnValueOnce(reply('{"domain": "example.com"}'));
+
+      await executionEngine.executePrompt('Reflect on this session', mockCallbacks, [], false, { reflection: true });
+
+      expect(reflection.createMessage).toHaveBeenCalledTimes(1);
+      expect(planner.createMessage).not.toHaveBeenCalled();
+    });
+
+    it('should replace screenshots with a note for a role model without vision', async () => {
+      const image = { type: 'image', source: { type: 'base64', media_type: 'image/jpeg', data: 'abc123' } };
+      ScreenshotManager.getInstance().clear();
+      const id = ScreenshotManager.getInstance().storeScreenshot(image as any);
+      mockToolFunctions[0].mockResolvedValue(JSON.stringify({ type: 'screenshotRef', id, note: 'Screenshot captured' }));
+      planner.getModel.mockReturnValue({ id: 'planner-model', info: { name: 'planner-model', inputPrice: 0, outputPrice: 0, supportsImages: true } });
+      planner.createMessage.mockReturnValueOnce(reply(screenshotCall));
+      executor.createMessage.mockReturnValueOnce(reply('Done.'));
+
+      await executionEngine.executePrompt('What is shown?', mockCallbacks, [], false);
+
+      const messages = executor.createMessage.mock.calls[0][1];
+      expect(messages[messages.length - 1].content).toEqual([
+        { type: 'text', text: expect.stringContaining('Screenshot captured (screenshot#1)') },
+        { type: 'text', text: "[Screenshot omitted: this model can't view images]" },
+      ]);
+    });
+
+    it('should fit the history into the context window of the role model', async () => {
+      executor.getModel.mockReturnValue({
+        id: 'executor-model',
+        info: { name: 'executor-model', inputPrice: 0, outputPrice: 0, contextWindow: 8_192, maxTokens: 4_096 }
+      });
+      executionEngine = new ExecutionEngine(mockProvider, toolManager, promptManager, memoryManager, errorHandler, {
+        roleProviders: { executor },
+        reserveTokens: 0
+      });
+      // About 8,000 tokens of earlier steps, more than the executor's 4,096-token budget
+      const history = Array.from({ length: 8 }, (_, i) => ({
+        role: i % 2 === 0 ? 'user' : 'assistant',
+        content: `Step ${i}: ${'x'.repeat(4000)}`
+      }));
+      mockProvider.getModel.mockReturnValue({
+        id: 'mock-model',
+        info: { name: 'Mock Model', inputPrice: 0, outputPrice: 0, contextWindow: 200_000, maxTokens: 8_192 }
+      });
+      mockProvider.createMessage.mockReturnValueOnce(reply(screenshotCall));
+      executor.createMessage.mockImplementation(() => reply('Done.'));
+
+      await executionEngine.executePrompt('Take a screenshot', mockCallbacks, history, false);
+
+      const calls = executor.createMessage.mock.calls;
+      expect(contextTokenCount(calls[calls.length - 1][1])).toBeLessThanOrEqual(4_096);
+    });
+
+    it('should use the selected model for roles without a model of their own', async () => {
+      executionEngine = new ExecutionEngine(mockProvider, toolManager, promptManager, memoryManager, errorHandler, {
+        roleProviders: { executor }
+      });
+      mockProvider.createMessage.mockReturnValueOnce(reply(screenshotCall));
+      executor.createMessage.mockReturnValueOnce(reply('Done.'));
+
+      await executionEngine.executePrompt('Take a screenshot', mockCallbacks, [], false);
+
+      expect(mockProvider.createMessage).toHaveBeenCalledTimes(1);
+      expect(executor.createMessage).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('context too long', () => {
+    const reply = (text: string) => (async function* () {
+      yield { type: 'text', text };
+    })();
+    const failure = (error: any) => (async function* () {
+      throw error;
+    })();
+    const history = Array.from({ length: 12 }, (_, i) => ({
+      role: i % 2 === 0 ? 'user' : 'assistant',
+      content: `Step ${i}: ${'lorem ipsum '.repeat(200)}`
+    }));
+
+    it('should summarize the earlier steps and try again', async () => {
+      const mockCallbacks: ExecutionCallbacks = {
+        onLlmOutput: jest.fn(),
+        onToolOutput: jest.fn(),
+        onComplete: jest.fn(),
+      };
+      mockProvider.createMessage
+        .mockReturnValueOnce(failure(new LLMError('prompt is too long', { category: 'context_too_long', provider: 'anthropic' })))
+        .mockReturnValueOnce(reply('Looked at the first few pages.'))
+        .mockReturnValueOnce(reply('Done.'));
+
+      await executionEngine.executePrompt('Carry on', mockCallbacks, history, false);
+
+      expect(mockCallbacks.onToolOutput).toHaveBeenCalledWith(
+        '🗜️ The conversation is too long for Mock Model. Summarizing earlier steps and trying again...'
+      );
+      const retryMessages = mockProvider.createMessage.mock.calls[2][1];
+      expect(retryMessages.length).toBeLessThan(history.length + 1);
+      expect(JSON.stringify(retryMessages)).toContain('Looked at the first few pages.');
+      expect(mockCallbacks.onLlmOutput).toHaveBeenCalledWith('Done.');
+    });
+
+    it('should give up when the history cannot be compacted', async () => {
+      const mockCallbacks: ExecutionCallbacks = {
+        onLlmOutput: jest.fn(),
+        onToolOutput: jest.fn(),
+        onComplete: jest.fn(),
+      };
+      mockProvider.createMessage.mockImplementation(() =>
+        failure(new LLMError('prompt is too long', { category: 'context_too_long', provider: 'anthropic' }))
+      );
+
+      await executionEngine.executePrompt('Hello', mockCallbacks, [], false);
+
+      expect(mockCallbacks.onLlmOutput).toHaveBeenCalledWith('Fatal error: prompt is too long');
+    });
+  });
+
+  describe('parseStepLimit', () => {
+    it('should read a leading /steps directive', () => {
+      expect(parseStepLimit('/steps 120 compare prices')).toEqual({ prompt: 'compare prices', maxSteps: 120 });
+      expect(parseStepLimit('  /STEPS 5\nfind the form')).toEqual({ prompt: 'find the form', maxSteps: 5 });
+    });
+
+    it('should leave other prompts unchanged', () => {
+      expect(parseStepLimit('take 5 /steps 10')).toEqual({ prompt: 'take 5 /steps 10' });
+      expect(parseStepLimit('/steps ahead')).toEqual({ prompt: '/steps ahead' });
+    });
+
+    it('should ignore a zero limit', () => {
+      expect(parseStepLimit('/steps 0 search')).toEqual({ prompt: 'search' });
+    });
+  });
+
   describe('executePromptWithFallback', () => {
     let mockCallbacks: ExecutionCallbacks;
 
@@ -366,8 +1661,25 @@ describe('ExecutionEngine', () => {
       const { TokenTrackingService } = require('../../../src/tracking/tokenTrackingService');
       const tokenTracker = TokenTrackingService.getInstance();
       
-      expect(tokenTracker.trackInputTokens).toHaveBeenCalledWith(15, { read: 5, write: undefined });
-      expect(tokenTracker.trackOutputTokens).toHaveBeenCalledWith(10);
+      const model = { id: 'mock-model', name: 'Mock Model', inputPrice: expect.any(Number), outputPrice: expect.any(Number), reasoning: false };
+      expect(tokenTracker.trackInputTokens).toHaveBeenCalledWith(15, { read: 5, write: undefined }, undefined, model);
+      expect(tokenTracker.trackOutputTokens).toHaveBeenCalledWith(10, undefined, model);
+    });
+
+    it('should calibrate the token counter with the reported prompt tokens', async () => {
+      const tokenCounter = { count: jest.fn().mockReturnValue(3), calibrate: jest.fn() };
+      const engine = new ExecutionEngine(
+        mockProvider, toolManager, promptManager, memoryManager, errorHandler, { tokenCounter }
+      );
+      mockProvider.createMessage.mockReturnValue((async function* () {
+        yield { type: 'text', text: 'Response' };
+        yield { type: 'usage', inputTokens: 15, outputTokens: 10, cacheReadTokens: 5 };
+      })());
+
+      await engine.executePrompt('Test', { onLlmOutput: jest.fn(), onToolOutput: jest.fn(), onComplete: jest.fn() }, [], false);
+
+      // System prompt + tool definitions + one message, at 3 tokens each
+      expect(tokenCounter.calibrate).toHaveBeenCalledWith(9, 20);
     });
   });
 });
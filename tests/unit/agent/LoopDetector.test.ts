@@ -0,0 +1,119 @@
+import { LoopDetector, ToolCallRecord, formatLoopWarning } from '../../../src/agent/LoopDetector';
+
+describe('LoopDetector', () => {
+  let detector: LoopDetector;
+
+  const call = (toolInput: string, result = 'Error: element not found', pageState = 'page-a'): ToolCallRecord => ({
+    toolName: 'browser_click',
+    toolInput,
+    result,
+    pageState
+  });
+
+  beforeEach(() => {
+    detector = new LoopDetector();
+  });
+
+  it('should detect the same call repeated with the same outcome', () => {
+    expect(detector.record(call('#buy'))).toBeNull();
+    expect(detector.record(call('#buy'))).toBeNull();
+
+    const loop = detector.record(call('#buy'));
+
+    expect(loop?.kind).toBe('repeat');
+    expect(loop?.attempts).toHaveLength(3);
+  });
+
+  it('should treat inputs that differ only in whitespace as the same call', () => {
+    detector.record(call('{"selector": "#buy"}'));
+    detector.record(call('{"selector":  "#buy"}'));
+
+    expect(detector.record(call(' {"selector": "#buy"}\n'))?.kind).toBe('repeat');
+  });
+
+  it('should not count a repeated call whose outcome changes', () => {
+    detector.record(call('#next', 'Element clicked', 'page-1'));
+    detector.record(call('#next', 'Element clicked', 'page-2'));
+
+    expect(detector.record(call('#next', 'Element clicked', 'page-3'))).toBeNull();
+  });
+
+  it('should detect a few calls cycling on an unchanged page', () => {
+    const results = ['Error: a', 'Error: b', 'Error: c', 'Error: d', 'Error: e'];
+    for (const [i, result] of results.entries()) {
+      expect(detector.record(call(i % 2 ? '#buy' : '#cart', result))).toBeNull();
+    }
+
+    const loop = detector.record(call('#cart', 'Error: f'));
+
+    expect(loop?.kind).toBe('no_progress');
+    expect(loop?.attempts).toHaveLength(6);
+  });
+
+  it('should not report stagnation while the agent tries different things', () => {
+    for (let i = 0; i < 6; i++) {
+      expect(detector.record(call(`#option-${i}`, `Error: ${i}`))).toBeNull();
+    }
+  });
+
+  it('should leave observations out of the stagnation window', () => {
+    const observe = (i: number): ToolCallRecord => ({
+      toolName: 'browser_snapshot_dom',
+      toolInput: '',
+      result: `snapshot ${i}`,
+      pageState: 'page-a',
+      mutating: false
+    });
+    for (let i = 0; i < 5; i++) {
+      expect(detector.record(call(i % 2 ? '#buy' : '#cart', `Error: ${i}`))).toBeNull();
+      expect(detector.record(observe(i))).toBeNull();
+    }
+
+    // The sixth action on the unchanged page completes the window
+    const loop = detector.record(call('#cart', 'Error: 5'));
+
+    expect(loop?.kind).toBe('no_progress');
+    expect(loop?.attempts.map(c => c.toolName)).toEqual(Array(6).fill('browser_click'));
+  });
+
+  it('should not report stagnation without a page fingerprint', () => {
+    for (let i = 0; i < 6; i++) {
+      expect(detector.record(call(i % 2 ? '#buy' : '#cart', `Error: ${i}`, ''))).toBeNull();
+    }
+  });
+
+  it('should start over after a detection', () => {
+    detector.record(call('#buy'));
+    detector.record(call('#buy'));
+    detector.record(call('#buy'));
+
+    expect(detector.record(call('#buy'))).toBeNull();
+  });
+
+  it('should count warnings until reset', () => {
+    expect(detector.addWarning()).toBe(1);
+    expect(detector.addWarning()).toBe(2);
+
+    detector.reset();
+
+    expect(detector.getWarningCount()).toBe(0);
+  });
+
+  describe('formatLoopWarning', () => {
+    it('should list the failed attempts', () => {
+      const warning = formatLoopWarning({ kind: 'repeat', attempts: [call('#buy'), call('#buy')] });
+
+      expect(warning).toContain('You have made the same tool call 2 times with the same outcome.');
+      expect(warning).toContain('- browser_click #buy → Error: element not found');
+      expect(warning).toContain('try a different approach');
+    });
+
+    it('should shorten long results', () => {
+      const warning = formatLoopWarning({ kind: 'no_progress', attempts: [call('#buy', 'x'.repeat(500))] });
+
+      expect(warning).toContain("The page hasn't changed over your last 1 tool calls.");
+      expect(warning).toContain(`${'x'.repeat(200)}...`);
+      expect(warning).not.toContain('x'.repeat(201));
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  bindParameters,
+  findPlaceholders,
+  formatReplayHandover,
+  isFailedResult,
+  isMacroReplay,
+  parseToolSequence
+} from '../../../src/agent/MacroReplay';
+
+describe('MacroReplay', () => {
+  const toolSequence = [
+    'browser_navigate | https://www.google.com',
+    'browser_click | textarea[name="q"]',
+    'browser_keyboard_type | [search term]',
+    '',
+    'browser_press_key | Enter'
+  ];
+
+  it('should split tool sequence lines into tool names and inputs', () => {
+    expect(parseToolSequence(toolSequence)).toEqual([
+      { toolName: 'browser_navigate', toolInput: 'https://www.google.com' },
+      { toolName: 'browser_click', toolInput: 'textarea[name="q"]' },
+      { toolName: 'browser_keyboard_type', toolInput: '[search term]' },
+      { toolName: 'browser_press_key', toolInput: 'Enter' }
+    ]);
+    expect(parseToolSequence(['browser_snapshot_dom'])).toEqual([{ toolName: 'browser_snapshot_dom', toolInput: '' }]);
+  });
+
+  it('should find placeholders but not attribute selectors', () => {
+    expect(findPlaceholders([...toolSequence, 'browser_keyboard_type | [CONTACT_NAME] and [search term]'])).toEqual([
+      'search term',
+      'CONTACT_NAME'
+    ]);
+    expect(findPlaceholders(['browser_click | input[type=submit]', 'browser_click | li[data-id]'])).toEqual([]);
+  });
+
+  it('should fill in placeholders and report those without a value', () => {
+    const steps = parseToolSequence(['browser_keyboard_type | [search term]', 'browser_keyboard_type | [CONTACT_NAME]']);
+
+    expect(bindParameters(steps, { 'search term': 'bees' })).toEqual({
+      steps: [
+        { toolName: 'browser_keyboard_type', toolInput: 'bees' },
+        { toolName: 'browser_keyboard_type', toolInput: '[CONTACT_NAME]' }
+      ],
+      missing: ['CONTACT_NAME']
+    });
+  });
+
+  it('should keep JSON inputs valid when a value has quotes or backslashes', () => {
+    const steps = parseToolSequence([
+      'browser_type | {"selector":"input[name=\\"q\\"]","text":"[search term]"}',
+      'browser_type | {"selector":"#password","text":"[PASSWORD]"}'
+    ]);
+
+    const { steps: bound } = bindParameters(steps, { 'search term': '27" monitor', PASSWORD: 'a\\b"c' });
+
+    expect(JSON.parse(bound[0].toolInput)).toEqual({ selector: 'input[name="q"]', text: '27" monitor' });
+    expect(JSON.parse(bound[1].toolInput)).toEqual({ selector: '#password', text: 'a\\b"c' });
+  });
+
+  it('should recognise failed tool results', () => {
+    expect(isFailedResult('Error: element not found')).toBe(true);
+    expect(isFailedResult('No elements found matching ".buy"')).toBe(true);
+    expect(isFailedResult('Clicked textarea[name="q"]')).toBe(false);
+  });
+
+  it('should tell the agent what was replayed and why it stopped', () => {
+    const replay = { taskDescription: 'Search Google', toolSequence };
+    const handover = formatReplayHandover(
+      replay,
+      [{ toolName: 'browser_navigate', toolInput: 'https://www.google.com', result: 'Navigated' }],
+      'Step 2 failed: Error: timeout'
+    );
+
+    expect(handover).toContain('"Search Google"');
+    expect(handover).toContain('1. browser_navigate https://www.google.com → Navigated');
+    expect(handover).toContain('Step 2 failed: Error: timeout');
+    expect(formatReplayHandover(replay, [], 'Stopped.')).toContain('No steps were replayed.');
+  });
+
+  it('should only accept replays with a task and a list of steps', () => {
+    expect(isMacroReplay({ taskDescription: 'Search', toolSequence, parameters: { 'search term': 'bees' } })).toBe(true);
+    expect(isMacroReplay({ taskDescription: 'Search', toolSequence: [1, 2] })).toBe(false);
+    expect(isMacroReplay({ toolSequence })).toBe(false);
+    expect(isMacroReplay(null)).toBe(false);
+  });
+});
@@ -0,0 +1,53 @@
+import { PlanManager } from '../../../src/agent/PlanManager';
+
+describe('PlanManager', () => {
+  let planManager: PlanManager;
+
+  beforeEach(() => {
+    planManager = new PlanManager();
+  });
+
+  it('should start without a plan', () => {
+    expect(planManager.hasPlan()).toBe(false);
+    expect(planManager.getPlan()).toEqual([]);
+  });
+
+  it('should replace the plan and return copies of it', () => {
+    const steps = [
+      { title: 'Open the shop', status: 'done' as const },
+      { title: 'Search for shoes', status: 'in_progress' as const }
+    ];
+
+    planManager.setPlan(steps);
+    steps[0].title = 'Changed';
+    const plan = planManager.getPlan();
+    plan[1].status = 'failed';
+
+    expect(planManager.hasPlan()).toBe(true);
+    expect(planManager.getPlan()).toEqual([
+      { title: 'Open the shop', status: 'done' },
+      { title: 'Search for shoes', status: 'in_progress' }
+    ]);
+  });
+
+  it('should clear the plan on reset', () => {
+    planManager.setPlan([{ title: 'Open the shop', status: 'pending' }]);
+    planManager.reset();
+
+    expect(planManager.hasPlan()).toBe(false);
+  });
+
+  it('should format the plan as a numbered list with statuses and notes', () => {
+    planManager.setPlan([
+      { title: 'Open the shop', status: 'done' },
+      { title: 'Log in', status: 'failed', note: 'no account' },
+      { title: 'Search for shoes', status: 'pending' }
+    ]);
+
+    expect(planManager.formatPlan()).toBe(
+      '1. [done] Open the shop\n2. [failed] Log in (no account)\n3. [pending] Search for shoes'
+    );
+    expect(planManager.formatForPrompt()).toContain('Current plan');
+    expect(planManager.formatForPrompt()).toContain('3. [pending] Search for shoes');
+  });
+});
@@ -0,0 +1,86 @@
+import { specFileName, toPlaywrightSpec } from '../../../src/agent/PlaywrightExport';
+
+describe('PlaywrightExport', () => {
+  it('should turn executed actions into a Playwright test', () => {
+    const spec = toPlaywrightSpec([
+      { toolName: 'browser_navigate', toolInput: 'https://www.google.com', result: 'Successfully navigated to https://www.google.com' },
+      { toolName: 'browser_type', toolInput: '{"selector": "textarea[name=\\"q\\"]", "text": "bees"}', result: 'Typed "bees"' },
+      { toolName: 'browser_press_key', toolInput: 'Enter', result: 'Pressed key: Enter' },
+      { toolName: 'browser_wait_for_navigation', toolInput: '', result: 'Navigation complete.' },
+      { toolName: 'browser_click', toolInput: 'Images', result: 'Clicked element containing text: Images' },
+      { toolName: 'update_plan', toolInput: '["Search"]', result: 'Plan updated' }
+    ], 'Search for bees');
+
+    expect(spec).toBe([
+      "import { test } from '@playwright/test';",
+      '',
+      'test("Search for bees", async ({ page }) => {',
+      '  await page.goto("https://www.google.com");',
+      '  await page.locator("textarea[name=\\"q\\"]").fill("bees");',
+      '  await page.keyboard.press("Enter");',
+      '  await page.waitForLoadState("load");',
+      '  await page.getByText("Images").click();',
+      '});',
+      ''
+    ].join('\n'));
+  });
+
+  it('should locate elements picked by ref through the role and name the snapshot listed', () => {
+    const spec = toPlaywrightSpec([
+      { toolName: 'browser_snapshot_dom', toolInput: '', result: 'Interactive elements:\n[e1] link "Home"\n[e2] button "Sign in"\n\n<html>' },
+      { toolName: 'browser_click', toolInput: 'ref=e2', result: 'Clicked element ref=e2' },
+      { toolName: 'browser_click', toolInput: 'ref=e9', result: 'Clicked element ref=e9' }
+    ], 'Sign in');
+
+    expect(spec).toContain('  // The agent checked the page here (browser_snapshot_dom)');
+    expect(spec).toContain('  await page.getByRole("button", { name: "Sign in" }).click();');
+    expect(spec).toContain('ref=e9 came from a snapshot; replace it with a stable locator');
+  });
+
+  it('should match names the snapshot cut short by the part that was kept', () => {
+    const longName = `Accept all cookies and continue ${'to the site '.repeat(4)}`.slice(0, 77) + '...';
+    const spec = toPlaywrightSpec([
+      { toolName: 'browser_snapshot_dom', toolInput: '', result: `Interactive elements:\n[e1] button "${longName}"\n[e2] button "Loading..."` },
+      { toolName: 'browser_click', toolInput: 'ref=e1', result: 'Clicked element ref=e1' },
+      { toolName: 'browser_click', toolInput: 'ref=e2', result: 'Clicked element ref=e2' }
+    ], 'Cookies');
+
+    expect(spec).toContain(`  await page.getByRole("button", { name: "${longName.slice(0, 77)}", exact: false }).click();`);
+    expect(spec).toContain('  await page.getByRole("button", { name: "Loading..." }).click();');
+  });
+
+  it('should locate elements listed by tag through their text, and not guess at nameless ones', () => {
+    const spec = toPlaywrightSpec([
+      { toolName: 'browser_snapshot_dom', toolInput: '', result: 'Interactive elements:\n[e1] div "Show more"\n[e2] button\n[e3] span' },
+      { toolName: 'browser_click', toolInput: 'ref=e1', result: 'Clicked element ref=e1' },
+      { toolName: 'browser_click', toolInput: 'ref=e2', result: 'Clicked element ref=e2' },
+      { toolName: 'browser_click', toolInput: 'ref=e3', result: 'Clicked element ref=e3' }
+    ], 'Show more');
+
+    expect(spec).toContain('  await page.getByText("Show more").click();');
+    expect(spec).not.toContain('getByRole("div"');
+    expect(spec).not.toContain('.first()');
+    expect(spec).toContain('ref=e2 is a button without a name; replace it with a stable locator');
+    expect(spec).toContain('ref=e3 is a span without a name; replace it with a stable locator');
+  });
+
+  it('should assert titles, replay mouse actions and leave out failed steps', () => {
+    const spec = toPlaywrightSpec([
+      { toolName: 'browser_click', toolInput: '#missing', result: "Error clicking '#missing': timeout" },
+      { toolName: 'browser_click_xy', toolInput: 'ref=e3', result: 'Clicked at (120, 48)' },
+      { toolName: 'browser_get_title', toolInput: '', result: 'Current page title: Results' },
+      { toolName: 'browser_tab_new', toolInput: 'https://example.com', result: 'Opened a new tab' }
+    ], 'Check results');
+
+    expect(spec).toContain("import { test, expect } from '@playwright/test';");
+    expect(spec).not.toContain('#missing');
+    expect(spec).toContain('  await page.mouse.click(120, 48);');
+    expect(spec).toContain('  await expect(page).toHaveTitle("Results");');
+    expect(spec).toContain("  // browser_tab_new https://example.com isn't exported");
+  });
+
+  it('should name spec files after the task', () => {
+    expect(specFileName('Search Google for "bees"!')).toBe('search-google-for-bees.spec.ts');
+    expect(specFileName('???')).toBe('browserbee-session.spec.ts');
+  });
+});
@@ -160,10 +160,33 @@ describe('PromptManager', () => {
 
       expect(systemPrompt).toContain('TOOL-CALL SYNTAX');
       expect(systemPrompt).toContain('<tool>tool_name</tool>');
-      expect(systemPrompt).toContain('<input>arguments here</input>');
+      expect(systemPrompt).toContain('<input>{"param": "value"}</input>');
       expect(systemPrompt).toContain('<requires_approval>true or false</requires_approval>');
     });
 
+    it('should render tool input schemas', () => {
+      promptManager.updateTools([
+        {
+          name: 'browser_type',
+          description: 'Type text into an input field',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              selector: { type: 'string', description: 'CSS selector of the field' },
+              text: { type: 'string' },
+            },
+            required: ['selector'],
+          },
+          func: jest.fn() as any
+        }
+      ]);
+
+      const systemPrompt = promptManager.getSystemPrompt();
+
+      expect(systemPrompt).toContain('Input: {"selector": string, "text"?: string}');
+      expect(systemPrompt).toContain('• selector – CSS selector of the field');
+    });
+
     it('should detect macOS and use Command key', () => {
       const systemPrompt = promptManager.getSystemPrompt();
 
@@ -0,0 +1,110 @@
+import {
+  formatOutputErrors,
+  formatOutputInstructions,
+  isJsonSchema,
+  parseFinalAnswer,
+  validateAgainstSchema
+} from '../../../src/agent/StructuredOutput';
+
+describe('StructuredOutput', () => {
+  const productSchema = {
+    type: 'object',
+    properties: {
+      name: { type: 'string', minLength: 1 },
+      price: { type: 'number', minimum: 0 },
+      currency: { enum: ['USD', 'EUR'] },
+      tags: { type: 'array', items: { type: 'string' }, maxItems: 2 }
+    },
+    required: ['name', 'price'],
+    additionalProperties: false
+  };
+
+  describe('validateAgainstSchema', () => {
+    it('should accept a value that matches the schema', () => {
+      expect(validateAgainstSchema({ name: 'Shoe', price: 59, currency: 'EUR', tags: ['red'] }, productSchema)).toEqual([]);
+    });
+
+    it('should report each violation with its path', () => {
+      const errors = validateAgainstSchema(
+        { name: '', price: -1, currency: 'GBP', tags: ['a', 3, 'c'], color: 'red' },
+        productSchema
+      );
+
+      expect(errors).toEqual([
+        '$.name: must be at least 1 characters long',
+        '$.price: must be at least 0',
+        '$.currency: must be one of "USD", "EUR"',
+        '$.tags: must have at most 2 items',
+        '$.tags[1]: expected string, got integer',
+        '$.color: unknown property'
+      ]);
+    });
+
+    it('should report missing required properties', () => {
+      expect(validateAgainstSchema({ name: 'Shoe' }, productSchema)).toEqual(['$.price: required property is missing']);
+    });
+
+    it('should check types, including integers and unions', () => {
+      expect(validateAgainstSchema(3, { type: 'number' })).toEqual([]);
+      expect(validateAgainstSchema(3.5, { type: 'integer' })).toEqual(['$: expected integer, got number']);
+      expect(validateAgainstSchema(null, { type: ['string', 'null'] })).toEqual([]);
+      expect(validateAgainstSchema([], { type: 'object' })).toEqual(['$: expected object, got array']);
+    });
+
+    it('should support anyOf, oneOf, const and pattern', () => {
+      expect(validateAgainstSchema('x', { anyOf: [{ type: 'number' }, { type: 'string' }] })).toEqual([]);
+      expect(validateAgainstSchema(true, { anyOf: [{ type: 'number' }, { type: 'string' }] }))
+        .toEqual(["$: doesn't match any of the allowed schemas"]);
+      expect(validateAgainstSchema(2, { oneOf: [{ type: 'number' }, { type: 'integer' }] }))
+        .toEqual(['$: must match exactly one of the allowed schemas, matches 2']);
+      expect(validateAgainstSchema('b', { const: 'a' })).toEqual(['$: must be "a"']);
+      expect(validateAgainstSchema('12-34', { pattern: '^\\d{2}-\\d{2}$' })).toEqual([]);
+      expect(validateAgainstSchema('1234', { pattern: '^\\d{2}-\\d{2}$' })).toEqual(['$: must match the pattern ^\\d{2}-\\d{2}$']);
+    });
+  });
+
+  describe('parseFinalAnswer', () => {
+    it('should read and validate the JSON in the final_answer tags', () => {
+      const answer = parseFinalAnswer('Found it.\n<final_answer>{"name": "Shoe", "price": 59}</final_answer>', productSchema);
+
+      expect(answer).toEqual({ value: { name: 'Shoe', price: 59 }, errors: [] });
+    });
+
+    it('should accept JSON in a code fence', () => {
+      const answer = parseFinalAnswer('<final_answer>\n```json\n{"name": "Shoe", "price": 59}\n```\n</final_answer>', productSchema);
+
+      expect(answer.errors).toEqual([]);
+      expect(answer.value).toEqual({ name: 'Shoe', price: 59 });
+    });
+
+    it('should report a missing final answer', () => {
+      expect(parseFinalAnswer('The price is 59.', productSchema).errors).toEqual(['no <final_answer> found in your response']);
+    });
+
+    it('should report invalid JSON', () => {
+      const answer = parseFinalAnswer('<final_answer>{name: Shoe}</final_answer>', productSchema);
+
+      expect(answer.value).toBeUndefined();
+      expect(answer.errors[0]).toContain('the final answer is not valid JSON');
+    });
+
+    it('should return the value along with schema violations', () => {
+      const answer = parseFinalAnswer('<final_answer>{"name": "Shoe"}</final_answer>', productSchema);
+
+      expect(answer).toEqual({ value: { name: 'Shoe' }, errors: ['$.price: required property is missing'] });
+    });
+  });
+
+  it('should only take JSON objects as schemas', () => {
+    expect(isJsonSchema({ type: 'object' })).toBe(true);
+    expect(isJsonSchema([])).toBe(false);
+    expect(isJsonSchema('{"type": "object"}')).toBe(false);
+    expect(isJsonSchema(null)).toBe(false);
+  });
+
+  it('should include the schema in the instructions and the errors in the correction', () => {
+    expect(formatOutputInstructions({ type: 'object' })).toContain('<final_answer></final_answer>');
+    expect(formatOutputInstructions({ type: 'object' })).toContain('"type": "object"');
+    expect(formatOutputErrors(['$.price: required property is missing'])).toContain('  • $.price: required property is missing');
+  });
+});
@@ -0,0 +1,112 @@
+import { parseVerdict, verifyTask } from '../../../src/agent/TaskVerifier';
+import { ToolManager } from '../../../src/agent/ToolManager';
+import { ScreenshotManager } from '../../../src/tracking/screenshotManager';
+import { TokenTrackingService } from '../../../src/tracking/tokenTrackingService';
+import { createMockPage } from '../../mocks/playwright';
+import { createMockProvider } from '../../mocks/providers';
+
+jest.mock('../../../src/tracking/tokenTrackingService', () => {
+  const tracker = { trackInputTokens: jest.fn(), trackOutputTokens: jest.fn() };
+  return { TokenTrackingService: { getInstance: () => tracker } };
+});
+
+describe('TaskVerifier', () => {
+  describe('parseVerdict', () => {
+    it('should read a passing verdict and its reason', () => {
+      expect(parseVerdict('VERDICT: PASS\nThe cart shows the blue shirt.')).toEqual({
+        passed: true,
+        reason: 'The cart shows the blue shirt.'
+      });
+    });
+
+    it('should read a failing verdict in any case and with markdown', () => {
+      expect(parseVerdict('**Verdict: fail** — the search box is still empty.')).toEqual({
+        passed: false,
+        reason: 'the search box is still empty.'
+      });
+    });
+
+    it('should give a default reason when there is none', () => {
+      expect(parseVerdict('VERDICT: PASS')).toEqual({ passed: true, reason: 'The result matches the request.' });
+    });
+
+    it('should return null when the reply has no verdict', () => {
+      expect(parseVerdict('Looks good to me!')).toBeNull();
+    });
+  });
+
+  describe('verifyTask', () => {
+    const image = { type: 'image', source: { type: 'base64', media_type: 'image/jpeg', data: 'abc' } };
+    let mockProvider: ReturnType<typeof createMockProvider>;
+    let readText: jest.Mock;
+    let screenshot: jest.Mock;
+    let toolManager: ToolManager;
+
+    beforeEach(() => {
+      mockProvider = createMockProvider();
+      readText = jest.fn().mockResolvedValue('Cart: 1 item, blue shirt');
+      screenshot = jest.fn();
+      toolManager = new ToolManager(createMockPage(), [
+        { name: 'browser_read_text', description: 'Read the page text', func: readText },
+        { name: 'browser_screenshot', description: 'Take a screenshot', func: screenshot },
+      ]);
+      ScreenshotManager.getInstance().clear();
+    });
+
+    it('should ask the LLM with the request, the final answer and the page', async () => {
+      const id = ScreenshotManager.getInstance().storeScreenshot(image as any);
+      screenshot.mockResolvedValue(JSON.stringify({ type: 'screenshotRef', id }));
+      mockProvider.createMessage.mockReturnValue((async function* () {
+        yield { type: 'text', text: 'VERDICT: PASS\nThe cart ' };
+        yield { type: 'text', text: 'has the shirt.' };
+      })());
+
+      const verdict = await verifyTask(mockProvider, toolManager, 'Add a blue shirt to the cart', 'Done, it is in the cart.');
+
+      expect(verdict).toEqual({ passed: true, reason: 'The cart has the shirt.' });
+      const [systemPrompt, messages] = mockProvider.createMessage.mock.calls[0];
+      expect(systemPrompt).toContain('VERDICT: PASS');
+      expect(messages).toHaveLength(1);
+      expect(messages[0].content[0].text).toContain('Original request: Add a blue shirt to the cart');
+      expect(messages[0].content[0].text).toContain('Done, it is in the cart.');
+      expect(messages[0].content[0].text).toContain('Cart: 1 item, blue shirt');
+      expect(messages[0].content[1]).toEqual(image);
+    });
+
+    it('should only send the page text to models without vision', async () => {
+      mockProvider.getModel.mockReturnValue({ id: 'text-model', info: { supportsImages: false } });
+      mockProvider.createMessage.mockReturnValue((async function* () {
+        yield { type: 'text', text: 'VERDICT: FAIL\nThe cart is empty.' };
+      })());
+
+      const verdict = await verifyTask(mockProvider, toolManager, 'Add a blue shirt to the cart', 'Done.');
+
+      expect(verdict).toEqual({ passed: false, reason: 'The cart is empty.' });
+      expect(screenshot).not.toHaveBeenCalled();
+      expect(typeof mockProvider.createMessage.mock.calls[0][1][0].content).toBe('string');
+    });
+
+    it('should track the tokens the verification used', async () => {
+      mockProvider.createMessage.mockReturnValue((async function* () {
+        yield { type: 'text', text: 'VERDICT: PASS' };
+        yield { type: 'usage', inputTokens: 1200, outputTokens: 8 };
+      })());
+
+      await verifyTask(mockProvider, toolManager, 'Add a blue shirt to the cart', 'Done.');
+
+      const tokenTracker = TokenTrackingService.getInstance();
+      const model = expect.objectContaining({ id: 'mock-model' });
+      expect(tokenTracker.trackInputTokens).toHaveBeenCalledWith(1200, { write: undefined, read: undefined }, undefined, model);
+      expect(tokenTracker.trackOutputTokens).toHaveBeenCalledWith(8, undefined, model);
+    });
+
+    it('should throw when the reply has no verdict', async () => {
+      mockProvider.createMessage.mockReturnValue((async function* () {
+        yield { type: 'text', text: 'I am not sure.' };
+      })());
+
+      await expect(verifyTask(mockProvider, toolManager, 'Add a blue shirt to the cart', 'Done.'))
+        .rejects.toThrow('no verdict in the reply: I am not sure.');
+    });
+  });
+});
@@ -1,6 +1,23 @@
 import { jest } from '@jest/globals';
-import { approxTokens, contextTokenCount, trimHistory } from '../../../src/agent/TokenManager';
+import {
+  approxTokens,
+  BpeTokenCounter,
+  contextTokenCount,
+  createTokenCounter,
+  EstimatingTokenCounter,
+  getContextBudget,
+  pruneImages,
+  summarizeHistory,
+  SUMMARY_PREFIX,
+  trimHistory
+} from '../../../src/agent/TokenManager';
 import Anthropic from '@anthropic-ai/sdk';
+import { TokenTrackingService } from '../../../src/tracking/tokenTrackingService';
+
+jest.mock('../../../src/tracking/tokenTrackingService', () => {
+  const tracker = { trackInputTokens: jest.fn(), trackOutputTokens: jest.fn() };
+  return { TokenTrackingService: { getInstance: () => tracker } };
+});
 
 describe('TokenManager', () => {
   describe('approxTokens', () => {
@@ -80,6 +97,17 @@ describe('TokenManager', () => {
       expect(contextTokenCount(messages)).toBe(expectedTokens);
     });
 
+    it('should count images at a flat rate instead of by data size', () => {
+      const small = { type: 'image', source: { type: 'base64', media_type: 'image/jpeg', data: 'a' } };
+      const large = { type: 'image', source: { type: 'base64', media_type: 'image/jpeg', data: 'a'.repeat(100000) } };
+
+      const smallCount = contextTokenCount([{ role: 'user', content: [{ type: 'text', text: 'hi' }, small] }]);
+      const largeCount = contextTokenCount([{ role: 'user', content: [{ type: 'text', text: 'hi' }, large] }]);
+
+      expect(largeCount).toBe(smallCount);
+      expect(largeCount).toBeLessThan(approxTokens(large.source.data));
+    });
+
     it('should handle large message arrays efficiently', () => {
       const messages: Anthropic.MessageParam[] = Array.from({ length: 1000 }, (_, i) => ({
         role: i % 2 === 0 ? 'user' : 'assistant',
@@ -393,4 +421,234 @@ describe('TokenManager', () => {
       expect(userMessages.length).toBe(4); // All user messages preserved
     });
   });
+
+  describe('pruneImages', () => {
+    const image = (data: string) => ({ type: 'image', source: { type: 'base64', media_type: 'image/jpeg', data } });
+
+    it('should keep only the most recent images', () => {
+      const messages = [
+        { role: 'user', content: 'Take screenshots' },
+        { role: 'user', content: [{ type: 'text', text: 'first' }, image('one')] },
+        { role: 'assistant', content: 'ok' },
+        { role: 'user', content: [{ type: 'text', text: 'second' }, image('two')] },
+        { role: 'user', content: [{ type: 'text', text: 'third' }, image('three')] },
+      ];
+
+      const pruned = pruneImages(messages);
+
+      expect(pruned[1].content).toEqual([
+        { type: 'text', text: 'first' },
+        { type: 'text', text: '[Earlier screenshot removed to save context]' },
+      ]);
+      expect(pruned[3].content).toEqual(messages[3].content);
+      expect(pruned[4].content).toEqual(messages[4].content);
+    });
+
+    it('should not modify the original messages', () => {
+      const messages = [
+        { role: 'user', content: [image('one')] },
+        { role: 'user', content: [image('two')] },
+      ];
+
+      const pruned = pruneImages(messages, 1);
+
+      expect(pruned[0].content[0].type).toBe('text');
+      expect(messages[0].content[0].type).toBe('image');
+    });
+
+    it('should leave text-only histories unchanged', () => {
+      const messages = [{ role: 'user', content: 'hello' }, { role: 'assistant', content: 'hi' }];
+
+      expect(pruneImages(messages)).toEqual(messages);
+    });
+  });
+
+  describe('summarizeHistory', () => {
+    const createSummaryProvider = (summary: string) => ({
+      createMessage: jest.fn().mockImplementation(() => (async function* () {
+        yield { type: 'text', text: summary };
+        yield { type: 'usage', inputTokens: 100, outputTokens: 20 };
+      })()),
+      getModel: jest.fn().mockReturnValue({ id: 'summary-model', info: { name: 'Summary Model', inputPrice: 1, outputPrice: 5 } }),
+    });
+
+    // 1 request + 12 turns of ~500 tokens each
+    const longHistory = (): Anthropic.MessageParam[] => [
+      { role: 'user', content: 'Find the cheapest flight to Lisbon' },
+      ...Array.from({ length: 12 }, (_, i) => ({
+        role: (i % 2 === 0 ? 'assistant' : 'user') as 'assistant' | 'user',
+        content: `Step ${i}: ${'x'.repeat(2000)}`
+      }))
+    ];
+
+    it('should leave short histories unchanged', async () => {
+      const provider = createSummaryProvider('summary');
+      const messages: Anthropic.MessageParam[] = [
+        { role: 'user', content: 'hello' },
+        { role: 'assistant', content: 'hi' }
+      ];
+
+      const result = await summarizeHistory(messages, provider as any);
+
+      expect(result).toEqual(messages);
+      expect(provider.createMessage).not.toHaveBeenCalled();
+    });
+
+    it('should collapse older turns into a progress summary', async () => {
+      const provider = createSummaryProvider('Opened kayak.com; cheapest so far is €89 on TAP.');
+      const messages = longHistory();
+
+      const result = await summarizeHistory(messages, provider as any, 4_000);
+
+      // The summary follows the original request in the same message
+      expect(result[0]).toEqual({
+        role: 'user',
+        content: `Find the cheapest flight to Lisbon\n\n${SUMMARY_PREFIX}\nOpened kayak.com; cheapest so far is €89 on TAP.`
+      });
+      // The latest turns are kept verbatim, starting with an assistant turn
+      expect(result.slice(1)).toEqual(messages.slice(7));
+      expect(result[1].role).toBe('assistant');
+
+      const [systemPrompt, request] = provider.createMessage.mock.calls[0];
+      expect(systemPrompt).toContain('Key facts extracted');
+      expect(request[0].content).toContain('Original request: Find the cheapest flight to Lisbon');
+      expect(request[0].content).toContain('Step 0:');
+      expect(request[0].content).not.toContain('Step 6:');
+    });
+
+    it('should replace the summary from an earlier round', async () => {
+      const provider = createSummaryProvider('Booked the €89 TAP flight.');
+      const messages = longHistory();
+      messages[0] = { role: 'user', content: `Find the cheapest flight to Lisbon\n\n${SUMMARY_PREFIX}\nOpened kayak.com.` };
+
+      const result = await summarizeHistory(messages, provider as any, 4_000);
+
+      expect(result[0].content).toBe(`Find the cheapest flight to Lisbon\n\n${SUMMARY_PREFIX}\nBooked the €89 TAP flight.`);
+      // The earlier summary is passed on to be merged into the new one
+      expect(provider.createMessage.mock.calls[0][1][0].content).toContain('Opened kayak.com.');
+    });
+
+    it('should pass every fact of the earlier summary on to the next round', async () => {
+      // A full-length summary, with a fact at the very end
+      const firstSummary = `${'Compared fares on kayak.com, skyscanner.com and flytap.com. '.repeat(40)}Booking reference: QX7F42.`;
+      const provider = createSummaryProvider(firstSummary);
+      const compacted = await summarizeHistory(longHistory(), provider as any, 4_000);
+      expect(compacted[0].content).toContain('QX7F42');
+
+      // The task goes on until the history needs compacting again
+      const later = [compacted[0], ...longHistory().slice(1)];
+      await summarizeHistory(later, provider as any, 4_000);
+
+      const secondRequest = provider.createMessage.mock.calls[1][1][0].content;
+      expect(secondRequest).toContain('Original request: Find the cheapest flight to Lisbon');
+      expect(secondRequest).toContain('Booking reference: QX7F42.');
+    });
+
+    it('should track the tokens used for the summary', async () => {
+      const provider = createSummaryProvider('summary');
+      const tokenTracker = TokenTrackingService.getInstance();
+      jest.mocked(tokenTracker.trackInputTokens).mockClear();
+      jest.mocked(tokenTracker.trackOutputTokens).mockClear();
+
+      await summarizeHistory(longHistory(), provider as any, 4_000);
+
+      const model = expect.objectContaining({ id: 'summary-model', inputPrice: 1, outputPrice: 5 });
+      expect(tokenTracker.trackInputTokens).toHaveBeenCalledWith(100, { write: undefined, read: undefined }, undefined, model);
+      expect(tokenTracker.trackOutputTokens).toHaveBeenCalledWith(20, undefined, model);
+    });
+
+    it('should fall back to trimming when summarization fails', async () => {
+      const provider = {
+        createMessage: jest.fn().mockImplementation(() => (async function* () {
+          throw new Error('network down');
+        })()),
+        getModel: jest.fn().mockReturnValue({ id: 'summary-model', info: { name: 'Summary Model', inputPrice: 1, outputPrice: 5 } }),
+      };
+      const messages = longHistory();
+
+      const result = await summarizeHistory(messages, provider as any, 4_000);
+
+      expect(result).toEqual(trimHistory(messages, 4_000));
+    });
+
+    it('should fall back to trimming when the provider reports an error as text', async () => {
+      const provider = createSummaryProvider('Error: Failed to stream response from OpenAI API.');
+      const messages = longHistory();
+
+      const result = await summarizeHistory(messages, provider as any, 4_000);
+
+      expect(result.some(m => typeof m.content === 'string' && m.content.startsWith(SUMMARY_PREFIX))).toBe(false);
+    });
+  });
+
+  describe('getContextBudget', () => {
+    const modelInfo = (contextWindow?: number, maxTokens?: number) =>
+      ({ name: 'Model', inputPrice: 0, outputPrice: 0, contextWindow, maxTokens });
+
+    it('should leave room for the response and the reserve', () => {
+      expect(getContextBudget(modelInfo(200_000, 8_192), 10_000)).toBe(181_808);
+    });
+
+    it('should give large models a larger budget than small ones', () => {
+      expect(getContextBudget(modelInfo(200_000, 8_192))).toBeGreaterThan(getContextBudget(modelInfo(32_768, 4_096)));
+    });
+
+    it('should fall back to the default cap when the context window is unknown', () => {
+      expect(getContextBudget(modelInfo())).toBe(12_000);
+      expect(getContextBudget(undefined)).toBe(12_000);
+    });
+
+    it('should not go below the minimum budget', () => {
+      expect(getContextBudget(modelInfo(8_192, 4_096), 8_000)).toBe(4_000);
+    });
+  });
+
+  describe('token counters', () => {
+    it('should use a BPE tokenizer for OpenAI models', () => {
+      expect(createTokenCounter('openai', 'gpt-4o')).toBeInstanceOf(BpeTokenCounter);
+      expect(createTokenCounter('openai-compatible', 'gpt-4.1-mini')).toBeInstanceOf(BpeTokenCounter);
+    });
+
+    it('should use calibrated estimates for other models', () => {
+      expect(createTokenCounter('anthropic', 'claude-3-7-sonnet-20250219')).toBeInstanceOf(EstimatingTokenCounter);
+      expect(createTokenCounter('openai-compatible', 'llama-3.1-70b')).toBeInstanceOf(EstimatingTokenCounter);
+      expect(createTokenCounter('ollama', 'qwen2.5')).toBeInstanceOf(EstimatingTokenCounter);
+    });
+
+    it('should count tokens exactly with the BPE tokenizer', async () => {
+      const counter = new BpeTokenCounter('o200k_base');
+      await counter.ready;
+
+      expect(counter.count('hello world')).toBe(2);
+      expect(counter.count('<|endoftext|>')).toBeGreaterThan(1);
+    });
+
+    it('should estimate until the BPE vocabulary has loaded', async () => {
+      const counter = new BpeTokenCounter('cl100k_base');
+      const text = 'hello world '.repeat(10);
+
+      expect(counter.count(text)).toBe(30);
+      await counter.ready;
+      expect(counter.count(text)).toBe(21);
+    });
+
+    it('should calibrate estimates from reported usage', () => {
+      const counter = new EstimatingTokenCounter();
+      const text = 'a'.repeat(400);
+      expect(counter.count(text)).toBe(100);
+
+      // The provider reported twice as many tokens as estimated
+      counter.calibrate(100, 200);
+      expect(counter.count(text)).toBe(150);
+
+      counter.calibrate(150, 200);
+      expect(counter.count(text)).toBe(175);
+    });
+
+    it('should use the counter when counting messages', () => {
+      const counter = { count: jest.fn().mockReturnValue(7), calibrate: jest.fn() };
+
+      expect(contextTokenCount([{ role: 'user', content: 'hi' }, { role: 'assistant', content: 'ok' }], counter)).toBe(14);
+    });
+  });
 });
@@ -176,6 +176,47 @@ describe('ToolManager', () => {
     });
   });
 
+  describe('validateToolInput', () => {
+    const typeTool: BrowserTool = {
+      name: 'browser_type',
+      description: 'Type text',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          selector: { type: 'string' },
+          text: { type: 'string' },
+        },
+        required: ['selector', 'text'],
+      },
+      func: jest.fn(async () => 'Typed') as any
+    };
+
+    beforeEach(() => {
+      toolManager = new ToolManager(mockPage, mockTools);
+    });
+
+    it('should accept structured input that matches the schema', () => {
+      expect(toolManager.validateToolInput(typeTool, '{"selector": "#q", "text": "hi"}')).toBeNull();
+    });
+
+    it('should return field-level errors for invalid structured input', () => {
+      const error = toolManager.validateToolInput(typeTool, '{"selector": 1, "txt": "hi"}');
+
+      expect(error).toContain('Error: invalid input for browser_type:');
+      expect(error).toContain('txt: unknown parameter');
+      expect(error).toContain('text: required string is missing');
+      expect(error).toContain('Expected input: {"selector": string, "text": string}');
+    });
+
+    it('should leave plain-string input to the tool', () => {
+      expect(toolManager.validateToolInput(typeTool, '#q|hi')).toBeNull();
+    });
+
+    it('should skip tools without a schema', () => {
+      expect(toolManager.validateToolInput(mockTools[0], '{"anything": true}')).toBeNull();
+    });
+  });
+
   describe('isConnectionHealthy', () => {
     beforeEach(() => {
       toolManager = new ToolManager(mockPage, mockTools);
@@ -233,6 +274,64 @@ describe('ToolManager', () => {
     });
   });
 
+  describe('isMutatingTool', () => {
+    beforeEach(() => {
+      toolManager = new ToolManager(mockPage, mockTools);
+    });
+
+    it('should treat observation tools as not mutating', () => {
+      for (const name of ['browser_read_text', 'browser_snapshot_dom', 'browser_screenshot', 'browser_query', 'browser_tab_list']) {
+        expect(toolManager.isMutatingTool(name)).toBe(false);
+      }
+    });
+
+    it('should treat tools that change the page or browser as mutating', () => {
+      for (const name of ['browser_click', 'browser_type', 'browser_navigate', 'browser_tab_close', 'browser_drag', 'save_memory']) {
+        expect(toolManager.isMutatingTool(name)).toBe(true);
+      }
+    });
+
+    it('should treat unknown tools as mutating', () => {
+      expect(toolManager.isMutatingTool('browser_something_new')).toBe(true);
+    });
+  });
+
+  describe('getPageFingerprint', () => {
+    beforeEach(() => {
+      toolManager = new ToolManager(mockPage, mockTools);
+    });
+
+    it('should combine the URL with the page content fingerprint', async () => {
+      mockPage.evaluate.mockResolvedValue('120:-4567');
+
+      const fingerprint = await toolManager.getPageFingerprint();
+
+      expect(fingerprint).toBe('https://example.com|120:-4567');
+    });
+
+    it('should change when the page is scrolled', async () => {
+      mockPage.evaluate.mockImplementation((fn: () => unknown) => Promise.resolve(fn()));
+      const top = await toolManager.getPageFingerprint();
+
+      Object.defineProperty(window, 'scrollY', { value: 600, configurable: true });
+      const scrolled = await toolManager.getPageFingerprint();
+      Object.defineProperty(window, 'scrollY', { value: 0, configurable: true });
+
+      expect(scrolled).not.toBe(top);
+      expect(scrolled).toMatch(/@0,600$/);
+    });
+
+    it('should return an empty fingerprint when the page can\'t be read', async () => {
+      const consoleSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+      mockPage.evaluate.mockRejectedValue(new Error('Connection closed'));
+
+      const fingerprint = await toolManager.getPageFingerprint();
+
+      expect(fingerprint).toBe('');
+      consoleSpy.mockRestore();
+    });
+  });
+
   describe('tool health check wrapping', () => {
     beforeEach(() => {
       toolManager = new ToolManager(mockPage, mockTools);
@@ -29,7 +29,7 @@ Object.defineProperty(global, 'chrome', {
 });
 
 // Import after mocking
-import { requestApproval, handleApprovalResponse } from '../../../src/agent/approvalManager';
+import { requestApproval, requestStepExtension, requestUserAnswer, handleApprovalResponse } from '../../../src/agent/approvalManager';
 import { getWindowForTab } from '../../../src/background/tabManager';
 
 // Type the mocked function
@@ -70,6 +70,7 @@ describe('approvalManager', () => {
       expect(mockChrome.runtime.sendMessage).toHaveBeenCalledWith(
         {
           action: 'requestApproval',
+          kind: 'tool',
           tabId,
           windowId,
           requestId: expect.stringMatching(/^approval_\d+_[a-z0-9]+$/),
@@ -325,6 +326,7 @@ describe('approvalManager', () => {
 
       expect(sentMessage).toEqual({
         action: 'requestApproval',
+        kind: 'tool',
         tabId,
         windowId,
         requestId: expect.stringMatching(/^approval_\d+_[a-z0-9]+$/),
@@ -392,6 +394,83 @@ describe('approvalManager', () => {
     });
   });
 
+  describe('requestStepExtension', () => {
+    it('should send a step limit request and resolve with the user response', async () => {
+      mockChrome.runtime.sendMessage.mockImplementation(() => true);
+
+      const extensionPromise = requestStepExtension(123, 50, 50, 456);
+
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const sentMessage = mockChrome.runtime.sendMessage.mock.calls[0][0] as any;
+      expect(sentMessage).toEqual({
+        action: 'requestApproval',
+        kind: 'steps',
+        tabId: 123,
+        windowId: 456,
+        requestId: expect.stringMatching(/^approval_\d+_[a-z0-9]+$/),
+        toolName: 'Step limit reached',
+        toolInput: '50 steps used',
+        reason: 'The task has used all 50 of its steps. Continue for 50 more?'
+      });
+
+      handleApprovalResponse(sentMessage.requestId, false);
+      await expect(extensionPromise).resolves.toBe(false);
+    });
+  });
+
+  describe('requestUserAnswer', () => {
+    it('should send a question with its options and resolve with the answer', async () => {
+      mockChrome.runtime.sendMessage.mockImplementation(() => true);
+
+      const answerPromise = requestUserAnswer(123, 'Which size?', ['Small', 'Large'], 456);
+
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const sentMessage = mockChrome.runtime.sendMessage.mock.calls[0][0] as any;
+      expect(sentMessage).toEqual({
+        action: 'requestApproval',
+        kind: 'question',
+        tabId: 123,
+        windowId: 456,
+        requestId: expect.stringMatching(/^approval_\d+_[a-z0-9]+$/),
+        toolName: 'ask_user',
+        toolInput: 'Which size?',
+        reason: '',
+        options: ['Small', 'Large']
+      });
+
+      handleApprovalResponse(sentMessage.requestId, true, '  Large ');
+      await expect(answerPromise).resolves.toBe('Large');
+    });
+
+    it('should resolve with null when the question is skipped', async () => {
+      mockChrome.runtime.sendMessage.mockImplementation(() => true);
+
+      const answerPromise = requestUserAnswer(123, 'Which size?', undefined, 456);
+
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const sentMessage = mockChrome.runtime.sendMessage.mock.calls[0][0] as any;
+      expect(sentMessage).not.toHaveProperty('options');
+
+      handleApprovalResponse(sentMessage.requestId, false);
+      await expect(answerPromise).resolves.toBeNull();
+    });
+
+    it('should resolve with null when the answer is empty', async () => {
+      mockChrome.runtime.sendMessage.mockImplementation(() => true);
+
+      const answerPromise = requestUserAnswer(123, 'Which size?', undefined, 456);
+
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      const sentMessage = mockChrome.runtime.sendMessage.mock.calls[0][0] as any;
+      handleApprovalResponse(sentMessage.requestId, true, '   ');
+      await expect(answerPromise).resolves.toBeNull();
+    });
+  });
+
   describe('handleApprovalResponse', () => {
     it('should resolve pending approval with true when approved', async () => {
       const tabId = 123;
@@ -0,0 +1,129 @@
+import { jest } from '@jest/globals';
+import {
+  assignElementRefs,
+  clearElementRefMarks,
+  drawElementRefMarks,
+  formatElementRefs,
+  getElementRefCenter,
+  parseElementRef,
+  resolveElementRef,
+} from '../../../../src/agent/tools/elementRefs';
+
+describe('Element refs', () => {
+  const createRefPage = (refs: any[], next: number, count = 1) => {
+    const locator: any = {
+      count: jest.fn<() => Promise<number>>().mockResolvedValue(count),
+      boundingBox: jest.fn<() => Promise<any>>().mockResolvedValue({ x: 10, y: 20, width: 100, height: 40 }),
+    };
+    locator.first = jest.fn().mockReturnValue(locator);
+    return {
+      evaluate: jest.fn<() => Promise<any>>().mockResolvedValue({ refs, next }),
+      locator: jest.fn().mockReturnValue(locator),
+      mockLocator: locator,
+    } as any;
+  };
+
+  describe('parseElementRef', () => {
+    it('should parse ref selectors', () => {
+      expect(parseElementRef('ref=e12')).toBe('e12');
+      expect(parseElementRef(' REF = E3 ')).toBe('e3');
+    });
+
+    it('should ignore other selectors', () => {
+      expect(parseElementRef('e12')).toBeNull();
+      expect(parseElementRef('#ref')).toBeNull();
+      expect(parseElementRef('button[ref=e1]')).toBeNull();
+    });
+  });
+
+  describe('formatElementRefs', () => {
+    it('should render one line per ref', () => {
+      const result = formatElementRefs([
+        { ref: 'e1', role: 'button', name: 'Sign in', inScope: true },
+        { ref: 'e2', role: 'textbox', name: '', inScope: true },
+      ]);
+
+      expect(result).toBe('[e1] button "Sign in"\n[e2] textbox');
+    });
+  });
+
+  describe('resolveElementRef', () => {
+    it('should resolve a ref from the latest snapshot', async () => {
+      const page = createRefPage([{ ref: 'e1', role: 'button', name: 'Go', inScope: true }], 2);
+      await assignElementRefs(page);
+
+      const locator = await resolveElementRef(page, 'ref=e1');
+
+      expect(page.locator).toHaveBeenCalledWith('[data-bb-ref="e1"]');
+      expect(locator).toBe(page.mockLocator);
+    });
+
+    it('should report unknown refs when no snapshot was taken', async () => {
+      const page = createRefPage([], 1);
+
+      await expect(resolveElementRef(page, 'e1')).rejects.toThrow('unknown ref e1');
+    });
+
+    it('should report refs missing from the latest snapshot as stale', async () => {
+      const page = createRefPage([{ ref: 'e2', role: 'link', name: 'Home', inScope: true }], 3);
+      await assignElementRefs(page);
+
+      await expect(resolveElementRef(page, 'e1')).rejects.toThrow('ref e1 is stale');
+    });
+
+    it('should report refs whose element left the page as stale', async () => {
+      const page = createRefPage([{ ref: 'e1', role: 'button', name: 'Go', inScope: true }], 2, 0);
+      await assignElementRefs(page);
+
+      await expect(resolveElementRef(page, 'e1')).rejects.toThrow('ref e1 is stale: the button "Go" is no longer on the page');
+    });
+  });
+
+  describe('getElementRefCenter', () => {
+    it('should return the centre of the element', async () => {
+      const page = createRefPage([{ ref: 'e1', role: 'button', name: 'Go', inScope: true }], 2);
+      await assignElementRefs(page);
+
+      await expect(getElementRefCenter(page, 'e1')).resolves.toEqual({ x: 60, y: 40 });
+    });
+
+    it('should fail for elements without a bounding box', async () => {
+      const page = createRefPage([{ ref: 'e1', role: 'button', name: 'Go', inScope: true }], 2);
+      page.mockLocator.boundingBox.mockResolvedValue(null);
+      await assignElementRefs(page);
+
+      await expect(getElementRefCenter(page, 'e1')).rejects.toThrow('ref e1 is not visible');
+    });
+  });
+
+  describe('drawElementRefMarks', () => {
+    it('should return only the refs that were drawn', async () => {
+      const page = createRefPage([
+        { ref: 'e1', role: 'button', name: 'Go', inScope: true },
+        { ref: 'e2', role: 'link', name: 'Below the fold', inScope: true },
+      ], 3);
+      page.evaluate
+        .mockResolvedValueOnce({ refs: [
+          { ref: 'e1', role: 'button', name: 'Go', inScope: true },
+          { ref: 'e2', role: 'link', name: 'Below the fold', inScope: true },
+        ], next: 3 })
+        .mockResolvedValueOnce(['e1']);
+
+      const marks = await drawElementRefMarks(page);
+
+      expect(marks).toEqual([{ ref: 'e1', role: 'button', name: 'Go', inScope: true }]);
+      expect(page.evaluate).toHaveBeenLastCalledWith(expect.any(Function), expect.objectContaining({
+        ids: ['e1', 'e2'],
+        includeOffscreen: false,
+      }));
+    });
+
+    it('should remove the marks container', async () => {
+      const page = createRefPage([], 1);
+
+      await clearElementRefMarks(page);
+
+      expect(page.evaluate).toHaveBeenCalledWith(expect.any(Function), 'bb-ref-marks');
+    });
+  });
+});
@@ -21,6 +21,12 @@ jest.mock('../../../../src/agent/tools/utils', () => ({
   resetDialog: jest.fn(),
 }));
 
+// Mock ref resolution, which depends on a previous snapshot
+jest.mock('../../../../src/agent/tools/elementRefs', () => ({
+  ...(jest.requireActual('../../../../src/agent/tools/elementRefs') as object),
+  resolveElementRef: jest.fn(),
+}));
+
 // Import the tools after mocking dependencies
 import {
   browserClick,
@@ -42,6 +48,30 @@ describe('Interaction Tools', () => {
   });
 
   describe('browserClick', () => {
+    it('should click element by ref', async () => {
+      const tool = browserClick(mockPage);
+      const mockLocator = { click: jest.fn().mockResolvedValue(undefined) };
+      const elementRefs = require('../../../../src/agent/tools/elementRefs');
+      elementRefs.resolveElementRef.mockResolvedValue(mockLocator);
+
+      const result = await tool.func('ref=e12');
+
+      expect(result).toBe('Clicked element ref=e12');
+      expect(elementRefs.resolveElementRef).toHaveBeenCalledWith(mockPage, 'e12');
+      expect(mockLocator.click).toHaveBeenCalled();
+      expect(mockPage.click).not.toHaveBeenCalled();
+    });
+
+    it('should report stale refs', async () => {
+      const tool = browserClick(mockPage);
+      const elementRefs = require('../../../../src/agent/tools/elementRefs');
+      elementRefs.resolveElementRef.mockRejectedValue(new Error('ref e12 is stale: take a new snapshot'));
+
+      const result = await tool.func('ref=e12');
+
+      expect(result).toContain('ref e12 is stale');
+    });
+
     it('should click element by CSS selector', async () => {
       const tool = browserClick(mockPage);
       mockPage.click.mockResolvedValue(undefined);
@@ -118,6 +148,19 @@ describe('Interaction Tools', () => {
   });
 
   describe('browserType', () => {
+    it('should type text into element by ref', async () => {
+      const tool = browserType(mockPage);
+      const mockLocator = { fill: jest.fn().mockResolvedValue(undefined) };
+      const elementRefs = require('../../../../src/agent/tools/elementRefs');
+      elementRefs.resolveElementRef.mockResolvedValue(mockLocator);
+
+      const result = await tool.func('ref=e3|John Doe');
+
+      expect(result).toBe('Typed "John Doe" into ref=e3');
+      expect(mockLocator.fill).toHaveBeenCalledWith('John Doe');
+      expect(mockPage.fill).not.toHaveBeenCalled();
+    });
+
     it('should type text into specified selector', async () => {
       const tool = browserType(mockPage);
       mockPage.fill.mockResolvedValue(undefined);
@@ -154,7 +197,8 @@ describe('Interaction Tools', () => {
 
       const result = await tool.func('invalid-format');
 
-      expect(result).toBe('Error: expected \'selector|text\'');
+      expect(result).toContain('Error: invalid input for browser_type');
+      expect(result).toContain('text: required string is missing');
       expect(mockPage.fill).not.toHaveBeenCalled();
     });
 
@@ -163,7 +207,7 @@ describe('Interaction Tools', () => {
 
       const result = await tool.func('|text only');
 
-      expect(result).toBe('Error: expected \'selector|text\'');
+      expect(result).toContain('selector: required string is missing');
       expect(mockPage.fill).not.toHaveBeenCalled();
     });
 
@@ -172,7 +216,7 @@ describe('Interaction Tools', () => {
 
       const result = await tool.func('input[name="test"]|');
 
-      expect(result).toBe('Error: expected \'selector|text\'');
+      expect(result).toContain('text: required string is missing');
       expect(mockPage.fill).not.toHaveBeenCalled();
     });
 
@@ -182,10 +226,30 @@ describe('Interaction Tools', () => {
 
       const result = await tool.func('input[name="nonexistent"]|test');
 
-      expect(result).toContain('Error typing into \'input[name="nonexistent"]|test\'');
+      expect(result).toContain('Error typing into \'input[name="nonexistent"]\'');
       expect(result).toContain('Element not found');
     });
 
+    it('should keep pipes in the text', async () => {
+      const tool = browserType(mockPage);
+      mockPage.fill.mockResolvedValue(undefined);
+
+      const result = await tool.func('input[name="q"]|a | b');
+
+      expect(result).toBe('Typed "a | b" into input[name="q"]');
+      expect(mockPage.fill).toHaveBeenCalledWith('input[name="q"]', 'a | b');
+    });
+
+    it('should accept named JSON arguments', async () => {
+      const tool = browserType(mockPage);
+      mockPage.fill.mockResolvedValue(undefined);
+
+      const result = await tool.func(JSON.stringify({ selector: '#search', text: 'x|y' }));
+
+      expect(result).toBe('Typed "x|y" into #search');
+      expect(mockPage.fill).toHaveBeenCalledWith('#search', 'x|y');
+    });
+
     it('should work with withActivePage utility', async () => {
       const tool = browserType(mockPage);
       mockPage.fill.mockResolvedValue(undefined);
@@ -245,8 +309,7 @@ describe('Interaction Tools', () => {
       const result = await tool.func('accept|John Doe');
 
       expect(result).toBe('Accepted prompt dialog.');
-      // The implementation converts text to lowercase, so we expect lowercase
-      expect(mockDialog.accept).toHaveBeenCalledWith('john doe');
+      expect(mockDialog.accept).toHaveBeenCalledWith('John Doe');
       expect(utilsMock.resetDialog).toHaveBeenCalled();
     });
 
@@ -299,7 +362,8 @@ describe('Interaction Tools', () => {
 
       const result = await tool.func('invalid');
 
-      expect(result).toBe('Error: first part must be `accept` or `dismiss`.');
+      expect(result).toContain('action: must be one of accept, dismiss');
+      expect(mockDialog.accept).not.toHaveBeenCalled();
     });
 
     it('should handle dialog operation errors', async () => {
@@ -321,8 +385,7 @@ describe('Interaction Tools', () => {
       const result = await tool.func(`accept|${complexText}`);
 
       expect(result).toBe('Accepted prompt dialog.');
-      // The implementation converts text to lowercase, so we expect lowercase
-      expect(mockDialog.accept).toHaveBeenCalledWith('hello world! @#$%^&*()');
+      expect(mockDialog.accept).toHaveBeenCalledWith('Hello World! @#$%^&*()');
     });
   });
 
@@ -131,7 +131,8 @@ describe('Keyboard Tools', () => {
 
       const result = await tool.func('');
 
-      expect(result).toBe('Error: key name required');
+      expect(result).toContain('Error: invalid input for browser_press_key');
+      expect(result).toContain('key: required string is missing');
       expect(mockPage.keyboard.press).not.toHaveBeenCalled();
     });
 
@@ -227,14 +228,13 @@ describe('Keyboard Tools', () => {
       expect(mockPage.keyboard.type).toHaveBeenCalledWith(text);
     });
 
-    it('should type empty string', async () => {
+    it('should return error for empty text', async () => {
       const tool = browserKeyboardType(mockPage);
-      mockPage.keyboard.type.mockResolvedValue(undefined);
 
       const result = await tool.func('');
 
-      expect(result).toBe('Typed 0 characters');
-      expect(mockPage.keyboard.type).toHaveBeenCalledWith('');
+      expect(result).toContain('text: required string is missing');
+      expect(mockPage.keyboard.type).not.toHaveBeenCalled();
     });
 
     it('should type whitespace-only text', async () => {
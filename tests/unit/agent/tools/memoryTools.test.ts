@@ -117,7 +117,8 @@ describe('Memory Tools', () => {
 
       const result = await tool.func(input);
 
-      expect(result).toBe('Error: Missing required fields. Please provide domain, taskDescription, and toolSequence.');
+      expect(result).toContain('Error: invalid input for save_memory');
+      expect(result).toContain('toolSequence: required array is missing');
       expect(mockMemoryService.storeMemory).not.toHaveBeenCalled();
     });
 
@@ -160,7 +161,7 @@ describe('Memory Tools', () => {
 
       const result = await tool.func(input);
 
-      expect(result).toContain('Error saving memory:');
+      expect(result).toContain('Error: invalid input for save_memory');
       expect(mockMemoryService.storeMemory).not.toHaveBeenCalled();
     });
 
@@ -285,7 +286,7 @@ describe('Memory Tools', () => {
 
       const result = await tool.func('');
 
-      expect(result).toBe('Error: Please provide a valid domain to lookup memories for.');
+      expect(result).toContain('domain: required string is missing');
       expect(mockMemoryService.getMemoriesByDomain).not.toHaveBeenCalled();
     });
 
@@ -400,7 +401,7 @@ describe('Memory Tools', () => {
 
       const result = await tool.func('invalid');
 
-      expect(result).toBe('Error: Please provide a valid numeric ID.');
+      expect(result).toContain('id: expected an integer, got "invalid"');
       expect(mockMemoryService.deleteMemory).not.toHaveBeenCalled();
     });
 
@@ -409,7 +410,7 @@ describe('Memory Tools', () => {
 
       const result = await tool.func('');
 
-      expect(result).toBe('Error: Please provide a valid numeric ID.');
+      expect(result).toContain('id: required integer is missing');
       expect(mockMemoryService.deleteMemory).not.toHaveBeenCalled();
     });
 
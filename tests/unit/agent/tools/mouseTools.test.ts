@@ -16,6 +16,14 @@ jest.mock('../../../../src/agent/tools/utils', () => ({
   withActivePage: jest.fn().mockImplementation((page, fn) => fn(page)),
 }));
 
+// Mock ref resolution, which depends on a previous snapshot
+jest.mock('../../../../src/agent/tools/elementRefs', () => ({
+  ...(jest.requireActual('../../../../src/agent/tools/elementRefs') as object),
+  getElementRefCenter: jest.fn(),
+}));
+
+import { ScreenshotManager } from '../../../../src/tracking/screenshotManager';
+
 // Import the tools after mocking dependencies
 import {
   browserMoveMouse,
@@ -34,6 +42,18 @@ describe('Mouse Tools', () => {
   });
 
   describe('browserMoveMouse', () => {
+    it('should move mouse to the centre of an element ref', async () => {
+      const tool = browserMoveMouse(mockPage);
+      const elementRefs = require('../../../../src/agent/tools/elementRefs');
+      elementRefs.getElementRefCenter.mockResolvedValue({ x: 40, y: 60 });
+
+      const result = await tool.func('ref=e7');
+
+      expect(result).toBe('Mouse moved to (40, 60)');
+      expect(elementRefs.getElementRefCenter).toHaveBeenCalledWith(mockPage, 'e7');
+      expect(mockPage.mouse.move).toHaveBeenCalledWith(40, 60);
+    });
+
     it('should move mouse to specified coordinates', async () => {
       const tool = browserMoveMouse(mockPage);
       mockPage.mouse.move.mockResolvedValue(undefined);
@@ -64,24 +84,43 @@ describe('Mouse Tools', () => {
       expect(mockPage.mouse.move).toHaveBeenCalledWith(0, 0);
     });
 
-    it('should handle large coordinates', async () => {
+    it('should handle coordinates at the edge of the viewport', async () => {
       const tool = browserMoveMouse(mockPage);
       mockPage.mouse.move.mockResolvedValue(undefined);
 
+      const result = await tool.func('1023|767');
+
+      expect(result).toBe('Mouse moved to (1023, 767)');
+      expect(mockPage.mouse.move).toHaveBeenCalledWith(1023, 767);
+    });
+
+    it('should reject coordinates beyond the viewport', async () => {
+      const tool = browserMoveMouse(mockPage);
+
       const result = await tool.func('1920|1080');
 
-      expect(result).toBe('Mouse moved to (1920, 1080)');
-      expect(mockPage.mouse.move).toHaveBeenCalledWith(1920, 1080);
+      expect(result).toContain('point (1920, 1080) is outside the current 1024x768 viewport');
+      expect(mockPage.mouse.move).not.toHaveBeenCalled();
     });
 
-    it('should handle negative coordinates', async () => {
+    it('should reject negative coordinates', async () => {
       const tool = browserMoveMouse(mockPage);
-      mockPage.mouse.move.mockResolvedValue(undefined);
 
       const result = await tool.func('-10|-20');
 
-      expect(result).toBe('Mouse moved to (-10, -20)');
-      expect(mockPage.mouse.move).toHaveBeenCalledWith(-10, -20);
+      expect(result).toContain('outside the current 1024x768 viewport');
+      expect(mockPage.mouse.move).not.toHaveBeenCalled();
+    });
+
+    it('should reject element refs that are scrolled out of view', async () => {
+      const tool = browserMoveMouse(mockPage);
+      const elementRefs = require('../../../../src/agent/tools/elementRefs');
+      elementRefs.getElementRefCenter.mockResolvedValue({ x: 40, y: 900 });
+
+      const result = await tool.func('ref=e7');
+
+      expect(result).toContain('ref e7 (centre at (40, 900)) is outside the current 1024x768 viewport');
+      expect(mockPage.mouse.move).not.toHaveBeenCalled();
     });
 
     it('should return error for invalid input format', async () => {
@@ -89,7 +128,7 @@ describe('Mouse Tools', () => {
 
       const result = await tool.func('invalid');
 
-      expect(result).toBe('Error: expected `x|y` numbers (e.g. 120|240)');
+      expect(result).toContain('Error: invalid input for browser_move_mouse');
       expect(mockPage.mouse.move).not.toHaveBeenCalled();
     });
 
@@ -98,7 +137,7 @@ describe('Mouse Tools', () => {
 
       const result = await tool.func('abc|200');
 
-      expect(result).toBe('Error: expected `x|y` numbers (e.g. 120|240)');
+      expect(result).toContain('Error: invalid input for browser_move_mouse');
       expect(mockPage.mouse.move).not.toHaveBeenCalled();
     });
 
@@ -107,18 +146,27 @@ describe('Mouse Tools', () => {
 
       const result = await tool.func('100|xyz');
 
-      expect(result).toBe('Error: expected `x|y` numbers (e.g. 120|240)');
+      expect(result).toContain('Error: invalid input for browser_move_mouse');
       expect(mockPage.mouse.move).not.toHaveBeenCalled();
     });
 
-    it('should handle empty y coordinate as 0', async () => {
+    it('should return error for empty y coordinate', async () => {
       const tool = browserMoveMouse(mockPage);
-      mockPage.mouse.move.mockResolvedValue(undefined);
 
       const result = await tool.func('100|');
 
-      expect(result).toBe('Mouse moved to (100, 0)');
-      expect(mockPage.mouse.move).toHaveBeenCalledWith(100, 0);
+      expect(result).toBe('Error moving mouse: expected x and y coordinates, or ref');
+      expect(mockPage.mouse.move).not.toHaveBeenCalled();
+    });
+
+    it('should accept named JSON arguments', async () => {
+      const tool = browserMoveMouse(mockPage);
+      mockPage.mouse.move.mockResolvedValue(undefined);
+
+      const result = await tool.func('{"x": 12.5, "y": "40"}');
+
+      expect(result).toBe('Mouse moved to (12.5, 40)');
+      expect(mockPage.mouse.move).toHaveBeenCalledWith(12.5, 40);
     });
 
     it('should return error for missing separator', async () => {
@@ -126,7 +174,7 @@ describe('Mouse Tools', () => {
 
       const result = await tool.func('100 200');
 
-      expect(result).toBe('Error: expected `x|y` numbers (e.g. 120|240)');
+      expect(result).toContain('Error: invalid input for browser_move_mouse');
       expect(mockPage.mouse.move).not.toHaveBeenCalled();
     });
 
@@ -195,7 +243,7 @@ describe('Mouse Tools', () => {
 
       const result = await tool.func('invalid');
 
-      expect(result).toBe('Error: expected `x|y` numbers (e.g. 120|240)');
+      expect(result).toContain('Error: invalid input for browser_click_xy');
       expect(mockPage.mouse.click).not.toHaveBeenCalled();
     });
 
@@ -204,7 +252,7 @@ describe('Mouse Tools', () => {
 
       const result = await tool.func('abc|def');
 
-      expect(result).toBe('Error: expected `x|y` numbers (e.g. 120|240)');
+      expect(result).toContain('Error: invalid input for browser_click_xy');
       expect(mockPage.mouse.click).not.toHaveBeenCalled();
     });
 
@@ -213,7 +261,7 @@ describe('Mouse Tools', () => {
 
       const result = await tool.func('');
 
-      expect(result).toBe('Error: expected `x|y` numbers (e.g. 120|240)');
+      expect(result).toBe('Error clicking at coords: expected x and y coordinates, or ref');
       expect(mockPage.mouse.click).not.toHaveBeenCalled();
     });
 
@@ -236,7 +284,78 @@ describe('Mouse Tools', () => {
     });
   });
 
+  describe('screenshot coordinates', () => {
+    const storeScreenshot = (metadata: any) =>
+      ScreenshotManager.getInstance().storeScreenshot({ type: 'image' }, metadata);
+
+    beforeEach(() => {
+      ScreenshotManager.getInstance().clear();
+      // The mock page reports a 1024x768 viewport scrolled to the top
+    });
+
+    it('should translate a point on a downscaled screenshot to page coordinates', async () => {
+      const id = storeScreenshot({ scale: 0.5, viewport: { width: 1024, height: 768 }, scroll: { x: 0, y: 0 }, fullPage: false });
+      const tool = browserClickXY(mockPage);
+
+      const result = await tool.func(`${id}:400,300`);
+
+      expect(result).toBe('Clicked at (800, 600)');
+      expect(mockPage.mouse.click).toHaveBeenCalledWith(800, 600);
+    });
+
+    it('should account for scrolling since the screenshot was taken', async () => {
+      const id = storeScreenshot({ scale: 1, viewport: { width: 1024, height: 768 }, scroll: { x: 0, y: 200 }, fullPage: false });
+      const tool = browserMoveMouse(mockPage);
+
+      const result = await tool.func(JSON.stringify({ x: 100, y: 50, screenshot: id }));
+
+      expect(result).toBe('Mouse moved to (100, 250)');
+    });
+
+    it('should reject points outside the current viewport', async () => {
+      const id = storeScreenshot({ scale: 0.5, viewport: { width: 1024, height: 768 }, scroll: { x: 0, y: 0 }, fullPage: true });
+      const tool = browserClickXY(mockPage);
+
+      const result = await tool.func(`${id}:100,500`);
+
+      expect(result).toContain('outside the current 1024x768 viewport');
+      expect(mockPage.mouse.click).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown screenshots', async () => {
+      const tool = browserClickXY(mockPage);
+
+      const result = await tool.func('screenshot#99:10,10');
+
+      expect(result).toContain('unknown screenshot screenshot#99');
+      expect(mockPage.mouse.click).not.toHaveBeenCalled();
+    });
+
+    it('should translate both points of a drag', async () => {
+      const id = storeScreenshot({ scale: 0.5, viewport: { width: 1024, height: 768 }, scroll: { x: 0, y: 0 }, fullPage: false });
+      const tool = browserDrag(mockPage);
+
+      const result = await tool.func(`${id}:10,20|${id}:300,350`);
+
+      expect(result).toBe('Dragged (20,40) → (600,700)');
+    });
+  });
+
   describe('browserDrag', () => {
+    it('should drag between element refs', async () => {
+      const tool = browserDrag(mockPage);
+      const elementRefs = require('../../../../src/agent/tools/elementRefs');
+      elementRefs.getElementRefCenter
+        .mockResolvedValueOnce({ x: 10, y: 20 })
+        .mockResolvedValueOnce({ x: 300, y: 400 });
+
+      const result = await tool.func('ref=e1|ref=e2');
+
+      expect(result).toBe('Dragged (10,20) → (300,400)');
+      expect(elementRefs.getElementRefCenter).toHaveBeenNthCalledWith(1, mockPage, 'e1');
+      expect(elementRefs.getElementRefCenter).toHaveBeenNthCalledWith(2, mockPage, 'e2');
+    });
+
     it('should perform drag and drop operation', async () => {
       const tool = browserDrag(mockPage);
       mockPage.mouse.move.mockResolvedValue(undefined);
@@ -278,17 +397,13 @@ describe('Mouse Tools', () => {
       expect(mockPage.mouse.move).toHaveBeenCalledWith(100, 100);
     });
 
-    it('should handle negative coordinates', async () => {
+    it('should reject negative coordinates', async () => {
       const tool = browserDrag(mockPage);
-      mockPage.mouse.move.mockResolvedValue(undefined);
-      mockPage.mouse.down.mockResolvedValue(undefined);
-      mockPage.mouse.up.mockResolvedValue(undefined);
 
       const result = await tool.func('-10|-20|30|40');
 
-      expect(result).toBe('Dragged (-10,-20) → (30,40)');
-      expect(mockPage.mouse.move).toHaveBeenCalledWith(-10, -20);
-      expect(mockPage.mouse.move).toHaveBeenCalledWith(30, 40);
+      expect(result).toContain('Error during drag: point (-10, -20) is outside the current 1024x768 viewport');
+      expect(mockPage.mouse.down).not.toHaveBeenCalled();
     });
 
     it('should handle decimal coordinates', async () => {
@@ -309,21 +424,17 @@ describe('Mouse Tools', () => {
 
       const result = await tool.func('invalid');
 
-      expect(result).toBe('Error: expected `startX|startY|endX|endY` numbers');
+      expect(result).toContain('Error: invalid input for browser_drag');
       expect(mockPage.mouse.move).not.toHaveBeenCalled();
     });
 
-    it('should handle insufficient coordinates with undefined values', async () => {
+    it('should return error for insufficient coordinates', async () => {
       const tool = browserDrag(mockPage);
-      mockPage.mouse.move.mockResolvedValue(undefined);
-      mockPage.mouse.down.mockResolvedValue(undefined);
-      mockPage.mouse.up.mockResolvedValue(undefined);
 
       const result = await tool.func('100|200|300');
 
-      expect(result).toBe('Dragged (100,200) → (300,undefined)');
-      expect(mockPage.mouse.move).toHaveBeenCalledWith(100, 200);
-      expect(mockPage.mouse.move).toHaveBeenCalledWith(300, undefined);
+      expect(result).toBe('Error during drag: expected x and y coordinates, or ref');
+      expect(mockPage.mouse.move).not.toHaveBeenCalled();
     });
 
     it('should return error for non-numeric coordinates', async () => {
@@ -331,7 +442,7 @@ describe('Mouse Tools', () => {
 
       const result = await tool.func('abc|def|ghi|jkl');
 
-      expect(result).toBe('Error: expected `startX|startY|endX|endY` numbers');
+      expect(result).toContain('Error: invalid input for browser_drag');
       expect(mockPage.mouse.move).not.toHaveBeenCalled();
     });
 
@@ -340,7 +451,7 @@ describe('Mouse Tools', () => {
 
       const result = await tool.func('100|200|abc|400');
 
-      expect(result).toBe('Error: expected `startX|startY|endX|endY` numbers');
+      expect(result).toContain('Error: invalid input for browser_drag');
       expect(mockPage.mouse.move).not.toHaveBeenCalled();
     });
 
@@ -452,7 +563,7 @@ describe('Mouse Tools', () => {
       const moveResult = await moveTool.func('9999|9999');
       const clickResult = await clickTool.func('0|0');
 
-      expect(moveResult).toBe('Mouse moved to (9999, 9999)');
+      expect(moveResult).toContain('outside the current 1024x768 viewport');
       expect(clickResult).toBe('Clicked at (0, 0)');
     });
   });
@@ -30,6 +30,14 @@ jest.mock('../../../../src/agent/tools/utils', () => ({
   MAX_SCREENSHOT_CHARS: 500000,
 }));
 
+// Mock element ref assignment, which runs in the page
+jest.mock('../../../../src/agent/tools/elementRefs', () => ({
+  ...(jest.requireActual('../../../../src/agent/tools/elementRefs') as object),
+  assignElementRefs: jest.fn().mockResolvedValue([]),
+  drawElementRefMarks: jest.fn().mockResolvedValue([]),
+  clearElementRefMarks: jest.fn().mockResolvedValue(undefined),
+}));
+
 // Import the tools after mocking dependencies
 import {
   browserGetTitle,
@@ -42,10 +50,15 @@ import {
 
 describe('Observation Tools', () => {
   let mockPage: any;
+  let elementRefsMock: any;
 
   beforeEach(() => {
     mockPage = createMockPage();
+    elementRefsMock = require('../../../../src/agent/tools/elementRefs');
     jest.clearAllMocks();
+    elementRefsMock.assignElementRefs.mockResolvedValue([]);
+    elementRefsMock.drawElementRefMarks.mockResolvedValue([]);
+    elementRefsMock.clearElementRefMarks.mockResolvedValue(undefined);
   });
 
   describe('browserGetTitle', () => {
@@ -112,6 +125,20 @@ describe('Observation Tools', () => {
       expect(mockPage.content).toHaveBeenCalled();
     });
 
+    it('should list element refs before the HTML', async () => {
+      const tool = browserSnapshotDom(mockPage);
+      elementRefsMock.assignElementRefs.mockResolvedValue([
+        { ref: 'e1', role: 'button', name: 'Get Started', inScope: true },
+        { ref: 'e2', role: 'link', name: 'Footer', inScope: false },
+      ]);
+
+      const result = await tool.func('selector=button');
+
+      expect(result).toContain('[e1] button "Get Started"');
+      expect(result).not.toContain('[e2]');
+      expect(elementRefsMock.assignElementRefs).toHaveBeenCalledWith(mockPage, 'button');
+    });
+
     it('should capture DOM with selector filter', async () => {
       const tool = browserSnapshotDom(mockPage);
       mockPage.$$eval.mockResolvedValue(mockElementQueries.buttons);
@@ -277,6 +304,24 @@ describe('Observation Tools', () => {
       expect(mockPage.accessibility.snapshot).toHaveBeenCalledWith({ interestingOnly: true });
     });
 
+    it('should attach element refs to matching nodes', async () => {
+      const tool = browserAccessibleTree(mockPage);
+      mockPage.accessibility.snapshot.mockResolvedValue({
+        role: 'WebArea',
+        name: 'Page',
+        children: [{ role: 'button', name: 'Sign in' }],
+      });
+      elementRefsMock.assignElementRefs.mockResolvedValue([
+        { ref: 'e3', role: 'button', name: 'Sign in', inScope: true },
+        { ref: 'e4', role: 'link', name: 'Help', inScope: true },
+      ]);
+
+      const result = await tool.func('');
+
+      expect(result).toContain('"ref": "e3"');
+      expect(result).toContain('Other interactive elements:\n[e4] link "Help"');
+    });
+
     it('should return full accessibility tree when requested', async () => {
       const tool = browserAccessibleTree(mockPage);
       mockPage.accessibility.snapshot.mockResolvedValue(mockAccessibilityTrees.complex);
@@ -387,6 +432,20 @@ describe('Observation Tools', () => {
       expect(mockScreenshotManager.getInstance().storeScreenshot).toHaveBeenCalled();
     });
 
+    it('should record how the screenshot maps onto the page', async () => {
+      const tool = browserScreenshot(mockPage);
+      mockPage.evaluate.mockResolvedValue({
+        width: 1024, height: 768, documentWidth: 1024, scrollX: 0, scrollY: 300, pixelRatio: 2,
+      });
+
+      await tool.func('');
+
+      expect(mockScreenshotManager.getInstance().storeScreenshot).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'image' }),
+        { scale: 2, viewport: { width: 1024, height: 768 }, scroll: { x: 0, y: 300 }, fullPage: false }
+      );
+    });
+
     it('should take full page screenshot when requested', async () => {
       const tool = browserScreenshot(mockPage);
 
@@ -402,6 +461,45 @@ describe('Observation Tools', () => {
       expect(resultObj.note).toContain('full page');
     });
 
+    it('should annotate the screenshot with numbered marks when requested', async () => {
+      const tool = browserScreenshot(mockPage);
+      elementRefsMock.drawElementRefMarks.mockResolvedValue([
+        { ref: 'e14', role: 'button', name: 'Sign in', inScope: true },
+        { ref: 'e15', role: 'textbox', name: '', inScope: true },
+      ]);
+
+      const result = await tool.func('{"annotate": true}');
+
+      expect(elementRefsMock.drawElementRefMarks).toHaveBeenCalledWith(mockPage, false);
+      expect(elementRefsMock.clearElementRefMarks).toHaveBeenCalledWith(mockPage);
+      expect(elementRefsMock.drawElementRefMarks.mock.invocationCallOrder[0])
+        .toBeLessThan(mockPage.screenshot.mock.invocationCallOrder[0]);
+
+      const resultObj = JSON.parse(result);
+      expect(resultObj.note).toContain('annotated');
+      expect(resultObj.legend).toBe('14: ref=e14 button "Sign in"\n15: ref=e15 textbox');
+    });
+
+    it('should remove the marks when the capture fails', async () => {
+      const tool = browserScreenshot(mockPage);
+      mockPage.screenshot.mockRejectedValue(new Error('Screenshot failed'));
+
+      const result = await tool.func('full,annotate');
+
+      expect(result).toContain('Error taking initial screenshot');
+      expect(elementRefsMock.drawElementRefMarks).toHaveBeenCalledWith(mockPage, true);
+      expect(elementRefsMock.clearElementRefMarks).toHaveBeenCalled();
+    });
+
+    it('should not annotate by default', async () => {
+      const tool = browserScreenshot(mockPage);
+
+      const result = await tool.func('');
+
+      expect(elementRefsMock.drawElementRefMarks).not.toHaveBeenCalled();
+      expect(JSON.parse(result).legend).toBeUndefined();
+    });
+
     it('should handle screenshot errors', async () => {
       const tool = browserScreenshot(mockPage);
       mockPage.screenshot.mockRejectedValue(mockErrorScenarios.permissionDenied);
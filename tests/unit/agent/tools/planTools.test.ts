@@ -0,0 +1,62 @@
+import { PlanManager } from '../../../../src/agent/PlanManager';
+import { updatePlan } from '../../../../src/agent/tools/planTools';
+
+describe('Plan Tools', () => {
+  let planManager: PlanManager;
+
+  beforeEach(() => {
+    planManager = new PlanManager();
+  });
+
+  describe('updatePlan', () => {
+    it('should set the plan from a list of steps', async () => {
+      const tool = updatePlan(planManager);
+      const result = await tool.func(JSON.stringify({
+        steps: [
+          { title: 'Open the shop', status: 'done' },
+          { title: 'Log in', status: 'failed', note: ' no account ' },
+          { title: 'Search for shoes' }
+        ]
+      }));
+
+      expect(planManager.getPlan()).toEqual([
+        { title: 'Open the shop', status: 'done' },
+        { title: 'Log in', status: 'failed', note: 'no account' },
+        { title: 'Search for shoes', status: 'pending' }
+      ]);
+      expect(result).toBe('Plan updated:\n1. [done] Open the shop\n2. [failed] Log in (no account)\n3. [pending] Search for shoes');
+    });
+
+    it('should read a plain string as one pending step per line', async () => {
+      const tool = updatePlan(planManager);
+      await tool.func('1. Open the shop\n2) Search for shoes\n\n- Compare prices');
+
+      expect(planManager.getPlan()).toEqual([
+        { title: 'Open the shop', status: 'pending' },
+        { title: 'Search for shoes', status: 'pending' },
+        { title: 'Compare prices', status: 'pending' }
+      ]);
+    });
+
+    it('should reject invalid steps and keep the previous plan', async () => {
+      planManager.setPlan([{ title: 'Open the shop', status: 'pending' }]);
+
+      const tool = updatePlan(planManager);
+      const result = await tool.func(JSON.stringify({
+        steps: [{ title: 'Open the shop', status: 'finished' }, { status: 'done' }]
+      }));
+
+      expect(result).toContain('Error: Invalid plan');
+      expect(result).toContain('step 1: "status" must be one of pending, in_progress, done, failed, skipped');
+      expect(result).toContain('step 2: "title" must be a non-empty string');
+      expect(planManager.getPlan()).toEqual([{ title: 'Open the shop', status: 'pending' }]);
+    });
+
+    it('should reject an empty plan', async () => {
+      const tool = updatePlan(planManager);
+      const result = await tool.func(JSON.stringify({ steps: [] }));
+
+      expect(result).toBe('Error: The plan needs at least one step.');
+    });
+  });
+});
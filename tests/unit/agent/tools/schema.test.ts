@@ -0,0 +1,136 @@
+import { createTool, describeInputSchema, formatInputErrors, parseToolInput } from '../../../../src/agent/tools/schema';
+import { ToolInputSchema } from '../../../../src/agent/tools/types';
+
+describe('Tool input schema', () => {
+  const schema: ToolInputSchema = {
+    type: 'object',
+    properties: {
+      tabIndex: { type: 'integer' },
+      url: { type: 'string' },
+    },
+    required: ['tabIndex', 'url'],
+  };
+
+  describe('parseToolInput', () => {
+    it('should parse named JSON arguments', () => {
+      const { args, errors } = parseToolInput('{"tabIndex": 1, "url": "https://example.com"}', schema);
+
+      expect(errors).toEqual([]);
+      expect(args).toEqual({ tabIndex: 1, url: 'https://example.com' });
+    });
+
+    it('should map plain strings onto the parameters in order', () => {
+      const { args, errors } = parseToolInput(' 2 |https://example.com/?q=a|b', schema);
+
+      expect(errors).toEqual([]);
+      expect(args).toEqual({ tabIndex: 2, url: 'https://example.com/?q=a|b' });
+    });
+
+    it('should pass the whole string to a single parameter', () => {
+      const single: ToolInputSchema = { type: 'object', properties: { text: { type: 'string' } } };
+
+      expect(parseToolInput(' a|b ', single).args).toEqual({ text: ' a|b ' });
+    });
+
+    it('should report missing, mistyped and unknown fields', () => {
+      const { errors } = parseToolInput('{"tabIndex": "one", "href": "x"}', schema);
+
+      expect(errors).toEqual([
+        'tabIndex: expected an integer, got "one"',
+        'href: unknown parameter (expected one of: tabIndex, url)',
+        'url: required string is missing',
+      ]);
+    });
+
+    it('should coerce booleans, arrays and enums', () => {
+      const mixed: ToolInputSchema = {
+        type: 'object',
+        properties: {
+          full: { type: 'boolean' },
+          steps: { type: 'array', items: { type: 'string' } },
+          action: { type: 'string', enum: ['accept', 'dismiss'] },
+        },
+      };
+
+      const { args, errors } = parseToolInput('{"full": "TRUE", "steps": "[\\"a\\"]", "action": " Accept "}', mixed);
+
+      expect(errors).toEqual([]);
+      expect(args).toEqual({ full: true, steps: ['a'], action: 'accept' });
+    });
+
+    it('should apply defaults for missing optional fields', () => {
+      const withDefault: ToolInputSchema = {
+        type: 'object',
+        properties: { strategy: { type: 'string', default: 'all' } },
+      };
+
+      expect(parseToolInput('', withDefault).args).toEqual({ strategy: 'all' });
+    });
+
+    it('should use a tool-specific parser for plain strings', () => {
+      const flags: ToolInputSchema = { type: 'object', properties: { full: { type: 'boolean' } } };
+
+      const { args } = parseToolInput('full', flags, input => ({ full: input === 'full' }));
+
+      expect(args).toEqual({ full: true });
+    });
+  });
+
+  describe('formatInputErrors', () => {
+    it('should list each error with the expected input', () => {
+      expect(formatInputErrors('browser_navigate_tab', schema, ['url: required string is missing'])).toBe(
+        'Error: invalid input for browser_navigate_tab:\n' +
+        '  • url: required string is missing\n' +
+        'Expected input: {"tabIndex": integer, "url": string}'
+      );
+    });
+
+    it('should mark optional fields and list enum values', () => {
+      const dialog: ToolInputSchema = {
+        type: 'object',
+        properties: {
+          action: { type: 'string', enum: ['accept', 'dismiss'] },
+          text: { type: 'string' },
+        },
+        required: ['action'],
+      };
+
+      expect(describeInputSchema(dialog)).toBe('{"action": "accept" | "dismiss", "text"?: string}');
+    });
+
+    it('should spell out the fields of objects in a list', () => {
+      const plan: ToolInputSchema = {
+        type: 'object',
+        properties: {
+          steps: {
+            type: 'array',
+            items: { type: 'object', properties: { title: { type: 'string' }, note: { type: 'string' } }, required: ['title'] },
+          },
+        },
+        required: ['steps'],
+      };
+
+      expect(describeInputSchema(plan)).toBe('{"steps": [{"title": string, "note"?: string}, ...]}');
+    });
+  });
+
+  describe('createTool', () => {
+    it('should run with validated arguments', async () => {
+      const run = jest.fn(async (args: { tabIndex: number; url: string }) => `${args.tabIndex}:${args.url}`);
+      const tool = createTool({ name: 'browser_navigate_tab', description: 'Navigate a tab', inputSchema: schema, run });
+
+      expect(tool.inputSchema).toBe(schema);
+      expect(await tool.func('0|https://example.com')).toBe('0:https://example.com');
+    });
+
+    it('should return field-level errors without running', async () => {
+      const run = jest.fn(async () => 'ran');
+      const tool = createTool({ name: 'browser_navigate_tab', description: 'Navigate a tab', inputSchema: schema, run });
+
+      const result = await tool.func('abc');
+
+      expect(result).toContain('tabIndex: expected an integer, got "abc"');
+      expect(run).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -229,7 +229,7 @@ describe('Tab Tools', () => {
 
       const result = await tool.func('invalid');
 
-      expect(result).toBe('Error: input must be a tab index (integer).');
+      expect(result).toContain('index: expected an integer, got "invalid"');
       expect(mockSetCurrentPage).not.toHaveBeenCalled();
     });
 
@@ -340,7 +340,7 @@ describe('Tab Tools', () => {
 
       const result = await tool.func('invalid');
 
-      expect(result).toBe('Error: invalid tab index.');
+      expect(result).toContain('index: expected an integer, got "invalid"');
       expect(mockPage.close).not.toHaveBeenCalled();
     });
 
@@ -0,0 +1,85 @@
+import { jest } from '@jest/globals';
+import { createMockPage, mockChromeAPIs, mockPageContextManager } from '../../../mocks/playwright';
+
+// Mock dependencies before importing the tools
+jest.mock('../../../../src/agent/PageContextManager', () => mockPageContextManager);
+
+// Mock Chrome APIs
+global.chrome = mockChromeAPIs as any;
+
+// Mock the utils module
+jest.mock('../../../../src/agent/tools/utils', () => ({
+  getCurrentTabId: jest.fn().mockImplementation(() => Promise.resolve(42)),
+}));
+
+// Mock the background utils
+jest.mock('../../../../src/background/utils', () => ({
+  logWithTimestamp: jest.fn(),
+}));
+
+// Mock the approval manager
+const mockRequestUserAnswer = jest.fn() as jest.MockedFunction<any>;
+
+jest.mock('../../../../src/agent/approvalManager', () => ({
+  requestUserAnswer: (...args: any[]) => mockRequestUserAnswer(...args),
+}));
+
+// Import the tools after mocking dependencies
+import { askUser } from '../../../../src/agent/tools/userTools';
+
+describe('User Tools', () => {
+  let mockPage: any;
+
+  beforeEach(() => {
+    mockPage = createMockPage();
+    jest.clearAllMocks();
+  });
+
+  describe('askUser', () => {
+    it('should ask the question with its options and return the answer', async () => {
+      mockRequestUserAnswer.mockResolvedValue('Large');
+
+      const tool = askUser(mockPage);
+      const result = await tool.func(JSON.stringify({ question: 'Which size?', options: ['Small', ' Large ', ''] }));
+
+      expect(mockRequestUserAnswer).toHaveBeenCalledWith(42, 'Which size?', ['Small', 'Large']);
+      expect(result).toBe('User answered: Large');
+    });
+
+    it('should treat a plain string as the question', async () => {
+      mockRequestUserAnswer.mockResolvedValue('Blue, please');
+
+      const tool = askUser(mockPage);
+      const result = await tool.func('Which colour, red or blue?');
+
+      expect(mockRequestUserAnswer).toHaveBeenCalledWith(42, 'Which colour, red or blue?', undefined);
+      expect(result).toBe('User answered: Blue, please');
+    });
+
+    it('should tell the agent when the user skipped the question', async () => {
+      mockRequestUserAnswer.mockResolvedValue(null);
+
+      const tool = askUser(mockPage);
+      const result = await tool.func('Which size?');
+
+      expect(result).toContain('The user did not answer the question');
+    });
+
+    it('should return an error for an empty question', async () => {
+      const tool = askUser(mockPage);
+      const result = await tool.func(JSON.stringify({ question: '   ' }));
+
+      expect(result).toBe('Error: Please provide a question to ask the user.');
+      expect(mockRequestUserAnswer).not.toHaveBeenCalled();
+    });
+
+    it('should handle errors from the approval manager', async () => {
+      mockRequestUserAnswer.mockRejectedValue(new Error('Side panel closed'));
+
+      const tool = askUser(mockPage);
+      const result = await tool.func('Which size?');
+
+      expect(result).toBe('Error asking user: Side panel closed');
+    });
+  });
+});
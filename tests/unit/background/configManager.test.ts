@@ -93,6 +93,9 @@ describe('ConfigManager', () => {
         anthropicModelId: 'claude-3-5-sonnet-20241022',
         anthropicBaseUrl: '',
         thinkingBudgetTokens: 0,
+        contextReserveTokens: 16000,
+        maxSteps: 80,
+        verifyTasks: true,
       });
 
       const config = await configManager.getProviderConfig();
@@ -103,6 +106,9 @@ describe('ConfigManager', () => {
         apiModelId: 'claude-3-5-sonnet-20241022',
         baseUrl: '',
         thinkingBudgetTokens: 0,
+        contextReserveTokens: 16000,
+        maxSteps: 80,
+        verifyTasks: true,
       });
 
       expect(mockChromeStorage.sync.get).toHaveBeenCalledWith({
@@ -120,6 +126,10 @@ describe('ConfigManager', () => {
         ollamaModelId: '',
         ollamaBaseUrl: '',
         thinkingBudgetTokens: 0,
+        reasoningSettings: {},
+        contextReserveTokens: 8000,
+        maxSteps: 50,
+        verifyTasks: false,
         openaiCompatibleApiKey: '',
         openaiCompatibleModelId: '',
         openaiCompatibleBaseUrl: '',
@@ -221,6 +231,23 @@ describe('ConfigManager', () => {
       });
     });
 
+    it('should include the reasoning setting of the selected provider', async () => {
+      mockChromeStorage.sync.get.mockResolvedValue({
+        provider: 'openai',
+        openaiApiKey: 'openai-key',
+        openaiModelId: 'o3',
+        openaiBaseUrl: '',
+        reasoningSettings: {
+          openai: { effort: 'high' },
+          gemini: { effort: 'custom', budgetTokens: 4096 },
+        },
+      });
+
+      const config = await configManager.getProviderConfig();
+
+      expect(config.reasoning).toEqual({ effort: 'high' });
+    });
+
     it('should handle Chrome storage errors', async () => {
       mockChromeStorage.sync.get.mockRejectedValue(new Error('Storage error'));
 
@@ -236,6 +263,112 @@ describe('ConfigManager', () => {
     });
   });
 
+  describe('getFallbackConfigs', () => {
+    it('should return the fallback models in order with their provider settings', async () => {
+      mockChromeStorage.sync.get.mockResolvedValue({
+        provider: 'anthropic',
+        anthropicModelId: 'claude-3-7-sonnet-20250219',
+        fallbackModels: [
+          { provider: 'openai', modelId: 'gpt-4o-mini' },
+          { provider: 'anthropic', modelId: 'claude-3-5-sonnet-20241022' },
+        ],
+        anthropicApiKey: 'anthropic-key',
+        anthropicBaseUrl: '',
+        openaiApiKey: 'openai-key',
+        openaiBaseUrl: 'https://proxy.example.com',
+        thinkingBudgetTokens: 1024,
+      });
+
+      const configs = await configManager.getFallbackConfigs();
+
+      expect(configs).toEqual([
+        { provider: 'openai', apiKey: 'openai-key', apiModelId: 'gpt-4o-mini', baseUrl: 'https://proxy.example.com' },
+        {
+          provider: 'anthropic',
+          apiKey: 'anthropic-key',
+          apiModelId: 'claude-3-5-sonnet-20241022',
+          baseUrl: '',
+          thinkingBudgetTokens: 1024,
+        },
+      ]);
+    });
+
+    it('should leave out the primary model and providers without an API key', async () => {
+      mockChromeStorage.sync.get.mockResolvedValue({
+        provider: 'openai',
+        openaiModelId: 'gpt-4o',
+        fallbackModels: [
+          { provider: 'openai', modelId: 'gpt-4o' },
+          { provider: 'gemini', modelId: 'gemini-1.5-pro' },
+          { provider: 'ollama', modelId: 'llama3.1' },
+        ],
+        openaiApiKey: 'openai-key',
+        geminiApiKey: '',
+        ollamaApiKey: '',
+        ollamaBaseUrl: 'http://localhost:11434',
+      });
+
+      const configs = await configManager.getFallbackConfigs();
+
+      expect(configs).toEqual([
+        { provider: 'ollama', apiKey: '', apiModelId: 'llama3.1', baseUrl: 'http://localhost:11434' },
+      ]);
+    });
+
+    it('should return an empty list when no fallback models are configured', async () => {
+      mockChromeStorage.sync.get.mockResolvedValue({ provider: 'anthropic', fallbackModels: [] });
+
+      expect(await configManager.getFallbackConfigs()).toEqual([]);
+    });
+  });
+
+  describe('getRoleConfigs', () => {
+    it('should return the model chosen for each role with its provider settings', async () => {
+      mockChromeStorage.sync.get.mockResolvedValue({
+        provider: 'anthropic',
+        anthropicModelId: 'claude-3-7-sonnet-20250219',
+        modelRoles: {
+          executor: { provider: 'openai', modelId: 'gpt-4o-mini' },
+          reflection: { provider: 'anthropic', modelId: 'claude-3-5-haiku-20241022' },
+        },
+        anthropicApiKey: 'anthropic-key',
+        anthropicBaseUrl: '',
+        openaiApiKey: 'openai-key',
+        openaiBaseUrl: '',
+        thinkingBudgetTokens: 0,
+        reasoningSettings: { openai: { effort: 'low' } },
+      });
+
+      const configs = await configManager.getRoleConfigs();
+
+      expect(configs).toEqual({
+        executor: { provider: 'openai', apiKey: 'openai-key', apiModelId: 'gpt-4o-mini', baseUrl: '', reasoning: { effort: 'low' } },
+        reflection: {
+          provider: 'anthropic',
+          apiKey: 'anthropic-key',
+          apiModelId: 'claude-3-5-haiku-20241022',
+          baseUrl: '',
+          thinkingBudgetTokens: 0,
+        },
+      });
+    });
+
+    it('should leave out roles set to the primary model or to a provider without an API key', async () => {
+      mockChromeStorage.sync.get.mockResolvedValue({
+        provider: 'openai',
+        openaiModelId: 'gpt-4o',
+        modelRoles: {
+          planner: { provider: 'openai', modelId: 'gpt-4o' },
+          executor: { provider: 'gemini', modelId: 'gemini-1.5-flash' },
+        },
+        openaiApiKey: 'openai-key',
+        geminiApiKey: '',
+      });
+
+      expect(await configManager.getRoleConfigs()).toEqual({});
+    });
+  });
+
   describe('saveProviderConfig', () => {
     it('should save configuration directly', async () => {
       mockChromeStorage.sync.set.mockResolvedValue(undefined);
@@ -0,0 +1,43 @@
+import { startRecording, stopRecording } from '../../../src/background/recordingController';
+
+const mockGetTabState = jest.fn();
+
+jest.mock('../../../src/background/tabManager', () => ({
+  getTabState: (tabId: number) => mockGetTabState(tabId),
+  getWindowForTab: jest.fn(),
+}));
+
+describe('recordingController', () => {
+  const mainFrame = { url: () => 'https://shop.example.com/' };
+  const adFrame = { url: () => 'https://ads.example.net/' };
+  let report: (source: { frame: unknown }, event: unknown) => void;
+
+  beforeEach(() => {
+    const page = {
+      url: () => 'https://shop.example.com/',
+      mainFrame: () => mainFrame,
+      exposeBinding: jest.fn(async (_name: string, callback: typeof report) => {
+        report = callback;
+      }),
+      on: jest.fn(),
+      addInitScript: jest.fn(),
+      evaluate: jest.fn(),
+    };
+    mockGetTabState.mockReturnValue({ page });
+  });
+
+  it('should only record well-formed events from the page itself', async () => {
+    await startRecording(1);
+
+    report({ frame: mainFrame }, { type: 'click', selector: '#buy', time: 0 });
+    report({ frame: adFrame }, { type: 'click', selector: '#ad', time: 0 });
+    report({ frame: mainFrame }, { type: 'navigate', url: 'https://evil.example.org/' });
+    report({ frame: mainFrame }, { type: 'input', selector: '#q', value: { text: 'bees' } });
+    report({ frame: mainFrame }, { type: 'click', selector: 'x'.repeat(10_000) });
+
+    expect(stopRecording(1)?.toolSequence).toEqual([
+      'browser_navigate | https://shop.example.com/',
+      'browser_click | #buy'
+    ]);
+  });
+});
@@ -0,0 +1,51 @@
+import { AnthropicProvider } from '../../../../src/models/providers/anthropic';
+
+const mockCreate = jest.fn();
+
+jest.mock('@anthropic-ai/sdk', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({ messages: { create: mockCreate } })),
+}));
+
+describe('AnthropicProvider', () => {
+  const provider = new AnthropicProvider({ apiKey: 'key', apiModelId: 'claude-3-7-sonnet-20250219' });
+
+  const streamOf = (...events: any[]) => (async function* () {
+    yield* events;
+  })();
+
+  const collect = async () => {
+    const chunks: any[] = [];
+    for await (const chunk of provider.createMessage('system', [{ role: 'user', content: 'Hi' }])) {
+      chunks.push(chunk);
+    }
+    return chunks;
+  };
+
+  it('should emit a tool call once its block is complete', async () => {
+    mockCreate.mockResolvedValue(streamOf(
+      { type: 'content_block_start', index: 0, content_block: { type: 'tool_use', id: 'toolu_1', name: 'browser_click' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'input_json_delta', partial_json: '{"input":' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'input_json_delta', partial_json: '"#buy"}' } },
+      { type: 'content_block_stop', index: 0 }
+    ));
+
+    expect(await collect()).toEqual([
+      { type: 'tool_call', toolCall: { id: 'toolu_1', name: 'browser_click', input: '#buy', requiresApproval: false } }
+    ]);
+  });
+
+  it('should ask the model to try again when a tool call is cut off', async () => {
+    mockCreate.mockResolvedValue(streamOf(
+      { type: 'content_block_start', index: 0, content_block: { type: 'tool_use', id: 'toolu_1', name: 'browser_type' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'input_json_delta', partial_json: '{"selector":"#q","text":"bees and w' } },
+      { type: 'content_block_stop', index: 0 },
+      { type: 'message_delta', delta: { stop_reason: 'max_tokens' }, usage: { output_tokens: 1024 } }
+    ));
+
+    const chunks = await collect();
+
+    expect(chunks).toContainEqual({ type: 'text', text: 'Error: Failed to parse tool call. Please try again.' });
+    expect(chunks.some(chunk => chunk.type === 'tool_call')).toBe(false);
+  });
+});
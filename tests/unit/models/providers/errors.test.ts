@@ -0,0 +1,190 @@
+import {
+  fromAnthropicError,
+  fromGeminiError,
+  fromOllamaError,
+  fromOpenAIError,
+  isLLMError,
+  LLMError,
+  mapStreamErrors,
+  parseRetryAfter,
+  toLLMError
+} from '../../../../src/models/providers/errors';
+
+describe('errors', () => {
+  describe('parseRetryAfter', () => {
+    it('should read a number of seconds', () => {
+      expect(parseRetryAfter({ 'retry-after': '20' })).toBe(20000);
+    });
+
+    it('should prefer retry-after-ms', () => {
+      expect(parseRetryAfter({ 'retry-after-ms': '1500', 'retry-after': '2' })).toBe(1500);
+    });
+
+    it('should read an HTTP date', () => {
+      const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+      expect(parseRetryAfter({ 'Retry-After': 'Wed, 21 Oct 2026 07:28:30 GMT' }, now)).toBe(30000);
+    });
+
+    it('should read a Headers object', () => {
+      expect(parseRetryAfter(new Headers({ 'retry-after': '3' }))).toBe(3000);
+    });
+
+    it('should return undefined when the headers do not say', () => {
+      expect(parseRetryAfter({})).toBeUndefined();
+      expect(parseRetryAfter(undefined)).toBeUndefined();
+      expect(parseRetryAfter({ 'retry-after': 'soon' })).toBeUndefined();
+    });
+  });
+
+  describe('fromAnthropicError', () => {
+    it('should map API errors by their type', () => {
+      const error = fromAnthropicError({
+        status: 529,
+        headers: {},
+        error: { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } },
+        message: '529 Overloaded'
+      });
+
+      expect(error).toBeInstanceOf(LLMError);
+      expect(error.category).toBe('overloaded');
+      expect(error.provider).toBe('anthropic');
+      expect(error.status).toBe(529);
+    });
+
+    it('should honour the retry-after header of a rate limit', () => {
+      const error = fromAnthropicError({
+        status: 429,
+        headers: { 'retry-after': '12' },
+        error: { type: 'error', error: { type: 'rate_limit_error', message: 'Slow down' } }
+      });
+
+      expect(error.category).toBe('rate_limited');
+      expect(error.retryAfterMs).toBe(12000);
+    });
+
+    it('should recognise a prompt that is too long', () => {
+      const error = fromAnthropicError({
+        status: 400,
+        error: { type: 'error', error: { type: 'invalid_request_error' } },
+        message: '400 prompt is too long: 210000 tokens > 200000 maximum'
+      });
+
+      expect(error.category).toBe('context_too_long');
+    });
+
+    it('should keep other invalid requests as such', () => {
+      const error = fromAnthropicError({
+        status: 400,
+        error: { type: 'error', error: { type: 'invalid_request_error' } },
+        message: '400 messages: roles must alternate'
+      });
+
+      expect(error.category).toBe('invalid_request');
+    });
+  });
+
+  describe('fromOpenAIError', () => {
+    it('should map a 429 with its retry-after-ms header', () => {
+      const error = fromOpenAIError({ status: 429, headers: { 'retry-after-ms': '800' }, code: 'rate_limit_exceeded', message: '429 Rate limit reached' });
+
+      expect(error.category).toBe('rate_limited');
+      expect(error.retryAfterMs).toBe(800);
+      expect(error.provider).toBe('openai');
+    });
+
+    it('should map context_length_exceeded', () => {
+      const error = fromOpenAIError({ status: 400, code: 'context_length_exceeded', message: "This model's maximum context length is 128000 tokens" });
+
+      expect(error.category).toBe('context_too_long');
+    });
+
+    it('should treat an exhausted quota like a rejected key', () => {
+      expect(fromOpenAIError({ status: 429, code: 'insufficient_quota' }).category).toBe('auth');
+    });
+
+    it('should map connection errors', () => {
+      const connectionError = Object.assign(new Error('Connection error.'), { name: 'APIConnectionError' });
+
+      expect(fromOpenAIError(connectionError, 'openai-compatible')).toMatchObject({ category: 'network', provider: 'openai-compatible' });
+    });
+  });
+
+  describe('fromGeminiError', () => {
+    it('should read the status and retry delay from the message', () => {
+      const body = {
+        error: {
+          code: 429,
+          message: 'Resource has been exhausted',
+          status: 'RESOURCE_EXHAUSTED',
+          details: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '37s' }]
+        }
+      };
+      const error = fromGeminiError(new Error(`got status: 429 Too Many Requests. ${JSON.stringify(body)}`));
+
+      expect(error.category).toBe('rate_limited');
+      expect(error.status).toBe(429);
+      expect(error.retryAfterMs).toBe(37000);
+      expect(error.message).toBe('Resource has been exhausted');
+    });
+
+    it('should recognise an invalid API key and an oversized request', () => {
+      const invalidKey = { error: { code: 400, message: 'API key not valid. Please pass a valid API key.', status: 'INVALID_ARGUMENT' } };
+      const tooLong = { error: { code: 400, message: 'The input token count (1200000) exceeds the maximum number of tokens allowed (1048576).', status: 'INVALID_ARGUMENT' } };
+
+      expect(fromGeminiError(new Error(`got status: 400 Bad Request. ${JSON.stringify(invalidKey)}`)).category).toBe('auth');
+      expect(fromGeminiError(new Error(`got status: 400 Bad Request. ${JSON.stringify(tooLong)}`)).category).toBe('context_too_long');
+    });
+
+    it('should map server errors', () => {
+      expect(fromGeminiError(new Error('got status: 503 Service Unavailable. {}')).category).toBe('overloaded');
+    });
+  });
+
+  describe('fromOllamaError', () => {
+    it('should map a refused connection', () => {
+      expect(fromOllamaError(new TypeError('Failed to fetch')).category).toBe('network');
+    });
+
+    it('should map response errors by their status code', () => {
+      const error = Object.assign(new Error('model "llama9" not found'), { name: 'ResponseError', status_code: 404 });
+
+      expect(fromOllamaError(error)).toMatchObject({ category: 'invalid_request', status: 404, provider: 'ollama' });
+    });
+  });
+
+  describe('toLLMError', () => {
+    it('should return LLMErrors unchanged', () => {
+      const error = new LLMError('Slow down', { category: 'rate_limited', provider: 'openai' });
+
+      expect(toLLMError(error)).toBe(error);
+    });
+
+    it('should categorize unknown errors as unknown', () => {
+      expect(toLLMError(new Error('Something odd')).category).toBe('unknown');
+      expect(toLLMError(null).category).toBe('unknown');
+    });
+  });
+
+  describe('mapStreamErrors', () => {
+    it('should pass chunks through and map a thrown error', async () => {
+      const stream = (async function* () {
+        yield { type: 'text' as const, text: 'Hello' };
+        throw { status: 429 };
+      })();
+      const chunks: string[] = [];
+
+      let thrown: unknown;
+      try {
+        for await (const chunk of mapStreamErrors(stream, error => fromOpenAIError(error))) {
+          chunks.push(chunk.text!);
+        }
+      } catch (error) {
+        thrown = error;
+      }
+
+      expect(chunks).toEqual(['Hello']);
+      expect(isLLMError(thrown)).toBe(true);
+      expect((thrown as LLMError).category).toBe('rate_limited');
+    });
+  });
+});
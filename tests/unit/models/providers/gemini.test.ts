@@ -0,0 +1,53 @@
+import { PlanManager } from '../../../../src/agent/PlanManager';
+import { getAllTools, updatePlan } from '../../../../src/agent/tools/index';
+import { GeminiProvider } from '../../../../src/models/providers/gemini';
+import { createMockPage } from '../../../mocks/playwright';
+
+const mockGenerateContentStream = jest.fn();
+
+jest.mock('@google/genai', () => ({
+  GoogleGenAI: jest.fn().mockImplementation(() => ({ models: { generateContentStream: mockGenerateContentStream } })),
+}));
+
+jest.mock('../../../../src/background/tabManager', () => ({
+  createNewTab: jest.fn(),
+  getWindowForTab: jest.fn(),
+  getCrxAppForTab: jest.fn(),
+}));
+
+describe('GeminiProvider', () => {
+  beforeEach(() => {
+    mockGenerateContentStream.mockResolvedValue((async function* () {
+      yield { text: 'Done.' };
+    })());
+  });
+
+  it('should declare every tool with properties for each object in its schema', async () => {
+    const provider = new GeminiProvider({ apiKey: 'key', apiModelId: 'gemini-2.0-flash' });
+    const tools = [...getAllTools(createMockPage() as any), updatePlan(new PlanManager())];
+
+    for await (const chunk of provider.createMessage('system', [{ role: 'user', content: 'Hi' }], tools)) {
+      void chunk;
+    }
+
+    const emptyObjects: string[] = [];
+    const visit = (schema: any, path: string) => {
+      if (schema.type === 'OBJECT' && Object.keys(schema.properties ?? {}).length === 0) {
+        emptyObjects.push(path);
+      }
+      for (const [name, property] of Object.entries(schema.properties ?? {})) {
+        visit(property, `${path}.${name}`);
+      }
+      if (schema.items) {
+        visit(schema.items, `${path}[]`);
+      }
+    };
+    const { functionDeclarations } = mockGenerateContentStream.mock.calls[0][0].tools;
+    for (const declaration of functionDeclarations) {
+      visit(declaration.parameters, declaration.name);
+    }
+
+    expect(functionDeclarations.map((declaration: any) => declaration.name)).toContain('update_plan');
+    expect(emptyObjects).toEqual([]);
+  });
+});
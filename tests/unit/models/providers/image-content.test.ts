@@ -0,0 +1,31 @@
+import { isImageBlock, toGeminiParts, toOpenAIContent } from '../../../../src/models/providers/image-content';
+
+describe('image-content', () => {
+  const image = { type: 'image' as const, source: { type: 'base64' as const, media_type: 'image/jpeg', data: 'abc123' } };
+  const content = [{ type: 'text' as const, text: 'Screenshot captured' }, image];
+
+  it('should pass string content through unchanged', () => {
+    expect(toOpenAIContent('hello')).toBe('hello');
+    expect(toGeminiParts('hello')).toEqual([{ text: 'hello' }]);
+  });
+
+  it('should convert images to OpenAI image_url parts', () => {
+    expect(toOpenAIContent(content)).toEqual([
+      { type: 'text', text: 'Screenshot captured' },
+      { type: 'image_url', image_url: { url: 'data:image/jpeg;base64,abc123' } },
+    ]);
+  });
+
+  it('should convert images to Gemini inlineData parts', () => {
+    expect(toGeminiParts(content)).toEqual([
+      { text: 'Screenshot captured' },
+      { inlineData: { mimeType: 'image/jpeg', data: 'abc123' } },
+    ]);
+  });
+
+  it('should recognise base64 image blocks', () => {
+    expect(isImageBlock(image)).toBe(true);
+    expect(isImageBlock({ type: 'text', text: 'hi' })).toBe(false);
+    expect(isImageBlock({ type: 'image', source: { type: 'url', url: 'https://example.com/a.png' } })).toBe(false);
+  });
+});
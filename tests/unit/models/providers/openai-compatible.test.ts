@@ -0,0 +1,53 @@
+import { OpenAICompatibleProvider } from '../../../../src/models/providers/openai-compatible';
+
+const mockCreate = jest.fn();
+
+jest.mock('openai', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({ chat: { completions: { create: mockCreate } } })),
+}));
+
+describe('OpenAICompatibleProvider', () => {
+  const provider = new OpenAICompatibleProvider({
+    apiKey: 'key',
+    apiModelId: 'qwq-32b',
+    baseUrl: 'http://localhost:8000/v1',
+    openaiCompatibleModels: [{ id: 'qwq-32b', name: 'QwQ 32B' }],
+  });
+
+  const streamOf = (...deltas: any[]) => (async function* () {
+    for (const delta of deltas) {
+      yield { choices: [{ delta }] };
+    }
+  })();
+
+  const collect = async () => {
+    const chunks: any[] = [];
+    for await (const chunk of provider.createMessage('system', [{ role: 'user', content: 'Hi' }])) {
+      chunks.push(chunk);
+    }
+    return chunks;
+  };
+
+  beforeEach(() => {
+    mockCreate.mockReset();
+  });
+
+  it('should split <think> blocks in the text into reasoning', async () => {
+    mockCreate.mockResolvedValue(streamOf({ content: '<thi' }, { content: 'nk>Check the page</think>' }, { content: 'Done.' }));
+
+    expect(await collect()).toEqual([
+      { type: 'reasoning', reasoning: 'Check the page' },
+      { type: 'text', text: 'Done.' },
+    ]);
+  });
+
+  it('should stream reasoning_content as reasoning', async () => {
+    mockCreate.mockResolvedValue(streamOf({ reasoning_content: 'Check the page' }, { content: 'Done.' }));
+
+    expect(await collect()).toEqual([
+      { type: 'reasoning', reasoning: 'Check the page' },
+      { type: 'text', text: 'Done.' },
+    ]);
+  });
+});
@@ -0,0 +1,51 @@
+import { REASONING_BUDGETS, isReasoningOn, reasoningBudget, reasoningEffort, resolveReasoning } from '../../../../src/models/providers/reasoning';
+
+describe('reasoning settings', () => {
+  describe('resolveReasoning', () => {
+    it('should prefer the reasoning setting over the older thinking budget', () => {
+      expect(resolveReasoning({ apiKey: 'key', reasoning: { effort: 'off' }, thinkingBudgetTokens: 2000 }))
+        .toEqual({ effort: 'off' });
+    });
+
+    it('should treat the older thinking budget as a custom budget', () => {
+      expect(resolveReasoning({ apiKey: 'key', thinkingBudgetTokens: 2000 }))
+        .toEqual({ effort: 'custom', budgetTokens: 2000 });
+    });
+
+    it('should leave the model default when nothing is set', () => {
+      expect(resolveReasoning({ apiKey: 'key', thinkingBudgetTokens: 0 })).toBeUndefined();
+    });
+  });
+
+  describe('reasoningBudget', () => {
+    it('should give the budget of each preset effort', () => {
+      expect(reasoningBudget({ effort: 'low' })).toBe(REASONING_BUDGETS.low);
+      expect(reasoningBudget({ effort: 'medium' })).toBe(REASONING_BUDGETS.medium);
+      expect(reasoningBudget({ effort: 'high' })).toBe(REASONING_BUDGETS.high);
+    });
+
+    it('should give no budget when reasoning is off or unset', () => {
+      expect(reasoningBudget({ effort: 'off', budgetTokens: 5000 })).toBe(0);
+      expect(reasoningBudget(undefined)).toBe(0);
+      expect(isReasoningOn({ effort: 'custom', budgetTokens: 0 })).toBe(false);
+    });
+
+    it('should cap the budget at the most the model accepts', () => {
+      expect(reasoningBudget({ effort: 'custom', budgetTokens: 50000 }, 24576)).toBe(24576);
+      expect(reasoningBudget({ effort: 'low' }, 24576)).toBe(REASONING_BUDGETS.low);
+    });
+  });
+
+  describe('reasoningEffort', () => {
+    it('should pass preset efforts through', () => {
+      expect(reasoningEffort({ effort: 'high' })).toBe('high');
+      expect(reasoningEffort({ effort: 'off' })).toBeUndefined();
+    });
+
+    it('should map custom budgets to the smallest preset that covers them', () => {
+      expect(reasoningEffort({ effort: 'custom', budgetTokens: 500 })).toBe('low');
+      expect(reasoningEffort({ effort: 'custom', budgetTokens: 4000 })).toBe('medium');
+      expect(reasoningEffort({ effort: 'custom', budgetTokens: 30000 })).toBe('high');
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { ThinkTagParser } from '../../../../src/models/providers/think-tags';
+import { StreamChunk } from '../../../../src/models/providers/types';
+
+// Feed the pieces through a parser and merge adjacent chunks of the same type
+function parse(pieces: string[]): StreamChunk[] {
+  const parser = new ThinkTagParser();
+  const chunks = [...pieces.flatMap(piece => parser.push(piece)), ...parser.flush()];
+  return chunks.reduce<StreamChunk[]>((merged, chunk) => {
+    const last = merged[merged.length - 1];
+    if (last?.type === chunk.type) {
+      if (chunk.type === 'text') last.text += chunk.text!;
+      else last.reasoning += chunk.reasoning!;
+    } else {
+      merged.push({ ...chunk });
+    }
+    return merged;
+  }, []);
+}
+
+describe('ThinkTagParser', () => {
+  it('should split a think block from the answer', () => {
+    expect(parse(['<think>The user wants a screenshot.</think>Taking one now.'])).toEqual([
+      { type: 'reasoning', reasoning: 'The user wants a screenshot.' },
+      { type: 'text', text: 'Taking one now.' },
+    ]);
+  });
+
+  it('should handle tags split across chunks', () => {
+    expect(parse(['<th', 'ink>Plan', 'ning</thi', 'nk>\nDone.'])).toEqual([
+      { type: 'reasoning', reasoning: 'Planning' },
+      { type: 'text', text: '\nDone.' },
+    ]);
+  });
+
+  it('should pass text without think blocks through', () => {
+    expect(parse(['Use <tool>browser_click</tool> then ', 'a < b'])).toEqual([
+      { type: 'text', text: 'Use <tool>browser_click</tool> then a < b' },
+    ]);
+  });
+
+  it('should emit text held back as a possible tag when the stream ends', () => {
+    expect(parse(['The answer is <th'])).toEqual([
+      { type: 'text', text: 'The answer is <th' },
+    ]);
+  });
+
+  it('should treat an unclosed think block as reasoning', () => {
+    expect(parse(['<think>Still thinking'])).toEqual([
+      { type: 'reasoning', reasoning: 'Still thinking' },
+    ]);
+  });
+});
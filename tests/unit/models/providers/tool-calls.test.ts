@@ -0,0 +1,127 @@
+import { collectToolCallDeltas, flushToolCalls, PendingToolCalls, toolCallParameters, toolParameters, toToolCall, toToolCallChunk } from '../../../../src/models/providers/tool-calls';
+
+describe('tool-calls', () => {
+  describe('toToolCall', () => {
+    it('should parse JSON string arguments', () => {
+      const toolCall = toToolCall('browser_click', '{"input":"#submit","requires_approval":true}', 'call_1');
+
+      expect(toolCall).toEqual({
+        id: 'call_1',
+        name: 'browser_click',
+        input: '#submit',
+        requiresApproval: true,
+      });
+    });
+
+    it('should accept already-parsed arguments', () => {
+      const toolCall = toToolCall('browser_navigate', { input: 'https://example.com' });
+
+      expect(toolCall.input).toBe('https://example.com');
+      expect(toolCall.requiresApproval).toBe(false);
+    });
+
+    it('should stringify structured input', () => {
+      const toolCall = toToolCall('save_memory', { input: { domain: 'example.com' } });
+
+      expect(toolCall.input).toBe('{"domain":"example.com"}');
+    });
+
+    it('should pass named arguments through as a JSON object', () => {
+      const toolCall = toToolCall('browser_type', { selector: '#q', text: 'a|b', requires_approval: false });
+
+      expect(toolCall.input).toBe('{"selector":"#q","text":"a|b"}');
+      expect(toolCall.requiresApproval).toBe(false);
+    });
+
+    it('should treat empty arguments as empty input', () => {
+      expect(toToolCall('browser_get_title', '').input).toBe('');
+      expect(toToolCall('browser_get_title', undefined).input).toBe('');
+    });
+
+    it('should use the first of several concatenated JSON objects', () => {
+      const toolCall = toToolCall('browser_click', '{"input":"#a"}{"input":"#b"}');
+
+      expect(toolCall.input).toBe('#a');
+    });
+
+    it('should extract the input from malformed JSON', () => {
+      const toolCall = toToolCall('browser_click', '{"input":"#a", "requires_approval": true,,}');
+
+      expect(toolCall.input).toBe('#a');
+      expect(toolCall.requiresApproval).toBe(true);
+    });
+
+    it('should throw when the arguments cannot be recovered', () => {
+      expect(() => toToolCall('browser_click', '{not json')).toThrow();
+    });
+
+    it('should throw when the arguments are not an object', () => {
+      expect(() => toToolCall('browser_click', 'null')).toThrow('Tool arguments must be a JSON object, got null');
+      expect(() => toToolCall('browser_click', '["#a"]')).toThrow('Tool arguments must be a JSON object');
+      expect(() => toToolCall('browser_click', 42)).toThrow('Tool arguments must be a JSON object, got 42');
+    });
+  });
+
+  describe('toToolCallChunk', () => {
+    it('should emit a tool_call chunk for valid arguments', () => {
+      expect(toToolCallChunk('browser_click', '{"input":"#a"}', 'call_1')).toEqual({
+        type: 'tool_call',
+        toolCall: { id: 'call_1', name: 'browser_click', input: '#a', requiresApproval: false }
+      });
+    });
+
+    it('should emit an error text chunk for truncated or non-object arguments', () => {
+      const error = { type: 'text', text: 'Error: Failed to parse tool call. Please try again.' };
+
+      expect(toToolCallChunk('browser_type', '{"selector":"#q","text":"bees and w')).toEqual(error);
+      expect(toToolCallChunk('browser_type', '[1, 2]')).toEqual(error);
+    });
+  });
+
+  describe('toolParameters', () => {
+    it('should fall back to the generic string input', () => {
+      expect(toolParameters({})).toBe(toolCallParameters);
+    });
+
+    it('should add requires_approval to the tool input schema', () => {
+      const parameters = toolParameters({
+        inputSchema: {
+          type: 'object',
+          properties: { url: { type: 'string' } },
+          required: ['url'],
+        },
+      });
+
+      expect(parameters.required).toEqual(['url']);
+      expect(Object.keys(parameters.properties)).toEqual(['url', 'requires_approval']);
+    });
+  });
+
+  describe('collectToolCallDeltas / flushToolCalls', () => {
+    it('should assemble streamed fragments into tool_call chunks', () => {
+      const pending: PendingToolCalls = new Map();
+
+      collectToolCallDeltas(pending, [{ index: 0, id: 'call_1', function: { name: 'browser_click', arguments: '{"inp' } }]);
+      collectToolCallDeltas(pending, [{ index: 0, function: { arguments: 'ut":"#go"}' } }]);
+
+      const chunks = [...flushToolCalls(pending)];
+
+      expect(chunks).toEqual([
+        {
+          type: 'tool_call',
+          toolCall: { id: 'call_1', name: 'browser_click', input: '#go', requiresApproval: false },
+        },
+      ]);
+      expect(pending.size).toBe(0);
+    });
+
+    it('should emit an error text chunk for unparseable arguments', () => {
+      const pending: PendingToolCalls = new Map();
+      collectToolCallDeltas(pending, [{ index: 0, function: { name: 'browser_click', arguments: '{broken' } }]);
+
+      const chunks = [...flushToolCalls(pending)];
+
+      expect(chunks).toEqual([{ type: 'text', text: 'Error: Failed to parse tool call. Please try again.' }]);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { TokenTrackingService, TrackedModel } from '../../../src/tracking/tokenTrackingService';
+
+jest.mock('../../../src/background/configManager', () => ({
+  ConfigManager: {
+    getInstance: jest.fn().mockReturnValue({
+      getProviderConfig: jest.fn().mockResolvedValue({ provider: 'anthropic', apiKey: '', apiModelId: 'claude-3-7-sonnet-20250219' }),
+    }),
+  },
+}));
+
+describe('TokenTrackingService', () => {
+  let tokenTracker: TokenTrackingService;
+
+  const cheapModel: TrackedModel = { id: 'cheap-model', name: 'Cheap Model', inputPrice: 1, outputPrice: 2 };
+  const largeModel: TrackedModel = { id: 'large-model', name: 'Large Model', inputPrice: 10, outputPrice: 20 };
+
+  beforeEach(() => {
+    tokenTracker = TokenTrackingService.getInstance();
+    tokenTracker.updateProviderAndModel('anthropic', 'claude-3-7-sonnet-20250219');
+    tokenTracker.reset();
+  });
+
+  it('should price tokens at the current model by default', () => {
+    tokenTracker.trackInputTokens(1_000_000);
+    tokenTracker.trackOutputTokens(1_000_000);
+
+    const usage = tokenTracker.getUsage();
+    expect(usage.cost).toBeCloseTo(18);
+    expect(usage.byModel).toBeUndefined();
+  });
+
+  it('should price tokens at the rates of the model they were used with', () => {
+    tokenTracker.trackInputTokens(1_000_000, { read: 1_000_000 }, undefined, cheapModel);
+    tokenTracker.trackOutputTokens(1_000_000, undefined, largeModel);
+    tokenTracker.trackOutputTokens(1_000_000);
+
+    const usage = tokenTracker.getUsage();
+    expect(usage.inputTokens).toBe(2_000_000);
+    expect(usage.outputTokens).toBe(2_000_000);
+    expect(usage.cost).toBeCloseTo(2 + 20 + 15);
+    expect(usage.byModel).toEqual([
+      { modelId: 'cheap-model', name: 'Cheap Model', inputTokens: 2_000_000, outputTokens: 0, cost: 2 },
+      { modelId: 'large-model', name: 'Large Model', inputTokens: 0, outputTokens: 1_000_000, cost: 20 },
+    ]);
+  });
+
+  it('should keep the price of attributed tokens when the selected model changes', () => {
+    tokenTracker.trackInputTokens(1_000_000, undefined, undefined, largeModel);
+    tokenTracker.updateProviderAndModel('openai', 'gpt-4o');
+
+    expect(tokenTracker.getUsage().cost).toBeCloseTo(10);
+  });
+
+  it('should price output at the thinking rate while reasoning is on', () => {
+    const thinkingModel: TrackedModel = { ...cheapModel, thinkingOutputPrice: 5, reasoning: true };
+    tokenTracker.trackOutputTokens(1_000_000, undefined, thinkingModel);
+
+    expect(tokenTracker.getUsage().cost).toBeCloseTo(5);
+  });
+
+  it('should price output at the thinking rate of the current model when its reasoning is on', () => {
+    tokenTracker.updateProviderAndModel('gemini', 'gemini-2.5-flash-preview-05-20', undefined, { effort: 'low' });
+    tokenTracker.trackOutputTokens(1_000_000);
+    expect(tokenTracker.getUsage().cost).toBeCloseTo(3.5);
+
+    tokenTracker.updateProviderAndModel('gemini', 'gemini-2.5-flash-preview-05-20', undefined, { effort: 'off' });
+    expect(tokenTracker.getUsage().cost).toBeCloseTo(0.6);
+  });
+
+  it('should clear the usage of each model on reset', () => {
+    tokenTracker.trackInputTokens(1000, undefined, undefined, cheapModel);
+    tokenTracker.reset();
+
+    expect(tokenTracker.getUsage()).toEqual({ inputTokens: 0, outputTokens: 0, cost: 0 });
+  });
+});